@@ -175,6 +175,8 @@ interface Position {
   leverage: number
   margin: number
   liquidationPrice: number
+  liquidationDistancePercent: number | null
+  fundingRate: number | null
   unrealizedPnl: number
   status: "winning" | "losing" | "neutral"
 }
@@ -285,6 +287,8 @@ export default function AgentDetailPage() {
               leverage: p.leverage,
               margin: p.initialMargin,
               liquidationPrice: p.liquidationPrice,
+              liquidationDistancePercent: p.liquidationDistancePercent ?? null,
+              fundingRate: p.fundingRate ?? null,
               unrealizedPnl: p.unrealizedProfit,
               status:
                 p.unrealizedProfit > 0 ? "winning" : p.unrealizedProfit < 0 ? "losing" : "neutral",
@@ -619,6 +623,16 @@ export default function AgentDetailPage() {
                   <div>
                     <span className="text-gray-600">Liquidation Price:</span> ${position.liquidationPrice}
                   </div>
+                  <div>
+                    <span className="text-gray-600">Distance to Liquidation:</span>{" "}
+                    <span className={position.liquidationDistancePercent !== null && position.liquidationDistancePercent < 10 ? "text-red-600" : ""}>
+                      {position.liquidationDistancePercent !== null ? `${position.liquidationDistancePercent.toFixed(2)}%` : "N/A"}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Funding Rate:</span>{" "}
+                    {position.fundingRate !== null ? `${(position.fundingRate * 100).toFixed(4)}%` : "N/A"}
+                  </div>
                   <div>how
                     <span className="text-gray-600">Unrealized P&L:</span>{" "}
                     <span className={position.unrealizedPnl < 0 ? "text-red-600" : "text-green-600"}>
@@ -1,19 +1,58 @@
 /**
  * POST /api/aster/battle
- * Simulate a 1v1 agent battle with market scenario
+ * Simulate a 1v1 agent battle on a seeded price path
+ * Body: { agent1Id, agent2Id, scenario, seed?, steps?, symbol? } for a new battle,
+ * or { replayId } to replay a stored battle from its seed and recorded decisions
+ * scenario is a built-in scenario or the slug of an active custom scenario
+ * (GET /api/aster/battle/scenarios); custom scenarios fix their own symbol and steps
+ *
+ * GET /api/aster/battle?id=<battleId>
+ * Stored battle record (config, decisions and result)
  */
 
 import { NextRequest, NextResponse } from "next/server"
-import { simulateAgentBattle, BattleScenario } from "@/lib/agent-battle"
-import { getAllAgents } from "@/lib/constants/agents"
+import {
+  simulateAgentBattle,
+  runBattle,
+  getBattleAgent,
+  randomBattleSeed,
+  BattleResult,
+  BattleScenario,
+  BattleSymbol,
+  BattleConfig,
+  BattleDecision,
+  BATTLE_SCENARIOS,
+  BATTLE_SYMBOLS,
+  MAX_BATTLE_STEPS,
+} from "@/lib/agent-battle"
 import { MarketContext } from "@/lib/chat-engine"
+import { saveAgentBattle, getAgentBattle, getBattleScenario, BattleScenarioRecord } from "@/lib/supabase-client"
+import { historicalBattleConfig } from "@/lib/battle-scenarios"
 
-export const maxDuration = 60 // Allow 60 seconds for battle
+export const maxDuration = 120 // One LLM round per step for both agents
+
+export async function GET(request: NextRequest) {
+  const id = Number(request.nextUrl.searchParams.get("id"))
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "Missing or invalid id" }, { status: 400 })
+  }
+
+  const battle = await getAgentBattle(id)
+  if (!battle) {
+    return NextResponse.json({ error: "Battle not found" }, { status: 404 })
+  }
+
+  return NextResponse.json(battle)
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { agent1Id, agent2Id, scenario } = body
+    const { agent1Id, agent2Id, scenario, seed, steps, symbol, replayId } = body
+
+    if (replayId !== undefined) {
+      return replayBattle(Number(replayId))
+    }
 
     // Validate inputs
     if (!agent1Id || !agent2Id || !scenario) {
@@ -30,10 +69,41 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    let customScenario: BattleScenarioRecord | null = null
+    if (!BATTLE_SCENARIOS.includes(scenario)) {
+      customScenario = await getBattleScenario(String(scenario))
+      if (!customScenario || !customScenario.active) {
+        return NextResponse.json(
+          { error: `Invalid scenario. Must be one of: ${BATTLE_SCENARIOS.join(", ")} or an active custom scenario` },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (symbol !== undefined && !BATTLE_SYMBOLS.includes(symbol)) {
+      return NextResponse.json(
+        { error: `Invalid symbol. Must be one of: ${BATTLE_SYMBOLS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff)) {
+      return NextResponse.json(
+        { error: "seed must be an integer between 0 and 4294967295" },
+        { status: 400 }
+      )
+    }
+
+    if (steps !== undefined && (!Number.isInteger(steps) || steps < 2 || steps > MAX_BATTLE_STEPS)) {
+      return NextResponse.json(
+        { error: `steps must be an integer between 2 and ${MAX_BATTLE_STEPS}` },
+        { status: 400 }
+      )
+    }
+
     // Get agents
-    const agents = getAllAgents()
-    const agent1 = agents.find((a) => a.id === agent1Id)
-    const agent2 = agents.find((a) => a.id === agent2Id)
+    const agent1 = getBattleAgent(agent1Id)
+    const agent2 = getBattleAgent(agent2Id)
 
     if (!agent1 || !agent2) {
       return NextResponse.json(
@@ -42,53 +112,60 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Get current market prices for context
-    try {
-      const pricesRes = await fetch(
-        `${process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000"}/api/market/prices`,
-        { cache: "no-store" }
-      )
-
-      if (!pricesRes.ok) throw new Error("Failed to fetch market prices")
+    console.log(
+      `[Battle] Starting ${agent1.name} vs ${agent2.name} - Scenario: ${customScenario ? customScenario.name : scenario}`
+    )
 
-      const marketContext: MarketContext = await pricesRes.json()
+    let result: BattleResult
+    if (customScenario) {
+      // Historical episode: trade the recorded candles
+      result = await runBattle(agent1, agent2, historicalBattleConfig(customScenario, seed ?? randomBattleSeed()))
+    } else {
+      // Get current market prices for context
+      try {
+        const pricesRes = await fetch(
+          `${process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000"}/api/market/prices`,
+          { cache: "no-store" }
+        )
 
-      // Simulate battle
-      console.log(
-        `[Battle] Starting ${agent1.name} vs ${agent2.name} - Scenario: ${scenario}`
-      )
+        if (!pricesRes.ok) throw new Error("Failed to fetch market prices")
 
-      const result = await simulateAgentBattle(
-        {
-          id: agent1.id,
-          name: agent1.name,
-          model: agent1.model,
-          pnl: 0,
-          roi: 0,
-          recentTrades: 0,
-        },
-        {
-          id: agent2.id,
-          name: agent2.name,
-          model: agent2.model,
-          pnl: 0,
-          roi: 0,
-          recentTrades: 0,
-        },
-        marketContext,
-        scenario as BattleScenario
-      )
+        const marketContext: MarketContext = await pricesRes.json()
 
-      console.log(`[Battle] ✅ Complete: ${result.winnerName} wins`)
+        // Simulate battle
+        result = await simulateAgentBattle(agent1, agent2, marketContext, scenario as BattleScenario, {
+          seed,
+          steps,
+          symbol: symbol as BattleSymbol | undefined,
+        })
+      } catch (error) {
+        console.error("[Battle] Market fetch error:", error)
+        return NextResponse.json(
+          { error: "Failed to fetch market prices for battle context" },
+          { status: 500 }
+        )
+      }
+    }
 
-      return NextResponse.json(result)
-    } catch (error) {
-      console.error("[Battle] Market fetch error:", error)
-      return NextResponse.json(
-        { error: "Failed to fetch market prices for battle context" },
-        { status: 500 }
-      )
+    // Store seed, config and decisions so the battle can be replayed exactly
+    const battleId = await saveAgentBattle({
+      agent1_id: result.agent1Id,
+      agent2_id: result.agent2Id,
+      scenario: result.scenario,
+      seed: result.seed,
+      config: result.config,
+      decisions: { agent1: result.agent1Decisions, agent2: result.agent2Decisions },
+      result,
+      winner_id: result.winnerId,
+    })
+    // Not rated: the caller picks the seed, so only tournament bouts move Elo ratings
+    if (battleId !== null) {
+      result.battleId = battleId
     }
+
+    console.log(`[Battle] ✅ Complete: ${result.winnerName} wins (seed ${result.seed}${battleId !== null ? `, battle #${battleId}` : ""})`)
+
+    return NextResponse.json(result)
   } catch (error) {
     console.error("[Battle] Error:", error)
     return NextResponse.json(
@@ -96,4 +173,42 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Re-run a stored battle from its seed and recorded decisions (no LLM calls)
+ */
+async function replayBattle(battleId: number) {
+  if (!Number.isInteger(battleId) || battleId <= 0) {
+    return NextResponse.json({ error: "Invalid replayId" }, { status: 400 })
+  }
+
+  const battle = await getAgentBattle(battleId)
+  if (!battle) {
+    return NextResponse.json({ error: "Battle not found" }, { status: 404 })
+  }
+
+  const agent1 = getBattleAgent(battle.agent1_id)
+  const agent2 = getBattleAgent(battle.agent2_id)
+  if (!agent1 || !agent2) {
+    return NextResponse.json({ error: "One or both agents not found" }, { status: 404 })
+  }
+
+  const decisions = battle.decisions as { agent1: BattleDecision[]; agent2: BattleDecision[] }
+  const result = await runBattle(agent1, agent2, battle.config as BattleConfig, decisions)
+  result.battleId = battleId
+
+  const original = battle.result
+  const matchesOriginal = !original || (
+    original.winnerId === result.winnerId &&
+    original.agent1Performance?.finalEquity === result.agent1Performance.finalEquity &&
+    original.agent2Performance?.finalEquity === result.agent2Performance.finalEquity
+  )
+  if (!matchesOriginal) {
+    console.warn(`[Battle] ⚠️ Replay of battle #${battleId} diverged from the stored result`)
+  }
+
+  console.log(`[Battle] 🔁 Replayed battle #${battleId}: ${result.winnerName} wins`)
+
+  return NextResponse.json({ ...result, matchesOriginal })
+}
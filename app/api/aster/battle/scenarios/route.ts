@@ -0,0 +1,34 @@
+/**
+ * GET /api/aster/battle/scenarios
+ * Scenarios available in the battle arena: the built-in ones and the active custom
+ * scenarios curated in Pickaboo (historical episodes, listed without their candles)
+ */
+
+import { NextResponse } from "next/server"
+import { BATTLE_SCENARIOS } from "@/lib/agent-battle"
+import { getBattleScenarios } from "@/lib/supabase-client"
+
+export async function GET() {
+  try {
+    const custom = await getBattleScenarios()
+
+    return NextResponse.json({
+      builtIn: BATTLE_SCENARIOS,
+      custom: custom.map((s) => ({
+        slug: s.slug,
+        name: s.name,
+        description: s.description,
+        symbol: s.symbol,
+        interval: s.interval,
+        start_time: s.start_time,
+        end_time: s.end_time,
+      })),
+    })
+  } catch (error) {
+    console.error("[Battle] Scenarios error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch battle scenarios" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,13 @@
 /**
  * GET /api/aster/positions?agentId=<id>
  * Fetch agent open positions from Aster
+ * Each position includes its distance to liquidation and the symbol's current funding rate
  */
 
 import { AsterClient } from "@/lib/aster-client"
 import { getCache, setCache, CACHE_KEYS } from "@/lib/redis-client"
 import { getAgentCredentials } from "@/lib/constants/agents"
+import { calculateLiquidationDistance } from "@/lib/risk-metrics"
 import { NextRequest, NextResponse } from "next/server"
 
 export async function GET(request: NextRequest) {
@@ -69,10 +71,48 @@ export async function GET(request: NextRequest) {
     const activePositions = positionsData.positions.filter((p) => p.positionAmt !== 0)
     console.log(`[Positions API] ✅ After filtering: ${activePositions.length} active positions for ${agentId}`)
 
+    // /account can report 0 for liquidation and mark price; /positionRisk has both
+    let positionRisk: any[] = []
+    if (activePositions.some((p) => !p.liquidationPrice || !p.markPrice)) {
+      try {
+        positionRisk = await client.getPositionRisk()
+      } catch (error) {
+        console.warn(`[Positions API] ⚠️ Could not fetch position risk for ${agentId}:`, error)
+      }
+    }
+
+    const enrichedPositions = await Promise.all(
+      activePositions.map(async (p) => {
+        const risk = positionRisk.find((r) => r.symbol === p.symbol && parseFloat(r.positionAmt) !== 0)
+        const liquidationPrice = p.liquidationPrice || parseFloat(risk?.liquidationPrice) || 0
+        let markPrice = p.markPrice || parseFloat(risk?.markPrice) || 0
+        let fundingRate: number | null = null
+        let nextFundingTime: number | null = null
+
+        try {
+          const premium = await client.getPremiumIndex(p.symbol)
+          markPrice = markPrice || premium.markPrice
+          fundingRate = premium.lastFundingRate
+          nextFundingTime = premium.nextFundingTime
+        } catch (error) {
+          console.warn(`[Positions API] ⚠️ Could not fetch funding for ${p.symbol}:`, error)
+        }
+
+        return {
+          ...p,
+          liquidationPrice,
+          markPrice,
+          liquidationDistancePercent: calculateLiquidationDistance(markPrice, liquidationPrice),
+          fundingRate,
+          nextFundingTime,
+        }
+      })
+    )
+
     // Cache for 5 seconds
-    await setCache(cacheKey, activePositions, { ttl: 5 })
+    await setCache(cacheKey, enrichedPositions, { ttl: 5 })
 
-    return NextResponse.json(activePositions)
+    return NextResponse.json(enrichedPositions)
   } catch (error) {
     console.error("[Positions API] Error fetching positions:", error)
     const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
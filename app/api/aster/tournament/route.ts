@@ -0,0 +1,259 @@
+/**
+ * /api/aster/tournament
+ * Round-robin battle tournaments and Elo ratings per agent and scenario
+ *
+ * GET                              recent tournaments
+ * GET ?id=<tournamentId>           schedule, standings and progress
+ * GET ?view=ratings                Elo leaderboard (per scenario and overall)
+ * GET ?view=history                stored bouts (&agent_id=&scenario=&tournament_id=&limit=)
+ *
+ * POST (Pickaboo operator or owner session required, bouts call the agents' LLM providers)
+ *   { action: "create", agentIds?, scenarios?, rounds?, seed?, steps?, symbol? }
+ *   { action: "run", tournamentId, maxMatches? }  run the next pending bouts
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import {
+  getBattleAgent,
+  randomBattleSeed,
+  BATTLE_SCENARIOS,
+  BATTLE_SYMBOLS,
+  DEFAULT_BATTLE_STEPS,
+  MAX_BATTLE_STEPS,
+  BattleScenario,
+  BattleSymbol,
+} from "@/lib/agent-battle"
+import {
+  buildRoundRobinSchedule,
+  computeStandings,
+  runTournamentBatch,
+  OVERALL_RATING,
+  TournamentConfig,
+  TournamentMatch,
+} from "@/lib/battle-tournament"
+import {
+  supabase,
+  getAgentRatings,
+  getAgentBattles,
+  createBattleTournament,
+  getBattleTournament,
+  getBattleTournaments,
+} from "@/lib/supabase-client"
+import { AgentData, MarketContext } from "@/lib/chat-engine"
+import { getAllAgents } from "@/lib/constants/agents"
+import { requirePickabooAdmin } from "@/lib/pickaboo-auth"
+import { recordAdminAction } from "@/lib/admin-audit"
+
+export const maxDuration = 60 // vercel.json caps app/api/** at 60s
+
+const MAX_ROUNDS = 20
+const MAX_MATCHES_PER_RUN = 2 // A bout makes one LLM round per step, so only a couple fit in maxDuration
+
+function notConfigured() {
+  return NextResponse.json(
+    {
+      error: "Tournaments are not available. Configure SUPABASE_URL and SUPABASE_SERVICE_KEY to enable.",
+      setup_instruction: "Set SUPABASE_URL and SUPABASE_SERVICE_KEY and run supabase-migrations-agent-integration.sql",
+    },
+    { status: 503 }
+  )
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!supabase) return notConfigured()
+
+    const { searchParams } = request.nextUrl
+    const id = searchParams.get("id")
+    const view = searchParams.get("view")
+
+    if (id) {
+      const tournament = await getBattleTournament(Number(id))
+      if (!tournament) {
+        return NextResponse.json({ error: "Tournament not found" }, { status: 404 })
+      }
+
+      const matches = tournament.matches as TournamentMatch[]
+      return NextResponse.json({
+        tournament,
+        standings: computeStandings(tournament.config as TournamentConfig, matches),
+        progress: { played: tournament.next_match, total: matches.length },
+      })
+    }
+
+    if (view === "ratings") {
+      const ratings = await getAgentRatings()
+      // Custom scenarios that have been battled on get their own columns
+      const builtIn: string[] = [OVERALL_RATING, ...BATTLE_SCENARIOS]
+      const custom = Array.from(new Set(ratings.map((r) => r.scenario))).filter((s) => !builtIn.includes(s))
+      return NextResponse.json({
+        ratings,
+        scenarios: [...builtIn, ...custom],
+      })
+    }
+
+    if (view === "history") {
+      const battles = await getAgentBattles({
+        tournamentId: searchParams.get("tournament_id") ? Number(searchParams.get("tournament_id")) : undefined,
+        agentId: searchParams.get("agent_id") || undefined,
+        scenario: searchParams.get("scenario") || undefined,
+        limit: Math.min(Number(searchParams.get("limit")) || 50, 500),
+      })
+      return NextResponse.json({ battles })
+    }
+
+    return NextResponse.json({ tournaments: await getBattleTournaments() })
+  } catch (error) {
+    console.error("[Tournament] Error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch tournaments" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { session, denied } = await requirePickabooAdmin(request, "operate")
+    if (denied) return denied
+
+    const body = await request.json()
+    const { action } = body
+
+    if (!action) {
+      return NextResponse.json({ error: "Missing required field: action" }, { status: 400 })
+    }
+
+    if (!supabase) return notConfigured()
+
+    if (action === "create") return createTournament(request, body, session.wallet)
+    if (action === "run") return runTournament(request, body, session.wallet)
+
+    return NextResponse.json({ error: 'Invalid action. Must be "create" or "run"' }, { status: 400 })
+  } catch (error) {
+    console.error("[Tournament] Error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Tournament request failed" },
+      { status: 500 }
+    )
+  }
+}
+
+async function createTournament(request: NextRequest, body: any, wallet: string) {
+  const agentIds: string[] = body.agentIds || getAllAgents().map((a) => a.id)
+  const scenarios: BattleScenario[] = body.scenarios || BATTLE_SCENARIOS
+  const rounds = body.rounds ?? 1
+  const steps = body.steps ?? DEFAULT_BATTLE_STEPS
+  const symbol: BattleSymbol = body.symbol || "BTC"
+  const seed = body.seed ?? randomBattleSeed()
+
+  const unknownAgents = agentIds.filter((agentId) => !getBattleAgent(agentId))
+  if (agentIds.length < 2 || new Set(agentIds).size !== agentIds.length || unknownAgents.length > 0) {
+    return NextResponse.json(
+      { error: `agentIds must list at least 2 distinct agents${unknownAgents.length > 0 ? ` (unknown: ${unknownAgents.join(", ")})` : ""}` },
+      { status: 400 }
+    )
+  }
+  if (scenarios.length === 0 || scenarios.some((s) => !BATTLE_SCENARIOS.includes(s))) {
+    return NextResponse.json(
+      { error: `scenarios must be a non-empty list of: ${BATTLE_SCENARIOS.join(", ")}` },
+      { status: 400 }
+    )
+  }
+  if (!Number.isInteger(rounds) || rounds < 1 || rounds > MAX_ROUNDS) {
+    return NextResponse.json({ error: `rounds must be an integer between 1 and ${MAX_ROUNDS}` }, { status: 400 })
+  }
+  if (!Number.isInteger(steps) || steps < 2 || steps > MAX_BATTLE_STEPS) {
+    return NextResponse.json({ error: `steps must be an integer between 2 and ${MAX_BATTLE_STEPS}` }, { status: 400 })
+  }
+  if (!BATTLE_SYMBOLS.includes(symbol)) {
+    return NextResponse.json({ error: `Invalid symbol. Must be one of: ${BATTLE_SYMBOLS.join(", ")}` }, { status: 400 })
+  }
+  if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+    return NextResponse.json({ error: "seed must be an integer between 0 and 4294967295" }, { status: 400 })
+  }
+
+  // Snapshot the starting price so every bout in the tournament starts from the same market
+  const pricesRes = await fetch(
+    `${process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000"}/api/market/prices`,
+    { cache: "no-store" }
+  )
+  if (!pricesRes.ok) {
+    return NextResponse.json({ error: "Failed to fetch market prices for tournament" }, { status: 500 })
+  }
+  const marketContext: MarketContext = await pricesRes.json()
+  const initialPrice = Number(marketContext[symbol])
+  if (!Number.isFinite(initialPrice) || initialPrice <= 0) {
+    return NextResponse.json({ error: `No market price for ${symbol}` }, { status: 500 })
+  }
+
+  const config: TournamentConfig = { agentIds, scenarios, rounds, seed, steps, symbol, initialPrice }
+  const tournament = await createBattleTournament({
+    format: "round_robin",
+    status: "pending",
+    config,
+    matches: buildRoundRobinSchedule(config),
+    next_match: 0,
+    created_by: wallet,
+  })
+
+  if (!tournament) {
+    return NextResponse.json({ error: "Failed to create tournament" }, { status: 500 })
+  }
+
+  console.log(`[Tournament] Created #${tournament.id}: ${agentIds.length} agents, ${scenarios.length} scenarios, ${tournament.matches.length} bouts`)
+
+  await recordAdminAction(request, {
+    action: "tournament.create",
+    actor: wallet,
+    after: { id: tournament.id, ...config, bouts: tournament.matches.length },
+  })
+
+  return NextResponse.json({
+    success: true,
+    tournament,
+    progress: { played: 0, total: tournament.matches.length },
+  })
+}
+
+async function runTournament(request: NextRequest, body: any, wallet: string) {
+  const tournamentId = Number(body.tournamentId)
+  const maxMatches = Math.min(Math.max(Number(body.maxMatches) || 1, 1), MAX_MATCHES_PER_RUN)
+
+  const tournament = await getBattleTournament(tournamentId)
+  if (!tournament) {
+    return NextResponse.json({ error: "Tournament not found" }, { status: 404 })
+  }
+  if (tournament.status === "completed") {
+    return NextResponse.json({ error: "Tournament already completed" }, { status: 400 })
+  }
+
+  const config = tournament.config as TournamentConfig
+  const agents: Record<string, AgentData> = {}
+  for (const agentId of config.agentIds) {
+    const agent = getBattleAgent(agentId)
+    if (!agent) {
+      return NextResponse.json({ error: `Unknown agent: ${agentId}` }, { status: 404 })
+    }
+    agents[agentId] = agent
+  }
+
+  const { played, tournament: updated } = await runTournamentBatch(tournament, agents, maxMatches)
+  const matches = updated.matches as TournamentMatch[]
+
+  await recordAdminAction(request, {
+    action: "tournament.run",
+    actor: wallet,
+    before: { id: tournamentId, status: tournament.status, next_match: tournament.next_match },
+    after: { id: tournamentId, status: updated.status, next_match: updated.next_match },
+    details: { played },
+  })
+
+  return NextResponse.json({
+    success: true,
+    played,
+    status: updated.status,
+    progress: { played: updated.next_match, total: matches.length },
+    standings: computeStandings(config, matches),
+  })
+}
@@ -2,46 +2,30 @@
  * Clear Chat Messages Endpoint
  * Clears all stored chat messages from Redis
  * Allows model chats to start fresh
+ * Requires an operator session or Authorization: Bearer CRON_SECRET
  */
 
 import { NextRequest, NextResponse } from "next/server"
 import { deleteCache, CACHE_KEYS } from "@/lib/redis-client"
+import { recordAdminAction } from "@/lib/admin-audit"
+import { requirePickabooAdmin } from "@/lib/pickaboo-auth"
 
 export async function POST(request: NextRequest) {
   try {
-    const cacheKey = CACHE_KEYS.market("chat:messages")
-    
-    console.log(`[Chat/Clear] Clearing chat messages from Redis: ${cacheKey}`)
-    
-    await deleteCache(cacheKey)
-    
-    console.log(`[Chat/Clear] Successfully cleared chat messages`)
-    
-    return NextResponse.json({
-      success: true,
-      message: "Chat messages cleared. Model chats will start fresh.",
-      clearedKey: cacheKey,
-      timestamp: new Date().toISOString(),
-    })
-  } catch (error) {
-    console.error("[Chat/Clear] Error clearing chat messages:", error)
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 }
-    )
-  }
-}
+    const cronSecret = process.env.CRON_SECRET
+    let actor = "cron"
+    if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      const { session, denied } = await requirePickabooAdmin(request, "operate")
+      if (denied) return denied
+      actor = session.wallet
+    }
 
-export async function GET(request: NextRequest) {
-  try {
     const cacheKey = CACHE_KEYS.market("chat:messages")
     
     console.log(`[Chat/Clear] Clearing chat messages from Redis: ${cacheKey}`)
     
     await deleteCache(cacheKey)
+    await recordAdminAction(request, { action: "chat.clear", actor, details: { cache_key: cacheKey } })
     
     console.log(`[Chat/Clear] Successfully cleared chat messages`)
     
@@ -61,4 +45,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -9,6 +9,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { generateAllAgentResponses } from "@/lib/chat-engine"
 import { createClient } from "@supabase/supabase-js"
+import { recordAdminAction } from "@/lib/admin-audit"
 import { broadcastAgentMessage, broadcastMessageToAll } from "@/app/api/chat/stream/route"
 
 const supabase = createClient(
@@ -263,6 +264,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     console.log("[Chat/Generate] 🗑️ Cleared all chat messages from Supabase")
+    await recordAdminAction(request, { action: "chat.clear", details: { table: "agent_chat_messages" } })
 
     return NextResponse.json({
       success: true,
@@ -12,6 +12,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { AsterClient } from "@/lib/aster-client"
 import { getAllAgents } from "@/lib/constants/agents"
 import { saveAgentSnapshots } from "@/lib/supabase-client"
+import { recordAdminAction } from "@/lib/admin-audit"
 
 interface SnapshotData {
   agent_id: string
@@ -162,6 +163,12 @@ export async function POST(request: NextRequest) {
 
     // Save to Supabase
     await saveAgentSnapshots(snapshots)
+    await recordAdminAction(request, {
+      action: "snapshots.save",
+      actor: "cron",
+      after: Object.fromEntries(snapshots.map((s) => [s.agent_id, { account_value: s.account_value, total_pnl: s.total_pnl }])),
+      details: { count: snapshots.length },
+    })
 
     console.log(`[Cron] ✅ Successfully saved ${snapshots.length} snapshots`)
 
@@ -212,6 +219,12 @@ export async function GET(request: NextRequest) {
     }
 
     await saveAgentSnapshots(snapshots)
+    await recordAdminAction(request, {
+      action: "snapshots.save",
+      actor: "cron",
+      after: Object.fromEntries(snapshots.map((s) => [s.agent_id, { account_value: s.account_value, total_pnl: s.total_pnl }])),
+      details: { count: snapshots.length },
+    })
 
     return NextResponse.json({
       success: true,
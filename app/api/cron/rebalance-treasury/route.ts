@@ -0,0 +1,78 @@
+/**
+ * POST /api/cron/rebalance-treasury
+ *
+ * Scheduled endpoint that moves agent equity back inside each agent's rebalance policy band
+ * (see lib/treasury-rebalancer.ts); hourly is plenty, since policies set their own schedules
+ * Dry-run unless TREASURY_REBALANCE_MODE=live; ?dryRun=true forces a dry run either way
+ *
+ * Authentication: Bearer token in Authorization header
+ * Environment: CRON_SECRET (set in .env.local/.env.production)
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { runTreasuryRebalance } from "@/lib/treasury-rebalancer"
+import { recordAdminAction } from "@/lib/admin-audit"
+
+async function handleRebalance(request: NextRequest) {
+  try {
+    // Verify authorization
+    const authHeader = request.headers.get("authorization")
+    const expectedToken = `Bearer ${process.env.CRON_SECRET}`
+
+    if (!authHeader || authHeader !== expectedToken) {
+      console.warn("[Cron] ❌ Unauthorized treasury rebalance request")
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const dryRun = process.env.TREASURY_REBALANCE_MODE !== "live" || request.nextUrl.searchParams.get("dryRun") === "true"
+
+    console.log(`[Cron] ✅ Request authorized, rebalancing treasury${dryRun ? " (dry-run)" : ""}...`)
+    const report = await runTreasuryRebalance({ dryRun })
+
+    const failed = report.executed.filter((e) => e.status === "failed").length
+
+    if (report.executed.length > 0) {
+      await recordAdminAction(request, {
+        action: "treasury.rebalance",
+        actor: "cron",
+        after: Object.fromEntries(
+          report.executed.map((e) => [e.agent_id, { direction: e.direction, amount: e.amount, status: e.status }])
+        ),
+        details: {
+          main_balance: report.plan.main_balance,
+          top_up_total: report.plan.top_up_total,
+          sweep_back_total: report.plan.sweep_back_total,
+          failed,
+        },
+      })
+    }
+
+    return NextResponse.json({
+      success: failed === 0,
+      timestamp: new Date().toISOString(),
+      ...report,
+    })
+  } catch (error) {
+    console.error("[Cron] ❌ Error in treasury rebalance:", error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return handleRebalance(request)
+}
+
+/**
+ * Also handle GET for testing
+ */
+export async function GET(request: NextRequest) {
+  return handleRebalance(request)
+}
@@ -0,0 +1,91 @@
+/**
+ * POST /api/cron/sync-candles
+ *
+ * Scheduled endpoint that backfills the candle store and repairs gaps
+ * for every TRADING_SYMBOLS entry across all intervals (hourly is plenty)
+ * Optional query params: symbols=BTC,ETH and intervals=1h,4h to sync a subset
+ *
+ * Authentication: Bearer token in Authorization header
+ * Environment: CRON_SECRET (set in .env.local/.env.production)
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { supabase } from "@/lib/supabase-client"
+import { syncCandleStore, VALID_INTERVALS } from "@/lib/candle-store"
+
+export const maxDuration = 300
+
+// Stop starting new series with time left to respond; skipped series run next time
+const SYNC_BUDGET_MS = 240 * 1000
+
+async function handleSync(request: NextRequest) {
+  try {
+    // Verify authorization
+    const authHeader = request.headers.get("authorization")
+    const expectedToken = `Bearer ${process.env.CRON_SECRET}`
+
+    if (!authHeader || authHeader !== expectedToken) {
+      console.warn("[Cron] ❌ Unauthorized candle sync request")
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    if (!supabase) {
+      return NextResponse.json(
+        { error: "Candle store is not available. Configure SUPABASE_URL and SUPABASE_SERVICE_KEY to enable." },
+        { status: 503 }
+      )
+    }
+
+    const { searchParams } = request.nextUrl
+    const symbols = searchParams.get("symbols")?.split(",").filter(Boolean)
+    const intervals = searchParams.get("intervals")?.split(",").filter(Boolean)
+
+    const invalid = intervals?.filter((i) => !VALID_INTERVALS.includes(i)) || []
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid intervals: ${invalid.join(", ")}. Valid intervals: ${VALID_INTERVALS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    console.log("[Cron] ✅ Request authorized, syncing candle store...")
+    const startedAt = Date.now()
+    const reports = await syncCandleStore({ symbols, intervals, deadline: startedAt + SYNC_BUDGET_MS })
+
+    const filled = reports.reduce((sum, r) => sum + (r.filled || 0), 0)
+    const failed = reports.filter((r) => r.error).length
+    const skipped = reports.filter((r) => r.skipped).length
+    console.log(`[Cron] ✅ Candle sync done in ${Date.now() - startedAt}ms: ${filled} candles filled, ${failed} failed, ${skipped} skipped`)
+
+    return NextResponse.json({
+      success: failed === 0,
+      filled,
+      failed,
+      skipped,
+      timestamp: new Date().toISOString(),
+      reports,
+    })
+  } catch (error) {
+    console.error("[Cron] ❌ Error in candle sync:", error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return handleSync(request)
+}
+
+/**
+ * Also handle GET for testing
+ */
+export async function GET(request: NextRequest) {
+  return handleSync(request)
+}
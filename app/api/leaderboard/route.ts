@@ -6,7 +6,8 @@
 
 import { NextRequest, NextResponse } from "next/server"
 import { getCache, setCache, CACHE_KEYS } from "@/lib/redis-client"
-import { AsterClient } from "@/lib/aster-client"
+import { AsterClient, type AsterFundingPayment } from "@/lib/aster-client"
+import { calculateRealizedPnl } from "@/lib/risk-metrics"
 import { AGENTS, getAllAgents, getAgentCredentials, PRIMARY_SYMBOLS } from "@/lib/constants/agents"
 import { saveAgentSnapshots, get5MinuteOldSnapshot } from "@/lib/supabase-client"
 
@@ -18,8 +19,10 @@ interface LeaderboardAgent {
   accountValue: number
   availableBalance: number
   returnPercent: number
-  totalPnL: number
+  totalPnL: number // Includes funding payments
   fees: number
+  funding: number // Net funding received (negative when paid)
+  realizedPnL?: number // Closed trades - commissions + funding
   winRate: number
   biggestWin: number
   biggestLoss: number
@@ -43,6 +46,10 @@ interface LeaderboardAgent {
   winRatePercent5m?: number
 }
 
+// Funding counts from when the agents started trading (AGENTS_START_TIME, ISO date);
+// unset walks back through all the income history the exchange keeps
+const AGENTS_START_TIME = Date.parse(process.env.AGENTS_START_TIME || "") || undefined
+
 // Agent colors mapping
 const AGENT_COLORS: Record<string, string> = {
   claude_arbitrage: "#D97757",
@@ -200,6 +207,7 @@ async function getAgentsDataFromEndpoint(): Promise<LeaderboardAgent[]> {
         returnPercent: agent.roi || 0,
         totalPnL: agent.total_pnl || 0,
         fees: 0,
+        funding: 0,
         winRate: 0,
         biggestWin: 0,
         biggestLoss: 0,
@@ -250,6 +258,17 @@ async function getAgentsDataFromEndpoint(): Promise<LeaderboardAgent[]> {
           }
         }
 
+        // Funding paid or received on perpetual positions counts toward PnL
+        let fundingPayments: AsterFundingPayment[] = []
+        try {
+          const { payments, total } = await client.getFundingPayments(undefined, AGENTS_START_TIME)
+          fundingPayments = payments
+          agent.funding = Math.round(total * 100) / 100
+          agent.totalPnL = Math.round((agent.totalPnL + total) * 100) / 100
+        } catch (fundingError) {
+          console.warn(`[Leaderboard] Warning: Could not fetch funding payments for ${agent.id}:`, fundingError instanceof Error ? fundingError.message : fundingError)
+        }
+
         const tradesResponse = { trades: allTrades }
         console.log(`[Leaderboard] Got ${tradesResponse.trades.length} total completed trades for ${agent.id}`)
         
@@ -280,6 +299,7 @@ async function getAgentsDataFromEndpoint(): Promise<LeaderboardAgent[]> {
         agent.winRate = Math.round(winRate * 10) / 10
         agent.trades = tradesResponse.trades.length
         agent.fees = Math.round(fees * 100) / 100
+        agent.realizedPnL = Math.round(calculateRealizedPnl(tradesResponse.trades, fundingPayments).realizedPnl * 100) / 100
         agent.biggestWin = Math.round(biggestWin * 100) / 100
         agent.biggestLoss = Math.round(biggestLoss * 100) / 100
         agent.avgTradeSize = advancedMetrics.avgTradeSize
@@ -295,7 +315,7 @@ async function getAgentsDataFromEndpoint(): Promise<LeaderboardAgent[]> {
         // Calculate 5-minute win rate from database
         agent.winRatePercent5m = await calculate5MinuteWinRate(agent.id, agent.totalPnL)
         
-        console.log(`[Leaderboard] ✅ ${agent.id}: WR=${agent.winRate}%, 5m=${agent.winRatePercent5m}%, Fees=$${agent.fees}, Trades=${agent.trades}`)
+        console.log(`[Leaderboard] ✅ ${agent.id}: WR=${agent.winRate}%, 5m=${agent.winRatePercent5m}%, Fees=$${agent.fees}, Funding=$${agent.funding}, Trades=${agent.trades}`)
       } catch (error) {
         console.error(`❌ [Leaderboard] Error fetching trades for ${agent.id}:`, error instanceof Error ? error.message : error)
       }
@@ -529,10 +549,21 @@ async function fetchRealAgentsData(): Promise<LeaderboardAgent[]> {
         console.debug(`Could not fetch trades for agent ${agent.id}:`, e)
       }
 
+      // Funding paid or received on perpetual positions counts toward PnL
+      let funding = 0
+      let fundingPayments: AsterFundingPayment[] = []
+      try {
+        const fundingData = await client.getFundingPayments(undefined, AGENTS_START_TIME)
+        funding = fundingData.total
+        fundingPayments = fundingData.payments
+      } catch (e) {
+        console.debug(`Could not fetch funding payments for agent ${agent.id}:`, e)
+      }
+
       // Calculate metrics
       const initialCapital = agent.initial_capital || 50 // Fallback to 50 if not set
       const currentAccountValue = stats.equity || 0
-      const totalPnL = stats.total_pnl || 0
+      const totalPnL = (stats.total_pnl || 0) + funding
       const returnPercent = stats.total_roi !== undefined ? stats.total_roi : ((currentAccountValue - initialCapital) / initialCapital) * 100
 
       // Calculate trade statistics
@@ -577,6 +608,8 @@ async function fetchRealAgentsData(): Promise<LeaderboardAgent[]> {
         returnPercent: Math.round(returnPercent * 100) / 100,
         totalPnL: Math.round(totalPnL * 100) / 100,
         fees: Math.round(fees * 100) / 100,
+        funding: Math.round(funding * 100) / 100,
+        realizedPnL: Math.round(calculateRealizedPnl(tradesArray, fundingPayments).realizedPnl * 100) / 100,
         winRate: Math.round(winRate * 10) / 10,
         biggestWin: Math.round(biggestWin * 100) / 100,
         biggestLoss: Math.round(biggestLoss * 100) / 100,
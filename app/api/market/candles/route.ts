@@ -0,0 +1,84 @@
+/**
+ * GET /api/market/candles
+ * Arbitrary OHLCV ranges from the candle store, one page at a time
+ * Query params: symbol (BTC or BTCUSDT), interval (1m, 5m, 15m, 1h, 4h, 1d), start, end (ISO date
+ * or epoch ms, end defaults to now), limit (default 500, max 1000), cursor (nextCursor of the previous page),
+ * repair=false to skip fetching missing candles from Binance
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { supabase } from "@/lib/supabase-client"
+import { getCandlePage, toBinanceSymbol, VALID_INTERVALS } from "@/lib/candle-store"
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!supabase) {
+      return NextResponse.json(
+        {
+          error: "Candle store is not available. Configure SUPABASE_URL and SUPABASE_SERVICE_KEY to enable.",
+          setup_instruction: "Set SUPABASE_URL and SUPABASE_SERVICE_KEY and run supabase-migrations-agent-integration.sql",
+        },
+        { status: 503 }
+      )
+    }
+
+    const { searchParams } = request.nextUrl
+    const symbol = toBinanceSymbol(searchParams.get("symbol") || "BTC")
+    const interval = searchParams.get("interval") || "1h"
+    const start = parseTime(searchParams.get("start"))
+    const end = parseTime(searchParams.get("end")) ?? Date.now()
+    const limit = Math.min(parseInt(searchParams.get("limit") || "500"), 1000)
+    const cursor = searchParams.get("cursor")
+
+    if (!VALID_INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { error: `Invalid interval: ${interval}. Valid intervals: ${VALID_INTERVALS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    if (start === undefined || Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+      return NextResponse.json(
+        { error: "start is required; use ISO dates or epoch milliseconds with end after start" },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: "limit must be between 1 and 1000" }, { status: 400 })
+    }
+
+    if (cursor !== null && !/^\d+$/.test(cursor)) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 })
+    }
+
+    const { candles, nextCursor } = await getCandlePage(symbol, interval, start, end, {
+      after: cursor !== null ? Number(cursor) : undefined,
+      limit,
+      repair: searchParams.get("repair") !== "false",
+    })
+
+    return NextResponse.json({
+      symbol,
+      interval,
+      candles,
+      count: candles.length,
+      nextCursor,
+      source: "store",
+    })
+  } catch (error) {
+    console.error("Error fetching stored candles:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch candles" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Epoch ms from an ISO date or epoch ms string; NaN when unparseable
+ */
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined
+  return /^\d+$/.test(value) ? Number(value) : new Date(value).getTime()
+}
@@ -2,11 +2,16 @@
  * GET /api/market/history
  * Fetch historical OHLCV (candlestick) data from Binance
  * Used for performance charts and technical analysis
- * Query params: symbol (BTC, ETH, SOL, etc), interval (1h, 4h, 1d), limit (default 24)
+ * Query params: symbol (BTC, ETH, SOL, etc), interval (1h, 4h, 1d), limit (default 24),
+ * start/end (optional ISO date or epoch ms) to fetch a past window instead of the latest candles
+ * Windows are served from the candle store (lib/candle-store.ts) when Supabase is configured,
+ * repairing missing candles on the way; the latest candles always come live from Binance
  */
 
 import { NextResponse } from "next/server"
 import { getCache, setCache, CACHE_KEYS } from "@/lib/redis-client"
+import { supabase } from "@/lib/supabase-client"
+import { getCandlePage, VALID_INTERVALS } from "@/lib/candle-store"
 
 interface BinanceCandle {
   0: number // Open time
@@ -35,7 +40,7 @@ interface HistoryData {
     volume: number
   }>
   timestamp: string
-  source: "binance" | "cached"
+  source: "binance" | "cached" | "store"
 }
 
 // Map symbol names to Binance trading pairs
@@ -44,18 +49,18 @@ const SYMBOL_MAP: Record<string, string> = {
   ETH: "ETHUSDT",
   SOL: "SOLUSDT",
   BNB: "BNBUSDT",
-  DOGE: "DOGEUUSDT",
+  DOGE: "DOGEUSDT",
   ASTER: "ASTERUSDT",
 }
 
-const VALID_INTERVALS = ["1m", "5m", "15m", "1h", "4h", "1d"]
-
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
     const symbol = (searchParams.get("symbol") || "BTC").toUpperCase()
     const interval = searchParams.get("interval") || "1h"
     const limit = Math.min(parseInt(searchParams.get("limit") || "24"), 1000) // Max 1000
+    const start = parseTime(searchParams.get("start"))
+    const end = parseTime(searchParams.get("end"))
 
     // Validate inputs
     if (!SYMBOL_MAP[symbol]) {
@@ -72,8 +77,45 @@ export async function GET(request: Request) {
       )
     }
 
+    if (Number.isNaN(start) || Number.isNaN(end) || (start !== undefined && end !== undefined && end <= start)) {
+      return NextResponse.json(
+        { error: "Invalid start/end: use ISO dates or epoch milliseconds with end after start" },
+        { status: 400 }
+      )
+    }
+
+    // Past windows come from the candle store
+    if (start !== undefined && supabase) {
+      try {
+        const { candles } = await getCandlePage(SYMBOL_MAP[symbol], interval, start, end ?? Date.now(), {
+          limit,
+          repair: true,
+        })
+        if (candles.length > 0) {
+          const storeData: HistoryData = {
+            symbol,
+            interval,
+            data: candles.map((c) => ({
+              time: new Date(c.time).toISOString(),
+              open: c.open,
+              high: c.high,
+              low: c.low,
+              close: c.close,
+              volume: c.volume,
+            })),
+            timestamp: new Date().toISOString(),
+            source: "store",
+          }
+          return NextResponse.json(storeData)
+        }
+      } catch (storeError) {
+        console.warn("Candle store unavailable for market history, falling back to Binance:", storeError)
+      }
+    }
+
     // Try cache first
-    const cacheKey = CACHE_KEYS.market(`history_${symbol}_${interval}`)
+    const windowKey = start !== undefined || end !== undefined ? `_${start ?? ""}_${end ?? ""}_${limit}` : ""
+    const cacheKey = CACHE_KEYS.market(`history_${symbol}_${interval}${windowKey}`)
     try {
       const cached = await getCache(cacheKey)
       if (cached) {
@@ -89,7 +131,9 @@ export async function GET(request: Request) {
 
     // Fetch from Binance klines endpoint
     const binanceSymbol = SYMBOL_MAP[symbol]
-    const url = `https://api.binance.com/api/v3/klines?symbol=${binanceSymbol}&interval=${interval}&limit=${limit}`
+    let url = `https://api.binance.com/api/v3/klines?symbol=${binanceSymbol}&interval=${interval}&limit=${limit}`
+    if (start !== undefined) url += `&startTime=${start}`
+    if (end !== undefined) url += `&endTime=${end}`
 
     const response = await fetch(url)
     if (!response.ok) {
@@ -116,7 +160,8 @@ export async function GET(request: Request) {
 
     // Try to cache based on interval, but don't fail if it doesn't work
     try {
-      const ttl = interval === "1m" ? 60 : interval === "5m" ? 300 : 3600 // 1h default
+      // A closed past window never changes
+      const ttl = end !== undefined && end < Date.now() ? 86400 : interval === "1m" ? 60 : interval === "5m" ? 300 : 3600 // 1h default
       await setCache(cacheKey, historyData, { ttl })
     } catch (cacheError) {
       console.warn("Could not cache market history:", cacheError)
@@ -131,4 +176,12 @@ export async function GET(request: Request) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Epoch ms from an ISO date or epoch ms string; NaN when unparseable
+ */
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined
+  return /^\d+$/.test(value) ? Number(value) : new Date(value).getTime()
+}
@@ -1,13 +1,13 @@
 /**
- * GET /api/pickaboo/agent-balances?password=<password>
- * Fetch real trading stats and balances for all agents from Asterdex
+ * GET /api/pickaboo/agent-balances
+ * Fetch real trading stats and balances for all agents from Asterdex (requires an admin session)
  * Returns: wallet balance, unrealized PnL, equity, and signer addresses
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { AsterClient } from '@/lib/aster-client'
 import { AGENTS } from '@/lib/constants/agents'
-import { isPickabooAdminWhitelisted } from '@/lib/supabase-client'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
 
 interface AgentBalance {
   agent_id: string
@@ -42,23 +42,11 @@ const AGENT_CONFIG = {
 
 export async function GET(request: NextRequest): Promise<NextResponse<AgentBalancesResponse>> {
   try {
-    const { searchParams } = new URL(request.url)
-    const wallet = searchParams.get('wallet')
-
-    // Verify wallet is whitelisted
-    if (!wallet) {
-      return NextResponse.json(
-        { success: false, error: 'Wallet address is required', timestamp: new Date().toISOString() },
-        { status: 400 }
-      )
-    }
-
-    const isWhitelisted = await isPickabooAdminWhitelisted(wallet)
-    if (!isWhitelisted) {
-      return NextResponse.json(
-        { success: false, error: 'Wallet not authorized', timestamp: new Date().toISOString() },
-        { status: 403 }
-      )
+    // Verify admin session
+    const { denied } = await requirePickabooAdmin(request)
+    if (denied) {
+      const { error } = await denied.json()
+      return NextResponse.json({ success: false, error, timestamp: new Date().toISOString() }, { status: denied.status })
     }
 
     const results: AgentBalance[] = []
@@ -0,0 +1,180 @@
+/**
+ * API Endpoint: /api/pickaboo/agent-commands
+ * Remote control for running trading agents
+ *
+ * Requires an admin session (see /api/pickaboo/verify-wallet); POST needs the operator role
+ *
+ * POST: queue a command for one agent { agent_id, command, payload? }
+ *   - pause: stop generating signals (orders/positions untouched)
+ *   - resume: start generating signals again
+ *   - flatten: cancel orders, close positions and pause
+ *   - reload_parameters: pick up /api/aster/agents/parameters and the agent prompt without a restart
+ * GET: recent commands and their results (?agent_id=&limit=)
+ *
+ * Agents poll the agent_commands table from their trading loop (every ~10-15s)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+import { recordAdminAction } from '@/lib/admin-audit'
+import { getAgent } from '@/lib/constants/agents'
+
+const supabaseUrl = process.env.SUPABASE_URL
+const supabaseKey = process.env.SUPABASE_SERVICE_KEY
+
+const supabase = supabaseUrl && supabaseKey
+  ? createClient(supabaseUrl, supabaseKey)
+  : null
+
+const AGENT_COMMANDS = ['pause', 'resume', 'flatten', 'reload_parameters'] as const
+
+export async function POST(request: NextRequest) {
+  try {
+    // The requesting wallet comes from the admin session, never from the body
+    const { session, denied } = await requirePickabooAdmin(request, 'operate')
+    if (denied) return denied
+    const wallet = session.wallet
+
+    const body = await request.json()
+    const { agent_id, command, payload } = body
+
+    if (!agent_id || !command) {
+      return NextResponse.json(
+        { error: 'Missing required fields: agent_id, command' },
+        { status: 400 }
+      )
+    }
+
+    if (!AGENT_COMMANDS.includes(command)) {
+      return NextResponse.json(
+        { error: `Invalid command. Must be one of: ${AGENT_COMMANDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!getAgent(agent_id)) {
+      return NextResponse.json(
+        { error: `Unknown agent: ${agent_id}` },
+        { status: 404 }
+      )
+    }
+
+    if (!supabase) {
+      console.warn('[Pickaboo API] Supabase not configured, cannot queue agent command')
+      return NextResponse.json(
+        {
+          error: 'Agent commands are not available. Configure SUPABASE_URL and SUPABASE_SERVICE_KEY to enable.',
+          setup_instruction: 'Set SUPABASE_URL and SUPABASE_SERVICE_KEY environment variables'
+        },
+        { status: 503 }
+      )
+    }
+
+    const { data, error: insertError } = await supabase
+      .from('agent_commands')
+      .insert({
+        agent_id,
+        command,
+        payload: payload || null,
+        status: 'pending',
+        requested_by: wallet.toLowerCase(),
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('[Pickaboo API] Error queueing agent command:', insertError)
+      return NextResponse.json(
+        {
+          error: `Failed to queue command: ${insertError.message}`,
+          details: insertError,
+        },
+        { status: 500 }
+      )
+    }
+
+    console.log('[Pickaboo API] Queued agent command:', {
+      id: data?.id,
+      agent_id,
+      command,
+      requested_by: wallet.toLowerCase(),
+    })
+
+    await recordAdminAction(request, {
+      action: 'command.queue',
+      actor: wallet,
+      targetAgent: agent_id,
+      after: { command, payload: payload || null },
+      details: { command_id: data?.id },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `Command ${command} queued for ${agent_id}`,
+      command: data,
+    })
+  } catch (error) {
+    console.error('Error queueing agent command:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to queue agent command',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { denied } = await requirePickabooAdmin(request)
+    if (denied) return denied
+
+    const { searchParams } = new URL(request.url)
+    const agentId = searchParams.get('agent_id')
+    const limit = Math.min(Number(searchParams.get('limit')) || 20, 100)
+
+    if (!supabase) {
+      return NextResponse.json({
+        success: true,
+        commands: [],
+        warning: 'Supabase not configured. Configure SUPABASE_URL and SUPABASE_SERVICE_KEY to enable.',
+      })
+    }
+
+    let query = supabase
+      .from('agent_commands')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (agentId) {
+      query = query.eq('agent_id', agentId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('[Pickaboo API] Error fetching agent commands:', error)
+      return NextResponse.json(
+        { error: `Failed to fetch commands: ${error.message}` },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      commands: data || [],
+      count: data?.length || 0,
+    })
+  } catch (error) {
+    console.error('Error fetching agent commands:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to fetch agent commands',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,4 +1,12 @@
+/**
+ * API Endpoint: /api/pickaboo/agent-prompts
+ * GET: every agent's current and previous prompt (read by running agents and the chat engine)
+ * POST: { agent_id, agent_name?, new_prompt } replace an agent's prompt (requires an operator or owner session)
+ */
+
 import { createClient } from '@supabase/supabase-js'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+import { recordAdminAction } from '@/lib/admin-audit'
 
 const supabaseUrl = process.env.SUPABASE_URL
 const supabaseKey = process.env.SUPABASE_SERVICE_KEY
@@ -44,15 +52,8 @@ async function ensureTableExists() {
   }
 }
 
-export async function GET(request: Request) {
+export async function GET() {
   try {
-    const { searchParams } = new URL(request.url)
-    const wallet = searchParams.get('wallet')
-
-    if (!wallet) {
-      return Response.json({ success: false, error: 'Wallet address required' }, { status: 400 })
-    }
-
     if (!supabase) {
       console.warn('[Agent Prompts API] Supabase not configured')
       return Response.json({
@@ -111,12 +112,17 @@ export async function GET(request: Request) {
 
 export async function POST(request: Request) {
   try {
+    // The requesting wallet comes from the admin session, never from the body
+    const { session, denied } = await requirePickabooAdmin(request, 'operate')
+    if (denied) return denied
+    const wallet = session.wallet
+
     const body = await request.json()
-    const { wallet, agent_id, agent_name, new_prompt } = body
+    const { agent_id, agent_name, new_prompt } = body
 
-    if (!wallet || !agent_id || !new_prompt) {
+    if (!agent_id || !new_prompt) {
       return Response.json(
-        { success: false, error: 'Missing required fields: wallet, agent_id, new_prompt' },
+        { success: false, error: 'Missing required fields: agent_id, new_prompt' },
         { status: 400 }
       )
     }
@@ -173,6 +179,14 @@ export async function POST(request: Request) {
 
     if (upsertError) throw upsertError
 
+    await recordAdminAction(request, {
+      action: 'prompt.update',
+      actor: wallet,
+      targetAgent: agent_id,
+      before: { prompt: previousPrompt },
+      after: { prompt: new_prompt },
+    })
+
     return Response.json({
       success: true,
       message: 'Agent prompt updated successfully',
@@ -0,0 +1,47 @@
+/**
+ * GET /api/pickaboo/audit-log
+ * Admin audit trail, newest first (requires an admin session)
+ * Query params (all optional):
+ *   - action: exact action, or a prefix ending in "." (e.g. "admin.")
+ *   - agent_id: target agent
+ *   - actor: admin wallet, "cron" or "anonymous"
+ *   - from / to: ISO timestamps
+ *   - limit (default 100, max 1000) / offset
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAdminAuditLog } from '@/lib/supabase-client'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { denied } = await requirePickabooAdmin(request)
+    if (denied) return denied
+
+    const { searchParams } = request.nextUrl
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), 1000)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0)
+
+    const { entries, total } = await getAdminAuditLog({
+      action: searchParams.get('action') || undefined,
+      targetAgent: searchParams.get('agent_id') || undefined,
+      actor: searchParams.get('actor') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      limit,
+      offset,
+    })
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      total_count: total,
+    })
+  } catch (error: any) {
+    console.error('Audit log error:', error)
+    return NextResponse.json(
+      { success: false, error: error?.message || 'Failed to fetch audit log' },
+      { status: 500 }
+    )
+  }
+}
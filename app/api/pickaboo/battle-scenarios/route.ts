@@ -0,0 +1,229 @@
+/**
+ * API Endpoint: /api/pickaboo/battle-scenarios
+ * Curate the custom battle scenario library (historical market episodes)
+ *
+ * Requires an admin session (see /api/pickaboo/verify-wallet); changes need the operator role
+ *
+ * GET: all scenarios, including inactive ones
+ * POST: { name, description?, symbol, interval, start, end } load the window's candles and save the scenario
+ * PATCH: { slug, name?, description?, active? } rename, describe or enable/disable a scenario
+ * DELETE: remove a scenario (?slug=); stored battles keep their own copy of the candles
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  supabase,
+  createBattleScenario,
+  getBattleScenario,
+  getBattleScenarios,
+  updateBattleScenario,
+  deleteBattleScenario,
+  type BattleScenarioRecord,
+} from '@/lib/supabase-client'
+import { BATTLE_SCENARIOS, BATTLE_SYMBOLS, BattleScenario, BattleSymbol } from '@/lib/agent-battle'
+import { OVERALL_RATING } from '@/lib/battle-tournament'
+import { slugifyScenarioName, countWindowCandles, loadHistoricalCandles } from '@/lib/battle-scenarios'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+import { recordAdminAction } from '@/lib/admin-audit'
+import type { PickabooPermission } from '@/lib/pickaboo-roles'
+
+function notConfigured() {
+  return NextResponse.json(
+    {
+      error: 'Battle scenarios are not available. Configure SUPABASE_URL and SUPABASE_SERVICE_KEY to enable.',
+      setup_instruction: 'Set SUPABASE_URL and SUPABASE_SERVICE_KEY and run supabase-migrations-agent-integration.sql',
+    },
+    { status: 503 }
+  )
+}
+
+// Scenario fields worth auditing (candles are large and fixed at creation)
+function auditState(scenario: BattleScenarioRecord | null) {
+  if (!scenario) return null
+  const { candles, ...rest } = scenario
+  return { ...rest, candle_count: candles.length }
+}
+
+async function checkAdmin(request: NextRequest, permission: PickabooPermission = 'view') {
+  const { session, denied } = await requirePickabooAdmin(request, permission)
+  if (denied) return { wallet: null, denied }
+
+  if (!supabase) return { wallet: null, denied: notConfigured() }
+  return { wallet: session.wallet, denied: null }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { denied } = await checkAdmin(request)
+    if (denied) return denied
+
+    const scenarios = await getBattleScenarios(true)
+    return NextResponse.json({ success: true, scenarios, count: scenarios.length })
+  } catch (error) {
+    console.error('[Pickaboo] Battle scenarios GET error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch battle scenarios' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { wallet, denied } = await checkAdmin(request, 'operate')
+    if (denied) return denied
+
+    const body = await request.json()
+    const { name, description, symbol, interval, start, end } = body
+
+    if (!name || !symbol || !interval || !start || !end) {
+      return NextResponse.json(
+        { error: 'Missing required fields: name, symbol, interval, start, end' },
+        { status: 400 }
+      )
+    }
+
+    const slug = slugifyScenarioName(String(name))
+    if (!slug || BATTLE_SCENARIOS.includes(slug as BattleScenario) || slug === OVERALL_RATING) {
+      return NextResponse.json({ error: `"${name}" is not available as a scenario name` }, { status: 400 })
+    }
+
+    if (!BATTLE_SYMBOLS.includes(symbol)) {
+      return NextResponse.json(
+        { error: `Invalid symbol. Must be one of: ${BATTLE_SYMBOLS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const startMs = new Date(start).getTime()
+    const endMs = new Date(end).getTime()
+    const count = countWindowCandles(interval, startMs, endMs)
+    if (typeof count === 'string') {
+      return NextResponse.json({ error: count }, { status: 400 })
+    }
+
+    if (await getBattleScenario(slug)) {
+      return NextResponse.json({ error: `A scenario named "${name}" already exists` }, { status: 409 })
+    }
+
+    // Snapshot the candles so the scenario doesn't depend on the exchange later
+    const candles = await loadHistoricalCandles(symbol as BattleSymbol, interval, startMs, count)
+
+    const scenario = await createBattleScenario({
+      slug,
+      name: String(name).trim(),
+      description: description ? String(description).trim() : null,
+      symbol,
+      interval,
+      start_time: new Date(startMs).toISOString(),
+      end_time: new Date(endMs).toISOString(),
+      candles,
+      active: true,
+      created_by: wallet,
+    })
+
+    if (!scenario) {
+      return NextResponse.json({ error: 'Failed to save battle scenario' }, { status: 500 })
+    }
+
+    console.log(`[Pickaboo] Battle scenario "${scenario.name}" created by ${wallet}: ${symbol} ${interval} x${candles.length}`)
+
+    await recordAdminAction(request, {
+      action: 'scenario.create',
+      actor: wallet,
+      after: auditState(scenario),
+    })
+
+    return NextResponse.json({ success: true, scenario })
+  } catch (error) {
+    console.error('[Pickaboo] Battle scenarios POST error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create battle scenario' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { wallet, denied } = await checkAdmin(request, 'operate')
+    if (denied) return denied
+
+    const body = await request.json()
+    const { slug, name, description, active } = body
+
+    if (!slug) {
+      return NextResponse.json({ error: 'Missing required field: slug' }, { status: 400 })
+    }
+
+    const existing = await getBattleScenario(slug)
+    if (!existing) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+    }
+
+    const updates: { name?: string; description?: string | null; active?: boolean } = {}
+    if (name !== undefined) {
+      if (!String(name).trim()) {
+        return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 })
+      }
+      updates.name = String(name).trim()
+    }
+    if (description !== undefined) updates.description = description ? String(description).trim() : null
+    if (active !== undefined) updates.active = Boolean(active)
+
+    const success = await updateBattleScenario(slug, updates)
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to update battle scenario' }, { status: 500 })
+    }
+
+    const scenario = await getBattleScenario(slug)
+    await recordAdminAction(request, {
+      action: 'scenario.update',
+      actor: wallet,
+      before: auditState(existing),
+      after: auditState(scenario),
+    })
+
+    return NextResponse.json({ success: true, scenario })
+  } catch (error) {
+    console.error('[Pickaboo] Battle scenarios PATCH error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update battle scenario' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const slug = searchParams.get('slug')
+
+    const { wallet, denied } = await checkAdmin(request, 'operate')
+    if (denied) return denied
+
+    if (!slug) {
+      return NextResponse.json({ error: 'Missing required parameter: slug' }, { status: 400 })
+    }
+
+    const existing = await getBattleScenario(slug)
+    const success = await deleteBattleScenario(slug)
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to delete battle scenario' }, { status: 500 })
+    }
+
+    await recordAdminAction(request, {
+      action: 'scenario.delete',
+      actor: wallet,
+      before: auditState(existing),
+    })
+
+    return NextResponse.json({ success: true, message: `Scenario ${slug} deleted` })
+  } catch (error) {
+    console.error('[Pickaboo] Battle scenarios DELETE error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete battle scenario' },
+      { status: 500 }
+    )
+  }
+}
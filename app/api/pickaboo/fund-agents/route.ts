@@ -1,24 +1,45 @@
 /**
  * POST /api/pickaboo/fund-agents
  * Fund agents with USDT
- * Requires: admin password
+ * Requires: treasurer or owner session (see /api/pickaboo/verify-wallet)
  * Features:
  * - Checks main account balance before funding
  * - Notifies if insufficient funds
  * - Attempts real transfers to agent wallets
  * - Logs all transactions
+ * - Fundings above PICKABOO_FUNDING_APPROVAL_THRESHOLD (total USDT) become proposals
+ *   with the dry-run output attached, which a second treasurer or owner must approve
+ *
+ * GET /api/pickaboo/fund-agents?status=pending - List funding proposals (any admin)
+ * PATCH /api/pickaboo/fund-agents - Approve or reject a proposal { proposal_id, decision, note? }
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase, isPickabooAdminWhitelisted } from '@/lib/supabase-client'
+import {
+  supabase,
+  createFundingProposal,
+  expireFundingProposals,
+  getFundingProposal,
+  getFundingProposals,
+  reviewFundingProposal,
+  type FundingProposal,
+} from '@/lib/supabase-client'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+import { recordAdminAction } from '@/lib/admin-audit'
 import { AsterClient } from '@/lib/aster-client'
+import { envNumber } from '@/lib/utils'
 
 interface FundAgentsRequest {
-  wallet: string
   amount: number
   dryRun: boolean
 }
 
+interface ReviewProposalRequest {
+  proposal_id: string
+  decision: 'approve' | 'reject'
+  note?: string
+}
+
 interface FundAgentsResponse {
   success: boolean
   message: string
@@ -26,9 +47,22 @@ interface FundAgentsResponse {
   insufficient_balance?: boolean
   main_account_balance?: number
   required_total?: number
+  requires_approval?: boolean
+  proposal?: FundingProposal
   error?: string
 }
 
+// Both wallets behind a funding that went through two-person approval
+interface FundingApproval {
+  proposalId: string
+  proposedBy: string
+  reviewedBy: string
+}
+
+// Fundings with a larger total need a second admin's approval
+const APPROVAL_THRESHOLD = envNumber('PICKABOO_FUNDING_APPROVAL_THRESHOLD', 1000)
+const PROPOSAL_TTL_HOURS = envNumber('PICKABOO_FUNDING_PROPOSAL_TTL_HOURS', 24)
+
 const AGENTS = [
   { id: 'agent_1', name: 'Claude Arbitrage', signer: process.env.AGENT_1_SIGNER },
   { id: 'agent_2', name: 'GPT-4 Momentum', signer: process.env.AGENT_2_SIGNER },
@@ -41,10 +75,11 @@ async function logFundingHistory(
   agentId: string,
   agentName: string,
   amount: number,
-  status: 'success' | 'failed' | 'pending',
+  status: 'success' | 'failed' | 'pending' | 'rejected',
   txHash?: string,
   error?: string,
-  dryRun?: boolean
+  dryRun?: boolean,
+  approval?: FundingApproval
 ) {
   if (!supabase) {
     console.warn('Supabase not configured, skipping funding history log')
@@ -60,6 +95,9 @@ async function logFundingHistory(
       tx_hash: txHash,
       error_message: error,
       dry_run: dryRun || false,
+      proposal_id: approval?.proposalId,
+      proposed_by: approval?.proposedBy,
+      reviewed_by: approval?.reviewedBy,
     })
   } catch (err) {
     console.error('Failed to log funding history:', err)
@@ -159,26 +197,207 @@ async function transferToAgent(
   }
 }
 
-export async function POST(request: NextRequest): Promise<NextResponse<FundAgentsResponse>> {
+/**
+ * Check the main account can cover the funding
+ * Returns an error response (after logging a failed attempt per agent), or null when it can
+ */
+async function ensureSufficientBalance(
+  amount: number,
+  approval?: FundingApproval
+): Promise<NextResponse<FundAgentsResponse> | null> {
+  const requiredTotal = amount * AGENTS.length
+
   try {
-    const body = (await request.json()) as FundAgentsRequest
+    const mainBalance = await checkMainAccountBalance()
+    console.log(`[Funding] Main account balance: $${mainBalance} USDT`)
 
-    // Verify wallet is whitelisted
-    if (!body.wallet) {
+    if (mainBalance < requiredTotal) {
+      console.warn(
+        `[Funding] Insufficient balance! Have $${mainBalance}, need $${requiredTotal} for ${AGENTS.length} agents`
+      )
+      
+      // Log failed funding attempt for each agent due to insufficient balance
+      for (const agent of AGENTS) {
+        if (agent.signer) {
+          await logFundingHistory(
+            agent.id,
+            agent.name,
+            amount,
+            'failed',
+            undefined,
+            `Insufficient balance in main account. Have $${mainBalance} USDT, need $${requiredTotal} USDT total`,
+            false,
+            approval
+          )
+        }
+      }
+      
       return NextResponse.json(
-        { success: false, message: 'Wallet address is required', error: 'Wallet address is required' },
-        { status: 400 }
+        {
+          success: false,
+          message: `❌ Insufficient balance in main account. Have $${mainBalance} USDT, need $${requiredTotal} USDT to fund ${AGENTS.length} agents ($${amount} each).`,
+          error: 'Insufficient funds',
+          insufficient_balance: true,
+          main_account_balance: mainBalance,
+          required_total: requiredTotal,
+        },
+        { status: 402 } // Payment Required
+      )
+    }
+
+    return null
+  } catch (error: any) {
+    console.error('[Funding] Error checking balance:', error)
+    
+    // Log failed funding attempt for each agent due to credential/API error
+    for (const agent of AGENTS) {
+      if (agent.signer) {
+        await logFundingHistory(
+          agent.id,
+          agent.name,
+          amount,
+          'failed',
+          undefined,
+          `Balance check failed: ${error?.message || 'Failed to verify account balance'}`,
+          false,
+          approval
+        )
+      }
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        message: error?.message || 'Could not verify account balance. Check Aster DEX API credentials.',
+        error: error?.message || 'Failed to check balance',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Simulate funding every agent (nothing is logged or moved)
+ */
+function simulateFunding(amount: number) {
+  const results = []
+
+  for (const agent of AGENTS) {
+    if (!agent.signer) {
+      results.push({
+        agent_id: agent.id,
+        agent_name: agent.name,
+        amount,
+        status: 'failed',
+        error: 'Agent signer not configured',
+      })
+      continue
+    }
+
+    results.push({
+      agent_id: agent.id,
+      agent_name: agent.name,
+      amount,
+      status: 'success',
+      tx_hash: `0xdry_${agent.id}_${Date.now()}`,
+      wallet_address: agent.signer,
+    })
+  }
+
+  return results
+}
+
+/**
+ * Fund every agent for real and log each result
+ */
+async function executeFunding(amount: number, approval?: FundingApproval) {
+  const results = []
+
+  for (const agent of AGENTS) {
+    if (!agent.signer) {
+      const result = {
+        agent_id: agent.id,
+        agent_name: agent.name,
+        amount,
+        status: 'failed',
+        error: 'Agent signer address not configured',
+        wallet_address: 'N/A',
+      }
+      results.push(result)
+      await logFundingHistory(
+        agent.id,
+        agent.name,
+        amount,
+        'failed',
+        undefined,
+        'Agent signer not configured',
+        false,
+        approval
       )
+      continue
     }
 
-    const isWhitelisted = await isPickabooAdminWhitelisted(body.wallet)
-    if (!isWhitelisted) {
+    // Note: Aster API doesn't support programmatic transfers
+    // Return agent signer address so user can manually fund via wallet
+    const result = {
+      agent_id: agent.id,
+      agent_name: agent.name,
+      amount,
+      status: 'pending_manual_transfer',
+      error: 'Aster API does not support programmatic transfers. Manual funding required via BNB Chain wallet.',
+      wallet_address: agent.signer,
+      instructions: `Send $${amount} USDT (BEP-20) to this address on BNB Chain (Chain ID: 56)`,
+    }
+
+    results.push(result)
+    await logFundingHistory(
+      agent.id,
+      agent.name,
+      amount,
+      'pending',
+      `manual_wallet_transfer_to_${agent.signer.substring(0, 6)}...`,
+      'Awaiting manual transfer via BNB Chain wallet',
+      false,
+      approval
+    )
+  }
+
+  return results
+}
+
+/**
+ * Response for an executed funding
+ */
+function fundingResponse(amount: number, results: Awaited<ReturnType<typeof executeFunding>>, prefix: string = '') {
+  const needsManual = results.filter(r => r.status === 'pending_manual_transfer').length
+
+  return NextResponse.json({
+    success: needsManual > 0,
+    message: `${prefix}⚠️ Manual funding required for ${needsManual}/${AGENTS.length} agents. Send USDT to the wallet addresses below via BNB Chain.`,
+    note: 'Aster DEX API does not support programmatic transfers. Please manually transfer USDT using a wallet (MetaMask, etc.)',
+    agentSignerAddresses: AGENTS.filter(a => a.signer).map(a => ({
+      agent: a.name,
+      signer_wallet: a.signer,
+      amount_needed: `$${amount} USDT (BEP-20)`,
+    })),
+    results,
+  })
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<FundAgentsResponse>> {
+  try {
+    // Only a signed-in admin wallet may fund agents
+    const { session, denied } = await requirePickabooAdmin(request, 'fund')
+    if (denied) {
+      const { error } = await denied.json()
       return NextResponse.json(
-        { success: false, message: 'Wallet not authorized to fund agents', error: 'Wallet not authorized' },
-        { status: 403 }
+        { success: false, message: 'Wallet not authorized to fund agents', error },
+        { status: denied.status }
       )
     }
 
+    const body = (await request.json()) as FundAgentsRequest
+
     // Validate amount
     if (!body.amount || body.amount < 50 || body.amount > 1_000_000) {
       return NextResponse.json(
@@ -194,178 +413,265 @@ export async function POST(request: NextRequest): Promise<NextResponse<FundAgent
     const requiredTotal = body.amount * AGENTS.length
 
     // Check main account balance (for non-dry-run)
-    let mainBalance = 0
     if (!body.dryRun) {
-      try {
-        mainBalance = await checkMainAccountBalance()
-        console.log(`[Funding] Main account balance: $${mainBalance} USDT`)
+      const insufficient = await ensureSufficientBalance(body.amount)
+      if (insufficient) return insufficient
+    }
 
-        if (mainBalance < requiredTotal) {
-          console.warn(
-            `[Funding] Insufficient balance! Have $${mainBalance}, need $${requiredTotal} for ${AGENTS.length} agents`
-          )
-          
-          // Log failed funding attempt for each agent due to insufficient balance
-          for (const agent of AGENTS) {
-            if (agent.signer) {
-              await logFundingHistory(
-                agent.id,
-                agent.name,
-                body.amount,
-                'failed',
-                undefined,
-                `Insufficient balance in main account. Have $${mainBalance} USDT, need $${requiredTotal} USDT total`
-              )
-            }
-          }
-          
-          return NextResponse.json(
-            {
-              success: false,
-              message: `❌ Insufficient balance in main account. Have $${mainBalance} USDT, need $${requiredTotal} USDT to fund ${AGENTS.length} agents ($${body.amount} each).`,
-              error: 'Insufficient funds',
-              insufficient_balance: true,
-              main_account_balance: mainBalance,
-              required_total: requiredTotal,
-            },
-            { status: 402 } // Payment Required
-          )
-        }
-      } catch (error: any) {
-        console.error('[Funding] Error checking balance:', error)
-        
-        // Log failed funding attempt for each agent due to credential/API error
-        for (const agent of AGENTS) {
-          if (agent.signer) {
-            await logFundingHistory(
-              agent.id,
-              agent.name,
-              body.amount,
-              'failed',
-              undefined,
-              `Balance check failed: ${error?.message || 'Failed to verify account balance'}`
-            )
-          }
-        }
-        
+    if (body.dryRun) {
+      // Dry run: simulate funding (no balance check)
+      console.log(`[Funding] DRY-RUN MODE: Simulating funding of ${AGENTS.length} agents with $${body.amount} USDT each`)
+      // Don't log dry-run transactions to database
+
+      return NextResponse.json({
+        success: true,
+        message: `[DRY-RUN] Would fund ${AGENTS.length} agents with $${body.amount} USDT each (Total: $${requiredTotal})`,
+        results: simulateFunding(body.amount),
+      })
+    }
+
+    // Large fundings wait for a second admin, who sees exactly what the dry run would move
+    if (requiredTotal > APPROVAL_THRESHOLD) {
+      const dryRunResults = simulateFunding(body.amount)
+      const proposal = await createFundingProposal({
+        amount_per_agent: body.amount,
+        total_amount: requiredTotal,
+        dry_run_results: dryRunResults,
+        proposed_by: session.wallet,
+        expires_at: new Date(Date.now() + PROPOSAL_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+      })
+
+      if (!proposal) {
         return NextResponse.json(
           {
             success: false,
-            message: error?.message || 'Could not verify account balance. Check Aster DEX API credentials.',
-            error: error?.message || 'Failed to check balance',
+            message: 'Failed to create funding proposal',
+            error: 'Could not save the proposal for approval',
           },
           { status: 500 }
         )
       }
+
+      await recordAdminAction(request, {
+        action: 'funding.propose',
+        actor: session.wallet,
+        after: { proposal_id: proposal.id, amount_per_agent: body.amount, total_amount: requiredTotal, expires_at: proposal.expires_at },
+        details: { approval_threshold: APPROVAL_THRESHOLD },
+      })
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: `⏳ $${requiredTotal} exceeds the $${APPROVAL_THRESHOLD} approval threshold. Proposal created; another treasurer or owner must approve it within ${PROPOSAL_TTL_HOURS}h.`,
+          requires_approval: true,
+          proposal,
+          results: dryRunResults,
+        },
+        { status: 202 }
+      )
     }
 
-    const results = []
+    // Real funding
+    console.log(`[Funding] Starting real funding: ${AGENTS.length} agents x $${body.amount} = $${requiredTotal}`)
 
-    if (body.dryRun) {
-      // Dry run: simulate funding (no balance check)
-      console.log(`[Funding] DRY-RUN MODE: Simulating funding of ${AGENTS.length} agents with $${body.amount} USDT each`)
+    const results = await executeFunding(body.amount)
+
+    await recordAdminAction(request, {
+      action: 'funding.request',
+      actor: session.wallet,
+      after: Object.fromEntries(results.map(r => [r.agent_id, { amount: r.amount, status: r.status }])),
+      details: {
+        amount_per_agent: body.amount,
+        required_total: requiredTotal,
+        pending: results.filter(r => r.status === 'pending_manual_transfer').length,
+        failed: results.filter(r => r.status === 'failed').length,
+      },
+    })
 
-      for (const agent of AGENTS) {
-        if (!agent.signer) {
-          results.push({
-            agent_id: agent.id,
-            agent_name: agent.name,
-            amount: body.amount,
-            status: 'failed',
-            error: 'Agent signer not configured',
-          })
-          continue
-        }
+    return fundingResponse(body.amount, results)
+  } catch (error: any) {
+    console.error('Fund agents error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Failed to fund agents',
+        error: error?.message || 'An unexpected error occurred',
+      },
+      { status: 500 }
+    )
+  }
+}
+export async function GET(request: NextRequest) {
+  try {
+    const { denied } = await requirePickabooAdmin(request)
+    if (denied) return denied
 
-        const result = {
-          agent_id: agent.id,
-          agent_name: agent.name,
-          amount: body.amount,
-          status: 'success',
-          tx_hash: `0xdry_${agent.id}_${Date.now()}`,
-        }
-        results.push(result)
-        // Don't log dry-run transactions to database
-      }
+    const status = request.nextUrl.searchParams.get('status') || undefined
+    if (status && !['pending', 'approved', 'rejected', 'expired'].includes(status)) {
+      return NextResponse.json(
+        { success: false, error: 'Status must be pending, approved, rejected or expired' },
+        { status: 400 }
+      )
+    }
 
-      return NextResponse.json({
-        success: true,
-        message: `[DRY-RUN] Would fund ${AGENTS.length} agents with $${body.amount} USDT each (Total: $${requiredTotal})`,
-        results,
-      })
+    await expireFundingProposals()
+    const proposals = await getFundingProposals(status as FundingProposal['status'] | undefined)
+
+    return NextResponse.json({
+      success: true,
+      proposals,
+      approval_threshold: APPROVAL_THRESHOLD,
+    })
+  } catch (error: any) {
+    console.error('Funding proposals error:', error)
+    return NextResponse.json(
+      { success: false, error: error?.message || 'Failed to fetch funding proposals' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest): Promise<NextResponse<FundAgentsResponse>> {
+  try {
+    const { session, denied } = await requirePickabooAdmin(request, 'fund')
+    if (denied) {
+      const { error } = await denied.json()
+      return NextResponse.json(
+        { success: false, message: 'Wallet not authorized to review fundings', error },
+        { status: denied.status }
+      )
     }
 
-    // Real funding
-    console.log(`[Funding] Starting real funding: ${AGENTS.length} agents x $${body.amount} = $${requiredTotal}`)
+    const body = (await request.json()) as ReviewProposalRequest
 
-    for (const agent of AGENTS) {
-      if (!agent.signer) {
-        const result = {
-          agent_id: agent.id,
-          agent_name: agent.name,
-          amount: body.amount,
-          status: 'failed',
-          error: 'Agent signer address not configured',
-          wallet_address: 'N/A',
-        }
-        results.push(result)
+    if (!body.proposal_id || !['approve', 'reject'].includes(body.decision)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid review', error: 'proposal_id and a decision (approve or reject) are required' },
+        { status: 400 }
+      )
+    }
+
+    await expireFundingProposals()
+    const proposal = await getFundingProposal(body.proposal_id)
+
+    if (!proposal) {
+      return NextResponse.json(
+        { success: false, message: 'Proposal not found', error: 'Proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    if (proposal.status !== 'pending') {
+      return NextResponse.json(
+        { success: false, message: `Proposal is already ${proposal.status}`, error: `Proposal is already ${proposal.status}` },
+        { status: 409 }
+      )
+    }
+
+    if (proposal.proposed_by === session.wallet) {
+      return NextResponse.json(
+        { success: false, message: 'A second admin must review this proposal', error: 'You cannot review your own funding proposal' },
+        { status: 403 }
+      )
+    }
+
+    const approval: FundingApproval = {
+      proposalId: proposal.id,
+      proposedBy: proposal.proposed_by,
+      reviewedBy: session.wallet,
+    }
+    const amount = Number(proposal.amount_per_agent)
+
+    if (body.decision === 'reject') {
+      const reviewed = await reviewFundingProposal(proposal.id, 'rejected', session.wallet, body.note)
+      if (!reviewed) {
+        return NextResponse.json(
+          { success: false, message: 'Proposal is no longer pending', error: 'Proposal was already reviewed or has expired' },
+          { status: 409 }
+        )
+      }
+
+      for (const result of proposal.dry_run_results.filter(r => r.status === 'success')) {
         await logFundingHistory(
-          agent.id,
-          agent.name,
-          body.amount,
-          'failed',
+          result.agent_id,
+          result.agent_name,
+          amount,
+          'rejected',
           undefined,
-          'Agent signer not configured'
+          body.note ? `Proposal rejected: ${body.note}` : 'Proposal rejected',
+          false,
+          approval
         )
-        continue
       }
 
-      // Note: Aster API doesn't support programmatic transfers
-      // Return agent signer address so user can manually fund via wallet
-      const result = {
-        agent_id: agent.id,
-        agent_name: agent.name,
-        amount: body.amount,
-        status: 'pending_manual_transfer',
-        error: 'Aster API does not support programmatic transfers. Manual funding required via BNB Chain wallet.',
-        wallet_address: agent.signer,
-        instructions: `Send $${body.amount} USDT (BEP-20) to this address on BNB Chain (Chain ID: 56)`,
-      }
+      await recordAdminAction(request, {
+        action: 'funding.reject',
+        actor: session.wallet,
+        before: { proposal_id: proposal.id, status: 'pending' },
+        after: { proposal_id: proposal.id, status: 'rejected' },
+        details: { proposed_by: proposal.proposed_by, total_amount: proposal.total_amount, note: body.note || null },
+      })
 
-      results.push(result)
-      await logFundingHistory(
-        agent.id,
-        agent.name,
-        body.amount,
-        'pending',
-        `manual_wallet_transfer_to_${agent.signer.substring(0, 6)}...`,
-        'Awaiting manual transfer via BNB Chain wallet'
+      return NextResponse.json({
+        success: true,
+        message: `Proposal rejected ($${proposal.total_amount} total)`,
+        proposal: reviewed,
+      })
+    }
+
+    // The approver signed off on the dry run, so refuse if the destination wallets have changed since
+    const changed = proposal.dry_run_results.filter(
+      r => r.status === 'success' && AGENTS.find(a => a.id === r.agent_id)?.signer !== r.wallet_address
+    )
+    if (changed.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Agent wallets changed since the proposal (${changed.map(r => r.agent_name).join(', ')}). Reject it and propose again.`,
+          error: 'Agent wallets changed',
+        },
+        { status: 409 }
       )
     }
 
-    const needsManual = results.filter(r => r.status === 'pending_manual_transfer').length
-    const failed = results.filter(r => r.status === 'failed').length
+    const insufficient = await ensureSufficientBalance(amount, approval)
+    if (insufficient) return insufficient
 
-    return NextResponse.json({
-      success: needsManual > 0,
-      message: `⚠️ Manual funding required for ${needsManual}/${AGENTS.length} agents. Send USDT to the wallet addresses below via BNB Chain.`,
-      note: 'Aster DEX API does not support programmatic transfers. Please manually transfer USDT using a wallet (MetaMask, etc.)',
-      agentSignerAddresses: AGENTS.filter(a => a.signer).map(a => ({
-        agent: a.name,
-        signer_wallet: a.signer,
-        amount_needed: `$${body.amount} USDT (BEP-20)`,
-      })),
-      results,
+    const reviewed = await reviewFundingProposal(proposal.id, 'approved', session.wallet, body.note)
+    if (!reviewed) {
+      return NextResponse.json(
+        { success: false, message: 'Proposal is no longer pending', error: 'Proposal was already reviewed or has expired' },
+        { status: 409 }
+      )
+    }
+
+    console.log(`[Funding] Proposal ${proposal.id} approved by ${session.wallet}: ${AGENTS.length} agents x $${amount}`)
+
+    const results = await executeFunding(amount, approval)
+
+    await recordAdminAction(request, {
+      action: 'funding.approve',
+      actor: session.wallet,
+      before: { proposal_id: proposal.id, status: 'pending' },
+      after: { proposal_id: proposal.id, status: 'approved' },
+      details: {
+        proposed_by: proposal.proposed_by,
+        amount_per_agent: amount,
+        total_amount: proposal.total_amount,
+        results: Object.fromEntries(results.map(r => [r.agent_id, r.status])),
+      },
     })
+
+    return fundingResponse(amount, results, '✅ Proposal approved. ')
   } catch (error: any) {
-    console.error('Fund agents error:', error)
+    console.error('Review funding proposal error:', error)
     return NextResponse.json(
       {
         success: false,
-        message: 'Failed to fund agents',
+        message: 'Failed to review funding proposal',
         error: error?.message || 'An unexpected error occurred',
       },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -1,20 +1,25 @@
 /**
- * GET /api/pickaboo/funding-history?password=<password>&limit=<limit>&offset=<offset>
- * Fetch funding history from database
+ * GET /api/pickaboo/funding-history?limit=<limit>&offset=<offset>
+ * Fetch funding history from database (requires an admin session)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase, isPickabooAdminWhitelisted } from '@/lib/supabase-client'
+import { supabase } from '@/lib/supabase-client'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
 
 interface FundingHistoryEntry {
   id: string
   agent_id: string
   agent_name?: string
   amount: number
-  status: 'success' | 'failed' | 'pending'
+  status: 'success' | 'failed' | 'pending' | 'rejected'
   tx_hash?: string
   error_message?: string
   dry_run: boolean
+  proposal_id?: string
+  proposed_by?: string // Set with reviewed_by when the funding went through two-person approval
+  reviewed_by?: string
+  direction?: 'top_up' | 'sweep_back' // Treasury rebalance transfers
   created_at: string
   updated_at: string
 }
@@ -29,24 +34,14 @@ interface FundingHistoryResponse {
 export async function GET(request: NextRequest): Promise<NextResponse<FundingHistoryResponse>> {
   try {
     const { searchParams } = new URL(request.url)
-    const wallet = searchParams.get('wallet')
     const limit = parseInt(searchParams.get('limit') || '50')
     const offset = parseInt(searchParams.get('offset') || '0')
 
-    // Verify wallet is whitelisted
-    if (!wallet) {
-      return NextResponse.json(
-        { success: false, error: 'Wallet address is required' },
-        { status: 400 }
-      )
-    }
-
-    const isWhitelisted = await isPickabooAdminWhitelisted(wallet)
-    if (!isWhitelisted) {
-      return NextResponse.json(
-        { success: false, error: 'Wallet not authorized' },
-        { status: 403 }
-      )
+    // Verify admin session
+    const { denied } = await requirePickabooAdmin(request)
+    if (denied) {
+      const { error } = await denied.json()
+      return NextResponse.json({ success: false, error }, { status: denied.status })
     }
 
     if (!supabase) {
@@ -1,24 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { isPickabooAdminWhitelisted, getPickabooAdmins, addPickabooAdmin, removePickabooAdmin } from '@/lib/supabase-client'
-
-// Simple password verification for admin operations
-const ADMIN_PASSWORD = process.env.PICKABOO_ADMIN_PASSWORD || 'admin123'
-
-function verifyAdminPassword(password: string): boolean {
-  return password === ADMIN_PASSWORD
-}
+import {
+  getPickabooAdminRole,
+  getPickabooAdmins,
+  addPickabooAdmin,
+  removePickabooAdmin,
+  updatePickabooAdminRole,
+} from '@/lib/supabase-client'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+import { recordAdminAction } from '@/lib/admin-audit'
+import { isPickabooRole, PICKABOO_ROLES } from '@/lib/pickaboo-roles'
+
+// Every operation requires a signed-in owner (see /api/pickaboo/verify-wallet).
+// The first owner is inserted directly into pickaboo_admin_whitelist.
+// Additions, removals and role changes go to the admin audit log (admin.add, admin.role_change, admin.remove).
 
 // GET /api/pickaboo/manage-admins - List all admins
 export async function GET(request: NextRequest) {
   try {
-    const password = request.nextUrl.searchParams.get('password')
-
-    if (!verifyAdminPassword(password || '')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const { denied } = await requirePickabooAdmin(request, 'manage_admins')
+    if (denied) return denied
 
     const admins = await getPickabooAdmins()
 
@@ -29,6 +29,7 @@ export async function GET(request: NextRequest) {
         wallet_address: admin.wallet_address,
         admin_name: admin.admin_name,
         added_by: admin.added_by,
+        role: admin.role,
         created_at: admin.created_at,
       })),
     })
@@ -41,36 +42,39 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/pickaboo/manage-admins - Add new admin
+// POST /api/pickaboo/manage-admins - Add new admin { wallet_address, admin_name?, role? (default viewer) }
 export async function POST(request: NextRequest) {
   try {
+    const { session, denied } = await requirePickabooAdmin(request, 'manage_admins')
+    if (denied) return denied
+
     const body = await request.json()
-    const { password, wallet_address, admin_name, added_by } = body
+    const { wallet_address, admin_name, role = 'viewer' } = body
 
-    if (!verifyAdminPassword(password)) {
+    if (!wallet_address) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: 'Wallet address is required' },
+        { status: 400 }
       )
     }
 
-    if (!wallet_address) {
+    if (!isPickabooRole(role)) {
       return NextResponse.json(
-        { error: 'Wallet address is required' },
+        { error: `Role must be one of: ${PICKABOO_ROLES.join(', ')}` },
         { status: 400 }
       )
     }
 
     // Check if already whitelisted
-    const isWhitelisted = await isPickabooAdminWhitelisted(wallet_address)
-    if (isWhitelisted) {
+    const currentRole = await getPickabooAdminRole(wallet_address)
+    if (currentRole) {
       return NextResponse.json(
         { error: 'Wallet is already whitelisted' },
         { status: 409 }
       )
     }
 
-    const success = await addPickabooAdmin(wallet_address, admin_name, added_by)
+    const success = await addPickabooAdmin(wallet_address, admin_name, session.wallet, role)
 
     if (!success) {
       return NextResponse.json(
@@ -79,10 +83,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await recordAdminAction(request, {
+      action: 'admin.add',
+      actor: session.wallet,
+      after: { wallet_address: wallet_address.toLowerCase(), admin_name: admin_name || null, role },
+    })
+
     return NextResponse.json({
       success: true,
       message: 'Admin added successfully',
       wallet_address: wallet_address.toLowerCase(),
+      role,
     })
   } catch (error: any) {
     console.error('Error adding admin:', error)
@@ -93,19 +104,87 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// DELETE /api/pickaboo/manage-admins - Remove admin
-export async function DELETE(request: NextRequest) {
+// PATCH /api/pickaboo/manage-admins - Change an admin's role { wallet_address, role }
+export async function PATCH(request: NextRequest) {
   try {
+    const { session, denied } = await requirePickabooAdmin(request, 'manage_admins')
+    if (denied) return denied
+
     const body = await request.json()
-    const { password, wallet_address } = body
+    const { wallet_address, role } = body
+
+    if (!wallet_address || !isPickabooRole(role)) {
+      return NextResponse.json(
+        { error: `Wallet address and a role (${PICKABOO_ROLES.join(', ')}) are required` },
+        { status: 400 }
+      )
+    }
+
+    // An owner demoting themselves could leave nobody able to manage admins
+    if (wallet_address.toLowerCase() === session.wallet) {
+      return NextResponse.json(
+        { error: 'You cannot change your own role' },
+        { status: 400 }
+      )
+    }
+
+    const previousRole = await getPickabooAdminRole(wallet_address)
+    if (!previousRole) {
+      return NextResponse.json(
+        { error: 'Wallet is not an admin' },
+        { status: 404 }
+      )
+    }
 
-    if (!verifyAdminPassword(password)) {
+    if (previousRole === role) {
+      return NextResponse.json({
+        success: true,
+        message: `Admin is already a ${role}`,
+        wallet_address: wallet_address.toLowerCase(),
+        role,
+      })
+    }
+
+    const success = await updatePickabooAdminRole(wallet_address, role)
+
+    if (!success) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: 'Failed to change role' },
+        { status: 500 }
       )
     }
 
+    await recordAdminAction(request, {
+      action: 'admin.role_change',
+      actor: session.wallet,
+      before: { wallet_address: wallet_address.toLowerCase(), role: previousRole },
+      after: { wallet_address: wallet_address.toLowerCase(), role },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `Role changed from ${previousRole} to ${role}`,
+      wallet_address: wallet_address.toLowerCase(),
+      role,
+    })
+  } catch (error: any) {
+    console.error('Error changing admin role:', error)
+    return NextResponse.json(
+      { error: error?.message || 'Failed to change role' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/pickaboo/manage-admins - Remove admin
+export async function DELETE(request: NextRequest) {
+  try {
+    const { session, denied } = await requirePickabooAdmin(request, 'manage_admins')
+    if (denied) return denied
+
+    const body = await request.json()
+    const { wallet_address } = body
+
     if (!wallet_address) {
       return NextResponse.json(
         { error: 'Wallet address is required' },
@@ -113,6 +192,14 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
+    if (wallet_address.toLowerCase() === session.wallet) {
+      return NextResponse.json(
+        { error: 'You cannot remove yourself' },
+        { status: 400 }
+      )
+    }
+
+    const previousRole = await getPickabooAdminRole(wallet_address)
     const success = await removePickabooAdmin(wallet_address)
 
     if (!success) {
@@ -122,6 +209,12 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
+    await recordAdminAction(request, {
+      action: 'admin.remove',
+      actor: session.wallet,
+      before: { wallet_address: wallet_address.toLowerCase(), role: previousRole },
+    })
+
     return NextResponse.json({
       success: true,
       message: 'Admin removed successfully',
@@ -134,4 +227,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
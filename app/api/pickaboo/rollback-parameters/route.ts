@@ -0,0 +1,151 @@
+/**
+ * API Endpoint: /api/pickaboo/rollback-parameters
+ * Roll an agent back to the parameter set it had before the last update
+ * (optimizer run or manual POST /api/aster/agents/parameters)
+ *
+ * Requires an admin session (see /api/pickaboo/verify-wallet); POST needs the operator role
+ *
+ * GET: current and previous parameters (?agent_id=)
+ * POST: { agent_id } restore the previous set and tell the running agent to reload it
+ *
+ * Running agents also pick up the restored set on their next scheduled refresh
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+import { recordAdminAction } from '@/lib/admin-audit'
+import { getAgent } from '@/lib/constants/agents'
+import { rollbackAgentParameters, formatParameters } from '@/lib/agent-learning'
+import { getCache, CACHE_KEYS } from '@/lib/redis-client'
+import { AgentParameters } from '@/lib/types/learning'
+
+const supabaseUrl = process.env.SUPABASE_URL
+const supabaseKey = process.env.SUPABASE_SERVICE_KEY
+
+const supabase = supabaseUrl && supabaseKey
+  ? createClient(supabaseUrl, supabaseKey)
+  : null
+
+export async function GET(request: NextRequest) {
+  try {
+    const { denied } = await requirePickabooAdmin(request)
+    if (denied) return denied
+
+    const { searchParams } = new URL(request.url)
+    const agentId = searchParams.get('agent_id')
+
+    if (!agentId) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: agent_id' },
+        { status: 400 }
+      )
+    }
+
+    const current = await getCache<AgentParameters>(CACHE_KEYS.agentParameters(agentId))
+    const previous = await getCache<AgentParameters>(CACHE_KEYS.previousAgentParameters(agentId))
+
+    return NextResponse.json({
+      success: true,
+      agent_id: agentId,
+      current,
+      previous,
+      can_rollback: !!previous,
+    })
+  } catch (error) {
+    console.error('Error fetching parameter history:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to fetch parameter history',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // The requesting wallet comes from the admin session, never from the body
+    const { session, denied } = await requirePickabooAdmin(request, 'operate')
+    if (denied) return denied
+    const wallet = session.wallet
+
+    const body = await request.json()
+    const { agent_id } = body
+
+    if (!agent_id) {
+      return NextResponse.json(
+        { error: 'Missing required field: agent_id' },
+        { status: 400 }
+      )
+    }
+
+    if (!getAgent(agent_id)) {
+      return NextResponse.json(
+        { error: `Unknown agent: ${agent_id}` },
+        { status: 404 }
+      )
+    }
+
+    const current = await getCache<AgentParameters>(CACHE_KEYS.agentParameters(agent_id))
+    const restored = await rollbackAgentParameters(agent_id)
+
+    if (!restored) {
+      return NextResponse.json(
+        { error: `No previous parameters stored for ${agent_id}` },
+        { status: 404 }
+      )
+    }
+
+    console.log('[Pickaboo API] Rolled back agent parameters:', {
+      agent_id,
+      parameters: formatParameters(restored),
+      requested_by: wallet.toLowerCase(),
+    })
+
+    // Ask the running agent to apply the restored set now instead of at its next refresh
+    let reloadQueued = false
+    if (supabase) {
+      const { error: insertError } = await supabase
+        .from('agent_commands')
+        .insert({
+          agent_id,
+          command: 'reload_parameters',
+          payload: { reason: `rollback by ${wallet.toLowerCase()}` },
+          status: 'pending',
+          requested_by: wallet.toLowerCase(),
+          created_at: new Date().toISOString(),
+        })
+
+      if (insertError) {
+        console.error('[Pickaboo API] Error queueing parameter reload:', insertError)
+      } else {
+        reloadQueued = true
+      }
+    }
+
+    await recordAdminAction(request, {
+      action: 'parameters.rollback',
+      actor: wallet,
+      targetAgent: agent_id,
+      before: current,
+      after: restored,
+      details: { reload_queued: reloadQueued },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `Rolled back ${agent_id} to previous parameters`,
+      parameters: restored,
+      reload_queued: reloadQueued,
+    })
+  } catch (error) {
+    console.error('Error rolling back parameters:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to roll back parameters',
+      },
+      { status: 500 }
+    )
+  }
+}
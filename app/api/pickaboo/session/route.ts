@@ -0,0 +1,27 @@
+/**
+ * GET /api/pickaboo/session - current admin session (restores the dashboard after a reload)
+ * DELETE /api/pickaboo/session - sign out
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePickabooAdmin, endSession } from '@/lib/pickaboo-auth'
+
+export async function GET(request: NextRequest) {
+  const { session, role, denied } = await requirePickabooAdmin(request)
+  if (denied) {
+    return NextResponse.json({ authenticated: false }, { status: denied.status })
+  }
+
+  return NextResponse.json({
+    authenticated: true,
+    wallet_address: session.wallet,
+    role,
+    expires_at: new Date(session.expiresAt).toISOString(),
+  })
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ authenticated: false })
+  endSession(response)
+  return response
+}
@@ -0,0 +1,24 @@
+/**
+ * GET /api/pickaboo/siwe-nonce
+ * Issue a nonce for a Sign-In with Ethereum message (valid for 2 minutes, single use)
+ * and the chain ID the message must name
+ */
+
+import { NextResponse } from 'next/server'
+import { createSignInNonce, getSignInChainId, setNonceCookie } from '@/lib/pickaboo-auth'
+
+export async function GET() {
+  try {
+    const { nonce, token } = await createSignInNonce()
+    const response = NextResponse.json({ nonce, chainId: getSignInChainId() })
+    response.headers.set('Cache-Control', 'no-store')
+    setNonceCookie(response, token)
+    return response
+  } catch (error: any) {
+    console.error('Error issuing sign-in nonce:', error)
+    return NextResponse.json(
+      { error: error?.message || 'Failed to issue nonce' },
+      { status: 500 }
+    )
+  }
+}
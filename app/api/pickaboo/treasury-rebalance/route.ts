@@ -0,0 +1,120 @@
+/**
+ * GET /api/pickaboo/treasury-rebalance
+ * Rebalance policies and a dry run of what the next cron run would move (requires an admin session)
+ * PUT /api/pickaboo/treasury-rebalance
+ * Create or replace an agent's policy (requires a treasurer or owner session)
+ * {
+ *   agent_id, target_equity, min_equity, max_equity,
+ *   top_up_every_hours?, sweep_back_every_hours?, enabled?
+ * }
+ * Transfers only execute from /api/cron/rebalance-treasury with TREASURY_REBALANCE_MODE=live
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getRebalancePolicies, saveRebalancePolicy, type RebalancePolicy } from '@/lib/supabase-client'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+import { recordAdminAction } from '@/lib/admin-audit'
+import { getRebalanceSafeguards, runTreasuryRebalance } from '@/lib/treasury-rebalancer'
+import { AGENTS } from '@/lib/constants/agents'
+
+// Policy fields worth diffing (not who saved it or when)
+function auditState(policy: RebalancePolicy) {
+  const { target_equity, min_equity, max_equity, top_up_every_hours, sweep_back_every_hours, enabled } = policy
+  return { target_equity, min_equity, max_equity, top_up_every_hours, sweep_back_every_hours, enabled }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { denied } = await requirePickabooAdmin(request)
+    if (denied) return denied
+
+    const report = await runTreasuryRebalance({ dryRun: true })
+
+    return NextResponse.json({
+      success: true,
+      mode: process.env.TREASURY_REBALANCE_MODE === 'live' ? 'live' : 'dry_run',
+      policies: await getRebalancePolicies(),
+      safeguards: getRebalanceSafeguards(),
+      plan: report.plan,
+      warning: report.warning,
+    })
+  } catch (error: any) {
+    console.error('Treasury rebalance preview error:', error)
+    return NextResponse.json(
+      { success: false, error: error?.message || 'Failed to preview treasury rebalance' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { session, denied } = await requirePickabooAdmin(request, 'fund')
+    if (denied) return denied
+
+    const body = await request.json()
+    const policy: RebalancePolicy = {
+      agent_id: body.agent_id,
+      target_equity: Number(body.target_equity),
+      min_equity: Number(body.min_equity),
+      max_equity: Number(body.max_equity),
+      top_up_every_hours: body.top_up_every_hours === undefined ? 24 : Number(body.top_up_every_hours),
+      sweep_back_every_hours: body.sweep_back_every_hours === undefined ? 168 : Number(body.sweep_back_every_hours),
+      enabled: body.enabled !== false,
+      updated_by: session.wallet,
+    }
+
+    if (typeof policy.agent_id !== 'string' || !Object.hasOwn(AGENTS, policy.agent_id)) {
+      return NextResponse.json(
+        { success: false, error: `agent_id must be one of: ${Object.keys(AGENTS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const amounts = [policy.min_equity, policy.target_equity, policy.max_equity]
+    if (amounts.some(a => !Number.isFinite(a) || a < 0) || policy.min_equity > policy.target_equity || policy.target_equity > policy.max_equity) {
+      return NextResponse.json(
+        { success: false, error: 'Equities must satisfy 0 <= min_equity <= target_equity <= max_equity' },
+        { status: 400 }
+      )
+    }
+
+    const schedule = [policy.top_up_every_hours, policy.sweep_back_every_hours]
+    if (schedule.some(h => !Number.isInteger(h) || h < 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Schedules must be whole hours (0 disables that direction)' },
+        { status: 400 }
+      )
+    }
+
+    const previous = (await getRebalancePolicies()).find(p => p.agent_id === policy.agent_id) || null
+    const success = await saveRebalancePolicy(policy)
+
+    if (!success) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to save rebalance policy' },
+        { status: 500 }
+      )
+    }
+
+    await recordAdminAction(request, {
+      action: 'treasury.policy_update',
+      actor: session.wallet,
+      targetAgent: policy.agent_id,
+      before: previous && auditState(previous),
+      after: auditState(policy),
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `Rebalance policy saved for ${AGENTS[policy.agent_id].name}`,
+      policy,
+    })
+  } catch (error: any) {
+    console.error('Treasury rebalance policy error:', error)
+    return NextResponse.json(
+      { success: false, error: error?.message || 'Failed to save rebalance policy' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,11 +2,13 @@
  * API Endpoint: PUT /api/pickaboo/update-agent-symbols
  * Updates multiple trading symbols for a specific agent
  * Allows each agent to trade different symbols simultaneously
+ * Requires an admin session (see /api/pickaboo/verify-wallet); PUT needs the operator role
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
-import { isPickabooAdminWhitelisted } from '@/lib/supabase-client'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+import { recordAdminAction } from '@/lib/admin-audit'
 
 const supabaseUrl = process.env.SUPABASE_URL
 const supabaseKey = process.env.SUPABASE_SERVICE_KEY
@@ -17,26 +19,21 @@ const supabase = supabaseUrl && supabaseKey
 
 export async function PUT(request: NextRequest) {
   try {
+    // The requesting wallet comes from the admin session, never from the body
+    const { session, denied } = await requirePickabooAdmin(request, 'operate')
+    if (denied) return denied
+    const wallet = session.wallet
+
     const body = await request.json()
-    const { wallet, agent_id, symbols } = body
+    const { agent_id, symbols } = body
 
-    if (!wallet || !agent_id || !Array.isArray(symbols) || symbols.length === 0) {
+    if (!agent_id || !Array.isArray(symbols) || symbols.length === 0) {
       return NextResponse.json(
-        { error: 'Missing or invalid required fields: wallet, agent_id, symbols' },
+        { error: 'Missing or invalid required fields: agent_id, symbols' },
         { status: 400 }
       )
     }
 
-    // Verify wallet is authorized using the central whitelist check
-    const isAdmin = await isPickabooAdminWhitelisted(wallet)
-
-    if (!isAdmin) {
-      return NextResponse.json(
-        { error: 'Unauthorized: Wallet not in admin list' },
-        { status: 403 }
-      )
-    }
-
     if (!supabase) {
       console.warn('[Pickaboo API] Supabase not configured, cannot update symbols')
       return NextResponse.json(
@@ -48,6 +45,12 @@ export async function PUT(request: NextRequest) {
       )
     }
 
+    const { data: existing } = await supabase
+      .from('agent_trading_symbols')
+      .select('symbols')
+      .eq('agent_id', agent_id)
+      .maybeSingle()
+
     // Store agent symbols in agent_trading_symbols table
     console.log('[Pickaboo API] Updating symbols for agent:', {
       agent_id,
@@ -107,6 +110,14 @@ export async function PUT(request: NextRequest) {
       // Don't fail the request for this - it's just for legacy compatibility
     }
 
+    await recordAdminAction(request, {
+      action: 'symbols.update',
+      actor: wallet,
+      targetAgent: agent_id,
+      before: { symbols: existing?.symbols || [] },
+      after: { symbols },
+    })
+
     return NextResponse.json({
       success: true,
       message: `Agent ${agent_id} now trading: ${symbols.join(', ')}`,
@@ -128,19 +139,14 @@ export async function PUT(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const { session, denied } = await requirePickabooAdmin(request)
+    if (denied) return denied
+
     const { searchParams } = new URL(request.url)
-    const wallet = searchParams.get('wallet')
     const agentId = searchParams.get('agent_id')
 
-    if (!wallet) {
-      return NextResponse.json(
-        { error: 'Missing wallet parameter' },
-        { status: 400 }
-      )
-    }
-
     console.log('[Pickaboo API] Fetching agent symbols:', {
-      wallet,
+      wallet: session.wallet,
       agentId,
     })
 
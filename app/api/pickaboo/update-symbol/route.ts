@@ -1,16 +1,17 @@
 /**
  * PUT /api/pickaboo/update-symbol
- * Update trading symbol for agents
+ * Update trading symbol for agents (requires an operator or owner session)
  * GET /api/pickaboo/update-symbol
  * Get supported symbols from Asterdex and current agent symbols
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase, isPickabooAdminWhitelisted } from '@/lib/supabase-client'
+import { supabase } from '@/lib/supabase-client'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+import { recordAdminAction } from '@/lib/admin-audit'
 import { AsterClient } from '@/lib/aster-client'
 
 interface UpdateSymbolRequest {
-  wallet: string
   symbol: string
   agentId?: string // If not provided, update all agents
 }
@@ -46,23 +47,14 @@ async function getSupportedSymbols(): Promise<string[]> {
 
 export async function PUT(request: NextRequest): Promise<NextResponse<UpdateSymbolResponse>> {
   try {
-    const body = (await request.json()) as UpdateSymbolRequest
-
-    // Verify wallet is whitelisted
-    if (!body.wallet) {
-      return NextResponse.json(
-        { success: false, error: 'Wallet address is required' },
-        { status: 400 }
-      )
+    // Only a signed-in admin wallet may change symbols
+    const { session, denied } = await requirePickabooAdmin(request, 'operate')
+    if (denied) {
+      const { error } = await denied.json()
+      return NextResponse.json({ success: false, error }, { status: denied.status })
     }
 
-    const isWhitelisted = await isPickabooAdminWhitelisted(body.wallet)
-    if (!isWhitelisted) {
-      return NextResponse.json(
-        { success: false, error: 'Wallet not authorized' },
-        { status: 403 }
-      )
-    }
+    const body = (await request.json()) as UpdateSymbolRequest
 
     // Validate symbol
     if (!body.symbol || !isValidSymbol(body.symbol)) {
@@ -81,6 +73,11 @@ export async function PUT(request: NextRequest): Promise<NextResponse<UpdateSymb
 
     const agentIds = body.agentId ? [body.agentId] : ALL_AGENTS
 
+    const { data: previous } = await supabase
+      .from('trading_symbols')
+      .select('agent_id, symbol')
+      .in('agent_id', agentIds)
+
     // Update trading symbols in database
     const { error } = await supabase
       .from('trading_symbols')
@@ -99,6 +96,14 @@ export async function PUT(request: NextRequest): Promise<NextResponse<UpdateSymb
       )
     }
 
+    await recordAdminAction(request, {
+      action: 'symbol.update',
+      actor: session.wallet,
+      targetAgent: body.agentId || null,
+      before: Object.fromEntries((previous || []).map(row => [row.agent_id, row.symbol])),
+      after: Object.fromEntries(agentIds.map(id => [id, body.symbol])),
+    })
+
     const message =
       agentIds.length === ALL_AGENTS.length
         ? `Updated trading symbol to ${body.symbol} for all agents`
@@ -118,22 +123,8 @@ export async function PUT(request: NextRequest): Promise<NextResponse<UpdateSymb
   }
 }
 
-export async function GET(request: NextRequest): Promise<NextResponse<any>> {
+export async function GET(): Promise<NextResponse<any>> {
   try {
-    const { searchParams } = new URL(request.url)
-    const wallet = searchParams.get('wallet')
-
-    // Verify wallet is whitelisted (optional for GET, but recommended)
-    if (wallet) {
-      const isWhitelisted = await isPickabooAdminWhitelisted(wallet)
-      if (!isWhitelisted) {
-        return NextResponse.json(
-          { success: false, error: 'Wallet not authorized' },
-          { status: 403 }
-        )
-      }
-    }
-
     // Fetch supported symbols from Asterdex
     const supportedSymbols = await getSupportedSymbols()
 
@@ -1,10 +1,10 @@
 /**
- * GET /api/pickaboo/verify-balances?password=<password>
- * Get current USDT balances for all agents
+ * GET /api/pickaboo/verify-balances
+ * Get current USDT balances for all agents (requires an admin session)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { isPickabooAdminWhitelisted } from '@/lib/supabase-client'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
 
 interface BalanceCheckResult {
   agent_id: string
@@ -23,23 +23,11 @@ interface VerifyBalancesResponse {
 
 export async function GET(request: NextRequest): Promise<NextResponse<VerifyBalancesResponse>> {
   try {
-    const { searchParams } = new URL(request.url)
-    const wallet = searchParams.get('wallet')
-
-    // Verify wallet is whitelisted
-    if (!wallet) {
-      return NextResponse.json(
-        { success: false, error: 'Wallet address is required' },
-        { status: 400 }
-      )
-    }
-
-    const isWhitelisted = await isPickabooAdminWhitelisted(wallet)
-    if (!isWhitelisted) {
-      return NextResponse.json(
-        { success: false, error: 'Wallet not authorized' },
-        { status: 403 }
-      )
+    // Verify admin session
+    const { denied } = await requirePickabooAdmin(request)
+    if (denied) {
+      const { error } = await denied.json()
+      return NextResponse.json({ success: false, error }, { status: denied.status })
     }
 
     // Mock agent data - in real implementation, fetch from Aster DEX API
@@ -1,34 +1,55 @@
+/**
+ * POST /api/pickaboo/verify-wallet
+ * Sign in to Pickaboo with { message, signature }: an EIP-4361 message carrying the nonce from
+ * /api/pickaboo/siwe-nonce, signed by a whitelisted admin wallet. Sets the admin session cookie
+ * and returns the admin's role so the dashboard can hide controls it can't use.
+ */
+
 import { NextRequest, NextResponse } from 'next/server'
-import { isPickabooAdminWhitelisted, getPickabooAdmins } from '@/lib/supabase-client'
+import { getPickabooAdminRole } from '@/lib/supabase-client'
+import { verifySignIn, createSession, setSessionCookie } from '@/lib/pickaboo-auth'
 
-// POST /api/pickaboo/verify-wallet
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { wallet_address } = body
+    const { message, signature } = body
 
-    if (!wallet_address) {
+    if (typeof message !== 'string' || typeof signature !== 'string') {
       return NextResponse.json(
-        { error: 'Wallet address is required' },
+        { error: 'Signed sign-in message is required' },
         { status: 400 }
       )
     }
 
+    const result = await verifySignIn(request, message, signature)
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { authenticated: false, error: result.error },
+        { status: 401 }
+      )
+    }
+
     // Check if wallet is whitelisted
-    const isWhitelisted = await isPickabooAdminWhitelisted(wallet_address)
+    const role = await getPickabooAdminRole(result.wallet)
 
-    if (!isWhitelisted) {
+    if (!role) {
       return NextResponse.json(
         { authenticated: false, error: 'Wallet not authorized' },
         { status: 403 }
       )
     }
 
-    return NextResponse.json({
+    const session = createSession(result.wallet)
+    const response = NextResponse.json({
       authenticated: true,
-      wallet_address: wallet_address.toLowerCase(),
+      wallet_address: session.wallet,
+      role,
+      expires_at: new Date(session.expiresAt).toISOString(),
       message: 'Wallet verified successfully',
     })
+    setSessionCookie(response, session)
+
+    return response
   } catch (error: any) {
     console.error('Error verifying wallet:', error)
     return NextResponse.json(
@@ -36,4 +57,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -1,9 +1,11 @@
 import { NextResponse } from 'next/server'
-import { getWaitlistEntries, getWaitlistStats, removeFromWaitlist, isPickabooAdminWhitelisted } from '@/lib/supabase-client'
+import { getWaitlistEntries, getWaitlistStats, removeFromWaitlist } from '@/lib/supabase-client'
+import { requirePickabooAdmin } from '@/lib/pickaboo-auth'
+import { recordAdminAction } from '@/lib/admin-audit'
 
 /**
  * GET /api/pickaboo/waitlist
- * Retrieve waitlist entries (admin only)
+ * Retrieve waitlist entries (admin session required)
  * Query params:
  *   - limit: number of entries to fetch (default: 100)
  *   - offset: pagination offset (default: 0)
@@ -12,23 +14,16 @@ import { getWaitlistEntries, getWaitlistStats, removeFromWaitlist, isPickabooAdm
  */
 export async function GET(request: Request) {
   try {
+    // Verify admin access
+    const { denied } = await requirePickabooAdmin(request)
+    if (denied) return denied
+
     const { searchParams } = new URL(request.url)
-    const wallet = searchParams.get('wallet')
     const stats = searchParams.get('stats') === 'true'
     const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 1000)
     const offset = parseInt(searchParams.get('offset') || '0')
     const interest = searchParams.get('interest')
 
-    // Verify admin access
-    if (!wallet) {
-      return NextResponse.json({ error: 'Wallet address required' }, { status: 400 })
-    }
-
-    const isAdmin = await isPickabooAdminWhitelisted(wallet)
-    if (!isAdmin) {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
-    }
-
     if (stats) {
       const stats_data = await getWaitlistStats()
       return NextResponse.json({
@@ -51,26 +46,22 @@ export async function GET(request: Request) {
 
 /**
  * DELETE /api/pickaboo/waitlist
- * Remove a waitlist entry (admin only)
+ * Remove a waitlist entry (admin session required)
  * Query params:
  *   - email: email address to remove
- *   - wallet: admin wallet address
  */
 export async function DELETE(request: Request) {
   try {
+    // Verify admin access (operators and owners)
+    const { session, denied } = await requirePickabooAdmin(request, 'operate')
+    if (denied) return denied
+
     const { searchParams } = new URL(request.url)
     const email = searchParams.get('email')
-    const wallet = searchParams.get('wallet')
 
     // Validate inputs
-    if (!email || !wallet) {
-      return NextResponse.json({ error: 'Email and wallet address required' }, { status: 400 })
-    }
-
-    // Verify admin access
-    const isAdmin = await isPickabooAdminWhitelisted(wallet)
-    if (!isAdmin) {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    if (!email) {
+      return NextResponse.json({ error: 'Email required' }, { status: 400 })
     }
 
     // Remove from waitlist
@@ -80,6 +71,12 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: 'Failed to remove from waitlist' }, { status: 400 })
     }
 
+    await recordAdminAction(request, {
+      action: 'waitlist.remove',
+      actor: session.wallet,
+      before: { email },
+    })
+
     return NextResponse.json({
       success: true,
       message: `Removed ${email} from waitlist`,
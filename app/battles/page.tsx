@@ -0,0 +1,18 @@
+"use client"
+
+import { Header } from "@/components/header"
+import { AgentBattleArena } from "@/components/agent-battle-arena"
+import { BattleLeaderboard } from "@/components/battle-leaderboard"
+
+export default function BattlesPage() {
+  return (
+    <div className="min-h-screen bg-[#f5f5f0]">
+      <Header />
+
+      <main className="max-w-[1400px] mx-auto px-6 py-8 space-y-8">
+        <AgentBattleArena />
+        <BattleLeaderboard />
+      </main>
+    </div>
+  )
+}
@@ -17,6 +17,8 @@ interface Agent {
   returnPercent: number
   totalPnL: number
   fees: number
+  funding?: number
+  realizedPnL?: number
   winRate: number
   biggestWin: number
   biggestLoss: number
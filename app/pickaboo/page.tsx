@@ -8,8 +8,9 @@ import { Input } from '@/components/ui/input'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { AlertTriangle, CheckCircle, XCircle, Loader2, Eye, EyeOff, Download, LogOut, Wallet, Settings, History, RefreshCw, Play, Zap, Copy, Check, Trash2, TestTube, DollarSign, Plus, Trash, ExternalLink, Users } from 'lucide-react'
+import { AlertTriangle, CheckCircle, XCircle, Loader2, Eye, EyeOff, Download, LogOut, Wallet, Settings, History, RefreshCw, Play, Zap, Copy, Check, Trash2, TestTube, DollarSign, Plus, Trash, ExternalLink, Users, Scroll } from 'lucide-react'
 import { useWalletAuth } from '@/hooks/use-wallet-auth'
+import { hasPickabooPermission, PICKABOO_ROLES, type PickabooPermission, type PickabooRole } from '@/lib/pickaboo-roles'
 
 // Animated background component
 function AnimatedBackground() {
@@ -122,12 +123,47 @@ interface FundingHistoryEntry {
   tx_hash?: string
   error_message?: string
   dry_run: boolean
+  proposed_by?: string
+  reviewed_by?: string
+  direction?: 'top_up' | 'sweep_back'
   created_at: string
 }
 
+interface FundingProposal {
+  id: string
+  amount_per_agent: number
+  total_amount: number
+  dry_run_results: { agent_id: string; agent_name: string; amount: number; status: string; wallet_address?: string; error?: string }[]
+  proposed_by: string
+  status: 'pending' | 'approved' | 'rejected' | 'expired'
+  expires_at: string
+  created_at: string
+}
+
+// Action areas recorded in the admin audit log ("<area>.<verb>")
+const AUDIT_ACTION_AREAS = [
+  'admin',
+  'funding',
+  'prompt',
+  'command',
+  'parameters',
+  'symbol',
+  'symbols',
+  'scenario',
+  'tournament',
+  'waitlist',
+  'chat',
+  'snapshots',
+  'treasury',
+]
+
 export default function PickabooAdmin() {
-  const { connectWallet, verifyWallet, disconnectWallet, connectedAddress, isConnecting, error: walletError, setError: setWalletError } = useWalletAuth()
+  const { connectWallet, verifyWallet, restoreSession, disconnectWallet, connectedAddress, isConnecting, error: walletError, setError: setWalletError } = useWalletAuth()
   const [authenticated, setAuthenticated] = useState(false)
+  const [adminRole, setAdminRole] = useState<PickabooRole | null>(null)
+
+  // Controls the current role can't use are hidden; the API enforces the same rules
+  const can = (permission: PickabooPermission) => hasPickabooPermission(adminRole, permission)
 
   const [fundAmount, setFundAmount] = useState('50')
   const [dryRun, setDryRun] = useState(false)
@@ -165,6 +201,8 @@ export default function PickabooAdmin() {
   const [fundingHistory, setFundingHistory] = useState<FundingHistoryEntry[]>([])
   const [isLoadingHistory, setIsLoadingHistory] = useState(false)
   const [copiedTxHash, setCopiedTxHash] = useState<string | null>(null)
+  const [fundingProposals, setFundingProposals] = useState<FundingProposal[]>([])
+  const [reviewingProposalId, setReviewingProposalId] = useState<string | null>(null)
 
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
@@ -182,11 +220,45 @@ export default function PickabooAdmin() {
   const [waitlistFilter, setWaitlistFilter] = useState('all')
   const [waitlistSearchQuery, setWaitlistSearchQuery] = useState('')
 
+  // Battle scenario library state
+  const [battleScenarios, setBattleScenarios] = useState<any[]>([])
+  const [isLoadingScenarios, setIsLoadingScenarios] = useState(false)
+  const [isSavingScenario, setIsSavingScenario] = useState(false)
+  const [scenarioForm, setScenarioForm] = useState({
+    name: '',
+    description: '',
+    symbol: 'BTC',
+    interval: '1h',
+    start: '',
+    end: '',
+  })
+
+  // Audit log state
+  const [auditEntries, setAuditEntries] = useState<any[]>([])
+  const [auditTotal, setAuditTotal] = useState(0)
+  const [isLoadingAudit, setIsLoadingAudit] = useState(false)
+  const [auditFilters, setAuditFilters] = useState({
+    action: '',
+    agent_id: '',
+    actor: '',
+    from: '',
+    to: '',
+  })
+
+  // Admin management state (owners only)
+  const [admins, setAdmins] = useState<any[]>([])
+  const [isLoadingAdmins, setIsLoadingAdmins] = useState(false)
+  const [adminForm, setAdminForm] = useState<{ wallet_address: string; admin_name: string; role: PickabooRole }>({
+    wallet_address: '',
+    admin_name: '',
+    role: 'viewer',
+  })
+
   // Fetch real agent balances from Asterdex
   const fetchAgentBalances = async () => {
     setIsLoadingAgentBalances(true)
     try {
-      const response = await fetch(`/api/pickaboo/agent-balances?wallet=${connectedAddress}`)
+      const response = await fetch(`/api/pickaboo/agent-balances`)
       const data = await response.json()
 
       if (data.success && data.results) {
@@ -241,7 +313,7 @@ export default function PickabooAdmin() {
       return
     }
 
-    // Verify wallet is whitelisted
+    // Sign in: the wallet signs a short-lived message and the server checks the admin whitelist
     const verifyResult = await verifyWallet(result.address)
     
     if (!verifyResult.success) {
@@ -250,13 +322,15 @@ export default function PickabooAdmin() {
       return
     }
 
+    setAdminRole(verifyResult.role ?? null)
     setAuthenticated(true)
-    setMessage({ type: 'success', text: 'Wallet verified! Admin access granted.' })
+    setMessage({ type: 'success', text: `Wallet verified! Signed in as ${verifyResult.role}.` })
   }
 
   // Handle logout
   const handleLogout = () => {
     setAuthenticated(false)
+    setAdminRole(null)
     disconnectWallet()
   }
 
@@ -265,6 +339,16 @@ export default function PickabooAdmin() {
     fetchSupportedSymbols()
   }, [])
 
+  // Resume an admin session that is still valid (survives page reloads)
+  useEffect(() => {
+    restoreSession().then((session) => {
+      if (session.success) {
+        setAdminRole(session.role ?? null)
+        setAuthenticated(true)
+      }
+    })
+  }, [restoreSession])
+
   // Poll agent balances and load agent symbols when authenticated
   useEffect(() => {
     if (!authenticated || !connectedAddress) return
@@ -305,7 +389,6 @@ export default function PickabooAdmin() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          wallet: connectedAddress,
           amount,
           dryRun,
         }),
@@ -337,6 +420,12 @@ export default function PickabooAdmin() {
         text: data.message || `${dryRun ? '[DRY-RUN] ' : ''}Agents funded successfully`,
       })
 
+      // Large fundings wait for a second admin instead of executing
+      if (data.requires_approval) {
+        fetchFundingProposals()
+        return
+      }
+
       // Refresh balances after a moment
       setTimeout(checkBalances, 2000)
     } catch (error: any) {
@@ -350,7 +439,7 @@ export default function PickabooAdmin() {
   const checkBalances = async () => {
     setIsCheckingBalances(true)
     try {
-      const response = await fetch(`/api/pickaboo/verify-balances?wallet=${connectedAddress}`)
+      const response = await fetch(`/api/pickaboo/verify-balances`)
       const data = await response.json()
 
       if (data.success) {
@@ -384,7 +473,7 @@ export default function PickabooAdmin() {
     try {
       console.log('[Pickaboo] Loading agent symbols from database...', { wallet: connectedAddress })
       
-      const response = await fetch(`/api/pickaboo/update-agent-symbols?wallet=${connectedAddress}`)
+      const response = await fetch(`/api/pickaboo/update-agent-symbols`)
       const data = await response.json()
 
       console.log('[Pickaboo] Agent symbols response:', data)
@@ -408,7 +497,7 @@ export default function PickabooAdmin() {
   // Fetch current symbols and supported symbols
   const fetchCurrentSymbols = async () => {
     try {
-      const response = await fetch(`/api/pickaboo/update-symbol?wallet=${connectedAddress}`)
+      const response = await fetch(`/api/pickaboo/update-symbol`)
       const data = await response.json()
 
       if (data.success && data.symbols) {
@@ -442,7 +531,6 @@ export default function PickabooAdmin() {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          wallet: connectedAddress,
           symbol: tradingSymbol,
         }),
       })
@@ -511,7 +599,6 @@ export default function PickabooAdmin() {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          wallet: connectedAddress,
           agent_id: selectedAgent,
           symbols: symbols,
         }),
@@ -548,7 +635,7 @@ export default function PickabooAdmin() {
     
     setIsLoadingPrompts(true)
     try {
-      const response = await fetch(`/api/pickaboo/agent-prompts?wallet=${connectedAddress}`)
+      const response = await fetch(`/api/pickaboo/agent-prompts`)
       const data = await response.json()
 
       if (data.success && data.agent_prompts) {
@@ -577,7 +664,6 @@ export default function PickabooAdmin() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          wallet: connectedAddress,
           agent_id: selectedPromptAgent,
           agent_name: agent?.name || selectedPromptAgent,
           new_prompt: promptEditText.trim(),
@@ -616,7 +702,7 @@ export default function PickabooAdmin() {
     setIsLoadingWaitlist(true)
     try {
       // Fetch entries
-      const entriesResponse = await fetch(`/api/pickaboo/waitlist?wallet=${connectedAddress}&limit=100&interest=${waitlistFilter === 'all' ? '' : waitlistFilter}`)
+      const entriesResponse = await fetch(`/api/pickaboo/waitlist?limit=100&interest=${waitlistFilter === 'all' ? '' : waitlistFilter}`)
       const entriesData = await entriesResponse.json()
 
       if (entriesData.success) {
@@ -624,7 +710,7 @@ export default function PickabooAdmin() {
       }
 
       // Fetch stats
-      const statsResponse = await fetch(`/api/pickaboo/waitlist?wallet=${connectedAddress}&stats=true`)
+      const statsResponse = await fetch(`/api/pickaboo/waitlist?stats=true`)
       const statsData = await statsResponse.json()
 
       if (statsData.success) {
@@ -643,7 +729,7 @@ export default function PickabooAdmin() {
     if (!confirm(`Remove ${email} from waitlist?`)) return
 
     try {
-      const response = await fetch(`/api/pickaboo/waitlist?email=${encodeURIComponent(email)}&wallet=${connectedAddress}`, {
+      const response = await fetch(`/api/pickaboo/waitlist?email=${encodeURIComponent(email)}`, {
         method: 'DELETE',
       })
 
@@ -661,6 +747,236 @@ export default function PickabooAdmin() {
     }
   }
 
+  // Fetch the battle scenario library (including inactive scenarios)
+  const fetchBattleScenarios = async () => {
+    setIsLoadingScenarios(true)
+    try {
+      const response = await fetch(`/api/pickaboo/battle-scenarios`)
+      const data = await response.json()
+
+      if (data.success) {
+        setBattleScenarios(data.scenarios || [])
+      } else if (data.error) {
+        setMessage({ type: 'error', text: data.error })
+      }
+    } catch (error) {
+      console.error('Error fetching battle scenarios:', error)
+    } finally {
+      setIsLoadingScenarios(false)
+    }
+  }
+
+  // Load a historical window and save it as a named scenario
+  const handleCreateScenario = async () => {
+    const { name, symbol, interval, start, end } = scenarioForm
+    if (!name.trim() || !start || !end) {
+      setMessage({ type: 'error', text: 'Please enter a name, start and end' })
+      return
+    }
+
+    setIsSavingScenario(true)
+    try {
+      const response = await fetch('/api/pickaboo/battle-scenarios', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: scenarioForm.description.trim(),
+          symbol,
+          interval,
+          // datetime-local values are local time
+          start: new Date(start).toISOString(),
+          end: new Date(end).toISOString(),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to create scenario' })
+        return
+      }
+
+      setMessage({ type: 'success', text: `Scenario "${data.scenario.name}" saved with ${data.scenario.candles.length} candles` })
+      setScenarioForm({ ...scenarioForm, name: '', description: '' })
+      fetchBattleScenarios()
+    } catch (error: any) {
+      console.error('Error creating battle scenario:', error)
+      setMessage({ type: 'error', text: error?.message || 'Failed to create scenario' })
+    } finally {
+      setIsSavingScenario(false)
+    }
+  }
+
+  // Enable or disable a scenario in the arena
+  const handleToggleScenario = async (slug: string, active: boolean) => {
+    try {
+      const response = await fetch('/api/pickaboo/battle-scenarios', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, active }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        fetchBattleScenarios()
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to update scenario' })
+      }
+    } catch (error) {
+      console.error('Error updating battle scenario:', error)
+      setMessage({ type: 'error', text: 'Failed to update scenario' })
+    }
+  }
+
+  // Remove a scenario from the library
+  const handleDeleteScenario = async (slug: string, name: string) => {
+    if (!confirm(`Delete scenario "${name}"? Stored battles on it can still be replayed.`)) return
+
+    try {
+      const response = await fetch(`/api/pickaboo/battle-scenarios?slug=${encodeURIComponent(slug)}`, {
+        method: 'DELETE',
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: `Deleted scenario "${name}"` })
+        fetchBattleScenarios()
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to delete scenario' })
+      }
+    } catch (error) {
+      console.error('Error deleting battle scenario:', error)
+      setMessage({ type: 'error', text: 'Failed to delete scenario' })
+    }
+  }
+
+  // Fetch the admin audit log with the current filters
+  const fetchAuditLog = async () => {
+    setIsLoadingAudit(true)
+    try {
+      const params = new URLSearchParams({ limit: '500' })
+      if (auditFilters.action) params.set('action', auditFilters.action)
+      if (auditFilters.agent_id) params.set('agent_id', auditFilters.agent_id)
+      if (auditFilters.actor) params.set('actor', auditFilters.actor.trim())
+      if (auditFilters.from) params.set('from', new Date(auditFilters.from).toISOString())
+      if (auditFilters.to) params.set('to', new Date(auditFilters.to).toISOString())
+
+      const response = await fetch(`/api/pickaboo/audit-log?${params}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setAuditEntries(data.entries || [])
+        setAuditTotal(data.total_count || 0)
+      } else if (data.error) {
+        setMessage({ type: 'error', text: data.error })
+      }
+    } catch (error) {
+      console.error('Error fetching audit log:', error)
+    } finally {
+      setIsLoadingAudit(false)
+    }
+  }
+
+  // Summarize an audit diff as "field: before → after" lines
+  const formatAuditDiff = (diff: Record<string, { before: unknown; after: unknown }> | null) => {
+    if (!diff) return []
+    const show = (value: unknown) => {
+      if (value === null || value === undefined) return '—'
+      const text = typeof value === 'string' ? value : JSON.stringify(value)
+      return text.length > 80 ? `${text.slice(0, 77)}...` : text
+    }
+    return Object.entries(diff).map(([field, change]) => `${field}: ${show(change.before)} → ${show(change.after)}`)
+  }
+
+  // Export the loaded audit entries as CSV or JSON
+  const exportAuditLog = (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().split('T')[0]
+    let content: string
+    if (format === 'json') {
+      content = JSON.stringify(auditEntries, null, 2)
+    } else {
+      const headers = ['Date', 'Actor', 'Action', 'Agent', 'Diff', 'Before', 'After', 'Metadata']
+      const rows = auditEntries.map(e => [
+        new Date(e.created_at).toISOString(),
+        e.actor_wallet,
+        e.action,
+        e.target_agent || '',
+        e.diff ? JSON.stringify(e.diff) : '',
+        e.before_state ? JSON.stringify(e.before_state) : '',
+        e.after_state ? JSON.stringify(e.after_state) : '',
+        e.metadata ? JSON.stringify(e.metadata) : '',
+      ])
+      content = [headers, ...rows].map(r => r.map(c => `"${String(c).replace(/"/g, '""')}"`).join(',')).join('\n')
+    }
+
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `admin-audit-log-${date}.${format}`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Fetch admins
+  const fetchAdmins = async () => {
+    setIsLoadingAdmins(true)
+    try {
+      const response = await fetch(`/api/pickaboo/manage-admins`)
+      const data = await response.json()
+
+      if (data.success) {
+        setAdmins(data.admins || [])
+      } else if (data.error) {
+        setMessage({ type: 'error', text: data.error })
+      }
+    } catch (error) {
+      console.error('Error fetching admins:', error)
+    } finally {
+      setIsLoadingAdmins(false)
+    }
+  }
+
+  // Send an admin change and reload the list
+  const submitAdminChange = async (method: 'POST' | 'PATCH' | 'DELETE', body: Record<string, string>, success: string) => {
+    try {
+      const response = await fetch('/api/pickaboo/manage-admins', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: success })
+        fetchAdmins()
+        return true
+      }
+      setMessage({ type: 'error', text: data.error || 'Failed to update admins' })
+    } catch (error) {
+      console.error('Error updating admins:', error)
+      setMessage({ type: 'error', text: 'Failed to update admins' })
+    }
+    return false
+  }
+
+  const handleAddAdmin = async () => {
+    const added = await submitAdminChange('POST', adminForm, `Added ${adminForm.wallet_address} as ${adminForm.role}`)
+    if (added) setAdminForm({ wallet_address: '', admin_name: '', role: 'viewer' })
+  }
+
+  const handleChangeAdminRole = (walletAddress: string, role: PickabooRole) =>
+    submitAdminChange('PATCH', { wallet_address: walletAddress, role }, `${walletAddress} is now a ${role}`)
+
+  const handleRemoveAdmin = (walletAddress: string) => {
+    if (!confirm(`Remove admin ${walletAddress}?`)) return
+    submitAdminChange('DELETE', { wallet_address: walletAddress }, `Removed ${walletAddress}`)
+  }
+
   // Initialize agent symbols from current symbols on load
   useEffect(() => {
     if (Object.keys(currentSymbols).length > 0 && Object.keys(agentSymbols).length === 0) {
@@ -676,7 +992,7 @@ export default function PickabooAdmin() {
   const fetchFundingHistory = async () => {
     setIsLoadingHistory(true)
     try {
-      const response = await fetch(`/api/pickaboo/funding-history?wallet=${connectedAddress}&limit=20`)
+      const response = await fetch(`/api/pickaboo/funding-history?limit=20`)
       const data = await response.json()
 
       if (data.success) {
@@ -689,9 +1005,56 @@ export default function PickabooAdmin() {
     }
   }
 
+  // Fetch funding proposals awaiting a second admin
+  const fetchFundingProposals = async () => {
+    try {
+      const response = await fetch(`/api/pickaboo/fund-agents?status=pending`)
+      const data = await response.json()
+
+      if (data.success) {
+        setFundingProposals(data.proposals || [])
+      }
+    } catch (error) {
+      console.error('Error fetching funding proposals:', error)
+    }
+  }
+
+  // Approve (executes the funding) or reject a proposal made by another admin
+  const handleReviewProposal = async (proposal: FundingProposal, decision: 'approve' | 'reject') => {
+    const note = decision === 'reject'
+      ? prompt('Reason for rejecting (optional):')
+      : confirm(`Approve funding ${proposal.dry_run_results.length} agents with $${proposal.amount_per_agent} USDT each ($${proposal.total_amount} total)?`) ? '' : null
+    if (note === null) return
+
+    setReviewingProposalId(proposal.id)
+    try {
+      const response = await fetch('/api/pickaboo/fund-agents', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ proposal_id: proposal.id, decision, note: note || undefined }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: data.message })
+        if (decision === 'approve') setFundingResults(data.results || [])
+      } else {
+        setMessage({ type: 'error', text: data.message || data.error || 'Failed to review proposal' })
+      }
+    } catch (error) {
+      console.error('Error reviewing funding proposal:', error)
+      setMessage({ type: 'error', text: 'Failed to review proposal' })
+    } finally {
+      setReviewingProposalId(null)
+      fetchFundingProposals()
+      fetchFundingHistory()
+    }
+  }
+
   // Export history as CSV (exclude dry-run transactions)
   const exportHistory = () => {
-    const headers = ['Agent ID', 'Agent Name', 'Amount', 'Status', 'TX Hash', 'Error', 'Date']
+    const headers = ['Agent ID', 'Agent Name', 'Amount', 'Status', 'TX Hash', 'Error', 'Proposed By', 'Reviewed By', 'Rebalance', 'Date']
     const rows = fundingHistory
       .filter(h => !h.dry_run) // Exclude dry-run transactions
       .map(h => [
@@ -701,6 +1064,9 @@ export default function PickabooAdmin() {
         h.status,
         h.tx_hash || '',
         h.error_message || '',
+        h.proposed_by || '',
+        h.reviewed_by || '',
+        h.direction || '',
         new Date(h.created_at).toLocaleString(),
       ])
 
@@ -820,15 +1186,25 @@ export default function PickabooAdmin() {
               </div>
             </div>
           </div>
-          <Button
-            onClick={handleLogout}
-            variant="outline"
-            className="border-gray-300 text-gray-700 hover:bg-gray-50 hover:text-gray-900 transition-all"
-            style={{ fontFamily: 'JetBrains Mono' }}
-          >
-            <LogOut className="mr-2 h-4 w-4" />
-            Logout
-          </Button>
+          <div className="flex items-center gap-3">
+            {adminRole && (
+              <span
+                className="px-3 py-1 text-xs font-semibold uppercase tracking-wide bg-stone-100 text-stone-700 border border-stone-300 rounded-full"
+                style={{ fontFamily: 'JetBrains Mono' }}
+              >
+                {adminRole}
+              </span>
+            )}
+            <Button
+              onClick={handleLogout}
+              variant="outline"
+              className="border-gray-300 text-gray-700 hover:bg-gray-50 hover:text-gray-900 transition-all"
+              style={{ fontFamily: 'JetBrains Mono' }}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Logout
+            </Button>
+          </div>
         </div>
 
         {/* Message Alert */}
@@ -867,6 +1243,7 @@ export default function PickabooAdmin() {
               value="history"
               className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-stone-700 data-[state=active]:to-stone-800 data-[state=active]:text-white transition-all"
               style={{ fontFamily: 'JetBrains Mono' }}
+              onClick={() => fetchFundingProposals()}
             >
               <History className="mr-2 h-4 w-4" />
               History
@@ -888,6 +1265,35 @@ export default function PickabooAdmin() {
               <Users className="mr-2 h-4 w-4" />
               Waitlist
             </TabsTrigger>
+            <TabsTrigger
+              value="scenarios"
+              className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-stone-700 data-[state=active]:to-stone-800 data-[state=active]:text-white transition-all"
+              style={{ fontFamily: 'JetBrains Mono' }}
+              onClick={() => fetchBattleScenarios()}
+            >
+              <Scroll className="mr-2 h-4 w-4" />
+              Scenarios
+            </TabsTrigger>
+            <TabsTrigger
+              value="audit"
+              className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-stone-700 data-[state=active]:to-stone-800 data-[state=active]:text-white transition-all"
+              style={{ fontFamily: 'JetBrains Mono' }}
+              onClick={() => fetchAuditLog()}
+            >
+              <History className="mr-2 h-4 w-4" />
+              Audit
+            </TabsTrigger>
+            {can('manage_admins') && (
+              <TabsTrigger
+                value="admins"
+                className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-stone-700 data-[state=active]:to-stone-800 data-[state=active]:text-white transition-all"
+                style={{ fontFamily: 'JetBrains Mono' }}
+                onClick={() => fetchAdmins()}
+              >
+                <Users className="mr-2 h-4 w-4" />
+                Admins
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Agent Balances Tab - Real Data from Asterdex */}
@@ -1050,135 +1456,137 @@ export default function PickabooAdmin() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-6">
-                {/* Per-Agent Multi-Symbol Configuration */}
-                <div className="space-y-4">
-                  <div>
-                    <h3 className="font-semibold text-gray-900 text-lg mb-4" style={{ fontFamily: 'JetBrains Mono' }}>
-                      Per-Agent Trading Symbols
-                    </h3>
-                    <p className="text-sm text-gray-600 mb-4" style={{ fontFamily: 'JetBrains Mono' }}>
-                      Assign multiple trading symbols to each agent. Each agent can now trade different symbols simultaneously.
-                    </p>
-                  </div>
+                {/* Per-Agent Multi-Symbol Configuration (operators and owners) */}
+                {can('operate') && (
+                  <div className="space-y-4">
+                    <div>
+                      <h3 className="font-semibold text-gray-900 text-lg mb-4" style={{ fontFamily: 'JetBrains Mono' }}>
+                        Per-Agent Trading Symbols
+                      </h3>
+                      <p className="text-sm text-gray-600 mb-4" style={{ fontFamily: 'JetBrains Mono' }}>
+                        Assign multiple trading symbols to each agent. Each agent can now trade different symbols simultaneously.
+                      </p>
+                    </div>
 
-                  {/* Agent Selector */}
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium text-gray-900" style={{ fontFamily: 'JetBrains Mono' }}>
-                      Select Agent
-                    </label>
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                      {agentList.map(agent => (
-                        <button
-                          key={agent.id}
-                          onClick={() => {
-                            setSelectedAgent(agent.id)
-                            setSymbolSearchQueryPerAgent('')
-                          }}
-                          className={`p-3 rounded-lg border transition-all font-medium text-sm ${
-                            selectedAgent === agent.id
-                              ? 'bg-stone-700 text-white border-stone-800'
-                              : 'bg-white border-gray-300 text-gray-700 hover:border-stone-300 hover:bg-stone-50'
-                          }`}
-                          style={{ fontFamily: 'JetBrains Mono' }}
-                        >
-                          {agent.name}
-                        </button>
-                      ))}
+                    {/* Agent Selector */}
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-gray-900" style={{ fontFamily: 'JetBrains Mono' }}>
+                        Select Agent
+                      </label>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                        {agentList.map(agent => (
+                          <button
+                            key={agent.id}
+                            onClick={() => {
+                              setSelectedAgent(agent.id)
+                              setSymbolSearchQueryPerAgent('')
+                            }}
+                            className={`p-3 rounded-lg border transition-all font-medium text-sm ${
+                              selectedAgent === agent.id
+                                ? 'bg-stone-700 text-white border-stone-800'
+                                : 'bg-white border-gray-300 text-gray-700 hover:border-stone-300 hover:bg-stone-50'
+                            }`}
+                            style={{ fontFamily: 'JetBrains Mono' }}
+                          >
+                            {agent.name}
+                          </button>
+                        ))}
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Symbol Management for Selected Agent */}
-                  {selectedAgent && (
-                    <div className="space-y-3 p-4 bg-stone-50 rounded-lg border border-stone-200">
-                      <h4 className="font-semibold text-gray-900" style={{ fontFamily: 'JetBrains Mono' }}>
-                        {agentList.find(a => a.id === selectedAgent)?.name} - Trading Symbols
-                      </h4>
+                    {/* Symbol Management for Selected Agent */}
+                    {selectedAgent && (
+                      <div className="space-y-3 p-4 bg-stone-50 rounded-lg border border-stone-200">
+                        <h4 className="font-semibold text-gray-900" style={{ fontFamily: 'JetBrains Mono' }}>
+                          {agentList.find(a => a.id === selectedAgent)?.name} - Trading Symbols
+                        </h4>
 
-                      {/* Add Symbol Input */}
-                      <div className="space-y-2">
-                        <Input
-                          type="text"
-                          placeholder="Search & add symbols... (e.g., BTC, ETH)"
-                          value={symbolSearchQueryPerAgent}
-                          onChange={e => setSymbolSearchQueryPerAgent(e.target.value)}
-                          className="bg-white border border-gray-300 text-gray-900 placeholder:text-gray-400 focus:ring-stone-500 focus:border-stone-500"
-                          style={{ fontFamily: 'JetBrains Mono' }}
-                        />
+                        {/* Add Symbol Input */}
+                        <div className="space-y-2">
+                          <Input
+                            type="text"
+                            placeholder="Search & add symbols... (e.g., BTC, ETH)"
+                            value={symbolSearchQueryPerAgent}
+                            onChange={e => setSymbolSearchQueryPerAgent(e.target.value)}
+                            className="bg-white border border-gray-300 text-gray-900 placeholder:text-gray-400 focus:ring-stone-500 focus:border-stone-500"
+                            style={{ fontFamily: 'JetBrains Mono' }}
+                          />
+
+                          {/* Symbol Options */}
+                          {symbolSearchQueryPerAgent.length > 0 && (
+                            <div className="border border-gray-300 rounded-lg bg-white overflow-hidden max-h-48 overflow-y-auto">
+                              {supportedSymbols
+                                .filter(s => s.toLowerCase().includes(symbolSearchQueryPerAgent.toLowerCase()))
+                                .map(symbol => (
+                                  <button
+                                    key={symbol}
+                                    onClick={() => handleAddSymbolToAgent(symbol)}
+                                    disabled={(agentSymbols[selectedAgent] || []).includes(symbol)}
+                                    className={`w-full text-left px-4 py-2 hover:bg-stone-50 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
+                                      (agentSymbols[selectedAgent] || []).includes(symbol)
+                                        ? 'bg-green-100 text-green-900'
+                                        : 'text-gray-700'
+                                    }`}
+                                    style={{ fontFamily: 'JetBrains Mono' }}
+                                  >
+                                    {symbol}
+                                    {(agentSymbols[selectedAgent] || []).includes(symbol) && ' ✓ Added'}
+                                  </button>
+                                ))}
+                            </div>
+                          )}
+                        </div>
 
-                        {/* Symbol Options */}
-                        {symbolSearchQueryPerAgent.length > 0 && (
-                          <div className="border border-gray-300 rounded-lg bg-white overflow-hidden max-h-48 overflow-y-auto">
-                            {supportedSymbols
-                              .filter(s => s.toLowerCase().includes(symbolSearchQueryPerAgent.toLowerCase()))
-                              .map(symbol => (
-                                <button
+                        {/* Selected Symbols Display */}
+                        {(agentSymbols[selectedAgent] || []).length > 0 && (
+                          <div className="space-y-2">
+                            <p className="text-sm font-medium text-gray-900" style={{ fontFamily: 'JetBrains Mono' }}>
+                              Trading ({(agentSymbols[selectedAgent] || []).length}):
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                              {(agentSymbols[selectedAgent] || []).map(symbol => (
+                                <div
                                   key={symbol}
-                                  onClick={() => handleAddSymbolToAgent(symbol)}
-                                  disabled={(agentSymbols[selectedAgent] || []).includes(symbol)}
-                                  className={`w-full text-left px-4 py-2 hover:bg-stone-50 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
-                                    (agentSymbols[selectedAgent] || []).includes(symbol)
-                                      ? 'bg-green-100 text-green-900'
-                                      : 'text-gray-700'
-                                  }`}
-                                  style={{ fontFamily: 'JetBrains Mono' }}
+                                  className="flex items-center gap-2 bg-white px-3 py-1.5 rounded-full border border-stone-200 hover:border-stone-300 transition-colors"
                                 >
-                                  {symbol}
-                                  {(agentSymbols[selectedAgent] || []).includes(symbol) && ' ✓ Added'}
-                                </button>
+                                  <span className="font-semibold text-stone-700 text-sm" style={{ fontFamily: 'JetBrains Mono' }}>
+                                    {symbol}
+                                  </span>
+                                  <button
+                                    onClick={() => handleRemoveSymbolFromAgent(symbol)}
+                                    className="text-red-600 hover:text-red-700 transition-colors"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </button>
+                                </div>
                               ))}
+                            </div>
                           </div>
                         )}
-                      </div>
 
-                      {/* Selected Symbols Display */}
-                      {(agentSymbols[selectedAgent] || []).length > 0 && (
-                        <div className="space-y-2">
-                          <p className="text-sm font-medium text-gray-900" style={{ fontFamily: 'JetBrains Mono' }}>
-                            Trading ({(agentSymbols[selectedAgent] || []).length}):
-                          </p>
-                          <div className="flex flex-wrap gap-2">
-                            {(agentSymbols[selectedAgent] || []).map(symbol => (
-                              <div
-                                key={symbol}
-                                className="flex items-center gap-2 bg-white px-3 py-1.5 rounded-full border border-stone-200 hover:border-stone-300 transition-colors"
-                              >
-                                <span className="font-semibold text-stone-700 text-sm" style={{ fontFamily: 'JetBrains Mono' }}>
-                                  {symbol}
-                                </span>
-                                <button
-                                  onClick={() => handleRemoveSymbolFromAgent(symbol)}
-                                  className="text-red-600 hover:text-red-700 transition-colors"
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </button>
-                              </div>
-                            ))}
-                          </div>
-                        </div>
-                      )}
-
-                      {/* Update Button */}
-                      <Button
-                        onClick={handleUpdateAgentSymbols}
-                        disabled={isUpdatingAgentSymbols || (agentSymbols[selectedAgent] || []).length === 0}
-                        className="w-full bg-gradient-to-r from-stone-700 to-stone-800 hover:from-stone-800 hover:to-stone-900 text-white transition-all transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:scale-100"
-                        style={{ fontFamily: 'JetBrains Mono' }}
-                      >
-                        {isUpdatingAgentSymbols ? (
-                          <>
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            Saving...
-                          </>
-                        ) : (
-                          <>
-                            <Zap className="mr-2 h-4 w-4" />
-                            Update {agentList.find(a => a.id === selectedAgent)?.name}
-                          </>
-                        )}
-                      </Button>
-                    </div>
-                  )}
-                </div>
+                        {/* Update Button */}
+                        <Button
+                          onClick={handleUpdateAgentSymbols}
+                          disabled={isUpdatingAgentSymbols || (agentSymbols[selectedAgent] || []).length === 0}
+                          className="w-full bg-gradient-to-r from-stone-700 to-stone-800 hover:from-stone-800 hover:to-stone-900 text-white transition-all transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:scale-100"
+                          style={{ fontFamily: 'JetBrains Mono' }}
+                        >
+                          {isUpdatingAgentSymbols ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Saving...
+                            </>
+                          ) : (
+                            <>
+                              <Zap className="mr-2 h-4 w-4" />
+                              Update {agentList.find(a => a.id === selectedAgent)?.name}
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
 
                 {(Object.keys(agentSymbols).length > 0 || Object.keys(currentSymbols).length > 0) && (
                   <div className="space-y-3 pt-6 border-t border-gray-200">
@@ -1230,6 +1638,80 @@ export default function PickabooAdmin() {
 
           {/* History Tab */}
           <TabsContent value="history" className="space-y-6">
+            {/* Funding Proposals awaiting a second admin */}
+            {fundingProposals.length > 0 && (
+              <Card className="border border-yellow-300 shadow-lg backdrop-blur-sm bg-white/95">
+                <CardHeader>
+                  <CardTitle className="text-2xl text-gray-900 font-light" style={{ fontFamily: 'JetBrains Mono' }}>
+                    Pending Approvals
+                  </CardTitle>
+                  <CardDescription className="text-gray-600">
+                    Large fundings wait for a second treasurer or owner. The dry run below is exactly what approval will move.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {fundingProposals.map(proposal => {
+                    const isOwnProposal = proposal.proposed_by === connectedAddress?.toLowerCase()
+                    return (
+                      <div key={proposal.id} className="p-4 bg-stone-50 rounded-lg border border-stone-200 space-y-3">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="text-sm text-gray-800" style={{ fontFamily: 'JetBrains Mono' }}>
+                            <p className="font-semibold">
+                              ${proposal.total_amount} total (${proposal.amount_per_agent} per agent)
+                            </p>
+                            <p className="text-xs text-gray-600">
+                              Proposed by {proposal.proposed_by.slice(0, 6)}...{proposal.proposed_by.slice(-4)}
+                              {isOwnProposal && ' (you)'} · expires {new Date(proposal.expires_at).toLocaleString()}
+                            </p>
+                          </div>
+                          {can('fund') && !isOwnProposal && (
+                            <div className="flex gap-2">
+                              <Button
+                                onClick={() => handleReviewProposal(proposal, 'approve')}
+                                disabled={reviewingProposalId === proposal.id}
+                                size="sm"
+                                className="bg-green-600 hover:bg-green-700 text-white"
+                              >
+                                {reviewingProposalId === proposal.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                                ) : (
+                                  <CheckCircle className="h-4 w-4 mr-1" />
+                                )}
+                                Approve
+                              </Button>
+                              <Button
+                                onClick={() => handleReviewProposal(proposal, 'reject')}
+                                disabled={reviewingProposalId === proposal.id}
+                                variant="outline"
+                                size="sm"
+                                className="border-red-300 text-red-600 hover:bg-red-50"
+                              >
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Reject
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                        <table className="w-full text-xs" style={{ fontFamily: 'JetBrains Mono' }}>
+                          <tbody>
+                            {proposal.dry_run_results.map(result => (
+                              <tr key={result.agent_id} className="border-t border-stone-200">
+                                <td className="py-1 pr-3 text-gray-900">{result.agent_name}</td>
+                                <td className="py-1 pr-3 text-right text-gray-900">${result.amount}</td>
+                                <td className="py-1 font-mono text-gray-600">
+                                  {result.status === 'success' ? result.wallet_address : <span className="text-red-600">{result.error}</span>}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
             <Card className="border border-gray-300 shadow-lg backdrop-blur-sm bg-white/95">
               <CardHeader className="flex flex-row items-center justify-between">
                 <div>
@@ -1325,7 +1807,7 @@ export default function PickabooAdmin() {
                                 className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold ${
                                   entry.status === 'success'
                                     ? 'bg-green-100 text-green-700'
-                                    : entry.status === 'failed'
+                                    : entry.status === 'failed' || entry.status === 'rejected'
                                       ? 'bg-red-100 text-red-700'
                                       : 'bg-yellow-100 text-yellow-700'
                                 }`}
@@ -1333,7 +1815,7 @@ export default function PickabooAdmin() {
                               >
                                 {entry.status === 'success' ? (
                                   <CheckCircle className="h-3 w-3" />
-                                ) : entry.status === 'failed' ? (
+                                ) : entry.status === 'failed' || entry.status === 'rejected' ? (
                                   <XCircle className="h-3 w-3" />
                                 ) : (
                                   <AlertTriangle className="h-3 w-3" />
@@ -1345,7 +1827,7 @@ export default function PickabooAdmin() {
                               {new Date(entry.created_at).toLocaleString()}
                             </td>
                             <td className="py-3 px-3 text-gray-500 text-xs font-mono" style={{ fontFamily: 'JetBrains Mono' }}>
-                              {entry.status === 'failed' && entry.error_message ? (
+                              {(entry.status === 'failed' || entry.status === 'rejected') && entry.error_message ? (
                                 <div className="flex items-center gap-2 group">
                                   <span className="flex-1 truncate text-red-600 font-medium max-w-xs" title={entry.error_message}>
                                     {entry.error_message.substring(0, 40)}...
@@ -1396,6 +1878,19 @@ export default function PickabooAdmin() {
                                 )}
                                 {entry.dry_run ? 'Dry-Run' : 'Live'}
                               </span>
+                              {entry.direction && (
+                                <p className="mt-1 text-gray-500">
+                                  {entry.direction === 'top_up' ? 'Rebalance top-up' : 'Rebalance sweep-back'}
+                                </p>
+                              )}
+                              {entry.reviewed_by && (
+                                <p
+                                  className="mt-1 text-gray-500"
+                                  title={`Proposed by ${entry.proposed_by}, reviewed by ${entry.reviewed_by}`}
+                                >
+                                  {entry.proposed_by?.slice(0, 6)} → {entry.reviewed_by.slice(0, 6)}
+                                </p>
+                              )}
                             </td>
                           </tr>
                         ))}
@@ -1429,7 +1924,7 @@ export default function PickabooAdmin() {
                     {/* Agent Selector */}
                     <div className="space-y-3">
                       <label className="text-sm font-medium text-gray-900" style={{ fontFamily: 'JetBrains Mono' }}>
-                        Select Agent to Edit
+                        {can('operate') ? 'Select Agent to Edit' : 'Select Agent'}
                       </label>
                       <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
                         {agentList.map(agent => (
@@ -1483,51 +1978,55 @@ export default function PickabooAdmin() {
                           )}
 
                           {/* Edit Area (Right Column) */}
-                          <div className="space-y-2">
-                            <label className="text-xs font-semibold text-gray-700 block" style={{ fontFamily: 'JetBrains Mono' }}>
-                              Edit your new prompt for Golden descisions
-                            </label>
-                            <textarea
-                              value={promptEditText}
-                              onChange={(e) => setPromptEditText(e.target.value)}
-                              placeholder="Enter the trading strategy prompt for this agent..."
-                              className="w-full h-64 p-3 bg-white border border-gray-300 rounded-lg font-mono text-xs text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-stone-500 focus:border-transparent resize-none"
-                              style={{ fontFamily: 'JetBrains Mono' }}
-                            />
-                          </div>
+                          {can('operate') && (
+                            <div className="space-y-2">
+                              <label className="text-xs font-semibold text-gray-700 block" style={{ fontFamily: 'JetBrains Mono' }}>
+                                Edit your new prompt for Golden descisions
+                              </label>
+                              <textarea
+                                value={promptEditText}
+                                onChange={(e) => setPromptEditText(e.target.value)}
+                                placeholder="Enter the trading strategy prompt for this agent..."
+                                className="w-full h-64 p-3 bg-white border border-gray-300 rounded-lg font-mono text-xs text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-stone-500 focus:border-transparent resize-none"
+                                style={{ fontFamily: 'JetBrains Mono' }}
+                              />
+                            </div>
+                          )}
                         </div>
 
                         {/* Update Button */}
-                        <div className="flex gap-2">
-                          <Button
-                            onClick={handleUpdatePrompt}
-                            disabled={isUpdatingPrompt || !promptEditText.trim()}
-                            className="bg-gradient-to-r from-stone-700 to-stone-800 hover:from-stone-800 hover:to-stone-900 text-white transition-all transform hover:scale-105 active:scale-95"
-                            style={{ fontFamily: 'JetBrains Mono' }}
-                          >
-                            {isUpdatingPrompt ? (
-                              <>
-                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                Updating...
-                              </>
-                            ) : (
-                              <>
-                                <Check className="mr-2 h-4 w-4" />
-                                Save Prompt
-                              </>
-                            )}
-                          </Button>
-                          <Button
-                            onClick={() => setPromptEditText(agentPrompts[selectedPromptAgent]?.current_prompt || '')}
-                            variant="outline"
-                            className="border-gray-300 text-gray-700 hover:bg-gray-50"
-                            style={{ fontFamily: 'JetBrains Mono' }}
-                            disabled={isUpdatingPrompt}
-                          >
-                            <RefreshCw className="mr-2 h-4 w-4" />
-                            Reset
-                          </Button>
-                        </div>
+                        {can('operate') && (
+                          <div className="flex gap-2">
+                            <Button
+                              onClick={handleUpdatePrompt}
+                              disabled={isUpdatingPrompt || !promptEditText.trim()}
+                              className="bg-gradient-to-r from-stone-700 to-stone-800 hover:from-stone-800 hover:to-stone-900 text-white transition-all transform hover:scale-105 active:scale-95"
+                              style={{ fontFamily: 'JetBrains Mono' }}
+                            >
+                              {isUpdatingPrompt ? (
+                                <>
+                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                  Updating...
+                                </>
+                              ) : (
+                                <>
+                                  <Check className="mr-2 h-4 w-4" />
+                                  Save Prompt
+                                </>
+                              )}
+                            </Button>
+                            <Button
+                              onClick={() => setPromptEditText(agentPrompts[selectedPromptAgent]?.current_prompt || '')}
+                              variant="outline"
+                              className="border-gray-300 text-gray-700 hover:bg-gray-50"
+                              style={{ fontFamily: 'JetBrains Mono' }}
+                              disabled={isUpdatingPrompt}
+                            >
+                              <RefreshCw className="mr-2 h-4 w-4" />
+                              Reset
+                            </Button>
+                          </div>
+                        )}
 
                         {/* Previous Prompt History */}
                         {agentPrompts[selectedPromptAgent]?.previous_prompt && (
@@ -1704,14 +2203,16 @@ export default function PickabooAdmin() {
                                 {new Date(entry.created_at).toLocaleDateString()}
                               </td>
                               <td className="px-4 py-3 text-right">
-                                <Button
-                                  onClick={() => handleRemoveFromWaitlist(entry.email)}
-                                  variant="outline"
-                                  size="sm"
-                                  className="border-red-300 text-red-600 hover:bg-red-50"
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
+                                {can('operate') && (
+                                  <Button
+                                    onClick={() => handleRemoveFromWaitlist(entry.email)}
+                                    variant="outline"
+                                    size="sm"
+                                    className="border-red-300 text-red-600 hover:bg-red-50"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
                               </td>
                             </tr>
                           ))}
@@ -1722,6 +2223,469 @@ export default function PickabooAdmin() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Battle Scenarios Tab */}
+          <TabsContent value="scenarios" className="space-y-6">
+            <Card className="border border-gray-300 shadow-lg backdrop-blur-sm bg-white/95">
+              <CardHeader>
+                <CardTitle className="text-2xl text-gray-900 font-light" style={{ fontFamily: 'JetBrains Mono' }}>
+                  Battle Scenarios
+                </CardTitle>
+                <CardDescription className="text-gray-600">
+                  Build battle scenarios from real market history. The window&apos;s candles are saved once and agents battle on them in the arena.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {/* New Scenario */}
+                {can('operate') && (
+                  <div className="space-y-4 p-4 bg-stone-50 rounded-lg border border-stone-200">
+                    <h3 className="font-semibold text-gray-900" style={{ fontFamily: 'JetBrains Mono' }}>
+                      New Scenario
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-xs font-semibold text-gray-700 block mb-2">Name</label>
+                        <Input
+                          placeholder="LUNA collapse"
+                          value={scenarioForm.name}
+                          onChange={(e) => setScenarioForm({ ...scenarioForm, name: e.target.value })}
+                          className="border-gray-300"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs font-semibold text-gray-700 block mb-2">Description</label>
+                        <Input
+                          placeholder="Shown in the arena (never sent to the agents)"
+                          value={scenarioForm.description}
+                          onChange={(e) => setScenarioForm({ ...scenarioForm, description: e.target.value })}
+                          className="border-gray-300"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs font-semibold text-gray-700 block mb-2">Symbol</label>
+                        <Select value={scenarioForm.symbol} onValueChange={(symbol) => setScenarioForm({ ...scenarioForm, symbol })}>
+                          <SelectTrigger className="border-gray-300">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {['BTC', 'ETH', 'SOL', 'BNB', 'DOGE'].map(symbol => (
+                              <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <label className="text-xs font-semibold text-gray-700 block mb-2">Candle Interval</label>
+                        <Select value={scenarioForm.interval} onValueChange={(interval) => setScenarioForm({ ...scenarioForm, interval })}>
+                          <SelectTrigger className="border-gray-300">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {['5m', '15m', '1h', '4h', '1d'].map(interval => (
+                              <SelectItem key={interval} value={interval}>{interval}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <label className="text-xs font-semibold text-gray-700 block mb-2">Start</label>
+                        <Input
+                          type="datetime-local"
+                          value={scenarioForm.start}
+                          onChange={(e) => setScenarioForm({ ...scenarioForm, start: e.target.value })}
+                          className="border-gray-300"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs font-semibold text-gray-700 block mb-2">End</label>
+                        <Input
+                          type="datetime-local"
+                          value={scenarioForm.end}
+                          onChange={(e) => setScenarioForm({ ...scenarioForm, end: e.target.value })}
+                          className="border-gray-300"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500" style={{ fontFamily: 'JetBrains Mono' }}>
+                      The window must cover 2 to 24 candles of the chosen interval (one agent decision per candle).
+                    </p>
+                    <Button
+                      onClick={handleCreateScenario}
+                      disabled={isSavingScenario || !scenarioForm.name.trim() || !scenarioForm.start || !scenarioForm.end}
+                      className="bg-gradient-to-r from-stone-700 to-stone-800 hover:from-stone-800 hover:to-stone-900 text-white"
+                      style={{ fontFamily: 'JetBrains Mono' }}
+                    >
+                      {isSavingScenario ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Loading candles...
+                        </>
+                      ) : (
+                        <>
+                          <Plus className="mr-2 h-4 w-4" />
+                          Save Scenario
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                )}
+
+                {/* Scenario Library */}
+                {isLoadingScenarios ? (
+                  <div className="text-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-gray-400 mx-auto" />
+                    <p className="text-gray-500 mt-2">Loading scenarios...</p>
+                  </div>
+                ) : battleScenarios.length === 0 ? (
+                  <div className="text-center py-12 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+                    <Scroll className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">No custom scenarios yet</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-300 bg-gray-50">
+                          <th className="text-left px-4 py-3 font-semibold text-gray-700">Name</th>
+                          <th className="text-left px-4 py-3 font-semibold text-gray-700">Market</th>
+                          <th className="text-left px-4 py-3 font-semibold text-gray-700">Window</th>
+                          <th className="text-left px-4 py-3 font-semibold text-gray-700">Status</th>
+                          <th className="text-right px-4 py-3 font-semibold text-gray-700">Action</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {battleScenarios.map(scenario => (
+                          <tr key={scenario.slug} className="border-b border-gray-200 hover:bg-gray-50">
+                            <td className="px-4 py-3">
+                              <div className="text-gray-900 font-medium">{scenario.name}</div>
+                              {scenario.description && (
+                                <div className="text-xs text-gray-500">{scenario.description}</div>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 font-mono text-xs text-gray-800">
+                              {scenario.symbol} · {scenario.interval}
+                            </td>
+                            <td className="px-4 py-3 text-gray-600 text-xs">
+                              {new Date(scenario.start_time).toLocaleString()} → {new Date(scenario.end_time).toLocaleString()}
+                            </td>
+                            <td className="px-4 py-3">
+                              <span className={`inline-block px-2 py-1 text-xs font-medium rounded ${
+                                scenario.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                              }`}>
+                                {scenario.active ? 'Active' : 'Hidden'}
+                              </span>
+                            </td>
+                            <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                              {can('operate') && (
+                                <>
+                                  <Button
+                                    onClick={() => handleToggleScenario(scenario.slug, !scenario.active)}
+                                    variant="outline"
+                                    size="sm"
+                                    className="border-gray-300 text-gray-700 hover:bg-gray-50"
+                                  >
+                                    {scenario.active ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                                  </Button>
+                                  <Button
+                                    onClick={() => handleDeleteScenario(scenario.slug, scenario.name)}
+                                    variant="outline"
+                                    size="sm"
+                                    className="border-red-300 text-red-600 hover:bg-red-50"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Audit Log Tab */}
+          <TabsContent value="audit" className="space-y-6">
+            <Card className="border border-gray-300 shadow-lg backdrop-blur-sm bg-white/95">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle className="text-2xl text-gray-900 font-light" style={{ fontFamily: 'JetBrains Mono' }}>
+                    Audit Log
+                  </CardTitle>
+                  <CardDescription className="text-gray-600">
+                    Every admin change, who made it and what it changed ({auditEntries.length} of {auditTotal} shown)
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => exportAuditLog('csv')}
+                    disabled={auditEntries.length === 0}
+                    variant="outline"
+                    className="border-gray-300 text-gray-700 hover:bg-gray-50 hover:text-gray-900 transition-all"
+                    style={{ fontFamily: 'JetBrains Mono' }}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </Button>
+                  <Button
+                    onClick={() => exportAuditLog('json')}
+                    disabled={auditEntries.length === 0}
+                    variant="outline"
+                    className="border-gray-300 text-gray-700 hover:bg-gray-50 hover:text-gray-900 transition-all"
+                    style={{ fontFamily: 'JetBrains Mono' }}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Export JSON
+                  </Button>
+                  <Button
+                    onClick={fetchAuditLog}
+                    disabled={isLoadingAudit}
+                    className="bg-gradient-to-r from-stone-700 to-stone-800 hover:from-stone-800 hover:to-stone-900 text-white transition-all transform hover:scale-105 active:scale-95"
+                    style={{ fontFamily: 'JetBrains Mono' }}
+                  >
+                    {isLoadingAudit ? (
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                    )}
+                    Apply Filters
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {/* Filters */}
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 p-4 bg-stone-50 rounded-lg border border-stone-200">
+                  <Select
+                    value={auditFilters.action || 'all'}
+                    onValueChange={(action) => setAuditFilters({ ...auditFilters, action: action === 'all' ? '' : action })}
+                  >
+                    <SelectTrigger className="border-gray-300">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All actions</SelectItem>
+                      {AUDIT_ACTION_AREAS.map(area => (
+                        <SelectItem key={area} value={`${area}.`}>{area}.*</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={auditFilters.agent_id || 'all'}
+                    onValueChange={(agentId) => setAuditFilters({ ...auditFilters, agent_id: agentId === 'all' ? '' : agentId })}
+                  >
+                    <SelectTrigger className="border-gray-300">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All agents</SelectItem>
+                      {agentList.map(agent => (
+                        <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Actor wallet"
+                    value={auditFilters.actor}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, actor: e.target.value })}
+                    className="border-gray-300 font-mono"
+                  />
+                  <Input
+                    type="datetime-local"
+                    title="From"
+                    value={auditFilters.from}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, from: e.target.value })}
+                    className="border-gray-300"
+                  />
+                  <Input
+                    type="datetime-local"
+                    title="To"
+                    value={auditFilters.to}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, to: e.target.value })}
+                    className="border-gray-300"
+                  />
+                </div>
+
+                {isLoadingAudit ? (
+                  <div className="text-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-gray-400 mx-auto" />
+                    <p className="text-gray-500 mt-2">Loading audit log...</p>
+                  </div>
+                ) : auditEntries.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8" style={{ fontFamily: 'JetBrains Mono' }}>
+                    No audit entries match these filters
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-300 bg-gray-50">
+                          <th className="text-left px-4 py-3 font-semibold text-gray-700">Date</th>
+                          <th className="text-left px-4 py-3 font-semibold text-gray-700">Actor</th>
+                          <th className="text-left px-4 py-3 font-semibold text-gray-700">Action</th>
+                          <th className="text-left px-4 py-3 font-semibold text-gray-700">Agent</th>
+                          <th className="text-left px-4 py-3 font-semibold text-gray-700">Changes</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {auditEntries.map(entry => (
+                          <tr key={entry.id} className="border-b border-gray-200 hover:bg-gray-50 align-top">
+                            <td className="px-4 py-3 text-gray-600 text-xs whitespace-nowrap">
+                              {new Date(entry.created_at).toLocaleString()}
+                            </td>
+                            <td className="px-4 py-3 font-mono text-xs text-gray-800" title={entry.metadata?.ip || undefined}>
+                              {entry.actor_wallet.startsWith('0x')
+                                ? `${entry.actor_wallet.slice(0, 6)}...${entry.actor_wallet.slice(-4)}`
+                                : entry.actor_wallet}
+                            </td>
+                            <td className="px-4 py-3">
+                              <span className="px-2 py-1 rounded bg-stone-100 text-stone-800 text-xs font-mono">
+                                {entry.action}
+                              </span>
+                            </td>
+                            <td className="px-4 py-3 text-gray-800">
+                              {agentList.find(a => a.id === entry.target_agent)?.name || entry.target_agent || '—'}
+                            </td>
+                            <td className="px-4 py-3 font-mono text-xs text-gray-700 break-all">
+                              {formatAuditDiff(entry.diff).map(line => (
+                                <p key={line}>{line}</p>
+                              ))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Admins Tab (owners only) */}
+          {can('manage_admins') && (
+            <TabsContent value="admins" className="space-y-6">
+              <Card className="border border-gray-300 shadow-lg backdrop-blur-sm bg-white/95">
+                <CardHeader>
+                  <CardTitle className="text-2xl text-gray-900 font-light" style={{ fontFamily: 'JetBrains Mono' }}>
+                    Admins & Roles
+                  </CardTitle>
+                  <CardDescription className="text-gray-600">
+                    Viewers can look, operators change symbols, prompts and scenarios, treasurers fund agents and owners manage admins.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {/* Add Admin */}
+                  <div className="space-y-4 p-4 bg-stone-50 rounded-lg border border-stone-200">
+                    <h3 className="font-semibold text-gray-900" style={{ fontFamily: 'JetBrains Mono' }}>
+                      Add Admin
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <Input
+                        placeholder="0x... wallet address"
+                        value={adminForm.wallet_address}
+                        onChange={(e) => setAdminForm({ ...adminForm, wallet_address: e.target.value.trim() })}
+                        className="border-gray-300 font-mono"
+                      />
+                      <Input
+                        placeholder="Name (optional)"
+                        value={adminForm.admin_name}
+                        onChange={(e) => setAdminForm({ ...adminForm, admin_name: e.target.value })}
+                        className="border-gray-300"
+                      />
+                      <Select value={adminForm.role} onValueChange={(role) => setAdminForm({ ...adminForm, role: role as PickabooRole })}>
+                        <SelectTrigger className="border-gray-300">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PICKABOO_ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{role}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      onClick={handleAddAdmin}
+                      disabled={!/^0x[0-9a-fA-F]{40}$/.test(adminForm.wallet_address)}
+                      className="bg-gradient-to-r from-stone-700 to-stone-800 hover:from-stone-800 hover:to-stone-900 text-white"
+                      style={{ fontFamily: 'JetBrains Mono' }}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Admin
+                    </Button>
+                  </div>
+
+                  {/* Admin List */}
+                  {isLoadingAdmins ? (
+                    <div className="text-center py-12">
+                      <Loader2 className="h-8 w-8 animate-spin text-gray-400 mx-auto" />
+                      <p className="text-gray-500 mt-2">Loading admins...</p>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-gray-300 bg-gray-50">
+                            <th className="text-left px-4 py-3 font-semibold text-gray-700">Wallet</th>
+                            <th className="text-left px-4 py-3 font-semibold text-gray-700">Name</th>
+                            <th className="text-left px-4 py-3 font-semibold text-gray-700">Role</th>
+                            <th className="text-left px-4 py-3 font-semibold text-gray-700">Added</th>
+                            <th className="text-right px-4 py-3 font-semibold text-gray-700">Action</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {admins.map(admin => {
+                            const isSelf = admin.wallet_address === connectedAddress?.toLowerCase()
+                            return (
+                              <tr key={admin.wallet_address} className="border-b border-gray-200 hover:bg-gray-50">
+                                <td className="px-4 py-3 font-mono text-xs text-gray-800">
+                                  {admin.wallet_address}
+                                  {isSelf && <span className="ml-2 text-gray-500">(you)</span>}
+                                </td>
+                                <td className="px-4 py-3 text-gray-800">{admin.admin_name || '—'}</td>
+                                <td className="px-4 py-3">
+                                  <Select
+                                    value={admin.role}
+                                    onValueChange={(role) => handleChangeAdminRole(admin.wallet_address, role as PickabooRole)}
+                                    disabled={isSelf}
+                                  >
+                                    <SelectTrigger className="h-8 w-32 border-gray-300">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {PICKABOO_ROLES.map(role => (
+                                        <SelectItem key={role} value={role}>{role}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </td>
+                                <td className="px-4 py-3 text-gray-600 text-xs">
+                                  {new Date(admin.created_at).toLocaleDateString()}
+                                </td>
+                                <td className="px-4 py-3 text-right">
+                                  {!isSelf && (
+                                    <Button
+                                      onClick={() => handleRemoveAdmin(admin.wallet_address)}
+                                      variant="outline"
+                                      size="sm"
+                                      className="border-red-300 text-red-600 hover:bg-red-50"
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
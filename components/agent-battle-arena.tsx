@@ -1,6 +1,6 @@
 "use client"
 
-import React, { useState } from "react"
+import React, { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -34,14 +34,31 @@ const SCENARIOS: Record<BattleScenario, { label: string; emoji: string; descript
   },
 }
 
+interface CustomScenario {
+  slug: string
+  name: string
+  description?: string | null
+  symbol: string
+  interval: string
+}
+
 export function AgentBattleArena() {
   const agents = getAllAgents()
   const [selectedAgent1, setSelectedAgent1] = useState<string | null>(agents[0]?.id || null)
   const [selectedAgent2, setSelectedAgent2] = useState<string | null>(agents[1]?.id || null)
-  const [selectedScenario, setSelectedScenario] = useState<BattleScenario>("crash")
+  const [selectedScenario, setSelectedScenario] = useState<string>("crash")
+  const [customScenarios, setCustomScenarios] = useState<CustomScenario[]>([])
   const [loading, setLoading] = useState(false)
   const [result, setResult] = useState<BattleResult | null>(null)
 
+  // Historical scenarios curated in Pickaboo
+  useEffect(() => {
+    fetch("/api/aster/battle/scenarios")
+      .then((res) => res.json())
+      .then((data) => setCustomScenarios(data.custom || []))
+      .catch((error) => console.error("Failed to load custom scenarios:", error))
+  }, [])
+
   const handleStartBattle = async () => {
     if (!selectedAgent1 || !selectedAgent2) {
       alert("Please select both agents")
@@ -105,11 +122,19 @@ export function AgentBattleArena() {
           <CardHeader>
             <div className="flex items-center gap-2">
               <span className="text-4xl">
-                {SCENARIOS[result.scenario as BattleScenario]?.emoji}
+                {result.config.historical ? "📜" : SCENARIOS[result.scenario as BattleScenario]?.emoji}
               </span>
               <div>
-                <CardTitle>{SCENARIOS[result.scenario as BattleScenario]?.label}</CardTitle>
+                <CardTitle>
+                  {result.config.historical?.name || SCENARIOS[result.scenario as BattleScenario]?.label}
+                </CardTitle>
                 <CardDescription>{result.scenarioDescription}</CardDescription>
+                <CardDescription className="mt-1">
+                  {result.config.symbol} {result.config.initialPrice.toPrecision(6)} →{" "}
+                  {result.pricePath[result.pricePath.length - 1]?.close.toPrecision(6)} over {result.config.steps} candles
+                  {" · "}Seed {result.seed}
+                  {result.battleId !== undefined && ` · Battle #${result.battleId}`}
+                </CardDescription>
               </div>
             </div>
           </CardHeader>
@@ -162,10 +187,23 @@ export function AgentBattleArena() {
                 </div>
               </div>
 
-              {/* Decision */}
+              {/* Simulated PnL */}
+              <div className="space-y-2">
+                <div className="text-sm font-semibold text-gray-400">RESULT</div>
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="outline" className={result.agent1Performance.returnPercent >= 0 ? "text-green-400" : "text-red-400"}>
+                    {result.agent1Performance.returnPercent >= 0 ? "+" : ""}
+                    {result.agent1Performance.returnPercent.toFixed(2)}%
+                  </Badge>
+                  <Badge variant="outline">Max DD: {result.agent1Performance.maxDrawdown.toFixed(2)}%</Badge>
+                  <Badge variant="outline">Trades: {result.agent1Performance.trades}</Badge>
+                </div>
+              </div>
+
+              {/* Decisions per step */}
               <div className="space-y-2">
-                <div className="text-sm font-semibold text-gray-400">DECISION</div>
-                <p className="text-sm text-gray-300 leading-relaxed">
+                <div className="text-sm font-semibold text-gray-400">DECISIONS</div>
+                <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-line">
                   {result.agent1Decision}
                 </p>
               </div>
@@ -217,10 +255,23 @@ export function AgentBattleArena() {
                 </div>
               </div>
 
-              {/* Decision */}
+              {/* Simulated PnL */}
               <div className="space-y-2">
-                <div className="text-sm font-semibold text-gray-400">DECISION</div>
-                <p className="text-sm text-gray-300 leading-relaxed">
+                <div className="text-sm font-semibold text-gray-400">RESULT</div>
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="outline" className={result.agent2Performance.returnPercent >= 0 ? "text-green-400" : "text-red-400"}>
+                    {result.agent2Performance.returnPercent >= 0 ? "+" : ""}
+                    {result.agent2Performance.returnPercent.toFixed(2)}%
+                  </Badge>
+                  <Badge variant="outline">Max DD: {result.agent2Performance.maxDrawdown.toFixed(2)}%</Badge>
+                  <Badge variant="outline">Trades: {result.agent2Performance.trades}</Badge>
+                </div>
+              </div>
+
+              {/* Decisions per step */}
+              <div className="space-y-2">
+                <div className="text-sm font-semibold text-gray-400">DECISIONS</div>
+                <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-line">
                   {result.agent2Decision}
                 </p>
               </div>
@@ -353,6 +404,24 @@ export function AgentBattleArena() {
               </button>
             )
           )}
+          {customScenarios.map((scenario) => (
+            <button
+              key={scenario.slug}
+              onClick={() => setSelectedScenario(scenario.slug)}
+              title={scenario.description || undefined}
+              className={`p-3 rounded-lg text-center transition-all border-2 ${
+                selectedScenario === scenario.slug
+                  ? "border-green-500 bg-green-500/10"
+                  : "border-gray-700 hover:border-gray-600"
+              }`}
+            >
+              <div className="text-2xl mb-1">📜</div>
+              <div className="text-xs font-semibold">{scenario.name}</div>
+              <div className="text-xs text-gray-500">
+                {scenario.symbol} · {scenario.interval}
+              </div>
+            </button>
+          ))}
         </CardContent>
       </Card>
 
@@ -0,0 +1,173 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, RefreshCw, Trophy } from "lucide-react"
+import type { AgentRatingRecord } from "@/lib/supabase-client"
+import { getAllAgents } from "@/lib/constants/agents"
+
+interface BattleSummary {
+  id: number
+  agent1_id: string
+  agent2_id: string
+  scenario: string
+  winner_id: string
+  tournament_id?: number | null
+  created_at?: string
+}
+
+const OVERALL = "overall"
+
+export function BattleLeaderboard() {
+  const agentNames = Object.fromEntries(getAllAgents().map((a) => [a.id, a.name]))
+  const [ratings, setRatings] = useState<AgentRatingRecord[]>([])
+  const [scenarios, setScenarios] = useState<string[]>([])
+  const [battles, setBattles] = useState<BattleSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLeaderboard = async () => {
+    setLoading(true)
+    try {
+      const [ratingsRes, historyRes] = await Promise.all([
+        fetch("/api/aster/tournament?view=ratings"),
+        fetch("/api/aster/tournament?view=history&limit=20"),
+      ])
+      const ratingsData = await ratingsRes.json()
+      const historyData = await historyRes.json()
+      if (!ratingsRes.ok) throw new Error(ratingsData.error || "Failed to load ratings")
+
+      setRatings(ratingsData.ratings || [])
+      setScenarios((ratingsData.scenarios || []).filter((s: string) => s !== OVERALL))
+      setBattles(historyData.battles || [])
+      setError(null)
+    } catch (err) {
+      console.error("Leaderboard error:", err)
+      setError(err instanceof Error ? err.message : "Failed to load ratings")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchLeaderboard()
+  }, [])
+
+  const getRating = (agentId: string, scenario: string) =>
+    ratings.find((r) => r.agent_id === agentId && r.scenario === scenario)
+
+  // Agents ranked by overall rating
+  const rows = ratings
+    .filter((r) => r.scenario === OVERALL)
+    .sort((a, b) => b.rating - a.rating)
+
+  // Best rated agent in each scenario
+  const scenarioLeaders: Record<string, string> = {}
+  for (const scenario of scenarios) {
+    const best = ratings
+      .filter((r) => r.scenario === scenario)
+      .sort((a, b) => b.rating - a.rating)[0]
+    if (best) scenarioLeaders[scenario] = best.agent_id
+  }
+
+  return (
+    <div className="w-full space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>🏆 Battle Ratings</CardTitle>
+            <CardDescription>Elo ratings from every stored battle, overall and per scenario</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchLeaderboard} disabled={loading}>
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-gray-500">{error}</p>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-gray-500">{loading ? "Loading ratings..." : "No rated battles yet"}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Agent</TableHead>
+                  <TableHead className="text-right">Overall</TableHead>
+                  <TableHead className="text-right">W / L / D</TableHead>
+                  {scenarios.map((scenario) => (
+                    <TableHead key={scenario} className="text-right capitalize">
+                      {scenario.replace("_", " ")}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={row.agent_id}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="font-semibold">{agentNames[row.agent_id] || row.agent_id}</TableCell>
+                    <TableCell className="text-right font-bold">{Math.round(row.rating)}</TableCell>
+                    <TableCell className="text-right">
+                      {row.wins} / {row.losses} / {row.draws}
+                    </TableCell>
+                    {scenarios.map((scenario) => {
+                      const rating = getRating(row.agent_id, scenario)
+                      const isLeader = scenarioLeaders[scenario] === row.agent_id
+                      return (
+                        <TableCell
+                          key={scenario}
+                          className={`text-right ${isLeader ? "font-bold text-green-600" : ""}`}
+                        >
+                          {rating ? (
+                            <span className="inline-flex items-center gap-1">
+                              {isLeader && <Trophy className="w-3 h-3" />}
+                              {Math.round(rating.rating)}
+                              <span className="text-xs text-gray-500">({rating.matches})</span>
+                            </span>
+                          ) : (
+                            "—"
+                          )}
+                        </TableCell>
+                      )
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {battles.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Battles</CardTitle>
+            <CardDescription>Last {battles.length} stored bouts</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {battles.map((battle) => (
+              <div key={battle.id} className="flex items-center justify-between text-sm border-b border-gray-700 pb-2">
+                <span>
+                  <span className={battle.winner_id === battle.agent1_id ? "font-bold" : ""}>
+                    {agentNames[battle.agent1_id] || battle.agent1_id}
+                  </span>
+                  {" vs "}
+                  <span className={battle.winner_id === battle.agent2_id ? "font-bold" : ""}>
+                    {agentNames[battle.agent2_id] || battle.agent2_id}
+                  </span>
+                </span>
+                <span className="text-xs text-gray-500">
+                  {battle.scenario.replace("_", " ")} · #{battle.id}
+                  {battle.tournament_id ? ` · tournament ${battle.tournament_id}` : ""}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -45,6 +45,9 @@ export function Header() {
           <Link href="/compare" className="text-foreground hover:text-primary transition-colors">
             Compare
           </Link>
+          <Link href="/battles" className="text-foreground hover:text-primary transition-colors">
+            Battles
+          </Link>
           <Link href="/x-comments" className="text-foreground hover:text-primary transition-colors">
             X Comments
           </Link>
@@ -109,6 +112,9 @@ export function Header() {
             <Link href="/compare" className="px-4 py-3 border-b border-border hover:bg-muted">
               Compare
             </Link>
+            <Link href="/battles" className="px-4 py-3 border-b border-border hover:bg-muted">
+              Battles
+            </Link>
             <Link href="/x-comments" className="px-4 py-3 border-b border-border hover:bg-muted">
               X Comments
             </Link>
@@ -20,6 +20,9 @@ interface AsterPosition {
   notional: number
   markPrice: number
   updateTime: number
+  liquidationDistancePercent?: number | null // % from mark price to liquidation
+  fundingRate?: number | null // Current funding rate as a fraction
+  nextFundingTime?: number | null
 }
 
 interface AsterTrade {
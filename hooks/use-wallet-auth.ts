@@ -1,4 +1,7 @@
 import { useCallback, useState, useRef } from 'react'
+import { getAddress as toChecksumAddress } from 'ethers'
+import { createSiweMessage, PICKABOO_SIWE_STATEMENT } from '@/lib/siwe'
+import type { PickabooRole } from '@/lib/pickaboo-roles'
 
 interface WalletConnectResult {
   success: boolean
@@ -8,6 +11,8 @@ interface WalletConnectResult {
 
 /**
  * Hook for wallet-based authentication in Pickaboo admin dashboard
+ * Signs in with Ethereum (EIP-4361): the server issues a nonce, the wallet signs a
+ * message containing it, and a verified admin gets an httpOnly session cookie
  */
 export function useWalletAuth() {
   const [isConnecting, setIsConnecting] = useState(false)
@@ -88,14 +93,41 @@ export function useWalletAuth() {
   }, [])
 
   /**
-   * Verify wallet with backend
+   * Sign in with the connected wallet: fetch a nonce, sign the EIP-4361 message and
+   * let the backend verify the signature and start a session
    */
   const verifyWallet = useCallback(async (walletAddress: string) => {
     try {
+      if (typeof window === 'undefined' || !window.ethereum) {
+        throw new Error('MetaMask or Web3 wallet not detected')
+      }
+
+      const nonceResponse = await fetch('/api/pickaboo/siwe-nonce', { cache: 'no-store' })
+      const nonceData = await nonceResponse.json()
+      if (!nonceResponse.ok) {
+        throw new Error(nonceData.error || 'Failed to start sign-in')
+      }
+
+      const message = createSiweMessage({
+        domain: window.location.host,
+        address: toChecksumAddress(walletAddress), // EIP-55 checksum, as the standard requires
+        statement: PICKABOO_SIWE_STATEMENT,
+        uri: window.location.origin,
+        version: '1',
+        chainId: nonceData.chainId,
+        nonce: nonceData.nonce,
+        issuedAt: new Date().toISOString(),
+      })
+
+      const signature = await window.ethereum.request({
+        method: 'personal_sign',
+        params: [message, walletAddress],
+      })
+
       const response = await fetch('/api/pickaboo/verify-wallet', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ wallet_address: walletAddress }),
+        body: JSON.stringify({ message, signature }),
       })
 
       const data = await response.json()
@@ -107,18 +139,45 @@ export function useWalletAuth() {
 
       return { success: true, ...data }
     } catch (err: any) {
-      const errorMessage = err?.message || 'Failed to verify wallet'
+      const errorMessage =
+        err?.code === 4001 || err?.message?.includes('User rejected')
+          ? 'Signature request cancelled. Please sign the message to continue.'
+          : err?.message || 'Failed to verify wallet'
       setError(errorMessage)
       return { success: false, error: errorMessage }
     }
   }, [])
 
   /**
-   * Disconnect wallet
+   * Resume an existing admin session (e.g. after a page reload)
+   */
+  const restoreSession = useCallback(async () => {
+    try {
+      const response = await fetch('/api/pickaboo/session', { cache: 'no-store' })
+      if (!response.ok) {
+        return { success: false }
+      }
+
+      const data = await response.json()
+      setConnectedAddress(data.wallet_address)
+      return {
+        success: true,
+        address: data.wallet_address as string,
+        role: data.role as PickabooRole,
+        expiresAt: data.expires_at as string,
+      }
+    } catch {
+      return { success: false }
+    }
+  }, [])
+
+  /**
+   * Disconnect wallet and end the admin session
    */
   const disconnectWallet = useCallback(() => {
     setConnectedAddress(null)
     setError(null)
+    fetch('/api/pickaboo/session', { method: 'DELETE' }).catch(() => {})
   }, [])
 
   /**
@@ -129,6 +188,7 @@ export function useWalletAuth() {
   return {
     connectWallet,
     verifyWallet,
+    restoreSession,
     disconnectWallet,
     getAddress,
     isConnecting,
@@ -0,0 +1,78 @@
+/**
+ * Admin Audit Log
+ * Every mutating admin route records who did what to which agent, with the state
+ * before and after, in the append-only admin_audit_log table
+ *
+ * Recording never throws: a failed write is logged and the admin action still succeeds
+ */
+
+import { saveAdminAuditEntry, type AdminAuditEntry } from "./supabase-client"
+import { getPickabooSession } from "./pickaboo-auth"
+
+export interface AdminActionRecord {
+  action: string // "<area>.<verb>", e.g. "prompt.update"
+  actor?: string // Defaults to the Pickaboo session wallet, or "anonymous"
+  targetAgent?: string | null
+  before?: unknown
+  after?: unknown
+  details?: Record<string, unknown> // Extra request metadata (amounts, options, counts...)
+}
+
+/**
+ * Field-by-field changes between two states
+ * Objects are compared one level deep; anything else is compared as a whole
+ * Returns null when nothing changed
+ */
+export function diffStates(before: unknown, after: unknown): AdminAuditEntry["diff"] {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === "object" && !Array.isArray(value)
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+  if (!isObject(before) || !isObject(after)) {
+    return same(before, after) ? null : { value: { before: before ?? null, after: after ?? null } }
+  }
+
+  const diff: NonNullable<AdminAuditEntry["diff"]> = {}
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (!same(before[key], after[key])) {
+      diff[key] = { before: before[key] ?? null, after: after[key] ?? null }
+    }
+  }
+  return Object.keys(diff).length > 0 ? diff : null
+}
+
+function resolveActor(request: Request): string {
+  try {
+    return getPickabooSession(request)?.wallet || "anonymous"
+  } catch {
+    // Sessions not configured
+    return "anonymous"
+  }
+}
+
+/**
+ * Append an admin action to the audit log
+ */
+export async function recordAdminAction(request: Request, record: AdminActionRecord): Promise<void> {
+  const url = new URL(request.url)
+
+  try {
+    await saveAdminAuditEntry({
+      actor_wallet: (record.actor || resolveActor(request)).toLowerCase(),
+      action: record.action,
+      target_agent: record.targetAgent ?? null,
+      before_state: record.before ?? null,
+      after_state: record.after ?? null,
+      diff: diffStates(record.before, record.after),
+      metadata: {
+        method: request.method,
+        path: url.pathname,
+        ip: request.headers.get("x-forwarded-for")?.split(",")[0].trim() || request.headers.get("x-real-ip"),
+        user_agent: request.headers.get("user-agent"),
+        ...record.details,
+      },
+    })
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${record.action}:`, error)
+  }
+}
@@ -1,345 +1,584 @@
 /**
  * Agent Battle Arena
- * Simulates 1v1 trading scenarios with real agent decisions
+ * Simulates 1v1 trading battles on a seeded multi-candle price path: each agent makes a
+ * structured position decision at every step, positions are marked to market along the
+ * path, and the winner is decided by simulated PnL and drawdown.
+ * The same seed always produces the same path, and replaying recorded decisions
+ * reproduces the battle exactly
  */
 
 import { AgentData, MarketContext } from "./chat-engine"
-import { callAgentAPI } from "./llm-apis"
+import { completeWithProvider, getAgentProviderId } from "./llm-providers"
+import { getAllAgents } from "./constants/agents"
 
 export type BattleScenario = "crash" | "pump" | "sideways" | "volatility" | "flash_crash"
+export const BATTLE_SCENARIOS: BattleScenario[] = ["crash", "pump", "sideways", "volatility", "flash_crash"]
 
-export interface BattleContext {
-  agent1Id: string
-  agent2Id: string
-  scenario: BattleScenario
+export const BATTLE_SYMBOLS = ["BTC", "ETH", "SOL", "BNB", "DOGE"] as const
+export type BattleSymbol = (typeof BATTLE_SYMBOLS)[number]
+
+export type BattleStance = "bullish" | "neutral" | "bearish"
+
+export interface BattleConfig {
+  seed: number // uint32
+  scenario: string // A built-in BattleScenario or the slug of a custom historical scenario
+  symbol: BattleSymbol
+  steps: number // Candles in the path (one decision per candle)
   initialPrice: number
-  scenarioDescription: string
+  initialCapital: number
+  historical?: HistoricalEpisode // Recorded candles replace the generated path
+}
+
+/**
+ * Real market candles a custom scenario was built from (lib/battle-scenarios.ts)
+ * Kept in the config so stored battles replay exactly even if the scenario is edited later
+ */
+export interface HistoricalEpisode {
+  name: string
+  interval: string
+  startTime: string
+  endTime: string
+  candles: BattleCandle[]
+}
+
+export interface BattleCandle {
+  step: number // 1-based
+  open: number
+  high: number
+  low: number
+  close: number
+}
+
+export interface BattleDecision {
+  step: number // Decided after seeing close[step - 1], held through candle `step`
+  action: "LONG" | "SHORT" | "FLAT"
+  size: number // Fraction of equity, 0-1
+  confidence: number // 0-100
+  reason: string
+  error?: string // Set when the reply was missing or invalid and the previous position was kept
+}
+
+export interface BattlePerformance {
+  finalEquity: number
+  pnl: number
+  returnPercent: number
+  maxDrawdown: number // Percent, positive
+  trades: number
+  fees: number
+  score: number // returnPercent - DRAWDOWN_PENALTY * maxDrawdown
+  equityCurve: number[] // Initial capital, then equity at each candle close
 }
 
 export interface BattleResult {
+  battleId?: number // Set once stored
   agent1Id: string
   agent1Name: string
   agent2Id: string
   agent2Name: string
-  scenario: BattleScenario
+  scenario: string
   scenarioDescription: string
-  
+
+  // Replay inputs
+  seed: number
+  config: BattleConfig
+  pricePath: BattleCandle[]
+
   // Agent 1 results
   agent1Decision: string
   agent1Reasoning: string
   agent1Confidence: number
-  agent1StanceDirection: "bullish" | "neutral" | "bearish" // extracted from response
-  
+  agent1StanceDirection: BattleStance // from average exposure
+  agent1Decisions: BattleDecision[]
+  agent1Performance: BattlePerformance
+
   // Agent 2 results
   agent2Decision: string
   agent2Reasoning: string
   agent2Confidence: number
-  agent2StanceDirection: "bullish" | "neutral" | "bearish"
-  
+  agent2StanceDirection: BattleStance
+  agent2Decisions: BattleDecision[]
+  agent2Performance: BattlePerformance
+
   // Battle outcome
   winnerId: string
   winnerName: string
   winReason: string
-  consensusLevel: number // 0-100, how aligned they are
+  consensusLevel: number // 0-100, share of steps both agents held the same direction
+  replayed?: boolean
   timestamp: string
 }
 
-// All agents use the unified API handler that routes to the right LLM
-const callLLM = (agent: AgentData, context: MarketContext, activity: string, customPrompt?: string) =>
-  callAgentAPI(agent, context, activity, undefined, customPrompt)
+export const DEFAULT_BATTLE_STEPS = 8
+export const MAX_BATTLE_STEPS = 24
+export const BATTLE_CAPITAL = 1000
+const TRADING_FEE = 0.0004 // Taker fee on traded notional
+const DRAWDOWN_PENALTY = 0.5
+
+const SCENARIO_DESCRIPTIONS: Record<BattleScenario, string> = {
+  crash: "⚠️ MARKET CRASH: 15% dump unfolding across the next candles! Panic selling everywhere. What do you do?",
+  pump: "🚀 MARKET PUMP: 20% explosive rally building! FOMO buying intensifying. Your move?",
+  sideways: "➡️ SIDEWAYS MARKET: Tight range, no clear trend. Which agent capitalizes on the chop?",
+  volatility: "⚡ EXTREME VOLATILITY: Wild swings every candle! Risk vs reward battle!",
+  flash_crash: "💥 FLASH CRASH: 25% instantaneous drop incoming! Is this the opportunity of a lifetime or pure disaster?",
+}
 
 /**
- * Generate market scenario with modified prices
+ * Seeded PRNG (mulberry32): returns floats in [0, 1)
  */
-function generateScenarioContext(
-  baseContext: MarketContext,
-  scenario: BattleScenario
-): { context: MarketContext; description: string } {
-  const context = { ...baseContext }
-
-  switch (scenario) {
-    case "crash":
-      // Sudden 15% crash
-      context.BTC *= 0.85
-      context.ETH *= 0.85
-      context.SOL *= 0.85
-      context.BNB *= 0.85
-      context.DOGE *= 0.85
-      return {
-        context,
-        description:
-          "⚠️ MARKET CRASH: 15% sudden dump across all assets! Panic selling everywhere. What do you do?",
-      }
-
-    case "pump":
-      // Massive 20% pump
-      context.BTC *= 1.2
-      context.ETH *= 1.2
-      context.SOL *= 1.2
-      context.BNB *= 1.2
-      context.DOGE *= 1.2
-      return {
-        context,
-        description:
-          "🚀 MARKET PUMP: 20% explosive rally across the board! FOMO buying intensifying. Your move?",
-      }
-
-    case "sideways":
-      // Slight random movements, mostly flat
-      context.BTC *= 1 + (Math.random() - 0.5) * 0.02
-      context.ETH *= 1 + (Math.random() - 0.5) * 0.02
-      context.SOL *= 1 + (Math.random() - 0.5) * 0.02
-      context.BNB *= 1 + (Math.random() - 0.5) * 0.02
-      context.DOGE *= 1 + (Math.random() - 0.5) * 0.02
-      return {
-        context,
-        description:
-          "➡️ SIDEWAYS MARKET: 2% random noise, no clear trend. Which agent capitalizes on the chop?",
-      }
-
-    case "volatility":
-      // Extreme swings
-      context.BTC *= 1 + (Math.random() - 0.5) * 0.3
-      context.ETH *= 1 + (Math.random() - 0.5) * 0.3
-      context.SOL *= 1 + (Math.random() - 0.5) * 0.3
-      context.BNB *= 1 + (Math.random() - 0.5) * 0.3
-      context.DOGE *= 1 + (Math.random() - 0.5) * 0.3
-      return {
-        context,
-        description:
-          "⚡ EXTREME VOLATILITY: ±15% wild swings! Asset correlations breaking down. Risk vs reward battle!",
-      }
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
 
-    case "flash_crash":
-      // Instant 25% drop then recovery
-      context.BTC *= 0.75
-      context.ETH *= 0.75
-      context.SOL *= 0.75
-      context.BNB *= 0.75
-      context.DOGE *= 0.75
-      return {
-        context,
-        description:
-          "💥 FLASH CRASH: 25% instantaneous drop! Is this the opportunity of a lifetime or pure disaster?",
-      }
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function gaussian(rng: () => number): number {
+  const u = Math.max(rng(), Number.EPSILON)
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng())
+}
 
-    default:
-      return { context, description: "Market scenario engaged" }
+/**
+ * Battle participant for a configured agent (AGENTS), or null for unknown ids
+ */
+export function getBattleAgent(agentId: string): AgentData | null {
+  const agent = getAllAgents().find((a) => a.id === agentId)
+  if (!agent) return null
+  return {
+    id: agent.id,
+    name: agent.name,
+    model: agent.model,
+    pnl: 0,
+    roi: 0,
+    recentTrades: 0,
   }
 }
 
+export function randomBattleSeed(): number {
+  return Math.floor(Math.random() * 4294967296)
+}
+
 /**
- * Extract decision stance from agent response
+ * Generate the scenario's price path from the seed
+ * Log returns per candle: a scenario drift plus seeded noise
+ * Historical scenarios use their recorded candles instead
  */
-function extractStance(text: string): "bullish" | "neutral" | "bearish" {
-  const lower = text.toLowerCase()
-
-  // Bullish signals
-  if (
-    lower.includes("buy") ||
-    lower.includes("long") ||
-    lower.includes("accumulate") ||
-    lower.includes("opportunity") ||
-    lower.includes("undervalued") ||
-    lower.includes("going up")
-  ) {
-    return "bullish"
+export function generateScenarioPath(config: BattleConfig): { candles: BattleCandle[]; description: string } {
+  if (config.historical) {
+    // Name and dates stay out of the prompt so agents can't recall how the episode ended
+    return {
+      candles: config.historical.candles.slice(0, config.steps),
+      description: `📜 HISTORICAL EPISODE: ${config.steps} real ${config.symbol} ${config.historical.interval} candles from a past market event. Dates are hidden - trade what you see!`,
+    }
   }
 
-  // Bearish signals
-  if (
-    lower.includes("sell") ||
-    lower.includes("short") ||
-    lower.includes("reduce") ||
-    lower.includes("exit") ||
-    lower.includes("risk") ||
-    lower.includes("going down") ||
-    lower.includes("crash")
-  ) {
-    return "bearish"
+  const rng = createRng(config.seed)
+  const { steps } = config
+  const scenario = config.scenario as BattleScenario
+  const candles: BattleCandle[] = []
+  let price = config.initialPrice
+
+  // Flash crash hits a third of the way in, then recovers 70% of the drop
+  const crashStep = Math.max(1, Math.floor(steps / 3))
+
+  for (let step = 1; step <= steps; step++) {
+    let drift = 0
+    let volatility = 0.01
+
+    switch (scenario) {
+      case "crash": {
+        // 15% down over the first half
+        const crashSteps = Math.ceil(steps / 2)
+        drift = step <= crashSteps ? Math.log(0.85) / crashSteps : 0
+        break
+      }
+      case "pump":
+        // 20% up across the path
+        drift = Math.log(1.2) / steps
+        break
+      case "sideways":
+        // Mean-reverting around the starting price
+        drift = -0.5 * Math.log(price / config.initialPrice)
+        volatility = 0.004
+        break
+      case "volatility":
+        volatility = 0.05
+        break
+      case "flash_crash":
+        volatility = 0.008
+        if (step === crashStep) {
+          drift = Math.log(0.75)
+        } else if (step > crashStep) {
+          drift = (0.7 * Math.log(1 / 0.75)) / (steps - crashStep)
+        }
+        break
+    }
+
+    const open = price
+    const close = open * Math.exp(drift + volatility * gaussian(rng))
+    const wick = volatility * 0.5
+    const high = Math.max(open, close) * (1 + Math.abs(gaussian(rng)) * wick)
+    const low = Math.min(open, close) * (1 - Math.abs(gaussian(rng)) * wick)
+
+    candles.push({ step, open, high, low, close })
+    price = close
   }
 
-  return "neutral"
+  return { candles, description: SCENARIO_DESCRIPTIONS[scenario] }
 }
 
 /**
- * Extract confidence level from response (0-100)
+ * Signed exposure of a decision (-1 to 1)
  */
-function extractConfidence(text: string): number {
-  const percentMatch = text.match(/(\d+)%/)
-  if (percentMatch) {
-    const conf = parseInt(percentMatch[1])
-    return Math.min(100, Math.max(0, conf))
-  }
-
-  // Heuristic: longer, more detailed responses = higher confidence
-  if (text.length > 300) return 75
-  if (text.length > 200) return 60
-  if (text.length > 100) return 45
-  return 30
+function exposure(decision: BattleDecision): number {
+  if (decision.action === "LONG") return decision.size
+  if (decision.action === "SHORT") return -decision.size
+  return 0
 }
 
 /**
- * Determine winner based on response quality and scenario fit
+ * Mark one agent's decisions to market along the path
+ * Before each candle a changed position is resized to the decided share of equity (1x, fees on traded notional)
  */
-function determineWinner(
-  scenario: BattleScenario,
-  agent1Stance: "bullish" | "neutral" | "bearish",
-  agent1Conf: number,
-  agent2Stance: "bullish" | "neutral" | "bearish",
-  agent2Conf: number
-): { winnerId: 1 | 2; reason: string; consensusLevel: number } {
-  // For crash scenarios, being bearish/cautious is smart
-  if (scenario === "crash" || scenario === "flash_crash") {
-    if (agent1Stance === "bearish" && agent2Stance !== "bearish") {
-      return {
-        winnerId: 1,
-        reason: "✅ Correctly defensive in crash scenario",
-        consensusLevel: 20,
-      }
-    }
-    if (agent2Stance === "bearish" && agent1Stance !== "bearish") {
-      return {
-        winnerId: 2,
-        reason: "✅ Correctly defensive in crash scenario",
-        consensusLevel: 20,
-      }
+export function markToMarket(config: BattleConfig, candles: BattleCandle[], decisions: BattleDecision[]): BattlePerformance {
+  let cash = config.initialCapital
+  let units = 0
+  let fees = 0
+  let trades = 0
+  let peak = config.initialCapital
+  let maxDrawdown = 0
+  const equityCurve = [config.initialCapital]
+
+  candles.forEach((candle, i) => {
+    const decision = decisions[i]
+    const previous = decisions[i - 1]
+    const equity = cash + units * candle.open
+
+    // Repeating the previous position holds it rather than rebalancing to the new equity
+    const unchanged = !decision || (previous && exposure(previous) === exposure(decision))
+    const targetUnits = unchanged ? units : (exposure(decision) * equity) / candle.open
+
+    const tradedUnits = targetUnits - units
+    if (Math.abs(tradedUnits) > 1e-12) {
+      const fee = Math.abs(tradedUnits) * candle.open * TRADING_FEE
+      cash -= tradedUnits * candle.open + fee
+      fees += fee
+      trades++
+      units = targetUnits
     }
+
+    const closeEquity = cash + units * candle.close
+    equityCurve.push(closeEquity)
+    peak = Math.max(peak, closeEquity)
+    maxDrawdown = Math.max(maxDrawdown, ((peak - closeEquity) / peak) * 100)
+  })
+
+  const finalEquity = equityCurve[equityCurve.length - 1]
+  const returnPercent = ((finalEquity - config.initialCapital) / config.initialCapital) * 100
+
+  return {
+    finalEquity,
+    pnl: finalEquity - config.initialCapital,
+    returnPercent,
+    maxDrawdown,
+    trades,
+    fees,
+    score: returnPercent - DRAWDOWN_PENALTY * maxDrawdown,
+    equityCurve,
   }
+}
 
-  // For pump scenarios, being bullish and capturing it is smart
-  if (scenario === "pump") {
-    if (agent1Stance === "bullish" && agent2Stance !== "bullish") {
-      return {
-        winnerId: 1,
-        reason: "🚀 Captured the pump momentum",
-        consensusLevel: 20,
-      }
-    }
-    if (agent2Stance === "bullish" && agent1Stance !== "bullish") {
-      return {
-        winnerId: 2,
-        reason: "🚀 Captured the pump momentum",
-        consensusLevel: 20,
-      }
-    }
+/**
+ * Parse an agent's JSON reply into a decision
+ * Returns an error string when the reply doesn't validate
+ */
+export function parseBattleDecision(text: string, step: number): BattleDecision | string {
+  const start = text.indexOf("{")
+  const end = text.lastIndexOf("}")
+  if (start === -1 || end <= start) {
+    return "Reply does not contain a JSON object"
   }
 
-  // For sideways/volatility, confidence matters more
-  if (scenario === "sideways" || scenario === "volatility") {
-    if (agent1Conf > agent2Conf + 15) {
-      return {
-        winnerId: 1,
-        reason: "📊 Superior confidence in choppy market",
-        consensusLevel: 50,
-      }
-    }
-    if (agent2Conf > agent1Conf + 15) {
-      return {
-        winnerId: 2,
-        reason: "📊 Superior confidence in choppy market",
-        consensusLevel: 50,
-      }
-    }
+  let raw: any
+  try {
+    raw = JSON.parse(text.slice(start, end + 1))
+  } catch (error) {
+    return `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
   }
 
-  // Default: higher confidence wins
-  if (agent1Conf > agent2Conf) {
-    return {
-      winnerId: 1,
-      reason: "💪 Higher conviction decision",
-      consensusLevel:
-        agent1Stance === agent2Stance
-          ? Math.min(agent1Conf, agent2Conf)
-          : Math.abs(agent1Conf - agent2Conf),
-    }
+  const action = typeof raw?.action === "string" ? raw.action.toUpperCase() : undefined
+  if (action !== "LONG" && action !== "SHORT" && action !== "FLAT") {
+    return `action must be LONG, SHORT or FLAT (got ${JSON.stringify(raw?.action)})`
+  }
+
+  const size = action === "FLAT" ? 0 : Number(raw.size)
+  if (!Number.isFinite(size) || size < 0 || size > 1) {
+    return `size must be a number between 0 and 1 (got ${JSON.stringify(raw.size)})`
   }
 
+  // Accept 0-1 or 0-100 confidence
+  let confidence = Number(raw.confidence)
+  if (!Number.isFinite(confidence) || confidence < 0 || confidence > 100) {
+    return `confidence must be a number between 0 and 100 (got ${JSON.stringify(raw.confidence)})`
+  }
+  if (confidence <= 1) confidence *= 100
+
   return {
-    winnerId: 2,
-    reason: "💪 Higher conviction decision",
-    consensusLevel:
-      agent1Stance === agent2Stance
-        ? Math.min(agent1Conf, agent2Conf)
-        : Math.abs(agent1Conf - agent2Conf),
+    step,
+    action: size === 0 ? "FLAT" : action,
+    size,
+    confidence: Math.round(confidence),
+    reason: typeof raw.reason === "string" ? raw.reason.trim().substring(0, 300) : "",
   }
 }
 
 /**
- * Simulate a 1v1 agent battle
+ * Per-step prompt: scenario, price history so far and the agent's own book
  */
-export async function simulateAgentBattle(
-  agent1: AgentData,
-  agent2: AgentData,
-  baseContext: MarketContext,
-  scenario: BattleScenario
-): Promise<BattleResult> {
-  // Generate scenario
-  const { context, description } = generateScenarioContext(baseContext, scenario)
+function buildStepPrompt(
+  agent: AgentData,
+  opponent: AgentData,
+  config: BattleConfig,
+  description: string,
+  closes: number[],
+  current: BattleDecision | undefined,
+  equity: number
+): string {
+  const step = closes.length
+  const position = current && current.action !== "FLAT"
+    ? `${current.action} ${(current.size * 100).toFixed(0)}% of equity`
+    : "FLAT"
+
+  return `You are ${agent.name} (${agent.model}) in a 1v1 trading battle against ${opponent.name}.
+
+BATTLE SCENARIO: ${description}
+
+You trade ${config.symbol} with $${config.initialCapital} and no leverage. The winner has the best return after a ${DRAWDOWN_PENALTY}x penalty on max drawdown.
+
+Step ${step} of ${config.steps}.
+${config.symbol} closes so far (oldest first): ${closes.map((c) => c.toPrecision(6)).join(", ")}
+Your position: ${position}
+Your equity: $${equity.toFixed(2)} (${(((equity - config.initialCapital) / config.initialCapital) * 100).toFixed(2)}%)
+
+Choose the position to hold through the next candle.
+Respond with ONLY a JSON object, no other text:
+{"action": "LONG" | "SHORT" | "FLAT", "size": number between 0 and 1 (share of equity), "confidence": number between 0 and 100, "reason": string}`
+}
 
-  // Create battle context for agents
-  const battlePrompt = `BATTLE SCENARIO: ${description}
+/**
+ * Deterministic mock decision: the prompt hash picks trend-following, fading or standing aside
+ */
+function mockBattleReply(closes: number[]): (hash: number) => string {
+  return (hash) => {
+    const last = closes[closes.length - 1]
+    const previous = closes[closes.length - 2] ?? last
+    const trend = last > previous ? "LONG" : last < previous ? "SHORT" : "FLAT"
+    const style = hash % 3
+    const action = style === 2 || trend === "FLAT" ? "FLAT" : style === 0 ? trend : trend === "LONG" ? "SHORT" : "LONG"
+
+    return JSON.stringify({
+      action,
+      size: action === "FLAT" ? 0 : 0.25 * (1 + (hash % 4)),
+      confidence: 50 + (hash % 40),
+      reason: action === "FLAT" ? "Standing aside" : style === 0 ? "Following the last candle" : "Fading the last candle",
+    })
+  }
+}
 
-You are in a competitive trading scenario against another AI agent. Respond CONCISELY with your strategy. Focus on what you'd do RIGHT NOW based on these market conditions. Be specific and confident.`
+/**
+ * Ask an agent's bound provider for its decision at one step
+ * Keeps the previous position (recording the error) when the call fails or the reply is invalid
+ */
+async function requestDecision(
+  agent: AgentData,
+  opponent: AgentData,
+  config: BattleConfig,
+  description: string,
+  closes: number[],
+  previous: BattleDecision | undefined,
+  equity: number
+): Promise<BattleDecision> {
+  const step = closes.length
+  const keep = (error: string): BattleDecision => ({
+    step,
+    action: previous?.action || "FLAT",
+    size: previous?.size || 0,
+    confidence: 0,
+    reason: "Kept previous position",
+    error,
+  })
+
+  try {
+    const response = await completeWithProvider(getAgentProviderId(agent.id), {
+      prompt: buildStepPrompt(agent, opponent, config, description, closes, previous, equity),
+      maxTokens: 200,
+      temperature: 0.3,
+      mockReply: mockBattleReply(closes),
+    })
+    const parsed = parseBattleDecision(response.text, step)
+    return typeof parsed === "string" ? keep(parsed) : parsed
+  } catch (error) {
+    return keep(error instanceof Error ? error.message : String(error))
+  }
+}
+
+/**
+ * Equity at a candle's open for the decisions made so far (what the agent sees before deciding)
+ */
+function equityBefore(config: BattleConfig, candles: BattleCandle[], decisions: BattleDecision[]): number {
+  if (decisions.length === 0) return config.initialCapital
+  return markToMarket(config, candles.slice(0, decisions.length), decisions).finalEquity
+}
+
+function stanceOf(decisions: BattleDecision[]): BattleStance {
+  const average = decisions.reduce((sum, d) => sum + exposure(d), 0) / Math.max(decisions.length, 1)
+  if (average > 0.1) return "bullish"
+  if (average < -0.1) return "bearish"
+  return "neutral"
+}
 
-  // Get decisions from both agents (parallel)
-  let agent1Decision = ""
-  let agent2Decision = ""
+function summarizeDecisions(decisions: BattleDecision[]): string {
+  return decisions
+    .map((d) =>
+      `Step ${d.step}: ${d.action}${d.action !== "FLAT" ? ` ${(d.size * 100).toFixed(0)}%` : ""}` +
+      (d.error ? ` (kept, ${d.error})` : ` (${d.confidence}%) - ${d.reason}`)
+    )
+    .join("\n")
+}
 
-  const [result1, result2] = await Promise.allSettled([
-    callLLM(agent1, context, "In battle scenario", battlePrompt),
-    callLLM(agent2, context, "In battle scenario", battlePrompt),
-  ])
+function formatPerformance(p: BattlePerformance): string {
+  return `${p.returnPercent >= 0 ? "+" : ""}${p.returnPercent.toFixed(2)}% with ${p.maxDrawdown.toFixed(2)}% max drawdown`
+}
 
-  agent1Decision =
-    result1.status === "fulfilled"
-      ? result1.value
-      : `Unable to generate decision: ${result1.reason instanceof Error ? result1.reason.message : "Unknown error"}`
+/**
+ * Higher score wins; equal scores go to the smaller drawdown, then to agent 1
+ */
+function determineWinner(p1: BattlePerformance, p2: BattlePerformance): { winnerId: 1 | 2; reason: string } {
+  const scoreDiff = p1.score - p2.score
+  if (Math.abs(scoreDiff) > 1e-9) {
+    const [winner, loser] = scoreDiff > 0 ? [p1, p2] : [p2, p1]
+    const reason = winner.returnPercent >= loser.returnPercent
+      ? `📈 ${formatPerformance(winner)} vs ${formatPerformance(loser)}`
+      : `🛡️ Better risk-adjusted: ${formatPerformance(winner)} vs ${formatPerformance(loser)}`
+    return { winnerId: scoreDiff > 0 ? 1 : 2, reason }
+  }
 
-  agent2Decision =
-    result2.status === "fulfilled"
-      ? result2.value
-      : `Unable to generate decision: ${result2.reason instanceof Error ? result2.reason.message : "Unknown error"}`
+  if (p2.maxDrawdown < p1.maxDrawdown) {
+    return { winnerId: 2, reason: `🛡️ Same score, smaller drawdown (${formatPerformance(p2)})` }
+  }
+  return { winnerId: 1, reason: `🤝 Dead heat at ${formatPerformance(p1)}` }
+}
 
-  // Extract insights
-  const agent1Stance = extractStance(agent1Decision)
-  const agent1Conf = extractConfidence(agent1Decision)
-  const agent2Stance = extractStance(agent2Decision)
-  const agent2Conf = extractConfidence(agent2Decision)
+/**
+ * Run a battle from its config
+ * With recorded decisions no LLM is called and the result is reproduced exactly
+ */
+export async function runBattle(
+  agent1: AgentData,
+  agent2: AgentData,
+  config: BattleConfig,
+  recorded?: { agent1: BattleDecision[]; agent2: BattleDecision[] }
+): Promise<BattleResult> {
+  const { candles, description } = generateScenarioPath(config)
+  const closes = [config.initialPrice, ...candles.map((c) => c.close)]
+
+  let agent1Decisions: BattleDecision[]
+  let agent2Decisions: BattleDecision[]
+
+  if (recorded) {
+    agent1Decisions = recorded.agent1.slice(0, config.steps)
+    agent2Decisions = recorded.agent2.slice(0, config.steps)
+  } else {
+    agent1Decisions = []
+    agent2Decisions = []
+
+    // Both agents decide in parallel at each step, seeing closes up to the current candle
+    for (let step = 1; step <= config.steps; step++) {
+      const seen = closes.slice(0, step)
+      const [d1, d2] = await Promise.all([
+        requestDecision(agent1, agent2, config, description, seen, agent1Decisions[step - 2],
+          equityBefore(config, candles, agent1Decisions)),
+        requestDecision(agent2, agent1, config, description, seen, agent2Decisions[step - 2],
+          equityBefore(config, candles, agent2Decisions)),
+      ])
+      agent1Decisions.push(d1)
+      agent2Decisions.push(d2)
+    }
+  }
 
-  // Determine winner
-  const { winnerId, reason, consensusLevel } = determineWinner(
-    scenario,
-    agent1Stance,
-    agent1Conf,
-    agent2Stance,
-    agent2Conf
-  )
+  const agent1Performance = markToMarket(config, candles, agent1Decisions)
+  const agent2Performance = markToMarket(config, candles, agent2Decisions)
+  const { winnerId, reason } = determineWinner(agent1Performance, agent2Performance)
 
-  const winnerName = winnerId === 1 ? agent1.name : agent2.name
+  const aligned = agent1Decisions.filter((d, i) => Math.sign(exposure(d)) === Math.sign(exposure(agent2Decisions[i] || d))).length
+  const averageConfidence = (decisions: BattleDecision[]) =>
+    Math.round(decisions.reduce((sum, d) => sum + d.confidence, 0) / Math.max(decisions.length, 1))
+  const lastReason = (decisions: BattleDecision[]) =>
+    [...decisions].reverse().find((d) => !d.error && d.reason)?.reason || "No valid decisions"
 
   return {
     agent1Id: agent1.id,
     agent1Name: agent1.name,
     agent2Id: agent2.id,
     agent2Name: agent2.name,
-    scenario,
+    scenario: config.scenario,
     scenarioDescription: description,
 
-    agent1Decision,
-    agent1Reasoning: agent1Decision.substring(0, 150) + "...",
-    agent1Confidence: agent1Conf,
-    agent1StanceDirection: agent1Stance,
+    seed: config.seed,
+    config,
+    pricePath: candles,
 
-    agent2Decision,
-    agent2Reasoning: agent2Decision.substring(0, 150) + "...",
-    agent2Confidence: agent2Conf,
-    agent2StanceDirection: agent2Stance,
+    agent1Decision: summarizeDecisions(agent1Decisions),
+    agent1Reasoning: lastReason(agent1Decisions),
+    agent1Confidence: averageConfidence(agent1Decisions),
+    agent1StanceDirection: stanceOf(agent1Decisions),
+    agent1Decisions,
+    agent1Performance,
+
+    agent2Decision: summarizeDecisions(agent2Decisions),
+    agent2Reasoning: lastReason(agent2Decisions),
+    agent2Confidence: averageConfidence(agent2Decisions),
+    agent2StanceDirection: stanceOf(agent2Decisions),
+    agent2Decisions,
+    agent2Performance,
 
     winnerId: winnerId === 1 ? agent1.id : agent2.id,
-    winnerName,
+    winnerName: winnerId === 1 ? agent1.name : agent2.name,
     winReason: reason,
-    consensusLevel,
+    consensusLevel: Math.round((aligned / Math.max(agent1Decisions.length, 1)) * 100),
+    replayed: recorded ? true : undefined,
     timestamp: new Date().toISOString(),
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Simulate a 1v1 agent battle starting from the current market price
+ */
+export async function simulateAgentBattle(
+  agent1: AgentData,
+  agent2: AgentData,
+  baseContext: MarketContext,
+  scenario: BattleScenario,
+  options: { seed?: number; steps?: number; symbol?: BattleSymbol } = {}
+): Promise<BattleResult> {
+  const symbol = options.symbol || "BTC"
+  const initialPrice = Number(baseContext[symbol])
+  if (!Number.isFinite(initialPrice) || initialPrice <= 0) {
+    throw new Error(`No market price for ${symbol}`)
+  }
+
+  return runBattle(agent1, agent2, {
+    seed: options.seed ?? randomBattleSeed(),
+    scenario,
+    symbol,
+    steps: Math.min(Math.max(Math.floor(options.steps || DEFAULT_BATTLE_STEPS), 2), MAX_BATTLE_STEPS),
+    initialPrice,
+    initialCapital: BATTLE_CAPITAL,
+  })
+}
@@ -7,35 +7,71 @@ import { AgentParameters } from "@/lib/types/learning"
 import { getCache, setCache, CACHE_KEYS } from "@/lib/redis-client"
 import { DEFAULT_PARAMETERS } from "@/lib/learning-engine"
 
+// "stored": learned or set by hand; "default": nothing stored, DEFAULT_PARAMETERS shown instead
+export type ParameterSource = "stored" | "default"
+
 /**
  * Get current parameters for an agent (learned or default)
  */
 export async function getAgentParameters(agentId: string): Promise<AgentParameters> {
-  // Try cache first
+  return (await getAgentParametersWithSource(agentId)).parameters
+}
+
+/**
+ * Current parameters and where they came from
+ * Defaults are never cached, so they can't later pass for a stored set
+ * (and a rollback never restores them)
+ */
+export async function getAgentParametersWithSource(
+  agentId: string
+): Promise<{ parameters: AgentParameters; source: ParameterSource }> {
   const cached = await getCache<AgentParameters>(CACHE_KEYS.agentParameters(agentId))
   if (cached) {
-    return cached
+    return { parameters: cached, source: "stored" }
   }
 
-  // Fall back to defaults
-  const defaults = DEFAULT_PARAMETERS[agentId] || DEFAULT_PARAMETERS.claude_arbitrage
-  
-  // Cache the defaults
-  await setCache(CACHE_KEYS.agentParameters(agentId), defaults, { ttl: 86400 })
-  
-  return defaults
+  return {
+    parameters: DEFAULT_PARAMETERS[agentId] || DEFAULT_PARAMETERS.claude_arbitrage,
+    source: "default",
+  }
 }
 
 /**
  * Update agent parameters (after learning)
+ * The replaced set is kept so an admin can roll back
  */
 export async function updateAgentParameters(
   agentId: string,
   parameters: AgentParameters
 ): Promise<void> {
+  const current = await getCache<AgentParameters>(CACHE_KEYS.agentParameters(agentId))
+  if (current) {
+    await setCache(CACHE_KEYS.previousAgentParameters(agentId), current, { ttl: 7 * 86400 })
+  }
+
   await setCache(CACHE_KEYS.agentParameters(agentId), parameters, { ttl: 86400 })
 }
 
+/**
+ * Restore the parameter set that was active before the last update
+ * The current set becomes the new "previous", so a second rollback undoes the first
+ * Returns null if there is nothing to roll back to
+ */
+export async function rollbackAgentParameters(agentId: string): Promise<AgentParameters | null> {
+  const previous = await getCache<AgentParameters>(CACHE_KEYS.previousAgentParameters(agentId))
+  if (!previous) {
+    return null
+  }
+
+  const restored: AgentParameters = {
+    ...previous,
+    last_updated: new Date().toISOString(),
+  }
+
+  await updateAgentParameters(agentId, restored)
+  return restored
+}
+
 /**
  * Get parameter values as a human-readable string
  */
@@ -18,6 +18,9 @@ const ASTER_FEE_RATES = {
 
 const COMMISSION_ASSET = "USDT"
 
+const FUNDING_HISTORY_RETENTION_MS = 90 * 24 * 60 * 60 * 1000 // Income history the exchange keeps
+const MAX_FUNDING_PAGES = 20
+
 interface AsterConfig {
   agentId: string // Agent ID string (e.g., "claude_arbitrage")
   signer: string // Signer address for authentication (agent wallet)
@@ -98,6 +101,28 @@ interface AsterTrade {
   maker: boolean
 }
 
+export interface AsterPremiumIndex {
+  symbol: string
+  markPrice: number
+  indexPrice: number
+  lastFundingRate: number // Fraction per funding interval (0.0001 = 0.01%)
+  nextFundingTime: number
+  time: number
+}
+
+export interface AsterFundingRate {
+  symbol: string
+  fundingRate: number
+  fundingTime: number
+}
+
+export interface AsterFundingPayment {
+  symbol: string
+  income: number // Positive when received, negative when paid
+  asset: string
+  time: number
+}
+
 interface AsterOrder {
   symbol: string
   orderId: string
@@ -616,6 +641,99 @@ export class AsterClient {
     }
   }
 
+  /**
+   * Get mark price, index price and funding for a symbol
+   */
+  async getPremiumIndex(symbol: string): Promise<AsterPremiumIndex> {
+    try {
+      const result = await this.request<any>("GET", "/fapi/v1/premiumIndex", { symbol })
+      return {
+        symbol: result.symbol,
+        markPrice: parseFloat(result.markPrice) || 0,
+        indexPrice: parseFloat(result.indexPrice) || 0,
+        lastFundingRate: parseFloat(result.lastFundingRate) || 0,
+        nextFundingTime: Number(result.nextFundingTime) || 0,
+        time: Number(result.time) || Date.now(),
+      }
+    } catch (error) {
+      console.error("[AsterClient] Error fetching premium index:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Get funding rate history for a symbol (most recent last)
+   */
+  async getFundingRates(symbol: string, limit: number = 100): Promise<AsterFundingRate[]> {
+    try {
+      const rates = await this.request<any[]>("GET", "/fapi/v1/fundingRate", { symbol, limit })
+      return (rates || []).map((rate) => ({
+        symbol: rate.symbol,
+        fundingRate: parseFloat(rate.fundingRate) || 0,
+        fundingTime: Number(rate.fundingTime) || 0,
+      }))
+    } catch (error) {
+      console.error("[AsterClient] Error fetching funding rates:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Get funding fees paid and received by this account (income history) since startTime
+   * The income endpoint returns at most `limit` rows and only the last 7 days without a
+   * startTime, so pages are walked forward from startTime (default: the ~3 months the
+   * exchange keeps) until a short page
+   */
+  async getFundingPayments(
+    symbol?: string,
+    startTime: number = Date.now() - FUNDING_HISTORY_RETENTION_MS,
+    limit: number = 1000
+  ): Promise<{ payments: AsterFundingPayment[]; total: number }> {
+    try {
+      const payments: AsterFundingPayment[] = []
+      const seen = new Set<string>()
+      let from = startTime
+
+      for (let page = 0; page < MAX_FUNDING_PAGES; page++) {
+        const params: Record<string, any> = { incomeType: "FUNDING_FEE", startTime: from, limit }
+        if (symbol) {
+          params.symbol = symbol
+        }
+
+        const income = (await this.request<any[]>("GET", "/fapi/v1/income", params)) || []
+        for (const item of income) {
+          // Pages restart at the last row's time, so rows sharing that millisecond come back twice
+          const key = String(item.tranId ?? `${item.time}:${item.symbol}:${item.income}`)
+          if (seen.has(key)) continue
+          seen.add(key)
+
+          payments.push({
+            symbol: item.symbol,
+            income: parseFloat(item.income) || 0,
+            asset: item.asset,
+            time: Number(item.time) || 0,
+          })
+        }
+
+        const lastTime = Number(income[income.length - 1]?.time) || 0
+        if (income.length < limit || lastTime <= from) break
+        from = lastTime
+
+        if (page === MAX_FUNDING_PAGES - 1) {
+          console.warn(`[AsterClient] Funding history truncated after ${MAX_FUNDING_PAGES} pages`)
+        }
+      }
+
+      return {
+        payments,
+        total: payments.reduce((sum, payment) => sum + payment.income, 0),
+      }
+    } catch (error) {
+      console.error("[AsterClient] Error fetching funding payments:", error)
+      throw error
+    }
+  }
+
   /**
    * Get position risk information (alternative to account)
    */
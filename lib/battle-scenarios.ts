@@ -0,0 +1,119 @@
+/**
+ * Custom Battle Scenarios
+ * Scenarios built from historical market episodes: an admin picks a symbol, interval and time
+ * window, the candles are loaded once through /api/market/history and saved under a name
+ * (e.g. "LUNA collapse"). Battles on a custom scenario trade the recorded candles
+ */
+
+import {
+  BATTLE_CAPITAL,
+  MAX_BATTLE_STEPS,
+  BattleCandle,
+  BattleConfig,
+  BattleSymbol,
+} from "./agent-battle"
+import { BattleScenarioRecord } from "./supabase-client"
+
+export const SCENARIO_INTERVALS: Record<string, number> = {
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+}
+
+/**
+ * URL-safe id for a scenario name ("ETF approval day" -> "etf-approval-day")
+ */
+export function slugifyScenarioName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, 50)
+}
+
+/**
+ * Candles the window will produce, or an error when it doesn't fit a battle (2 to MAX_BATTLE_STEPS)
+ */
+export function countWindowCandles(interval: string, startMs: number, endMs: number): number | string {
+  const intervalMs = SCENARIO_INTERVALS[interval]
+  if (!intervalMs) {
+    return `interval must be one of: ${Object.keys(SCENARIO_INTERVALS).join(", ")}`
+  }
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || endMs <= startMs) {
+    return "start and end must be valid dates with end after start"
+  }
+  if (endMs > Date.now()) {
+    return "The window must be in the past"
+  }
+
+  const count = Math.floor((endMs - startMs) / intervalMs)
+  if (count < 2 || count > MAX_BATTLE_STEPS) {
+    return `The window covers ${count} ${interval} candles; a battle needs 2 to ${MAX_BATTLE_STEPS}. Pick a ${count < 2 ? "smaller" : "larger"} interval or adjust the window`
+  }
+  return count
+}
+
+/**
+ * Load the window's candles through /api/market/history (Binance klines)
+ */
+export async function loadHistoricalCandles(
+  symbol: BattleSymbol,
+  interval: string,
+  startMs: number,
+  count: number
+): Promise<BattleCandle[]> {
+  const params = new URLSearchParams({
+    symbol,
+    interval,
+    start: String(startMs),
+    end: String(startMs + count * SCENARIO_INTERVALS[interval] - 1),
+    limit: String(count),
+  })
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000"}/api/market/history?${params}`,
+    { cache: "no-store" }
+  )
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data?.error || `Market history request failed: ${response.status}`)
+  }
+
+  const rows: Array<{ open: number; high: number; low: number; close: number }> = data.data || []
+  if (rows.length < 2) {
+    throw new Error(`No ${symbol} ${interval} candles for this window`)
+  }
+
+  return rows.map((row, i) => ({
+    step: i + 1,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+  }))
+}
+
+/**
+ * Battle config trading a stored scenario's candles from their first open
+ */
+export function historicalBattleConfig(scenario: BattleScenarioRecord, seed: number): BattleConfig {
+  const candles = scenario.candles as BattleCandle[]
+  return {
+    seed,
+    scenario: scenario.slug,
+    symbol: scenario.symbol as BattleSymbol,
+    steps: candles.length,
+    initialPrice: candles[0].open,
+    initialCapital: BATTLE_CAPITAL,
+    historical: {
+      name: scenario.name,
+      interval: scenario.interval,
+      startTime: scenario.start_time,
+      endTime: scenario.end_time,
+      candles,
+    },
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_RATING, OVERALL_RATING, battleScore, expectedScore, rateBattle } from "./battle-tournament"
+import type { BattleResult } from "./agent-battle"
+import type { AgentRatingRecord } from "./supabase-client"
+
+function result(score1: number, score2: number): BattleResult {
+  return {
+    agent1Id: "claude_arbitrage",
+    agent2Id: "gemini_grid",
+    scenario: "crash",
+    winnerId: score1 >= score2 ? "claude_arbitrage" : "gemini_grid",
+    agent1Performance: { score: score1 },
+    agent2Performance: { score: score2 },
+  } as BattleResult
+}
+
+function rating(agent_id: string, scenario: string, value: number): AgentRatingRecord {
+  return { agent_id, scenario, rating: value, matches: 10, wins: 5, losses: 5, draws: 0 }
+}
+
+describe("Elo ratings", () => {
+  it("expects even odds between equal ratings and ~0.76 for a 200 point edge", () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5)
+    expect(expectedScore(1700, 1500)).toBeCloseTo(0.76, 2)
+    expect(expectedScore(1700, 1500) + expectedScore(1500, 1700)).toBeCloseTo(1)
+  })
+
+  it("scores a win, a loss and a dead heat from agent 1's side", () => {
+    expect(battleScore(result(5, 2))).toBe(1)
+    expect(battleScore(result(-3, 1))).toBe(0)
+    expect(battleScore(result(1.5, 1.5))).toBe(0.5)
+  })
+
+  it("starts unrated agents at the default and moves them 16 points on a first win", () => {
+    const updated = rateBattle([], result(5, 2))
+
+    expect(updated.map((r) => [r.agent_id, r.scenario, r.rating, r.wins, r.losses])).toEqual([
+      ["claude_arbitrage", "crash", DEFAULT_RATING + 16, 1, 0],
+      ["gemini_grid", "crash", DEFAULT_RATING - 16, 0, 1],
+      ["claude_arbitrage", OVERALL_RATING, DEFAULT_RATING + 16, 1, 0],
+      ["gemini_grid", OVERALL_RATING, DEFAULT_RATING - 16, 0, 1],
+    ])
+  })
+
+  it("conserves rating points and rewards upsets more than expected wins", () => {
+    const ratings = [rating("claude_arbitrage", "crash", 1400), rating("gemini_grid", "crash", 1600)]
+
+    const [upset, loser] = rateBattle(ratings, result(5, 2))
+    expect(upset.rating - 1400).toBeGreaterThan(16)
+    expect(upset.rating + loser.rating).toBeCloseTo(3000)
+    expect(upset.matches).toBe(11)
+
+    const [favourite] = rateBattle(ratings, result(2, 5)).slice(1)
+    expect(favourite.rating - 1600).toBeLessThan(16)
+  })
+
+  it("records draws without changing equal ratings", () => {
+    const [r1, r2] = rateBattle([], result(1, 1))
+
+    expect([r1.rating, r2.rating]).toEqual([DEFAULT_RATING, DEFAULT_RATING])
+    expect([r1.draws, r2.draws]).toEqual([1, 1])
+  })
+})
@@ -0,0 +1,296 @@
+/**
+ * Battle Tournaments & Elo Ratings
+ * Round-robin tournaments across agents and battle scenarios, run in batches of bouts,
+ * with an Elo rating per agent for each scenario and overall.
+ * Tournament bouts are rated (arena battles are exhibitions with caller-chosen seeds),
+ * so ratings build up over hundreds of bouts
+ */
+
+import { AgentData } from "./chat-engine"
+import {
+  runBattle,
+  createRng,
+  BATTLE_CAPITAL,
+  BattleConfig,
+  BattleResult,
+  BattleScenario,
+  BattleSymbol,
+} from "./agent-battle"
+import {
+  getAgentRatings,
+  upsertAgentRatings,
+  saveAgentBattle,
+  hasAgentBattle,
+  claimTournamentMatch,
+  updateBattleTournament,
+  AgentRatingRecord,
+  BattleTournamentRecord,
+} from "./supabase-client"
+
+export const DEFAULT_RATING = 1500
+export const OVERALL_RATING = "overall"
+const K_FACTOR = 32
+const MATCH_CLAIM_MS = 2 * 60 * 1000 // Outlasts a batch request, so a crashed run's bout frees up soon after
+
+export interface TournamentConfig {
+  agentIds: string[]
+  scenarios: BattleScenario[]
+  rounds: number // Every pair meets once per scenario per round, sides alternating
+  seed: number
+  steps: number
+  symbol: BattleSymbol
+  initialPrice: number // Price snapshot at creation so every bout starts from the same market
+}
+
+export interface TournamentMatch {
+  index: number
+  round: number
+  agent1Id: string
+  agent2Id: string
+  scenario: BattleScenario
+  seed: number
+  battleId?: number
+  winnerId?: string
+  draw?: boolean
+  rated?: boolean // False when the same seed and config had been played before
+  error?: string
+}
+
+export interface TournamentStanding {
+  agentId: string
+  played: number
+  wins: number
+  losses: number
+  draws: number
+  points: number // 1 per win, 0.5 per draw
+  byScenario: Record<string, { played: number; points: number }>
+}
+
+/**
+ * Full round-robin schedule with a seed per bout derived from the tournament seed
+ */
+export function buildRoundRobinSchedule(config: Omit<TournamentConfig, "initialPrice">): TournamentMatch[] {
+  const rng = createRng(config.seed)
+  const matches: TournamentMatch[] = []
+
+  for (let round = 1; round <= config.rounds; round++) {
+    for (let i = 0; i < config.agentIds.length; i++) {
+      for (let j = i + 1; j < config.agentIds.length; j++) {
+        // Alternate sides each round so neither agent always gets the agent 1 tie-break
+        const [agent1Id, agent2Id] = round % 2 === 1
+          ? [config.agentIds[i], config.agentIds[j]]
+          : [config.agentIds[j], config.agentIds[i]]
+
+        for (const scenario of config.scenarios) {
+          matches.push({
+            index: matches.length,
+            round,
+            agent1Id,
+            agent2Id,
+            scenario,
+            seed: Math.floor(rng() * 4294967296),
+          })
+        }
+      }
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Agent 1's Elo score for a battle: 1 win, 0 loss, 0.5 for a dead heat
+ */
+export function battleScore(result: BattleResult): number {
+  if (Math.abs(result.agent1Performance.score - result.agent2Performance.score) <= 1e-9) {
+    return 0.5
+  }
+  return result.winnerId === result.agent1Id ? 1 : 0
+}
+
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400))
+}
+
+function applyResult(rating: AgentRatingRecord, opponent: AgentRatingRecord, score: number): AgentRatingRecord {
+  return {
+    ...rating,
+    rating: Math.round((rating.rating + K_FACTOR * (score - expectedScore(rating.rating, opponent.rating))) * 100) / 100,
+    matches: rating.matches + 1,
+    wins: rating.wins + (score === 1 ? 1 : 0),
+    losses: rating.losses + (score === 0 ? 1 : 0),
+    draws: rating.draws + (score === 0.5 ? 1 : 0),
+  }
+}
+
+function findRating(ratings: AgentRatingRecord[], agentId: string, scenario: string): AgentRatingRecord {
+  return ratings.find((r) => r.agent_id === agentId && r.scenario === scenario) || {
+    agent_id: agentId,
+    scenario,
+    rating: DEFAULT_RATING,
+    matches: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+  }
+}
+
+/**
+ * Both agents' scenario and overall ratings after a finished battle
+ * Agents without a rating yet start from DEFAULT_RATING
+ */
+export function rateBattle(ratings: AgentRatingRecord[], result: BattleResult): AgentRatingRecord[] {
+  const score = battleScore(result)
+  const updated: AgentRatingRecord[] = []
+
+  for (const scenario of [result.scenario, OVERALL_RATING]) {
+    const r1 = findRating(ratings, result.agent1Id, scenario)
+    const r2 = findRating(ratings, result.agent2Id, scenario)
+    updated.push(applyResult(r1, r2, score), applyResult(r2, r1, 1 - score))
+  }
+
+  return updated
+}
+
+/**
+ * Update both agents' scenario and overall Elo ratings for a finished battle
+ */
+export async function recordRatedBattle(result: BattleResult): Promise<AgentRatingRecord[]> {
+  const ratings = await getAgentRatings([result.agent1Id, result.agent2Id])
+  const updated = rateBattle(ratings, result)
+
+  await upsertAgentRatings(updated)
+  return updated
+}
+
+/**
+ * Standings from the completed bouts of a schedule
+ */
+export function computeStandings(config: TournamentConfig, matches: TournamentMatch[]): TournamentStanding[] {
+  const standings = new Map<string, TournamentStanding>(
+    config.agentIds.map((agentId) => [agentId, { agentId, played: 0, wins: 0, losses: 0, draws: 0, points: 0, byScenario: {} }])
+  )
+
+  for (const match of matches) {
+    if (match.battleId === undefined) continue
+
+    for (const agentId of [match.agent1Id, match.agent2Id]) {
+      const standing = standings.get(agentId)
+      if (!standing) continue
+
+      const points = match.draw ? 0.5 : match.winnerId === agentId ? 1 : 0
+      standing.played++
+      standing.points += points
+      if (match.draw) standing.draws++
+      else if (points === 1) standing.wins++
+      else standing.losses++
+
+      const scenario = standing.byScenario[match.scenario] || { played: 0, points: 0 }
+      scenario.played++
+      scenario.points += points
+      standing.byScenario[match.scenario] = scenario
+    }
+  }
+
+  return Array.from(standings.values()).sort((a, b) => b.points - a.points || a.played - b.played)
+}
+
+/**
+ * Run the next pending bouts of a tournament, storing and rating each one
+ * Each bout is claimed before it is played and recorded only while the tournament is still
+ * at that bout, so overlapping runs never play, store or rate the same bout twice.
+ * Progress is saved after every bout so an interrupted batch resumes where it stopped
+ */
+export async function runTournamentBatch(
+  tournament: BattleTournamentRecord,
+  agents: Record<string, AgentData>,
+  maxMatches: number
+): Promise<{ played: TournamentMatch[]; tournament: BattleTournamentRecord }> {
+  const config = tournament.config as TournamentConfig
+  const matches = tournament.matches as TournamentMatch[]
+  const played: TournamentMatch[] = []
+  let nextMatch = tournament.next_match
+
+  while (nextMatch < matches.length && played.length < maxMatches) {
+    if (!(await claimTournamentMatch(tournament.id!, nextMatch, MATCH_CLAIM_MS))) {
+      console.warn(`[Tournament] #${tournament.id} bout ${nextMatch + 1} is claimed by another run, stopping`)
+      break
+    }
+
+    const match = matches[nextMatch]
+    const battleConfig: BattleConfig = {
+      seed: match.seed,
+      scenario: match.scenario,
+      symbol: config.symbol,
+      steps: config.steps,
+      initialPrice: config.initialPrice,
+      initialCapital: BATTLE_CAPITAL,
+    }
+
+    let result: BattleResult
+    try {
+      result = await runBattle(agents[match.agent1Id], agents[match.agent2Id], battleConfig)
+      const battle = {
+        agent1_id: result.agent1Id,
+        agent2_id: result.agent2Id,
+        scenario: result.scenario,
+        seed: result.seed,
+        config: result.config,
+      }
+      // A seed and config played before (e.g. a tournament re-created with the same seed) is stored
+      // but not rated again; neither is a bout whose history can't be checked
+      const playedBefore = await hasAgentBattle(battle)
+      const battleId = await saveAgentBattle({
+        ...battle,
+        decisions: { agent1: result.agent1Decisions, agent2: result.agent2Decisions },
+        result,
+        winner_id: result.winnerId,
+        tournament_id: tournament.id,
+      })
+      if (battleId === null) {
+        throw new Error("Failed to store battle")
+      }
+
+      matches[nextMatch] = {
+        ...match,
+        battleId,
+        winnerId: result.winnerId,
+        draw: battleScore(result) === 0.5,
+        rated: playedBefore === false,
+        error: undefined,
+      }
+    } catch (error) {
+      // Stop the batch and release the claim; the bout is retried on the next run
+      matches[nextMatch] = { ...match, error: error instanceof Error ? error.message : String(error) }
+      console.error(`[Tournament] #${tournament.id} bout ${nextMatch + 1} failed:`, error)
+      await updateBattleTournament(tournament.id!, { matches, claimed_until: null }, nextMatch)
+      break
+    }
+
+    const completed = nextMatch + 1 >= matches.length
+    const updates = {
+      matches,
+      next_match: nextMatch + 1,
+      status: completed ? "completed" as const : "running" as const,
+      completed_at: completed ? new Date().toISOString() : null,
+      claimed_until: null,
+    }
+    if (!(await updateBattleTournament(tournament.id!, updates, nextMatch))) {
+      // The claim lapsed and another run moved on; its record of the bout stands
+      console.error(`[Tournament] #${tournament.id} bout ${nextMatch + 1} could not be recorded, stopping`)
+      break
+    }
+
+    const bout = matches[nextMatch]
+    if (bout.rated) {
+      await recordRatedBattle(result)
+    }
+    console.log(`[Tournament] #${tournament.id} bout ${nextMatch + 1}/${matches.length}: ${result.winnerName} wins ${match.scenario}${bout.rated ? "" : " (unrated)"}`)
+
+    played.push(bout)
+    nextMatch++
+    tournament = { ...tournament, ...updates }
+  }
+
+  return { played, tournament }
+}
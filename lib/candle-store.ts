@@ -0,0 +1,310 @@
+/**
+ * Candle Store
+ * Persistent OHLCV history in Supabase (market_candles), filled from Binance klines.
+ * Each symbol/interval series is backfilled over a lookback window, gaps are detected
+ * from the stored open times and repaired, and arbitrary ranges are served page by page.
+ * Charts, backtests, risk metrics and battle scenarios read the same candles
+ */
+
+import { TRADING_SYMBOLS } from "./constants/agents"
+import {
+  upsertMarketCandles,
+  getMarketCandles,
+  getMarketCandleTimes,
+  MarketCandleRecord,
+} from "./supabase-client"
+
+export const CANDLE_INTERVALS: Record<string, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+}
+
+export const VALID_INTERVALS = Object.keys(CANDLE_INTERVALS)
+
+// Lookback kept per interval (~3k-4k candles per series, 1m kept short)
+export const DEFAULT_BACKFILL_DAYS: Record<string, number> = {
+  "1m": 3,
+  "5m": 14,
+  "15m": 30,
+  "1h": 180,
+  "4h": 730,
+  "1d": 1825,
+}
+
+const BINANCE_KLINES_URL = "https://api.binance.com/api/v3/klines"
+const KLINES_PER_REQUEST = 1000
+const MAX_PAGE_SIZE = 1000
+const REQUEST_TIMEOUT_MS = 10000
+
+/**
+ * Candle in the CandleData shape used by charts and the backtester
+ */
+export interface Candle {
+  time: number // Open time, epoch ms
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface CandleGap {
+  start: number // Open time of the first missing candle
+  end: number // Open time of the last missing candle
+  missing: number
+}
+
+export interface CandleRepairReport {
+  symbol: string
+  interval: string
+  start: number
+  end: number
+  stored: number // Candles present before the repair
+  gaps: number
+  filled: number // Candles written from Binance
+  remaining: CandleGap[] // Still missing (not listed yet, exchange downtime)
+}
+
+export interface CandleSyncReport extends Partial<CandleRepairReport> {
+  symbol: string
+  interval: string
+  error?: string
+  skipped?: boolean // Deadline reached before this series
+}
+
+/**
+ * Binance pair for a symbol ("DOGE" -> "DOGEUSDT", "ETHUSDT" unchanged)
+ */
+export function toBinanceSymbol(symbol: string): string {
+  const upper = symbol.toUpperCase()
+  return upper.endsWith("USDT") ? upper : `${upper}USDT`
+}
+
+function intervalMs(interval: string): number {
+  const ms = CANDLE_INTERVALS[interval]
+  if (!ms) {
+    throw new Error(`Invalid interval: ${interval}. Valid intervals: ${VALID_INTERVALS.join(", ")}`)
+  }
+  return ms
+}
+
+/**
+ * Open time of the most recent closed candle (the forming candle is never stored)
+ */
+export function lastClosedOpenTime(interval: string, now: number = Date.now()): number {
+  const ms = intervalMs(interval)
+  return Math.floor(now / ms) * ms - ms
+}
+
+/**
+ * First candle open time at or after `time`
+ */
+export function alignOpenTime(time: number, interval: string): number {
+  const ms = intervalMs(interval)
+  return Math.ceil(time / ms) * ms
+}
+
+/**
+ * Missing open times between start and end, merged into ranges
+ * `times` must be sorted ascending
+ */
+export function findCandleGaps(times: number[], interval: string, start: number, end: number): CandleGap[] {
+  const ms = intervalMs(interval)
+  const gaps: CandleGap[] = []
+  let expected = alignOpenTime(start, interval)
+
+  const addGap = (gapStart: number, gapEnd: number) => {
+    if (gapEnd >= gapStart) {
+      gaps.push({ start: gapStart, end: gapEnd, missing: (gapEnd - gapStart) / ms + 1 })
+    }
+  }
+
+  for (const time of times) {
+    if (time < expected) continue // Duplicate or unaligned row
+    addGap(expected, time - ms)
+    expected = time + ms
+  }
+  addGap(expected, Math.floor(end / ms) * ms)
+
+  return gaps
+}
+
+/**
+ * One page (max 1000) of closed klines from Binance, oldest first
+ */
+export async function fetchBinanceKlines(
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number
+): Promise<MarketCandleRecord[]> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+
+  try {
+    const url = `${BINANCE_KLINES_URL}?symbol=${symbol}&interval=${interval}&startTime=${startTime}&endTime=${endTime}&limit=${KLINES_PER_REQUEST}`
+    const response = await fetch(url, { signal: controller.signal })
+    if (!response.ok) {
+      throw new Error(`Binance API error: ${response.status}`)
+    }
+
+    const klines: any[] = await response.json()
+    const lastClosed = lastClosedOpenTime(interval)
+
+    return klines
+      .filter((k) => k[0] <= lastClosed)
+      .map((k) => ({
+        symbol,
+        interval,
+        open_time: k[0],
+        open: parseFloat(k[1]),
+        high: parseFloat(k[2]),
+        low: parseFloat(k[3]),
+        close: parseFloat(k[4]),
+        volume: parseFloat(k[5]),
+        quote_volume: parseFloat(k[7]),
+        trades: k[8],
+      }))
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Download and store every closed candle between start and end (open times, inclusive)
+ * Returns the number of candles written
+ */
+export async function fillCandleRange(symbol: string, interval: string, start: number, end: number): Promise<number> {
+  const ms = intervalMs(interval)
+  const last = Math.min(end, lastClosedOpenTime(interval))
+  let cursor = alignOpenTime(start, interval)
+  let written = 0
+
+  while (cursor <= last) {
+    const pageEnd = Math.min(last, cursor + (KLINES_PER_REQUEST - 1) * ms)
+    const klines = await fetchBinanceKlines(symbol, interval, cursor, pageEnd)
+    written += await upsertMarketCandles(klines)
+    cursor = pageEnd + ms
+  }
+
+  return written
+}
+
+/**
+ * Detect gaps in a stored range and fill them from Binance
+ * On an empty store this is the backfill
+ */
+export async function repairCandleGaps(
+  symbol: string,
+  interval: string,
+  start: number,
+  end: number
+): Promise<CandleRepairReport> {
+  const last = Math.min(end, lastClosedOpenTime(interval))
+
+  const times = await getMarketCandleTimes(symbol, interval, start, last)
+  if (times === null) {
+    throw new Error("Candle store unavailable (configure Supabase and run the market_candles migration)")
+  }
+
+  const gaps = findCandleGaps(times, interval, start, last)
+  let filled = 0
+  for (const gap of gaps) {
+    filled += await fillCandleRange(symbol, interval, gap.start, gap.end)
+  }
+
+  // Whatever Binance couldn't supply stays missing
+  let remaining: CandleGap[] = []
+  if (gaps.length > 0) {
+    const after = await getMarketCandleTimes(symbol, interval, start, last)
+    remaining = after ? findCandleGaps(after, interval, start, last) : gaps
+  }
+
+  if (gaps.length > 0) {
+    console.log(`[Candles] ${symbol} ${interval}: ${gaps.length} gaps, ${filled} candles filled, ${remaining.length} gaps remaining`)
+  }
+
+  return { symbol, interval, start, end: last, stored: times.length, gaps: gaps.length, filled, remaining }
+}
+
+/**
+ * Backfill and repair every symbol/interval series over its lookback window
+ * Stops starting new series after the deadline; the next run resumes with them
+ */
+export async function syncCandleStore(options: {
+  symbols?: string[]
+  intervals?: string[]
+  deadline?: number // Epoch ms
+} = {}): Promise<CandleSyncReport[]> {
+  const symbols = Array.from(new Set((options.symbols || TRADING_SYMBOLS).map(toBinanceSymbol)))
+  const intervals = options.intervals || VALID_INTERVALS
+  const reports: CandleSyncReport[] = []
+
+  for (const symbol of symbols) {
+    for (const interval of intervals) {
+      if (options.deadline && Date.now() > options.deadline) {
+        reports.push({ symbol, interval, skipped: true })
+        continue
+      }
+
+      try {
+        const end = lastClosedOpenTime(interval)
+        const start = end - (DEFAULT_BACKFILL_DAYS[interval] ?? 30) * 24 * 60 * 60 * 1000
+        reports.push(await repairCandleGaps(symbol, interval, start, end))
+      } catch (error) {
+        console.error(`[Candles] ❌ ${symbol} ${interval} sync failed:`, error)
+        reports.push({ symbol, interval, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+  }
+
+  return reports
+}
+
+/**
+ * One page of a stored range, oldest first
+ * Pass the returned nextCursor as `after` for the following page (null when the range is done).
+ * With `repair`, missing candles in the page are fetched from Binance before reading
+ */
+export async function getCandlePage(
+  symbol: string,
+  interval: string,
+  start: number,
+  end: number,
+  options: { after?: number; limit?: number; repair?: boolean } = {}
+): Promise<{ candles: Candle[]; nextCursor: number | null }> {
+  const ms = intervalMs(interval)
+  const limit = Math.min(Math.max(options.limit || MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+  const last = Math.min(end, lastClosedOpenTime(interval))
+  const pageStart = options.after !== undefined ? options.after + ms : alignOpenTime(start, interval)
+  const pageEnd = Math.min(last, pageStart + (limit - 1) * ms)
+
+  if (pageStart > last) {
+    return { candles: [], nextCursor: null }
+  }
+
+  if (options.repair) {
+    const times = await getMarketCandleTimes(symbol, interval, pageStart, pageEnd)
+    if (times && findCandleGaps(times, interval, pageStart, pageEnd).length > 0) {
+      await fillCandleRange(symbol, interval, pageStart, pageEnd)
+    }
+  }
+
+  const rows = await getMarketCandles(symbol, interval, { start: pageStart, end: pageEnd, limit })
+
+  return {
+    candles: rows.map((row) => ({
+      time: row.open_time,
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume,
+    })),
+    nextCursor: pageEnd < last ? pageEnd : null,
+  }
+}
@@ -678,6 +678,7 @@ export async function generateAgentResponse(
   try {
     // Dynamic import to avoid circular dependencies
     const { callAgentAPI } = await import("./llm-apis")
+    const { getAgentProviderId } = await import("./llm-providers")
 
     // Fetch custom prompt if available (from Pickaboo dashboard)
     let customPrompt: string | undefined
@@ -694,7 +695,7 @@ export async function generateAgentResponse(
       if (agentName) {
         // Fetch custom prompt from Pickaboo dashboard
         try {
-          const promptResponse = await fetch(`/api/pickaboo/agent-prompts?wallet=system`)
+          const promptResponse = await fetch(`/api/pickaboo/agent-prompts`)
           if (promptResponse.ok) {
             const promptData = await promptResponse.json()
             if (promptData.success && promptData.agent_prompts) {
@@ -744,7 +745,7 @@ export async function generateAgentResponse(
     if (positionContext.holdings.length > 0) {
       console.log(`[Chat Engine]   🎯 Holdings: ${positionContext.holdings.map(h => `${h.symbol}(${h.unrealizedPnLPercent > 0 ? '+' : ''}${h.unrealizedPnLPercent.toFixed(1)}%)`).join(", ")}`)
     }
-    console.log(`[Chat Engine]   🔑 API Keys: ${agent.id === "claude_arbitrage" ? "Claude" : agent.id === "chatgpt_openai" ? "GPT-4" : agent.id === "gemini_grid" ? "Gemini" : agent.id === "deepseek_ml" ? "DeepSeek" : "Grok"}`)
+    console.log(`[Chat Engine]   🔑 Provider: ${getAgentProviderId(agent.id)}`)
     
     content = await callAgentAPI(agent, marketContext, enrichedActivity, sentiment, customPrompt)
     console.log(`[Chat Engine] ✅ Real API response received for ${agent.id}`)
@@ -836,43 +837,3 @@ export async function generateAllAgentResponses(
 
   return responses
 }
-
-/**
- * Placeholder for real API implementations
- * These will be implemented when API keys are available
- */
-export async function callOpenAIAPI(
-  agent: AgentData,
-  context: MarketContext,
-  activity: string
-): Promise<ChatMessage> {
-  // TODO: Implement when OPENAI_API_KEY is available
-  throw new Error("OpenAI API not configured. Using mock responses instead.")
-}
-
-export async function callAnthropicAPI(
-  agent: AgentData,
-  context: MarketContext,
-  activity: string
-): Promise<ChatMessage> {
-  // TODO: Implement when ANTHROPIC_API_KEY is available
-  throw new Error("Anthropic API not configured. Using mock responses instead.")
-}
-
-export async function callGoogleAPI(
-  agent: AgentData,
-  context: MarketContext,
-  activity: string
-): Promise<ChatMessage> {
-  // TODO: Implement when GOOGLE_API_KEY is available
-  throw new Error("Google API not configured. Using mock responses instead.")
-}
-
-export async function callDeepSeekAPI(
-  agent: AgentData,
-  context: MarketContext,
-  activity: string
-): Promise<ChatMessage> {
-  // TODO: Implement when DEEPSEEK_API_KEY is available
-  throw new Error("DeepSeek API not configured. Using mock responses instead.")
-}
\ No newline at end of file
@@ -175,6 +175,8 @@ export function analyzePerformance(agentId: string, trades: Trade[]): Performanc
 
 /**
  * Generate learning updates based on performance metrics
+ * Rule-based; trading-bots/optimize.ts runs a walk-forward search that only
+ * proposes parameters that beat the current ones on out-of-sample candles
  */
 export function generateLearningUpdate(
   agentId: string,
@@ -0,0 +1,414 @@
+/**
+ * LLM Provider Registry
+ * Each provider declares its model, endpoint, auth, token limits and retry/backoff.
+ * Agents bind to a provider through configuration (LLM_PROVIDER / LLM_PROVIDER_<AGENT_ID>),
+ * and the built-in "mock" provider answers deterministically so chat and battles run offline
+ */
+
+export type LLMRequestFormat = "anthropic" | "openai" | "gemini" | "mock"
+
+export type LLMAuth =
+  | { type: "header"; header: string; prefix?: string } // e.g. x-api-key or Authorization: Bearer
+  | { type: "query"; param: string } // API key in the URL (Gemini)
+  | { type: "none" }
+
+export interface LLMRetryPolicy {
+  maxAttempts: number // Including the first call
+  initialDelayMs: number // Doubled after each failed attempt
+  maxDelayMs: number
+}
+
+export interface LLMProviderConfig {
+  id: string
+  name: string
+  format: LLMRequestFormat
+  endpoint: string // "{model}" is replaced with the resolved model name
+  model: string // Default model
+  modelEnv?: string // Env var that overrides the model
+  apiKeyEnv?: string
+  auth: LLMAuth
+  headers?: Record<string, string>
+  maxTokens?: number // Omitted from the request when unset (provider default)
+  temperature?: number
+  timeoutMs: number
+  retry: LLMRetryPolicy
+  extraBody?: Record<string, any> // Merged into the request body (e.g. tools)
+}
+
+export interface LLMCompletionRequest {
+  prompt: string
+  maxTokens?: number // Overrides the provider's limit
+  temperature?: number
+  timeoutMs?: number
+  maxAttempts?: number // Overrides the provider's retry limit (e.g. when the caller can't wait)
+  mockReply?: (hash: number) => string // Structured reply for the mock provider, given a hash of the prompt
+}
+
+export interface LLMCompletionResponse {
+  provider: string
+  model: string
+  text: string
+  latencyMs: number
+  attempts: number
+}
+
+/**
+ * Error raised by a provider call; retryable errors are retried with backoff
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly retryable: boolean,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message)
+    this.name = "LLMProviderError"
+  }
+}
+
+const DEFAULT_RETRY: LLMRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 8000,
+}
+
+const providers = new Map<string, LLMProviderConfig>()
+
+/**
+ * Add or replace a provider
+ */
+export function registerLLMProvider(config: LLMProviderConfig): void {
+  providers.set(config.id, config)
+}
+
+export function getLLMProvider(providerId: string): LLMProviderConfig | undefined {
+  return providers.get(providerId)
+}
+
+export function listLLMProviders(): LLMProviderConfig[] {
+  return Array.from(providers.values())
+}
+
+registerLLMProvider({
+  id: "anthropic",
+  name: "Claude",
+  format: "anthropic",
+  endpoint: "https://api.anthropic.com/v1/messages",
+  model: "claude-3-sonnet-20240229",
+  modelEnv: "CLAUDE_MODEL",
+  apiKeyEnv: "ANTHROPIC_API_KEY",
+  auth: { type: "header", header: "x-api-key" },
+  headers: { "anthropic-version": "2023-06-01" },
+  maxTokens: 150,
+  timeoutMs: 30000,
+  retry: DEFAULT_RETRY,
+})
+
+registerLLMProvider({
+  id: "openai",
+  name: "OpenAI",
+  format: "openai",
+  endpoint: "https://api.openai.com/v1/chat/completions",
+  model: "gpt-4-turbo-preview",
+  modelEnv: "OPENAI_MODEL",
+  apiKeyEnv: "OPENAI_API_KEY",
+  auth: { type: "header", header: "Authorization", prefix: "Bearer " },
+  maxTokens: 150,
+  temperature: 0.7,
+  timeoutMs: 30000,
+  retry: DEFAULT_RETRY,
+})
+
+registerLLMProvider({
+  id: "google",
+  name: "Gemini",
+  format: "gemini",
+  endpoint: "https://generativelanguage.googleapis.com/v1beta/models/{model}:generateContent",
+  model: "gemini-2.0-flash",
+  modelEnv: "GEMINI_MODEL",
+  apiKeyEnv: "GOOGLE_API_KEY",
+  auth: { type: "query", param: "key" },
+  timeoutMs: 30000,
+  retry: DEFAULT_RETRY,
+})
+
+registerLLMProvider({
+  id: "deepseek",
+  name: "DeepSeek",
+  format: "openai",
+  endpoint: "https://api.deepseek.com/chat/completions",
+  model: "deepseek-chat",
+  modelEnv: "DEEPSEEK_MODEL",
+  apiKeyEnv: "DEEPSEEK_API_KEY",
+  auth: { type: "header", header: "Authorization", prefix: "Bearer " },
+  maxTokens: 150,
+  temperature: 0.7,
+  timeoutMs: 30000,
+  retry: DEFAULT_RETRY,
+})
+
+registerLLMProvider({
+  id: "xai",
+  name: "Grok",
+  format: "openai",
+  endpoint: "https://api.x.ai/v1/chat/completions",
+  model: "grok-2-1212",
+  modelEnv: "GROK_MODEL",
+  apiKeyEnv: "GROK_API_KEY",
+  auth: { type: "header", header: "Authorization", prefix: "Bearer " },
+  maxTokens: 200,
+  temperature: 0.6, // Balanced between creativity and factuality
+  timeoutMs: 30000,
+  retry: DEFAULT_RETRY,
+  extraBody: {
+    // Grok's native X search for live sentiment
+    tools: [{ type: "x_search" }],
+  },
+})
+
+registerLLMProvider({
+  id: "mock",
+  name: "Mock",
+  format: "mock",
+  endpoint: "local",
+  model: "mock-deterministic",
+  auth: { type: "none" },
+  timeoutMs: 0,
+  retry: { maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0 },
+})
+
+/**
+ * Default provider for each agent
+ */
+const AGENT_PROVIDER_BINDINGS: Record<string, string> = {
+  claude_arbitrage: "anthropic",
+  chatgpt_openai: "openai",
+  gemini_grid: "google",
+  deepseek_ml: "deepseek",
+  buy_and_hold: "xai",
+}
+
+/**
+ * Provider an agent is bound to
+ * LLM_PROVIDER_<AGENT_ID> (e.g. LLM_PROVIDER_GEMINI_GRID=mock) overrides LLM_PROVIDER, which overrides the default binding
+ */
+export function getAgentProviderId(agentId: string): string {
+  const providerId =
+    process.env[`LLM_PROVIDER_${agentId.toUpperCase()}`] ||
+    process.env.LLM_PROVIDER ||
+    AGENT_PROVIDER_BINDINGS[agentId]
+
+  if (!providerId) {
+    throw new Error(`No LLM provider bound to agent: ${agentId}`)
+  }
+  if (!providers.has(providerId)) {
+    throw new Error(`Unknown LLM provider "${providerId}" for agent ${agentId}`)
+  }
+  return providerId
+}
+
+/**
+ * Model a provider will use (env override, then the registered default)
+ */
+export function resolveProviderModel(provider: LLMProviderConfig): string {
+  return (provider.modelEnv && process.env[provider.modelEnv]) || provider.model
+}
+
+/**
+ * Send a single-turn prompt to a provider, retrying rate limits, server errors,
+ * network failures and timeouts with exponential backoff
+ */
+export async function completeWithProvider(
+  providerId: string,
+  request: LLMCompletionRequest
+): Promise<LLMCompletionResponse> {
+  const provider = providers.get(providerId)
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${providerId}`)
+  }
+
+  const model = resolveProviderModel(provider)
+  const maxAttempts = request.maxAttempts ?? provider.retry.maxAttempts
+  const startTime = Date.now()
+  let delayMs = provider.retry.initialDelayMs
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const text = provider.format === "mock"
+        ? mockCompletion(request)
+        : await callProvider(provider, model, request)
+
+      return { provider: provider.id, model, text, latencyMs: Date.now() - startTime, attempts: attempt }
+    } catch (error) {
+      if (!(error instanceof LLMProviderError) || !error.retryable || attempt >= maxAttempts) {
+        throw error
+      }
+
+      const waitMs = Math.min(error.retryAfterMs ?? delayMs, provider.retry.maxDelayMs)
+      console.warn(`[LLM-Providers] ⚠️ ${provider.name} attempt ${attempt} failed (${error.message}), retrying in ${waitMs}ms`)
+      await new Promise((resolve) => setTimeout(resolve, waitMs))
+      delayMs = Math.min(delayMs * 2, provider.retry.maxDelayMs)
+    }
+  }
+}
+
+/**
+ * One HTTP call in the provider's request format
+ */
+async function callProvider(
+  provider: LLMProviderConfig,
+  model: string,
+  request: LLMCompletionRequest
+): Promise<string> {
+  const apiKey = provider.apiKeyEnv ? process.env[provider.apiKeyEnv] : undefined
+  if (provider.apiKeyEnv && !apiKey) {
+    throw new LLMProviderError(`${provider.apiKeyEnv} not configured`, provider.id, false)
+  }
+
+  let url = provider.endpoint.replace("{model}", model)
+  const headers: Record<string, string> = { "Content-Type": "application/json", ...provider.headers }
+  if (provider.auth.type === "header") {
+    headers[provider.auth.header] = `${provider.auth.prefix || ""}${apiKey}`
+  } else if (provider.auth.type === "query") {
+    url += `${url.includes("?") ? "&" : "?"}${provider.auth.param}=${apiKey}`
+  }
+
+  const maxTokens = request.maxTokens ?? provider.maxTokens
+  const temperature = request.temperature ?? provider.temperature
+  const body = buildRequestBody(provider.format, model, request.prompt, maxTokens, temperature)
+
+  const controller = new AbortController()
+  const timeoutMs = request.timeoutMs ?? provider.timeoutMs
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ ...body, ...provider.extraBody }),
+      signal: controller.signal,
+    })
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `no response within ${timeoutMs}ms`
+      : error instanceof Error ? error.message : String(error)
+    throw new LLMProviderError(`${provider.name} request failed: ${message}`, provider.id, true)
+  } finally {
+    clearTimeout(timer)
+  }
+
+  if (!response.ok) {
+    const errorData = await response.text().catch(() => "")
+    const retryAfter = Number(response.headers.get("retry-after"))
+    throw new LLMProviderError(
+      `${provider.name} API error: ${response.status} ${response.statusText}. Response: ${errorData.substring(0, 200)}`,
+      provider.id,
+      response.status === 408 || response.status === 429 || response.status >= 500,
+      response.status,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+    )
+  }
+
+  const data = await response.json()
+  const text = extractText(provider.format, data)
+  if (typeof text !== "string" || text.length === 0) {
+    throw new LLMProviderError(
+      `${provider.name} API returned invalid response: ${JSON.stringify(data).substring(0, 200)}`,
+      provider.id,
+      false
+    )
+  }
+  return text
+}
+
+function buildRequestBody(
+  format: LLMRequestFormat,
+  model: string,
+  prompt: string,
+  maxTokens?: number,
+  temperature?: number
+): Record<string, any> {
+  switch (format) {
+    case "anthropic":
+      return {
+        model,
+        max_tokens: maxTokens ?? 1024, // Required by the Messages API
+        ...(temperature !== undefined && { temperature }),
+        messages: [{ role: "user", content: prompt }],
+      }
+
+    case "openai":
+      return {
+        model,
+        messages: [{ role: "user", content: prompt }],
+        ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+        ...(temperature !== undefined && { temperature }),
+      }
+
+    case "gemini": {
+      const generationConfig = {
+        ...(maxTokens !== undefined && { maxOutputTokens: maxTokens }),
+        ...(temperature !== undefined && { temperature }),
+      }
+      return {
+        contents: [{ parts: [{ text: prompt }] }],
+        ...(Object.keys(generationConfig).length > 0 && { generationConfig }),
+      }
+    }
+
+    case "mock":
+      return {}
+  }
+}
+
+function extractText(format: LLMRequestFormat, data: any): string | undefined {
+  switch (format) {
+    case "anthropic":
+      return data?.content?.[0]?.text
+    case "openai":
+      return data?.choices?.[0]?.message?.content
+    case "gemini":
+      return data?.candidates?.[0]?.content?.parts?.[0]?.text
+    case "mock":
+      return undefined
+  }
+}
+
+const MOCK_STANCES = [
+  "Holding current positions and accumulating on dips while momentum stays constructive.",
+  "Staying neutral and waiting for a cleaner setup; position sizes stay small in this range.",
+  "Reducing exposure and tightening stop losses until volatility settles.",
+  "Adding to the strongest trend on the breakout, with take profit targets raised.",
+]
+
+/**
+ * Deterministic offline reply: the same prompt always yields the same text
+ */
+function mockCompletion(request: LLMCompletionRequest): string {
+  const prompt = request.prompt
+  const hash = hashPrompt(prompt)
+  if (request.mockReply) {
+    return request.mockReply(hash)
+  }
+
+  const prices = Array.from(prompt.matchAll(/- (\w+): \$([\d.,]+)/g)).slice(0, 2)
+  const priceNote = prices.length > 0
+    ? ` Watching ${prices.map(([, symbol, price]) => `${symbol} at $${price}`).join(" and ")}.`
+    : ""
+  return `[mock] ${MOCK_STANCES[hash % MOCK_STANCES.length]}${priceNote} Confidence ${60 + (hash % 35)}%.`
+}
+
+/**
+ * FNV-1a hash of the prompt
+ */
+function hashPrompt(prompt: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
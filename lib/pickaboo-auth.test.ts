@@ -0,0 +1,130 @@
+import { Wallet } from "ethers"
+import { NextResponse } from "next/server"
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import {
+  NONCE_COOKIE,
+  SESSION_COOKIE,
+  createSession,
+  createSignInNonce,
+  getPickabooSession,
+  setSessionCookie,
+  verifySignIn,
+} from "./pickaboo-auth"
+import { PICKABOO_SIWE_STATEMENT, createSiweMessage } from "./siwe"
+
+// In-memory stand-in for the pickaboo_siwe_nonces table
+const nonces = vi.hoisted(() => new Set<string>())
+vi.mock("./supabase-client", () => ({
+  getPickabooAdminRole: vi.fn(),
+  saveSiweNonce: vi.fn(async (nonce: string) => {
+    nonces.add(nonce)
+    return true
+  }),
+  consumeSiweNonce: vi.fn(async (nonce: string) => nonces.delete(nonce)),
+}))
+
+const HOST = "pickaboo.example"
+const wallet = Wallet.createRandom()
+
+beforeAll(() => {
+  process.env.PICKABOO_SESSION_SECRET = "test-secret-that-is-at-least-32-characters"
+})
+
+function request(cookies: Record<string, string>, host = HOST): Request {
+  const cookie = Object.entries(cookies).map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join("; ")
+  return new Request(`https://${host}/api/pickaboo/siwe-verify`, { headers: { cookie, host } })
+}
+
+function message(
+  nonce: string,
+  overrides: { domain?: string; uri?: string; chainId?: number; issuedAt?: string } = {}
+): string {
+  return createSiweMessage({
+    domain: overrides.domain ?? HOST,
+    address: wallet.address,
+    statement: PICKABOO_SIWE_STATEMENT,
+    uri: overrides.uri ?? `https://${HOST}`,
+    version: "1",
+    chainId: overrides.chainId ?? 56,
+    nonce,
+    issuedAt: overrides.issuedAt ?? new Date().toISOString(),
+  })
+}
+
+describe("verifySignIn", () => {
+  it("accepts a message signed with the nonce from the cookie", async () => {
+    const { nonce, token } = await createSignInNonce()
+    const text = message(nonce)
+
+    const result = await verifySignIn(request({ [NONCE_COOKIE]: token }), text, await wallet.signMessage(text))
+
+    expect(result).toEqual({ wallet: wallet.address.toLowerCase() })
+  })
+
+  it("rejects a second sign-in with the same nonce", async () => {
+    const { nonce, token } = await createSignInNonce()
+    const text = message(nonce)
+    const signature = await wallet.signMessage(text)
+
+    expect((await verifySignIn(request({ [NONCE_COOKIE]: token }), text, signature)).wallet).toBeDefined()
+    expect((await verifySignIn(request({ [NONCE_COOKIE]: token }), text, signature)).error).toMatch(/already used/)
+  })
+
+  it("rejects a missing or tampered nonce cookie", async () => {
+    const { nonce, token } = await createSignInNonce()
+    const text = message(nonce)
+    const signature = await wallet.signMessage(text)
+
+    expect((await verifySignIn(request({}), text, signature)).error).toMatch(/nonce missing/)
+    expect((await verifySignIn(request({ [NONCE_COOKIE]: `${token}x` }), text, signature)).error).toMatch(/nonce missing/)
+  })
+
+  it("rejects a message carrying a different nonce", async () => {
+    const { token } = await createSignInNonce()
+    const text = message("someothernonce")
+
+    const result = await verifySignIn(request({ [NONCE_COOKIE]: token }), text, await wallet.signMessage(text))
+
+    expect(result.error).toBe("Sign-in nonce mismatch")
+  })
+
+  it("rejects messages for another domain or that are not current", async () => {
+    const { nonce, token } = await createSignInNonce()
+    const elsewhere = message(nonce, { domain: "evil.example" })
+    const stale = message(nonce, { issuedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString() })
+
+    expect((await verifySignIn(request({ [NONCE_COOKIE]: token }), elsewhere, await wallet.signMessage(elsewhere))).error).toMatch(/not pickaboo.example/)
+    expect((await verifySignIn(request({ [NONCE_COOKIE]: token }), stale, await wallet.signMessage(stale))).error).toBe("Sign-in message is not current")
+  })
+
+  it("rejects messages for another origin or chain", async () => {
+    const { nonce, token } = await createSignInNonce()
+    const otherOrigin = message(nonce, { uri: "https://evil.example" })
+    const otherChain = message(nonce, { chainId: 1 })
+
+    expect((await verifySignIn(request({ [NONCE_COOKIE]: token }), otherOrigin, await wallet.signMessage(otherOrigin))).error).toMatch(/not https:\/\/pickaboo.example/)
+    expect((await verifySignIn(request({ [NONCE_COOKIE]: token }), otherChain, await wallet.signMessage(otherChain))).error).toBe("Sign-in message is for chain 1, not 56")
+  })
+
+  it("rejects a signature from a different wallet than the message names, leaving the nonce usable", async () => {
+    const { nonce, token } = await createSignInNonce()
+    const text = message(nonce)
+
+    const result = await verifySignIn(request({ [NONCE_COOKIE]: token }), text, await Wallet.createRandom().signMessage(text))
+
+    expect(result.error).toBe("Signature does not match the wallet in the message")
+    expect(nonces.has(nonce)).toBe(true)
+  })
+})
+
+describe("getPickabooSession", () => {
+  it("reads back a session token and rejects tampered ones", () => {
+    const session = createSession(wallet.address)
+    const response = NextResponse.json({})
+    setSessionCookie(response, session)
+    const token = response.cookies.get(SESSION_COOKIE)!.value
+
+    expect(getPickabooSession(request({ [SESSION_COOKIE]: token }))).toEqual(session)
+    expect(getPickabooSession(request({ [SESSION_COOKIE]: token.replace(/.$/, (c) => (c === "A" ? "B" : "A")) }))).toBeNull()
+  })
+})
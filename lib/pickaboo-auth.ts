@@ -0,0 +1,254 @@
+/**
+ * Pickaboo Admin Sessions
+ * Sign-In with Ethereum for the admin dashboard: the browser gets a nonce, the admin wallet
+ * signs an EIP-4361 message with it, and a verified signature from a whitelisted wallet
+ * earns a short-lived session cookie. Admin routes read the wallet from the session,
+ * never from the request body or query, and check its role (lib/pickaboo-roles.ts).
+ *
+ * Nonces and sessions are HMAC-signed tokens (PICKABOO_SESSION_SECRET). Each nonce is
+ * also stored in Supabase and deleted by the sign-in that uses it, so a captured nonce
+ * cookie and signature can't be replayed; without the store, sign-in fails closed
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { verifyMessage } from "ethers"
+import { NextResponse } from "next/server"
+import { consumeSiweNonce, getPickabooAdminRole, saveSiweNonce } from "./supabase-client"
+import { parseSiweMessage } from "./siwe"
+import { hasPickabooPermission, type PickabooPermission, type PickabooRole } from "./pickaboo-roles"
+
+export const SESSION_COOKIE = "pickaboo_session"
+export const NONCE_COOKIE = "pickaboo_siwe_nonce"
+
+const SESSION_TTL_SECONDS = Number(process.env.PICKABOO_SESSION_TTL_SECONDS) || 60 * 60
+const NONCE_TTL_SECONDS = 2 * 60 // Also the window for the message's issuedAt
+const CLOCK_SKEW_MS = 60 * 1000
+
+/**
+ * Chain ID sign-in messages must name, PICKABOO_SIWE_CHAIN_ID (default 56, BNB Chain)
+ */
+export function getSignInChainId(): number {
+  return Number(process.env.PICKABOO_SIWE_CHAIN_ID) || 56
+}
+
+export interface PickabooSession {
+  wallet: string // Lowercase
+  issuedAt: number // Epoch ms
+  expiresAt: number // Epoch ms
+}
+
+function getSecret(): string {
+  const secret = process.env.PICKABOO_SESSION_SECRET
+  if (!secret || secret.length < 32) {
+    throw new Error("PICKABOO_SESSION_SECRET must be set (at least 32 characters)")
+  }
+  return secret
+}
+
+function signToken(payload: object): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url")
+  const signature = createHmac("sha256", getSecret()).update(body).digest("base64url")
+  return `${body}.${signature}`
+}
+
+/**
+ * Payload of a token signed by signToken, or null when tampered with or malformed
+ */
+function readToken<T>(token: string | null | undefined): T | null {
+  if (!token) return null
+  const [body, signature] = token.split(".")
+  if (!body || !signature) return null
+
+  const expected = Buffer.from(createHmac("sha256", getSecret()).update(body).digest("base64url"))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    return JSON.parse(Buffer.from(body, "base64url").toString()) as T
+  } catch {
+    return null
+  }
+}
+
+function getCookie(request: Request, name: string): string | null {
+  const header = request.headers.get("cookie")
+  if (!header) return null
+  for (const part of header.split(";")) {
+    const [key, ...value] = part.trim().split("=")
+    if (key === name) return decodeURIComponent(value.join("="))
+  }
+  return null
+}
+
+const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "strict" as const,
+  path: "/",
+  maxAge,
+})
+
+/**
+ * Fresh sign-in nonce, stored until a sign-in consumes it; the signed copy goes in a
+ * cookie so verification can match it to this browser
+ */
+export async function createSignInNonce(): Promise<{ nonce: string; token: string }> {
+  const nonce = randomBytes(16).toString("hex")
+  const exp = Date.now() + NONCE_TTL_SECONDS * 1000
+  if (!(await saveSiweNonce(nonce, new Date(exp)))) {
+    throw new Error("Could not store the sign-in nonce")
+  }
+  return { nonce, token: signToken({ nonce, exp }) }
+}
+
+export function setNonceCookie(response: NextResponse, token: string): void {
+  response.cookies.set(NONCE_COOKIE, token, cookieOptions(NONCE_TTL_SECONDS))
+}
+
+/**
+ * Check a signed EIP-4361 message against the nonce cookie, the requesting origin and the
+ * sign-in chain, then consume the nonce so the message can't be used twice
+ * Returns the recovered wallet (lowercase) or the reason the sign-in is refused
+ */
+export async function verifySignIn(
+  request: Request,
+  message: string,
+  signature: string
+): Promise<{ wallet: string; error?: undefined } | { wallet?: undefined; error: string }> {
+  const nonce = readToken<{ nonce: string; exp: number }>(getCookie(request, NONCE_COOKIE))
+  if (!nonce || nonce.exp < Date.now()) {
+    return { error: "Sign-in nonce missing or expired, please try again" }
+  }
+
+  const fields = parseSiweMessage(message)
+  if (!fields) {
+    return { error: "Malformed sign-in message" }
+  }
+  if (fields.nonce !== nonce.nonce) {
+    return { error: "Sign-in nonce mismatch" }
+  }
+
+  // The message must name this site, so a signature collected elsewhere can't be replayed here
+  const host = request.headers.get("host")
+  if (!host || fields.domain !== host) {
+    return { error: `Sign-in message is for ${fields.domain}, not ${host}` }
+  }
+  const origin = `${new URL(request.url).protocol}//${host}`
+  if (fields.uri !== origin) {
+    return { error: `Sign-in message is for ${fields.uri}, not ${origin}` }
+  }
+  if (fields.chainId !== getSignInChainId()) {
+    return { error: `Sign-in message is for chain ${fields.chainId}, not ${getSignInChainId()}` }
+  }
+
+  const now = Date.now()
+  const issuedAt = Date.parse(fields.issuedAt)
+  if (!Number.isFinite(issuedAt) || issuedAt > now + CLOCK_SKEW_MS || now - issuedAt > NONCE_TTL_SECONDS * 1000) {
+    return { error: "Sign-in message is not current" }
+  }
+  if (fields.expirationTime && Date.parse(fields.expirationTime) < now) {
+    return { error: "Sign-in message has expired" }
+  }
+
+  let recovered: string
+  try {
+    recovered = verifyMessage(message, signature)
+  } catch {
+    return { error: "Invalid signature" }
+  }
+  if (recovered.toLowerCase() !== fields.address.toLowerCase()) {
+    return { error: "Signature does not match the wallet in the message" }
+  }
+
+  // Last, so a bad signature can't burn someone else's nonce
+  if (!(await consumeSiweNonce(nonce.nonce))) {
+    return { error: "Sign-in nonce already used or expired, please try again" }
+  }
+
+  return { wallet: recovered.toLowerCase() }
+}
+
+/**
+ * New session for a verified wallet, valid for PICKABOO_SESSION_TTL_SECONDS (default 1 hour)
+ */
+export function createSession(wallet: string): PickabooSession {
+  const issuedAt = Date.now()
+  return {
+    wallet: wallet.toLowerCase(),
+    issuedAt,
+    expiresAt: issuedAt + SESSION_TTL_SECONDS * 1000,
+  }
+}
+
+/**
+ * Set the session cookie and clear the nonce it was signed with
+ */
+export function setSessionCookie(response: NextResponse, session: PickabooSession): void {
+  const maxAge = Math.max(0, Math.floor((session.expiresAt - Date.now()) / 1000))
+  response.cookies.set(SESSION_COOKIE, signToken(session), cookieOptions(maxAge))
+  response.cookies.set(NONCE_COOKIE, "", cookieOptions(0))
+}
+
+export function endSession(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, "", cookieOptions(0))
+}
+
+/**
+ * Session carried by the request, or null when absent, tampered with or expired
+ */
+export function getPickabooSession(request: Request): PickabooSession | null {
+  const session = readToken<PickabooSession>(getCookie(request, SESSION_COOKIE))
+  if (!session || typeof session.wallet !== "string" || !(session.expiresAt > Date.now())) {
+    return null
+  }
+  return session
+}
+
+/**
+ * Require a signed-in admin whose role grants `permission`
+ * The whitelist and role are read on every call, so removals and role changes apply at once
+ * Returns the session and role, or the response to send back
+ */
+export async function requirePickabooAdmin(
+  request: Request,
+  permission: PickabooPermission = "view"
+): Promise<
+  | { session: PickabooSession; role: PickabooRole; denied: null }
+  | { session: null; role: null; denied: NextResponse }
+> {
+  let session: PickabooSession | null
+  try {
+    session = getPickabooSession(request)
+  } catch (error) {
+    console.error("[Pickaboo Auth] Session check failed:", error)
+    return {
+      session: null,
+      role: null,
+      denied: NextResponse.json({ error: "Admin sessions are not configured" }, { status: 500 }),
+    }
+  }
+
+  if (!session) {
+    return {
+      session: null,
+      role: null,
+      denied: NextResponse.json({ error: "Sign in with an admin wallet to continue" }, { status: 401 }),
+    }
+  }
+
+  const role = await getPickabooAdminRole(session.wallet)
+  if (!role) {
+    return { session: null, role: null, denied: NextResponse.json({ error: "Wallet not authorized" }, { status: 403 }) }
+  }
+  if (!hasPickabooPermission(role, permission)) {
+    return {
+      session: null,
+      role: null,
+      denied: NextResponse.json({ error: `The ${role} role cannot do this`, role }, { status: 403 }),
+    }
+  }
+
+  return { session, role, denied: null }
+}
@@ -0,0 +1,34 @@
+/**
+ * Pickaboo Admin Roles
+ * Checked per route by requirePickabooAdmin and used by the dashboard to hide controls,
+ * so the server and the page agree on what each role can do
+ *
+ * - viewer: balances, history, prompts and the scenario library (read only)
+ * - operator: symbols, prompts, agent commands, parameters, scenarios and tournaments
+ * - treasurer: fund agents
+ * - owner: everything, including adding and removing admins and changing roles
+ */
+
+export type PickabooRole = "viewer" | "operator" | "treasurer" | "owner"
+
+export type PickabooPermission = "view" | "operate" | "fund" | "manage_admins"
+
+export const PICKABOO_ROLES: PickabooRole[] = ["viewer", "operator", "treasurer", "owner"]
+
+const ROLE_PERMISSIONS: Record<PickabooRole, PickabooPermission[]> = {
+  viewer: ["view"],
+  operator: ["view", "operate"],
+  treasurer: ["view", "fund"],
+  owner: ["view", "operate", "fund", "manage_admins"],
+}
+
+export function isPickabooRole(value: unknown): value is PickabooRole {
+  return typeof value === "string" && (PICKABOO_ROLES as string[]).includes(value)
+}
+
+/**
+ * Whether a role grants a permission (no role grants nothing)
+ */
+export function hasPickabooPermission(role: PickabooRole | null | undefined, permission: PickabooPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
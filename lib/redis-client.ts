@@ -87,6 +87,7 @@ export const CACHE_KEYS = {
 
   // Agent learning & optimization
   agentParameters: (agentId: string) => `agent_params:${agentId}`,
+  previousAgentParameters: (agentId: string) => `agent_params:previous:${agentId}`,
   agentOptimization: () => "optimization:results",
   learningHistory: (agentId: string) => `learning:history:${agentId}`,
 
@@ -3,12 +3,24 @@
  * Calculates actual risk metrics from trade history and account snapshots
  */
 
-interface TradeData {
+export interface TradeData {
   realizedPnl: number
   time: number
   commission?: number
 }
 
+export interface FundingPaymentData {
+  income: number // Positive when received, negative when paid
+  time: number
+}
+
+export interface RealizedPnl {
+  tradingPnl: number // Closed trade PnL before fees
+  commission: number
+  funding: number
+  realizedPnl: number // tradingPnl - commission + funding
+}
+
 interface HistoricalSnapshot {
   timestamp: string
   account_value: number
@@ -280,4 +292,34 @@ export function calculateMetricsFromTrades(
   const finalReturn = ((sorted[sorted.length - 1].value - initialCapital) / initialCapital) * 100
 
   return calculateAllRiskMetrics(snapshots, finalReturn)
-}
\ No newline at end of file
+}
+
+/**
+ * Realized PnL including commissions and perpetual funding payments
+ */
+export function calculateRealizedPnl(
+  trades: TradeData[],
+  fundingPayments: FundingPaymentData[] = []
+): RealizedPnl {
+  const tradingPnl = trades.reduce((sum, trade) => sum + (trade.realizedPnl || 0), 0)
+  const commission = trades.reduce((sum, trade) => sum + (trade.commission || 0), 0)
+  const funding = fundingPayments.reduce((sum, payment) => sum + (payment.income || 0), 0)
+
+  return {
+    tradingPnl,
+    commission,
+    funding,
+    realizedPnl: tradingPnl - commission + funding,
+  }
+}
+
+/**
+ * Distance from the mark price to the liquidation price, as a percentage of the mark price
+ * Returns null when the position has no liquidation price (e.g. fully collateralized)
+ */
+export function calculateLiquidationDistance(markPrice: number, liquidationPrice: number): number | null {
+  if (!(markPrice > 0) || !(liquidationPrice > 0)) {
+    return null
+  }
+  return (Math.abs(markPrice - liquidationPrice) / markPrice) * 100
+}
@@ -0,0 +1,92 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) messages
+ * Built in the browser by useWalletAuth and parsed on the server by pickaboo-auth,
+ * so both sides share one message format
+ */
+
+export interface SiweMessageFields {
+  domain: string
+  address: string
+  statement?: string
+  uri: string
+  version: string
+  chainId: number
+  nonce: string
+  issuedAt: string // ISO 8601
+  expirationTime?: string // ISO 8601
+}
+
+export const PICKABOO_SIWE_STATEMENT = "Sign in to the Pickaboo admin dashboard."
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:"
+
+/**
+ * Format the message the wallet signs with personal_sign
+ */
+export function createSiweMessage(fields: SiweMessageFields): string {
+  const lines = [`${fields.domain}${HEADER_SUFFIX}`, fields.address, ""]
+  if (fields.statement) {
+    lines.push(fields.statement, "")
+  }
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  )
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`)
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Read the fields back from a signed message
+ * Returns null when the message is not a well-formed EIP-4361 message
+ */
+export function parseSiweMessage(message: string): SiweMessageFields | null {
+  const lines = message.split("\n")
+  if (lines.length < 8 || !lines[0].endsWith(HEADER_SUFFIX) || lines[2] !== "") {
+    return null
+  }
+
+  const domain = lines[0].slice(0, -HEADER_SUFFIX.length)
+  const address = lines[1]
+  if (!domain || !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return null
+  }
+
+  // Optional statement between the address and the fields
+  let index = 3
+  let statement: string | undefined
+  if (!lines[index].startsWith("URI: ")) {
+    statement = lines[index]
+    if (lines[index + 1] !== "") return null
+    index += 2
+  }
+
+  const fields: Record<string, string> = {}
+  for (const line of lines.slice(index)) {
+    const separator = line.indexOf(": ")
+    if (separator <= 0) return null
+    fields[line.slice(0, separator)] = line.slice(separator + 2)
+  }
+
+  const chainId = Number(fields["Chain ID"])
+  if (!fields["URI"] || fields["Version"] !== "1" || !Number.isInteger(chainId) || !fields["Nonce"] || !fields["Issued At"]) {
+    return null
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: fields["URI"],
+    version: fields["Version"],
+    chainId,
+    nonce: fields["Nonce"],
+    issuedAt: fields["Issued At"],
+    expirationTime: fields["Expiration Time"],
+  }
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import { isPickabooRole, type PickabooRole } from './pickaboo-roles'
 
 const supabaseUrl = process.env.SUPABASE_URL
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY
@@ -157,10 +158,14 @@ export interface FundingHistoryRecord {
   agent_id: string
   agent_name: string
   amount: number
-  status: 'pending' | 'success' | 'failed'
+  status: 'pending' | 'success' | 'failed' | 'rejected'
   tx_hash?: string
   error_message?: string
   dry_run?: boolean
+  proposal_id?: string // Set when the funding went through two-person approval
+  proposed_by?: string
+  reviewed_by?: string
+  direction?: 'top_up' | 'sweep_back' // Set for treasury rebalance transfers
 }
 
 /**
@@ -254,7 +259,7 @@ export async function getFundingStats(): Promise<{
   try {
     const { data, error } = await supabase
       .from('funding_history')
-      .select('amount, status')
+      .select('amount, status, direction')
 
     if (error) {
       console.error('Failed to fetch funding stats:', error)
@@ -270,7 +275,8 @@ export async function getFundingStats(): Promise<{
 
     data?.forEach((record: any) => {
       if (record.status === 'success') {
-        stats.totalFunded += record.amount
+        // Sweep-backs return funds to the main account
+        stats.totalFunded += record.direction === 'sweep_back' ? -record.amount : record.amount
         stats.successCount++
       } else if (record.status === 'failed') {
         stats.failedCount++
@@ -286,6 +292,274 @@ export async function getFundingStats(): Promise<{
   }
 }
 
+/**
+ * Most recent live rebalance transfer per funding_history agent_id (agent_<n>) and direction
+ * (failed ones don't count), or null when the history can't be read
+ */
+export async function getLastRebalanceTransfers(): Promise<
+  Record<string, { top_up?: string; sweep_back?: string }> | null
+> {
+  if (!supabase) return null
+
+  try {
+    const { data, error } = await supabase
+      .from('funding_history')
+      .select('agent_id, direction, created_at')
+      .not('direction', 'is', null)
+      .neq('status', 'failed')
+      .eq('dry_run', false)
+      .order('created_at', { ascending: false })
+      .limit(500)
+
+    if (error) {
+      console.error('Failed to fetch rebalance transfers:', error)
+      return null
+    }
+
+    const last: Record<string, { top_up?: string; sweep_back?: string }> = {}
+    for (const row of data || []) {
+      const direction = row.direction as 'top_up' | 'sweep_back'
+      last[row.agent_id] = last[row.agent_id] || {}
+      last[row.agent_id][direction] = last[row.agent_id][direction] || row.created_at
+    }
+    return last
+  } catch (error) {
+    console.error('Error fetching rebalance transfers:', error)
+    return null
+  }
+}
+
+/**
+ * Treasury Rebalance Policies - per-agent equity bands (see lib/treasury-rebalancer.ts)
+ */
+export interface RebalancePolicy {
+  agent_id: string
+  target_equity: number
+  min_equity: number
+  max_equity: number
+  top_up_every_hours: number // 0 disables top-ups
+  sweep_back_every_hours: number // 0 disables sweep-backs
+  enabled: boolean
+  updated_by?: string | null
+  updated_at?: string
+}
+
+/**
+ * Get every agent's rebalance policy
+ */
+export async function getRebalancePolicies(): Promise<RebalancePolicy[]> {
+  if (!supabase) return []
+
+  try {
+    const { data, error } = await supabase
+      .from('treasury_rebalance_policies')
+      .select('*')
+      .order('agent_id', { ascending: true })
+
+    if (error) {
+      console.error('Failed to fetch rebalance policies:', error)
+      return []
+    }
+
+    // DECIMAL columns come back as strings
+    return (data || []).map((row: any) => ({
+      ...row,
+      target_equity: Number(row.target_equity),
+      min_equity: Number(row.min_equity),
+      max_equity: Number(row.max_equity),
+    }))
+  } catch (error) {
+    console.error('Error fetching rebalance policies:', error)
+    return []
+  }
+}
+
+/**
+ * Create or replace an agent's rebalance policy
+ */
+export async function saveRebalancePolicy(policy: RebalancePolicy): Promise<boolean> {
+  if (!supabase) return false
+
+  try {
+    const { error } = await supabase
+      .from('treasury_rebalance_policies')
+      .upsert([{ ...policy, updated_at: new Date().toISOString() }], { onConflict: 'agent_id' })
+
+    if (error) {
+      console.error('Failed to save rebalance policy:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error saving rebalance policy:', error)
+    return false
+  }
+}
+
+/**
+ * Funding Proposals - fundings above the approval threshold wait for a second admin
+ */
+export interface FundingProposal {
+  id: string
+  amount_per_agent: number
+  total_amount: number
+  dry_run_results: any[] // Simulated per-agent results, including the destination wallets
+  proposed_by: string
+  status: 'pending' | 'approved' | 'rejected' | 'expired'
+  reviewed_by: string | null
+  review_note: string | null
+  expires_at: string
+  reviewed_at: string | null
+  created_at: string
+}
+
+/**
+ * Create a pending funding proposal
+ */
+export async function createFundingProposal(
+  proposal: Pick<FundingProposal, 'amount_per_agent' | 'total_amount' | 'dry_run_results' | 'proposed_by' | 'expires_at'>
+): Promise<FundingProposal | null> {
+  if (!supabase) return null
+
+  try {
+    const { data, error } = await supabase
+      .from('funding_proposals')
+      .insert([{ ...proposal, proposed_by: proposal.proposed_by.toLowerCase() }])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to create funding proposal:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error creating funding proposal:', error)
+    return null
+  }
+}
+
+/**
+ * Mark pending proposals past their expiry as expired
+ */
+export async function expireFundingProposals(): Promise<void> {
+  if (!supabase) return
+
+  try {
+    const { error } = await supabase
+      .from('funding_proposals')
+      .update({ status: 'expired' })
+      .eq('status', 'pending')
+      .lt('expires_at', new Date().toISOString())
+
+    if (error) {
+      console.error('Failed to expire funding proposals:', error)
+    }
+  } catch (error) {
+    console.error('Error expiring funding proposals:', error)
+  }
+}
+
+/**
+ * Get a funding proposal by id
+ */
+export async function getFundingProposal(id: string): Promise<FundingProposal | null> {
+  if (!supabase) return null
+
+  try {
+    const { data, error } = await supabase
+      .from('funding_proposals')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch funding proposal:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error fetching funding proposal:', error)
+    return null
+  }
+}
+
+/**
+ * Funding proposals, newest first (all statuses when none is given)
+ */
+export async function getFundingProposals(
+  status?: FundingProposal['status'],
+  limit: number = 50
+): Promise<FundingProposal[]> {
+  if (!supabase) return []
+
+  try {
+    let query = supabase
+      .from('funding_proposals')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (status) query = query.eq('status', status)
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Failed to fetch funding proposals:', error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching funding proposals:', error)
+    return []
+  }
+}
+
+/**
+ * Approve or reject a proposal that is still pending and unexpired
+ * Returns null if it was already reviewed or has expired, so only one review wins
+ */
+export async function reviewFundingProposal(
+  id: string,
+  status: 'approved' | 'rejected',
+  reviewedBy: string,
+  note?: string
+): Promise<FundingProposal | null> {
+  if (!supabase) return null
+
+  const now = new Date().toISOString()
+
+  try {
+    const { data, error } = await supabase
+      .from('funding_proposals')
+      .update({
+        status,
+        reviewed_by: reviewedBy.toLowerCase(),
+        review_note: note || null,
+        reviewed_at: now,
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .gt('expires_at', now)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to review funding proposal:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error reviewing funding proposal:', error)
+    return null
+  }
+}
+
 /**
  * Pickaboo Admin Whitelist Types and Functions
  */
@@ -294,6 +568,7 @@ export interface PickabooAdmin {
   wallet_address: string
   admin_name: string | null
   added_by: string | null
+  role: PickabooRole
   is_active: boolean
   created_at: string
   updated_at: string
@@ -325,6 +600,32 @@ export async function isPickabooAdminWhitelisted(walletAddress: string): Promise
   }
 }
 
+/**
+ * Role of an active pickaboo admin, or null when the wallet is not whitelisted
+ */
+export async function getPickabooAdminRole(walletAddress: string): Promise<PickabooRole | null> {
+  if (!supabase) return null
+
+  try {
+    const { data, error } = await supabase
+      .from('pickaboo_admin_whitelist')
+      .select('role')
+      .eq('wallet_address', walletAddress.toLowerCase())
+      .eq('is_active', true)
+      .single()
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error checking admin role:', error)
+      return null
+    }
+
+    return data && isPickabooRole(data.role) ? data.role : null
+  } catch (error) {
+    console.error('Error checking admin role:', error)
+    return null
+  }
+}
+
 /**
  * Get all active pickaboo admins
  */
@@ -356,21 +657,28 @@ export async function getPickabooAdmins(): Promise<PickabooAdmin[]> {
 export async function addPickabooAdmin(
   walletAddress: string,
   adminName?: string,
-  addedBy?: string
+  addedBy?: string,
+  role: PickabooRole = 'viewer'
 ): Promise<boolean> {
   if (!supabase) return false
 
   try {
+    // Upsert so a removed admin can be added back
     const { error } = await supabase
       .from('pickaboo_admin_whitelist')
-      .insert([
-        {
-          wallet_address: walletAddress.toLowerCase(),
-          admin_name: adminName || null,
-          added_by: addedBy || null,
-          is_active: true,
-        },
-      ])
+      .upsert(
+        [
+          {
+            wallet_address: walletAddress.toLowerCase(),
+            admin_name: adminName || null,
+            added_by: addedBy || null,
+            role,
+            is_active: true,
+            updated_at: new Date().toISOString(),
+          },
+        ],
+        { onConflict: 'wallet_address' }
+      )
 
     if (error) {
       console.error('Failed to add pickaboo admin:', error)
@@ -411,96 +719,263 @@ export async function removePickabooAdmin(walletAddress: string): Promise<boolea
 }
 
 /**
- * Trading Symbol Management - Get current active trading symbol
+ * Change the role of an active pickaboo admin
  */
-export async function getCurrentTradingSymbol(agentId: string = 'agent_1'): Promise<string> {
-  if (!supabase) {
-    console.warn('Supabase not configured, using default symbol ASTERUSDT')
-    return 'ASTERUSDT'
-  }
+export async function updatePickabooAdminRole(walletAddress: string, role: PickabooRole): Promise<boolean> {
+  if (!supabase) return false
 
   try {
-    const { data, error } = await supabase
-      .from('trading_symbols')
-      .select('symbol')
-      .eq('agent_id', agentId)
-      .single()
+    const { error } = await supabase
+      .from('pickaboo_admin_whitelist')
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('wallet_address', walletAddress.toLowerCase())
+      .eq('is_active', true)
 
     if (error) {
-      if (error.code === 'PGRST116') {
-        // No rows found - return default
-        console.warn(`No trading symbol found for ${agentId}, using default ASTERUSDT`)
-        return 'ASTERUSDT'
-      }
-      console.error('Error fetching trading symbol:', error)
-      return 'ASTERUSDT'
-    }
-
-    if (!data?.symbol) {
-      return 'ASTERUSDT'
+      console.error('Failed to update pickaboo admin role:', error)
+      return false
     }
 
-    return data.symbol
+    console.log(`✅ ${walletAddress} is now a pickaboo ${role}`)
+    return true
   } catch (error) {
-    console.error('Error fetching current trading symbol:', error)
-    return 'ASTERUSDT'
+    console.error('Error updating pickaboo admin role:', error)
+    return false
   }
 }
 
 /**
- * Get trading symbol for all agents (should be the same)
+ * Store a sign-in nonce until it is consumed or expires
  */
-export async function getAllTradingSymbols(): Promise<Record<string, string>> {
-  if (!supabase) {
-    return {
-      agent_1: 'ASTERUSDT',
-      agent_2: 'ASTERUSDT',
-      agent_3: 'ASTERUSDT',
-      agent_4: 'ASTERUSDT',
-      agent_5: 'ASTERUSDT',
-    }
-  }
+export async function saveSiweNonce(nonce: string, expiresAt: Date): Promise<boolean> {
+  if (!supabase) return false
 
   try {
-    const { data, error } = await supabase
-      .from('trading_symbols')
-      .select('agent_id, symbol')
+    const { error } = await supabase
+      .from('pickaboo_siwe_nonces')
+      .insert([{ nonce, expires_at: expiresAt.toISOString() }])
 
     if (error) {
-      console.error('Error fetching trading symbols:', error)
-      return {
-        agent_1: 'ASTERUSDT',
-        agent_2: 'ASTERUSDT',
-        agent_3: 'ASTERUSDT',
-        agent_4: 'ASTERUSDT',
-        agent_5: 'ASTERUSDT',
-      }
+      console.error('Failed to save sign-in nonce:', error)
+      return false
     }
 
-    const symbolMap: Record<string, string> = {}
-    data?.forEach((row: any) => {
-      symbolMap[row.agent_id] = row.symbol
-    })
-
-    return symbolMap
+    return true
   } catch (error) {
-    console.error('Error fetching all trading symbols:', error)
-    return {
-      agent_1: 'ASTERUSDT',
-      agent_2: 'ASTERUSDT',
-      agent_3: 'ASTERUSDT',
-      agent_4: 'ASTERUSDT',
-      agent_5: 'ASTERUSDT',
-    }
+    console.error('Error saving sign-in nonce:', error)
+    return false
   }
 }
 
 /**
- * AGENT INTEGRATION - Trade Execution Logging
+ * Delete an unexpired sign-in nonce, true only for the one caller that deleted it
+ * Expired nonces are swept on the way
  */
-export interface AgentTrade {
-  agent_id: string
-  symbol: string
+export async function consumeSiweNonce(nonce: string): Promise<boolean> {
+  if (!supabase) return false
+
+  try {
+    const now = new Date().toISOString()
+    const { data, error } = await supabase
+      .from('pickaboo_siwe_nonces')
+      .delete()
+      .eq('nonce', nonce)
+      .gt('expires_at', now)
+      .select('nonce')
+
+    if (error) {
+      console.error('Failed to consume sign-in nonce:', error)
+      return false
+    }
+
+    await supabase.from('pickaboo_siwe_nonces').delete().lte('expires_at', now)
+
+    return (data?.length ?? 0) > 0
+  } catch (error) {
+    console.error('Error consuming sign-in nonce:', error)
+    return false
+  }
+}
+
+/**
+ * Admin Audit Log - append-only trail of admin actions (see lib/admin-audit.ts)
+ */
+export interface AdminAuditEntry {
+  id?: number
+  actor_wallet: string // Admin wallet (lowercase), 'cron' or 'anonymous'
+  action: string // e.g. 'prompt.update', 'admin.role_change'
+  target_agent: string | null
+  before_state: unknown
+  after_state: unknown
+  diff: Record<string, { before: unknown; after: unknown }> | null
+  metadata: Record<string, unknown>
+  created_at?: string
+}
+
+export interface AdminAuditFilters {
+  action?: string // Exact action, or a prefix ending in '.' (e.g. 'admin.')
+  targetAgent?: string
+  actor?: string
+  from?: string // ISO timestamp
+  to?: string // ISO timestamp
+  limit?: number
+  offset?: number
+}
+
+/**
+ * Append an entry to admin_audit_log
+ */
+export async function saveAdminAuditEntry(entry: AdminAuditEntry): Promise<boolean> {
+  if (!supabase) return false
+
+  try {
+    const { error } = await supabase.from('admin_audit_log').insert([entry])
+
+    if (error) {
+      console.error('Failed to save admin audit entry:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error saving admin audit entry:', error)
+    return false
+  }
+}
+
+/**
+ * Audit entries matching the filters, newest first
+ */
+export async function getAdminAuditLog(
+  filters: AdminAuditFilters = {}
+): Promise<{ entries: AdminAuditEntry[]; total: number }> {
+  if (!supabase) return { entries: [], total: 0 }
+
+  const limit = filters.limit || 100
+  const offset = filters.offset || 0
+
+  try {
+    let query = supabase
+      .from('admin_audit_log')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (filters.action) {
+      query = filters.action.endsWith('.')
+        ? query.like('action', `${filters.action}%`)
+        : query.eq('action', filters.action)
+    }
+    if (filters.targetAgent) query = query.eq('target_agent', filters.targetAgent)
+    if (filters.actor) query = query.eq('actor_wallet', filters.actor.toLowerCase())
+    if (filters.from) query = query.gte('created_at', filters.from)
+    if (filters.to) query = query.lte('created_at', filters.to)
+
+    const { data, error, count } = await query
+
+    if (error) {
+      console.error('Failed to fetch admin audit log:', error)
+      return { entries: [], total: 0 }
+    }
+
+    return { entries: data || [], total: count || 0 }
+  } catch (error) {
+    console.error('Error fetching admin audit log:', error)
+    return { entries: [], total: 0 }
+  }
+}
+
+/**
+ * Trading Symbol Management - Get current active trading symbol
+ */
+export async function getCurrentTradingSymbol(agentId: string = 'agent_1'): Promise<string> {
+  if (!supabase) {
+    console.warn('Supabase not configured, using default symbol ASTERUSDT')
+    return 'ASTERUSDT'
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('trading_symbols')
+      .select('symbol')
+      .eq('agent_id', agentId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        // No rows found - return default
+        console.warn(`No trading symbol found for ${agentId}, using default ASTERUSDT`)
+        return 'ASTERUSDT'
+      }
+      console.error('Error fetching trading symbol:', error)
+      return 'ASTERUSDT'
+    }
+
+    if (!data?.symbol) {
+      return 'ASTERUSDT'
+    }
+
+    return data.symbol
+  } catch (error) {
+    console.error('Error fetching current trading symbol:', error)
+    return 'ASTERUSDT'
+  }
+}
+
+/**
+ * Get trading symbol for all agents (should be the same)
+ */
+export async function getAllTradingSymbols(): Promise<Record<string, string>> {
+  if (!supabase) {
+    return {
+      agent_1: 'ASTERUSDT',
+      agent_2: 'ASTERUSDT',
+      agent_3: 'ASTERUSDT',
+      agent_4: 'ASTERUSDT',
+      agent_5: 'ASTERUSDT',
+    }
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('trading_symbols')
+      .select('agent_id, symbol')
+
+    if (error) {
+      console.error('Error fetching trading symbols:', error)
+      return {
+        agent_1: 'ASTERUSDT',
+        agent_2: 'ASTERUSDT',
+        agent_3: 'ASTERUSDT',
+        agent_4: 'ASTERUSDT',
+        agent_5: 'ASTERUSDT',
+      }
+    }
+
+    const symbolMap: Record<string, string> = {}
+    data?.forEach((row: any) => {
+      symbolMap[row.agent_id] = row.symbol
+    })
+
+    return symbolMap
+  } catch (error) {
+    console.error('Error fetching all trading symbols:', error)
+    return {
+      agent_1: 'ASTERUSDT',
+      agent_2: 'ASTERUSDT',
+      agent_3: 'ASTERUSDT',
+      agent_4: 'ASTERUSDT',
+      agent_5: 'ASTERUSDT',
+    }
+  }
+}
+
+/**
+ * AGENT INTEGRATION - Trade Execution Logging
+ */
+export interface AgentTrade {
+  agent_id: string
+  symbol: string
   side: 'BUY' | 'SELL'
   quantity: number
   entry_price: number
@@ -834,6 +1309,625 @@ export async function saveAgentDecision(decision: AgentDecisionLog): Promise<boo
   }
 }
 
+/**
+ * AGENT BATTLES - Seeded simulations, stored for exact replay
+ */
+export interface AgentBattleRecord {
+  id?: number
+  agent1_id: string
+  agent2_id: string
+  scenario: string
+  seed: number
+  config: Record<string, any>
+  decisions: Record<string, any>
+  result?: Record<string, any>
+  winner_id?: string
+  tournament_id?: number
+  created_at?: string
+}
+
+export async function saveAgentBattle(battle: AgentBattleRecord): Promise<number | null> {
+  if (!supabase) {
+    console.warn('Supabase not configured, skipping battle save')
+    return null
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('agent_battles')
+      .insert([battle])
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('Failed to save agent battle:', error)
+      return null
+    }
+
+    return data?.id ?? null
+  } catch (error) {
+    console.error('Error saving agent battle:', error)
+    return null
+  }
+}
+
+export async function getAgentBattle(id: number): Promise<AgentBattleRecord | null> {
+  if (!supabase) return null
+
+  try {
+    const { data, error } = await supabase
+      .from('agent_battles')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      console.error('Failed to fetch agent battle:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error fetching agent battle:', error)
+    return null
+  }
+}
+
+export async function getAgentBattles(filters: {
+  tournamentId?: number
+  agentId?: string
+  scenario?: string
+  limit?: number
+} = {}): Promise<AgentBattleRecord[]> {
+  if (!supabase) return []
+
+  try {
+    // Summary columns only; the full result stays in the battle record
+    let query = supabase
+      .from('agent_battles')
+      .select('id, agent1_id, agent2_id, scenario, seed, winner_id, tournament_id, created_at')
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 50)
+
+    if (filters.tournamentId) query = query.eq('tournament_id', filters.tournamentId)
+    if (filters.scenario) query = query.eq('scenario', filters.scenario)
+    if (filters.agentId) query = query.or(`agent1_id.eq.${filters.agentId},agent2_id.eq.${filters.agentId}`)
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Failed to fetch agent battles:', error)
+      return []
+    }
+
+    return (data || []) as AgentBattleRecord[]
+  } catch (error) {
+    console.error('Error fetching agent battles:', error)
+    return []
+  }
+}
+
+/**
+ * Whether a battle with the same sides, scenario, seed and config is already stored
+ * Null when the lookup fails
+ */
+export async function hasAgentBattle(
+  battle: Pick<AgentBattleRecord, 'agent1_id' | 'agent2_id' | 'scenario' | 'seed' | 'config'>
+): Promise<boolean | null> {
+  if (!supabase) return null
+
+  try {
+    const { data, error } = await supabase
+      .from('agent_battles')
+      .select('id')
+      .eq('agent1_id', battle.agent1_id)
+      .eq('agent2_id', battle.agent2_id)
+      .eq('scenario', battle.scenario)
+      .eq('seed', battle.seed)
+      .contains('config', battle.config)
+      .limit(1)
+
+    if (error) {
+      console.error('Failed to look up agent battle:', error)
+      return null
+    }
+
+    return (data || []).length > 0
+  } catch (error) {
+    console.error('Error looking up agent battle:', error)
+    return null
+  }
+}
+
+/**
+ * AGENT BATTLES - Tournaments and Elo ratings per agent and scenario
+ */
+export interface AgentRatingRecord {
+  agent_id: string
+  scenario: string // BattleScenario or 'overall'
+  rating: number
+  matches: number
+  wins: number
+  losses: number
+  draws: number
+  updated_at?: string
+}
+
+export async function getAgentRatings(agentIds?: string[]): Promise<AgentRatingRecord[]> {
+  if (!supabase) return []
+
+  try {
+    let query = supabase
+      .from('agent_ratings')
+      .select('*')
+      .order('rating', { ascending: false })
+
+    if (agentIds && agentIds.length > 0) query = query.in('agent_id', agentIds)
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Failed to fetch agent ratings:', error)
+      return []
+    }
+
+    return (data || []).map((row: any) => ({ ...row, rating: Number(row.rating) }))
+  } catch (error) {
+    console.error('Error fetching agent ratings:', error)
+    return []
+  }
+}
+
+export async function upsertAgentRatings(ratings: AgentRatingRecord[]): Promise<boolean> {
+  if (!supabase) {
+    console.warn('Supabase not configured, skipping rating update')
+    return false
+  }
+
+  try {
+    const { error } = await supabase
+      .from('agent_ratings')
+      .upsert(
+        ratings.map((r) => ({ ...r, updated_at: new Date().toISOString() })),
+        { onConflict: 'agent_id,scenario' }
+      )
+
+    if (error) {
+      console.error('Failed to save agent ratings:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error saving agent ratings:', error)
+    return false
+  }
+}
+
+export interface BattleTournamentRecord {
+  id?: number
+  format: 'round_robin'
+  status: 'pending' | 'running' | 'completed'
+  config: Record<string, any>
+  matches: Record<string, any>[]
+  next_match: number
+  created_by?: string
+  created_at?: string
+  updated_at?: string
+  completed_at?: string | null
+  claimed_until?: string | null // Lease on bout next_match while a batch plays it
+}
+
+export async function createBattleTournament(tournament: BattleTournamentRecord): Promise<BattleTournamentRecord | null> {
+  if (!supabase) {
+    console.warn('Supabase not configured, skipping tournament save')
+    return null
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('battle_tournaments')
+      .insert([tournament])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to create battle tournament:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error creating battle tournament:', error)
+    return null
+  }
+}
+
+export async function getBattleTournament(id: number): Promise<BattleTournamentRecord | null> {
+  if (!supabase) return null
+
+  try {
+    const { data, error } = await supabase
+      .from('battle_tournaments')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      console.error('Failed to fetch battle tournament:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error fetching battle tournament:', error)
+    return null
+  }
+}
+
+export async function getBattleTournaments(limit: number = 20): Promise<BattleTournamentRecord[]> {
+  if (!supabase) return []
+
+  try {
+    const { data, error } = await supabase
+      .from('battle_tournaments')
+      .select('id, format, status, config, next_match, created_by, created_at, updated_at, completed_at')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Failed to fetch battle tournaments:', error)
+      return []
+    }
+
+    return (data || []) as BattleTournamentRecord[]
+  } catch (error) {
+    console.error('Error fetching battle tournaments:', error)
+    return []
+  }
+}
+
+/**
+ * Lease bout `nextMatch` for one batch: only succeeds while the tournament is still at that
+ * bout and no other batch holds an unexpired claim, so two runs never play the same bout
+ */
+export async function claimTournamentMatch(id: number, nextMatch: number, leaseMs: number): Promise<boolean> {
+  if (!supabase) return false
+
+  try {
+    const now = new Date()
+    const { data, error } = await supabase
+      .from('battle_tournaments')
+      .update({ claimed_until: new Date(now.getTime() + leaseMs).toISOString(), updated_at: now.toISOString() })
+      .eq('id', id)
+      .eq('next_match', nextMatch)
+      .neq('status', 'completed')
+      .or(`claimed_until.is.null,claimed_until.lt.${now.toISOString()}`)
+      .select('id')
+
+    if (error) {
+      console.error('Failed to claim tournament bout:', error)
+      return false
+    }
+
+    return (data || []).length > 0
+  } catch (error) {
+    console.error('Error claiming tournament bout:', error)
+    return false
+  }
+}
+
+/**
+ * Update a tournament; with `expectedNextMatch` only while it is still at that bout
+ * Returns false when the update failed or the tournament moved on
+ */
+export async function updateBattleTournament(
+  id: number,
+  updates: Partial<Pick<BattleTournamentRecord, 'status' | 'matches' | 'next_match' | 'completed_at' | 'claimed_until'>>,
+  expectedNextMatch?: number
+): Promise<boolean> {
+  if (!supabase) return false
+
+  try {
+    let query = supabase
+      .from('battle_tournaments')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (expectedNextMatch !== undefined) query = query.eq('next_match', expectedNextMatch)
+
+    const { data, error } = await query.select('id')
+
+    if (error) {
+      console.error('Failed to update battle tournament:', error)
+      return false
+    }
+
+    return (data || []).length > 0
+  } catch (error) {
+    console.error('Error updating battle tournament:', error)
+    return false
+  }
+}
+
+/**
+ * AGENT BATTLES - Custom scenarios built from historical market episodes
+ */
+export interface BattleScenarioRecord {
+  id?: number
+  slug: string
+  name: string
+  description?: string | null
+  symbol: string
+  interval: string
+  start_time: string
+  end_time: string
+  candles: Record<string, any>[] // BattleCandle[] snapshot of the window
+  active: boolean
+  created_by: string
+  created_at?: string
+  updated_at?: string
+}
+
+export async function createBattleScenario(scenario: BattleScenarioRecord): Promise<BattleScenarioRecord | null> {
+  if (!supabase) {
+    console.warn('Supabase not configured, skipping battle scenario save')
+    return null
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('battle_scenarios')
+      .insert([scenario])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to create battle scenario:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error creating battle scenario:', error)
+    return null
+  }
+}
+
+export async function getBattleScenario(slug: string): Promise<BattleScenarioRecord | null> {
+  if (!supabase) return null
+
+  try {
+    const { data, error } = await supabase
+      .from('battle_scenarios')
+      .select('*')
+      .eq('slug', slug)
+      .single()
+
+    if (error) {
+      if (error.code !== 'PGRST116') {
+        console.error('Failed to fetch battle scenario:', error)
+      }
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error fetching battle scenario:', error)
+    return null
+  }
+}
+
+/**
+ * Scenario library without candles; inactive scenarios only when requested (admin view)
+ */
+export async function getBattleScenarios(includeInactive: boolean = false): Promise<BattleScenarioRecord[]> {
+  if (!supabase) return []
+
+  try {
+    let query = supabase
+      .from('battle_scenarios')
+      .select('id, slug, name, description, symbol, interval, start_time, end_time, active, created_by, created_at, updated_at')
+      .order('created_at', { ascending: false })
+
+    if (!includeInactive) query = query.eq('active', true)
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Failed to fetch battle scenarios:', error)
+      return []
+    }
+
+    return (data || []) as BattleScenarioRecord[]
+  } catch (error) {
+    console.error('Error fetching battle scenarios:', error)
+    return []
+  }
+}
+
+export async function updateBattleScenario(
+  slug: string,
+  updates: Partial<Pick<BattleScenarioRecord, 'name' | 'description' | 'active'>>
+): Promise<boolean> {
+  if (!supabase) return false
+
+  try {
+    const { error } = await supabase
+      .from('battle_scenarios')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('slug', slug)
+
+    if (error) {
+      console.error('Failed to update battle scenario:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error updating battle scenario:', error)
+    return false
+  }
+}
+
+export async function deleteBattleScenario(slug: string): Promise<boolean> {
+  if (!supabase) return false
+
+  try {
+    const { error } = await supabase
+      .from('battle_scenarios')
+      .delete()
+      .eq('slug', slug)
+
+    if (error) {
+      console.error('Failed to delete battle scenario:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error deleting battle scenario:', error)
+    return false
+  }
+}
+
+/**
+ * MARKET CANDLES - Persistent OHLCV store (see lib/candle-store.ts)
+ */
+export interface MarketCandleRecord {
+  symbol: string
+  interval: string
+  open_time: number // Epoch ms
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+  quote_volume?: number
+  trades?: number
+}
+
+const CANDLE_PAGE_SIZE = 1000 // PostgREST row limit per request
+
+/**
+ * Insert or overwrite candles; returns how many were stored
+ */
+export async function upsertMarketCandles(candles: MarketCandleRecord[]): Promise<number> {
+  if (!supabase || candles.length === 0) return 0
+
+  let stored = 0
+  try {
+    for (let i = 0; i < candles.length; i += 500) {
+      const batch = candles.slice(i, i + 500).map((c) => ({ ...c, updated_at: new Date().toISOString() }))
+      const { error } = await supabase
+        .from('market_candles')
+        .upsert(batch, { onConflict: 'symbol,interval,open_time' })
+
+      if (error) {
+        console.error('Failed to store market candles:', error)
+        return stored
+      }
+      stored += batch.length
+    }
+    return stored
+  } catch (error) {
+    console.error('Error storing market candles:', error)
+    return stored
+  }
+}
+
+/**
+ * Candles with start <= open_time <= end in time order, at most `limit` (max 1000) after `after`
+ */
+export async function getMarketCandles(
+  symbol: string,
+  interval: string,
+  range: { start: number; end: number; after?: number; limit?: number }
+): Promise<MarketCandleRecord[]> {
+  if (!supabase) return []
+
+  try {
+    let query = supabase
+      .from('market_candles')
+      .select('symbol, interval, open_time, open, high, low, close, volume, quote_volume, trades')
+      .eq('symbol', symbol)
+      .eq('interval', interval)
+      .gte('open_time', range.start)
+      .lte('open_time', range.end)
+      .order('open_time', { ascending: true })
+      .limit(Math.min(range.limit || CANDLE_PAGE_SIZE, CANDLE_PAGE_SIZE))
+
+    if (range.after !== undefined) query = query.gt('open_time', range.after)
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Failed to fetch market candles:', error)
+      return []
+    }
+
+    return (data || []).map((row: any) => ({
+      symbol: row.symbol,
+      interval: row.interval,
+      open_time: Number(row.open_time),
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      volume: Number(row.volume),
+      quote_volume: row.quote_volume !== null ? Number(row.quote_volume) : undefined,
+      trades: row.trades ?? undefined,
+    }))
+  } catch (error) {
+    console.error('Error fetching market candles:', error)
+    return []
+  }
+}
+
+/**
+ * Open times stored between start and end (inclusive), for gap detection
+ * Returns null when the store can't be read
+ */
+export async function getMarketCandleTimes(
+  symbol: string,
+  interval: string,
+  start: number,
+  end: number
+): Promise<number[] | null> {
+  if (!supabase) return null
+
+  try {
+    const times: number[] = []
+    let after = start - 1
+
+    // Page through the range; a long 1m window holds many thousands of rows
+    while (true) {
+      const { data, error } = await supabase
+        .from('market_candles')
+        .select('open_time')
+        .eq('symbol', symbol)
+        .eq('interval', interval)
+        .gt('open_time', after)
+        .lte('open_time', end)
+        .order('open_time', { ascending: true })
+        .limit(CANDLE_PAGE_SIZE)
+
+      if (error) {
+        console.error('Failed to fetch market candle times:', error)
+        return null
+      }
+
+      const page = (data || []).map((row: any) => Number(row.open_time))
+      times.push(...page)
+      if (page.length < CANDLE_PAGE_SIZE) return times
+      after = page[page.length - 1]
+    }
+  } catch (error) {
+    console.error('Error fetching market candle times:', error)
+    return null
+  }
+}
+
 /**
  * Waitlist Management Types and Functions
  */
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { getRebalanceSafeguards, planRebalance, type AgentEquity, type RebalanceSafeguards } from "./treasury-rebalancer"
+import type { RebalancePolicy } from "./supabase-client"
+
+const NOW = Date.parse("2025-06-01T12:00:00.000Z")
+const HOUR = 60 * 60 * 1000
+const safeguards: RebalanceSafeguards = { minTransfer: 10, maxTopUpTotal: 1000, mainReserve: 0 }
+
+function policy(agent_id: string, overrides: Partial<RebalancePolicy> = {}): RebalancePolicy {
+  return {
+    agent_id,
+    target_equity: 500,
+    min_equity: 400,
+    max_equity: 700,
+    top_up_every_hours: 24,
+    sweep_back_every_hours: 168,
+    enabled: true,
+    ...overrides,
+  }
+}
+
+function equity(agent_id: string, value: number | null): AgentEquity {
+  return { agent_id, agent_name: agent_id, signer: `0x${agent_id}`, equity: value }
+}
+
+describe("planRebalance", () => {
+  it("tops up agents below min and sweeps back agents above max to target", () => {
+    const plan = planRebalance(
+      [policy("a"), policy("b"), policy("c")],
+      [equity("a", 300), equity("b", 900), equity("c", 550)],
+      5000,
+      {},
+      safeguards,
+      NOW
+    )
+
+    expect(plan.transfers.map((t) => [t.agent_id, t.direction, t.amount])).toEqual([
+      ["a", "top_up", 200],
+      ["b", "sweep_back", 400],
+    ])
+    expect(plan.top_up_total).toBe(200)
+    expect(plan.sweep_back_total).toBe(400)
+    expect(plan.skipped.map((s) => s.agent_id)).toEqual(["c"])
+  })
+
+  it("funds the largest shortfall first and makes the last top-up partial", () => {
+    const plan = planRebalance(
+      [policy("a"), policy("b"), policy("c")],
+      [equity("a", 350), equity("b", 100), equity("c", 380)],
+      700,
+      {},
+      { ...safeguards, mainReserve: 100 },
+      NOW
+    )
+
+    // 600 available: b needs 400, a needs 150, c gets what is left
+    expect(plan.transfers.map((t) => [t.agent_id, t.amount])).toEqual([["b", 400], ["a", 150], ["c", 50]])
+    expect(plan.transfers[2].reason).toContain("partial")
+    expect(plan.top_up_total).toBe(600)
+  })
+
+  it("never tops up more than the per-run cap", () => {
+    const plan = planRebalance([policy("a")], [equity("a", 0)], 10_000, {}, { ...safeguards, maxTopUpTotal: 250 }, NOW)
+
+    expect(plan.top_up_total).toBe(250)
+  })
+
+  it("skips top-ups without a main account balance but still sweeps back", () => {
+    const plan = planRebalance([policy("a"), policy("b")], [equity("a", 100), equity("b", 800)], null, {}, safeguards, NOW)
+
+    expect(plan.transfers.map((t) => t.agent_id)).toEqual(["b"])
+    expect(plan.skipped).toEqual([expect.objectContaining({ agent_id: "a", reason: "Main account balance unavailable" })])
+  })
+
+  it("waits for each direction's schedule since the last transfer", () => {
+    const recent = new Date(NOW - 2 * HOUR).toISOString()
+    const old = new Date(NOW - 200 * HOUR).toISOString()
+
+    const plan = planRebalance(
+      [policy("a"), policy("b")],
+      [equity("a", 100), equity("b", 800)],
+      5000,
+      { a: { top_up: recent }, b: { sweep_back: old } },
+      safeguards,
+      NOW
+    )
+
+    expect(plan.transfers.map((t) => t.agent_id)).toEqual(["b"])
+    expect(plan.skipped[0].reason).toMatch(/^Top-up not due until/)
+  })
+
+  it("skips disabled, missing and unreadable agents and transfers below the minimum", () => {
+    const plan = planRebalance(
+      [policy("a", { enabled: false }), policy("c"), policy("d", { top_up_every_hours: 0 }), policy("e", { min_equity: 495 })],
+      [equity("a", 100), equity("b", 100), equity("c", null), equity("d", 100), equity("e", 494)],
+      5000,
+      {},
+      safeguards,
+      NOW
+    )
+
+    expect(plan.transfers).toEqual([])
+    expect(plan.skipped.map((s) => s.reason)).toEqual([
+      "No enabled policy",
+      "No enabled policy",
+      "Equity unavailable: unknown error",
+      "Top-up disabled by policy",
+      "Top-up of $6 is below the $10 minimum",
+    ])
+  })
+})
+
+describe("getRebalanceSafeguards", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("keeps an explicit 0 and falls back on unset, empty or invalid values", () => {
+    vi.stubEnv("PICKABOO_FUNDING_APPROVAL_THRESHOLD", "0")
+    vi.stubEnv("TREASURY_REBALANCE_MAX_PER_RUN", "")
+    vi.stubEnv("TREASURY_REBALANCE_MIN_TRANSFER", "abc")
+    vi.stubEnv("TREASURY_REBALANCE_MAIN_RESERVE", "250")
+
+    expect(getRebalanceSafeguards()).toEqual({ minTransfer: 10, maxTopUpTotal: 0, mainReserve: 250 })
+  })
+})
@@ -0,0 +1,383 @@
+/**
+ * Treasury Rebalancer
+ * Keeps each agent's equity inside its policy band (treasury_rebalance_policies): agents below
+ * min_equity are topped up from the main account to target_equity, and agents above max_equity
+ * are swept back to it. Each direction runs at most once per its schedule interval.
+ *
+ * planRebalance is pure; runTreasuryRebalance reads the balances, plans, and unless it is a
+ * dry run executes every transfer and logs it to funding_history
+ */
+
+import { AsterClient } from "./aster-client"
+import { getAllAgents } from "./constants/agents"
+import { envNumber } from "./utils"
+import {
+  getLastRebalanceTransfers,
+  getRebalancePolicies,
+  saveFundingHistory,
+  type RebalancePolicy,
+} from "./supabase-client"
+
+export type RebalanceDirection = "top_up" | "sweep_back"
+
+export interface AgentEquity {
+  agent_id: string
+  agent_name: string
+  signer: string | null
+  equity: number | null // null when it couldn't be read
+  error?: string
+}
+
+export interface RebalanceTransfer {
+  agent_id: string
+  agent_name: string
+  direction: RebalanceDirection
+  amount: number
+  equity: number
+  target_equity: number
+  wallet_address: string // Agent signer wallet
+  reason: string
+}
+
+export interface RebalanceSkip {
+  agent_id: string
+  agent_name: string
+  reason: string
+}
+
+export interface RebalanceSafeguards {
+  minTransfer: number // Smaller transfers aren't worth making
+  maxTopUpTotal: number // Top-ups per run never exceed this
+  mainReserve: number // Left untouched in the main account
+}
+
+export interface RebalancePlan {
+  main_balance: number | null
+  transfers: RebalanceTransfer[]
+  skipped: RebalanceSkip[]
+  top_up_total: number
+  sweep_back_total: number
+}
+
+export interface RebalanceExecution extends RebalanceTransfer {
+  status: "success" | "pending" | "failed"
+  tx_hash?: string
+  error?: string
+}
+
+export interface RebalanceReport {
+  dry_run: boolean
+  plan: RebalancePlan
+  executed: RebalanceExecution[]
+  warning?: string
+}
+
+// Agent number mapping (AGENT_<n>_API_KEY / AGENT_<n>_API_SECRET)
+const AGENT_NUMBER_MAP: Record<string, number> = {
+  claude_arbitrage: 1,
+  chatgpt_openai: 2,
+  gemini_grid: 3,
+  deepseek_ml: 4,
+  buy_and_hold: 5,
+}
+
+/**
+ * funding_history agent_id for an agent, matching what manual funding writes (agent_<n>)
+ */
+function fundingHistoryAgentId(agentId: string): string {
+  const agentNumber = AGENT_NUMBER_MAP[agentId]
+  return agentNumber ? `agent_${agentNumber}` : agentId
+}
+
+/**
+ * Safeguards from the environment
+ * A run never tops up more than the two-person approval threshold, since nobody approves it
+ */
+export function getRebalanceSafeguards(): RebalanceSafeguards {
+  const approvalThreshold = envNumber("PICKABOO_FUNDING_APPROVAL_THRESHOLD", 1000)
+  const maxPerRun = envNumber("TREASURY_REBALANCE_MAX_PER_RUN", approvalThreshold)
+
+  return {
+    minTransfer: envNumber("TREASURY_REBALANCE_MIN_TRANSFER", 10),
+    maxTopUpTotal: Math.min(maxPerRun, approvalThreshold),
+    mainReserve: envNumber("TREASURY_REBALANCE_MAIN_RESERVE", 0),
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Transfers that bring every agent with an enabled policy back inside its band
+ * Top-ups go to the largest shortfall first and are limited by the main account balance
+ * (minus the reserve) and the per-run cap; the last one may be partial
+ */
+export function planRebalance(
+  policies: RebalancePolicy[],
+  equities: AgentEquity[],
+  mainBalance: number | null,
+  lastTransfers: Record<string, { top_up?: string; sweep_back?: string }>,
+  safeguards: RebalanceSafeguards,
+  now: number = Date.now()
+): RebalancePlan {
+  const topUps: RebalanceTransfer[] = []
+  const sweeps: RebalanceTransfer[] = []
+  const skipped: RebalanceSkip[] = []
+
+  for (const agent of equities) {
+    const skip = (reason: string) => skipped.push({ agent_id: agent.agent_id, agent_name: agent.agent_name, reason })
+    const policy = policies.find(p => p.agent_id === agent.agent_id)
+
+    if (!policy || !policy.enabled) {
+      skip("No enabled policy")
+      continue
+    }
+    if (agent.equity === null) {
+      skip(`Equity unavailable: ${agent.error || "unknown error"}`)
+      continue
+    }
+    if (!agent.signer) {
+      skip("Agent signer not configured")
+      continue
+    }
+
+    let direction: RebalanceDirection
+    if (agent.equity < policy.min_equity) {
+      direction = "top_up"
+    } else if (agent.equity > policy.max_equity) {
+      direction = "sweep_back"
+    } else {
+      skip(`Within band ($${policy.min_equity}-$${policy.max_equity})`)
+      continue
+    }
+
+    const everyHours = direction === "top_up" ? policy.top_up_every_hours : policy.sweep_back_every_hours
+    const label = direction === "top_up" ? "Top-up" : "Sweep-back"
+    if (everyHours <= 0) {
+      skip(`${label} disabled by policy`)
+      continue
+    }
+
+    const last = lastTransfers[agent.agent_id]?.[direction]
+    const nextDue = last ? new Date(last).getTime() + everyHours * 60 * 60 * 1000 : 0
+    if (nextDue > now) {
+      skip(`${label} not due until ${new Date(nextDue).toISOString()}`)
+      continue
+    }
+
+    const amount = round2(Math.abs(policy.target_equity - agent.equity))
+    if (amount < safeguards.minTransfer) {
+      skip(`${label} of $${amount} is below the $${safeguards.minTransfer} minimum`)
+      continue
+    }
+
+    const transfer: RebalanceTransfer = {
+      agent_id: agent.agent_id,
+      agent_name: agent.agent_name,
+      direction,
+      amount,
+      equity: agent.equity,
+      target_equity: policy.target_equity,
+      wallet_address: agent.signer,
+      reason: direction === "top_up"
+        ? `Equity $${agent.equity} below min $${policy.min_equity}`
+        : `Equity $${agent.equity} above max $${policy.max_equity}`,
+    }
+    ;(direction === "top_up" ? topUps : sweeps).push(transfer)
+  }
+
+  // Without a main account balance there is nothing safe to top up from
+  let available = mainBalance === null
+    ? 0
+    : Math.min(mainBalance - safeguards.mainReserve, safeguards.maxTopUpTotal)
+  const transfers: RebalanceTransfer[] = []
+
+  for (const transfer of topUps.sort((a, b) => b.amount - a.amount)) {
+    const amount = round2(Math.min(transfer.amount, available))
+    if (amount < safeguards.minTransfer) {
+      skipped.push({
+        agent_id: transfer.agent_id,
+        agent_name: transfer.agent_name,
+        reason: mainBalance === null
+          ? "Main account balance unavailable"
+          : `Top-up of $${transfer.amount} exceeds what this run may move ($${round2(Math.max(available, 0))} left)`,
+      })
+      continue
+    }
+
+    transfers.push(amount < transfer.amount
+      ? { ...transfer, amount, reason: `${transfer.reason} (partial, capped by the main account or per-run limit)` }
+      : transfer)
+    available -= amount
+  }
+  transfers.push(...sweeps)
+
+  const total = (direction: RebalanceDirection) =>
+    round2(transfers.filter(t => t.direction === direction).reduce((sum, t) => sum + t.amount, 0))
+
+  return {
+    main_balance: mainBalance,
+    transfers,
+    skipped,
+    top_up_total: total("top_up"),
+    sweep_back_total: total("sweep_back"),
+  }
+}
+
+/**
+ * Aster client for an agent's own account, or null without credentials
+ */
+function createAgentClient(agentId: string, signer: string): AsterClient | null {
+  const agentNumber = AGENT_NUMBER_MAP[agentId]
+  const agentApiKey = process.env[`AGENT_${agentNumber}_API_KEY`]
+  const agentApiSecret = process.env[`AGENT_${agentNumber}_API_SECRET`]
+
+  if (!agentNumber || !agentApiKey || !agentApiSecret) return null
+
+  return new AsterClient({
+    agentId,
+    signer,
+    userAddress: signer,
+    userApiKey: agentApiKey,
+    userApiSecret: agentApiSecret,
+  })
+}
+
+/**
+ * Aster client for the main (treasury) account
+ */
+function createMainClient(): AsterClient {
+  const userAddress = process.env.ASTER_USER_ADDRESS
+  const userApiKey = process.env.ASTER_USER_API_KEY
+  const userApiSecret = process.env.ASTER_USER_SECRET_KEY
+
+  if (!userAddress || !userApiKey || !userApiSecret) {
+    throw new Error("Aster DEX credentials not configured (ASTER_USER_ADDRESS, ASTER_USER_API_KEY, or ASTER_USER_SECRET_KEY missing)")
+  }
+
+  return new AsterClient({
+    agentId: "TreasuryRebalancer",
+    signer: userAddress,
+    agentPrivateKey: "",
+    userAddress,
+    userApiKey,
+    userApiSecret,
+  })
+}
+
+/**
+ * Current equity of every agent
+ */
+export async function fetchAgentEquities(): Promise<AgentEquity[]> {
+  const equities: AgentEquity[] = []
+
+  for (const agent of getAllAgents()) {
+    const signer = agent.aster_account_id && agent.aster_account_id !== "0x" ? agent.aster_account_id : null
+    const base = { agent_id: agent.id, agent_name: agent.name, signer }
+
+    if (!signer) {
+      equities.push({ ...base, equity: null, error: "Agent signer not configured" })
+      continue
+    }
+
+    const client = createAgentClient(agent.id, signer)
+    if (!client) {
+      equities.push({ ...base, equity: null, error: "Agent API credentials not configured" })
+      continue
+    }
+
+    try {
+      const stats = await client.getStats()
+      equities.push({ ...base, equity: round2(stats.equity) })
+    } catch (error) {
+      console.error(`[Rebalance] Error fetching equity for ${agent.id}:`, error)
+      equities.push({ ...base, equity: null, error: error instanceof Error ? error.message : "Failed to fetch equity" })
+    }
+  }
+
+  return equities
+}
+
+/**
+ * Make one transfer and log it to funding_history
+ * Aster can't move funds programmatically yet, so transfers usually end up pending a manual send
+ */
+async function executeTransfer(transfer: RebalanceTransfer): Promise<RebalanceExecution> {
+  let execution: RebalanceExecution
+
+  try {
+    let result: { txHash: string; status: string }
+
+    if (transfer.direction === "top_up") {
+      result = await createMainClient().transferUSDT(transfer.wallet_address, transfer.amount)
+    } else {
+      const mainAddress = process.env.ASTER_USER_ADDRESS
+      const client = createAgentClient(transfer.agent_id, transfer.wallet_address)
+      if (!mainAddress || !client) {
+        throw new Error("Main account address or agent API credentials not configured")
+      }
+      result = await client.transferUSDT(mainAddress, transfer.amount)
+    }
+
+    execution = result.status === "requires_manual_blockchain_transfer"
+      ? { ...transfer, status: "pending", tx_hash: result.txHash, error: "Awaiting manual transfer via BNB Chain wallet" }
+      : { ...transfer, status: "success", tx_hash: result.txHash }
+  } catch (error) {
+    execution = { ...transfer, status: "failed", error: error instanceof Error ? error.message : String(error) }
+  }
+
+  await saveFundingHistory({
+    agent_id: fundingHistoryAgentId(transfer.agent_id),
+    agent_name: transfer.agent_name,
+    amount: transfer.amount,
+    status: execution.status,
+    tx_hash: execution.tx_hash,
+    error_message: execution.error,
+    dry_run: false,
+    direction: transfer.direction,
+  })
+
+  return execution
+}
+
+/**
+ * Plan a rebalance from the live balances and, unless dryRun, execute it
+ */
+export async function runTreasuryRebalance(options: { dryRun: boolean }): Promise<RebalanceReport> {
+  const policies = await getRebalancePolicies()
+  const equities = await fetchAgentEquities()
+
+  let mainBalance: number | null = null
+  try {
+    mainBalance = await createMainClient().getWalletBalance()
+  } catch (error) {
+    console.error("[Rebalance] Could not read the main account balance, skipping top-ups:", error)
+  }
+
+  // Schedules are measured from the transfer history, so a live run must not go without it
+  const history = await getLastRebalanceTransfers()
+  if (!history && !options.dryRun) {
+    throw new Error("Rebalance history unavailable, refusing a live run")
+  }
+  const warning = history ? undefined : "Rebalance history unavailable: schedules ignored, every transfer shown as due"
+
+  const lastTransfers = Object.fromEntries(
+    equities.map(e => [e.agent_id, history?.[fundingHistoryAgentId(e.agent_id)] || {}])
+  )
+  const plan = planRebalance(policies, equities, mainBalance, lastTransfers, getRebalanceSafeguards())
+
+  console.log(
+    `[Rebalance] ${options.dryRun ? "DRY-RUN: " : ""}${plan.transfers.length} transfers planned ` +
+    `($${plan.top_up_total} top-up, $${plan.sweep_back_total} sweep-back), ${plan.skipped.length} agents skipped`
+  )
+
+  if (options.dryRun) {
+    return { dry_run: true, plan, executed: [], warning }
+  }
+
+  const executed: RebalanceExecution[] = []
+  for (const transfer of plan.transfers) {
+    executed.push(await executeTransfer(transfer))
+  }
+
+  return { dry_run: false, plan, executed }
+}
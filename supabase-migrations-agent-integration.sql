@@ -119,6 +119,188 @@ CREATE INDEX IF NOT EXISTS idx_agent_decision_logs_type
 ON agent_decision_logs (decision_type, decision_timestamp DESC);
 
 
+-- 6. Portfolio Exposure (latest position per agent/symbol, shared by the portfolio risk manager)
+CREATE TABLE IF NOT EXISTS portfolio_exposure (
+  id BIGSERIAL PRIMARY KEY,
+  agent_id VARCHAR(255) NOT NULL,
+  symbol VARCHAR(20) NOT NULL,
+  trading_mode VARCHAR(10) NOT NULL DEFAULT 'live', -- live or paper
+  position_amt DECIMAL(20, 8) NOT NULL DEFAULT 0, -- Signed: positive = long, negative = short
+  mark_price DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  notional DECIMAL(20, 8) NOT NULL DEFAULT 0, -- Signed position value in USDT
+  equity DECIMAL(20, 8) NOT NULL DEFAULT 0, -- Agent account equity
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (agent_id, symbol, trading_mode)
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_exposure_mode_time 
+ON portfolio_exposure (trading_mode, updated_at DESC);
+
+
+-- 7. Portfolio Risk Controls (single row: global kill switch)
+CREATE TABLE IF NOT EXISTS portfolio_risk_controls (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  kill_switch BOOLEAN NOT NULL DEFAULT FALSE, -- Blocks every new trade that adds exposure
+  reason TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO portfolio_risk_controls (id, kill_switch) VALUES (1, FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+
+-- 8. Agent Risk State (RiskManager circuit breaker / daily limits, survives restarts)
+CREATE TABLE IF NOT EXISTS agent_risk_state (
+  id BIGSERIAL PRIMARY KEY,
+  agent_id VARCHAR(255) NOT NULL,
+  symbol VARCHAR(20) NOT NULL,
+  state JSONB NOT NULL, -- dailyTradeCount, tradeHistory, peakEquity, maxDrawdownSeen, ...
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (agent_id, symbol)
+);
+
+
+-- 9. Agent Commands (remote control from Pickaboo, polled by the trading loop)
+CREATE TABLE IF NOT EXISTS agent_commands (
+  id BIGSERIAL PRIMARY KEY,
+  agent_id VARCHAR(255) NOT NULL, -- Model ID, e.g. claude_arbitrage
+  command VARCHAR(50) NOT NULL, -- pause, resume, flatten, reload_parameters
+  payload JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, processing, done, failed
+  result TEXT, -- One line per symbol strategy
+  requested_by VARCHAR(255), -- Admin wallet
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_commands_pending 
+ON agent_commands (agent_id, status, created_at);
+
+
+-- 10. Agent Decisions (BUY/SELL/HOLD and PARAMETER_UPDATE entries written by the trading bots)
+CREATE TABLE IF NOT EXISTS agent_decisions (
+  id BIGSERIAL PRIMARY KEY,
+  agent_id VARCHAR(255) NOT NULL,
+  symbol VARCHAR(20) NOT NULL,
+  decision VARCHAR(50) NOT NULL, -- BUY, SELL, HOLD, PARAMETER_UPDATE
+  reasoning TEXT,
+  confidence DECIMAL(5, 4),
+  market_context JSONB, -- Parameter changes: key, from, to, source, clamped
+  decision_timestamp TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_decisions_agent 
+ON agent_decisions (agent_id, decision, decision_timestamp DESC);
+
+
+-- 11. Agent Battles (seeded battle simulations, replayable from config + recorded decisions)
+CREATE TABLE IF NOT EXISTS agent_battles (
+  id BIGSERIAL PRIMARY KEY,
+  agent1_id VARCHAR(255) NOT NULL,
+  agent2_id VARCHAR(255) NOT NULL,
+  scenario VARCHAR(50) NOT NULL,
+  seed BIGINT NOT NULL,
+  config JSONB NOT NULL, -- seed, scenario, symbol, steps, initialPrice, initialCapital
+  decisions JSONB NOT NULL, -- { agent1: BattleDecision[], agent2: BattleDecision[] }
+  result JSONB, -- Full BattleResult at the time of the battle
+  winner_id VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_battles_created 
+ON agent_battles (created_at DESC);
+
+
+-- 12. Battle Tournaments and Ratings (round-robin schedules, Elo per agent and scenario)
+CREATE TABLE IF NOT EXISTS battle_tournaments (
+  id BIGSERIAL PRIMARY KEY,
+  format VARCHAR(50) NOT NULL DEFAULT 'round_robin',
+  status VARCHAR(50) NOT NULL DEFAULT 'pending', -- pending, running, completed
+  config JSONB NOT NULL, -- agentIds, scenarios, rounds, seed, steps, symbol, initialPrice
+  matches JSONB NOT NULL, -- Schedule; battle_id and outcome filled in as bouts complete
+  next_match INTEGER DEFAULT 0,
+  created_by VARCHAR(255), -- Admin wallet
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE battle_tournaments
+ADD COLUMN IF NOT EXISTS claimed_until TIMESTAMP WITH TIME ZONE; -- Lease on next_match while a batch plays it
+
+ALTER TABLE agent_battles
+ADD COLUMN IF NOT EXISTS tournament_id BIGINT REFERENCES battle_tournaments(id);
+
+CREATE INDEX IF NOT EXISTS idx_agent_battles_tournament 
+ON agent_battles (tournament_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS agent_ratings (
+  id BIGSERIAL PRIMARY KEY,
+  agent_id VARCHAR(255) NOT NULL,
+  scenario VARCHAR(50) NOT NULL, -- BattleScenario, custom scenario slug or 'overall'
+  rating DECIMAL(10, 2) NOT NULL DEFAULT 1500,
+  matches INTEGER DEFAULT 0,
+  wins INTEGER DEFAULT 0,
+  losses INTEGER DEFAULT 0,
+  draws INTEGER DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (agent_id, scenario)
+);
+
+
+-- 13. Battle Scenarios (custom scenarios built from historical market episodes)
+CREATE TABLE IF NOT EXISTS battle_scenarios (
+  id BIGSERIAL PRIMARY KEY,
+  slug VARCHAR(50) NOT NULL UNIQUE, -- Used as the battle scenario id
+  name VARCHAR(255) NOT NULL, -- e.g. "LUNA collapse"
+  description TEXT,
+  symbol VARCHAR(20) NOT NULL,
+  interval VARCHAR(10) NOT NULL, -- Binance kline interval
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  candles JSONB NOT NULL, -- BattleCandle[] snapshot of the window
+  active BOOLEAN DEFAULT true, -- Inactive scenarios stay out of the arena
+  created_by VARCHAR(255), -- Admin wallet
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+
+-- 14. Market Candles (persistent OHLCV store, backfilled and gap-repaired from Binance klines)
+CREATE TABLE IF NOT EXISTS market_candles (
+  symbol VARCHAR(20) NOT NULL, -- Binance pair, e.g. BTCUSDT
+  interval VARCHAR(10) NOT NULL, -- 1m, 5m, 15m, 1h, 4h, 1d
+  open_time BIGINT NOT NULL, -- Epoch ms
+  open DECIMAL(30, 12) NOT NULL,
+  high DECIMAL(30, 12) NOT NULL,
+  low DECIMAL(30, 12) NOT NULL,
+  close DECIMAL(30, 12) NOT NULL,
+  volume DECIMAL(30, 8) NOT NULL, -- Base asset volume
+  quote_volume DECIMAL(30, 8),
+  trades INTEGER,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (symbol, interval, open_time)
+);
+
+
+-- 15. Price Checks (Binance vs Aster mark price validation before trading)
+CREATE TABLE IF NOT EXISTS price_checks (
+  id BIGSERIAL PRIMARY KEY,
+  symbol VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('ok', 'diverged', 'stale')),
+  binance_price DECIMAL(30, 12),
+  aster_price DECIMAL(30, 12),
+  deviation_percent DECIMAL(10, 4), -- (Aster - Binance) / Binance * 100
+  band_percent DECIMAL(10, 4) NOT NULL,
+  reason TEXT,
+  checked_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_checks_symbol_time ON price_checks(symbol, checked_at DESC);
+
+
 -- ========================================
 -- ENABLE ROW LEVEL SECURITY
 -- ========================================
@@ -128,6 +310,17 @@ ALTER TABLE agent_signals ENABLE ROW LEVEL SECURITY;
 ALTER TABLE agent_thinking ENABLE ROW LEVEL SECURITY;
 ALTER TABLE agent_status ENABLE ROW LEVEL SECURITY;
 ALTER TABLE agent_decision_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE portfolio_exposure ENABLE ROW LEVEL SECURITY;
+ALTER TABLE portfolio_risk_controls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_risk_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_commands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_decisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_battles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE battle_tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE battle_scenarios ENABLE ROW LEVEL SECURITY;
+ALTER TABLE market_candles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_checks ENABLE ROW LEVEL SECURITY;
 
 -- Create policies to allow service role to insert/update
 CREATE POLICY "Allow service role to manage agent_trades"
@@ -150,6 +343,50 @@ CREATE POLICY "Allow service role to manage agent_decision_logs"
 ON agent_decision_logs
 USING (true);
 
+CREATE POLICY "Allow service role to manage portfolio_exposure"
+ON portfolio_exposure
+USING (true);
+
+CREATE POLICY "Allow service role to manage portfolio_risk_controls"
+ON portfolio_risk_controls
+USING (true);
+
+CREATE POLICY "Allow service role to manage agent_risk_state"
+ON agent_risk_state
+USING (true);
+
+CREATE POLICY "Allow service role to manage agent_commands"
+ON agent_commands
+USING (true);
+
+CREATE POLICY "Allow service role to manage agent_decisions"
+ON agent_decisions
+USING (true);
+
+CREATE POLICY "Allow service role to manage agent_battles"
+ON agent_battles
+USING (true);
+
+CREATE POLICY "Allow service role to manage battle_tournaments"
+ON battle_tournaments
+USING (true);
+
+CREATE POLICY "Allow service role to manage agent_ratings"
+ON agent_ratings
+USING (true);
+
+CREATE POLICY "Allow service role to manage battle_scenarios"
+ON battle_scenarios
+USING (true);
+
+CREATE POLICY "Allow service role to manage market_candles"
+ON market_candles
+USING (true);
+
+CREATE POLICY "Allow service role to manage price_checks"
+ON price_checks
+USING (true);
+
 -- ========================================
 -- VIEWS FOR FRONTEND
 -- ========================================
@@ -67,4 +67,114 @@ CREATE INDEX IF NOT EXISTS idx_pickaboo_admin_whitelist_active ON pickaboo_admin
 ALTER TABLE pickaboo_admin_whitelist ENABLE ROW LEVEL SECURITY;
 
 -- Grant access to service role
-GRANT ALL ON pickaboo_admin_whitelist TO service_role;
\ No newline at end of file
+GRANT ALL ON pickaboo_admin_whitelist TO service_role;
+
+-- Admin roles: viewer, operator, treasurer, owner (see lib/pickaboo-roles.ts)
+-- Admins that predate roles keep full access as owners; new admins default to viewer
+ALTER TABLE pickaboo_admin_whitelist ADD COLUMN IF NOT EXISTS role VARCHAR NOT NULL DEFAULT 'owner';
+ALTER TABLE pickaboo_admin_whitelist ALTER COLUMN role SET DEFAULT 'viewer';
+ALTER TABLE pickaboo_admin_whitelist DROP CONSTRAINT IF EXISTS pickaboo_admin_whitelist_role_check;
+ALTER TABLE pickaboo_admin_whitelist ADD CONSTRAINT pickaboo_admin_whitelist_role_check
+  CHECK (role IN ('viewer', 'operator', 'treasurer', 'owner'));
+
+-- Sign-In with Ethereum nonces for the admin dashboard (see lib/pickaboo-auth.ts)
+-- Each nonce is deleted when a sign-in uses it, so a signed message can't be replayed
+CREATE TABLE IF NOT EXISTS pickaboo_siwe_nonces (
+  nonce VARCHAR PRIMARY KEY,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_pickaboo_siwe_nonces_expires ON pickaboo_siwe_nonces(expires_at);
+
+ALTER TABLE pickaboo_siwe_nonces ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON pickaboo_siwe_nonces TO service_role;
+
+-- Admin audit log: every mutating admin route appends one row (see lib/admin-audit.ts)
+-- actor_wallet is the admin's wallet, or 'cron' / 'anonymous' for routes without a session
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  actor_wallet VARCHAR NOT NULL,
+  action VARCHAR NOT NULL,
+  target_agent VARCHAR,
+  before_state JSONB,
+  after_state JSONB,
+  diff JSONB,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action ON admin_audit_log(action, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_agent ON admin_audit_log(target_agent, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON admin_audit_log(actor_wallet, created_at DESC);
+
+-- Append-only: rows can be inserted and read, never changed or deleted
+CREATE OR REPLACE FUNCTION admin_audit_log_append_only() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS admin_audit_log_no_changes ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_no_changes
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION admin_audit_log_append_only();
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+GRANT SELECT, INSERT ON admin_audit_log TO service_role;
+
+-- Two-person approval: fundings above PICKABOO_FUNDING_APPROVAL_THRESHOLD (total USDT) become
+-- proposals that a second admin with the fund permission must approve before they execute
+CREATE TABLE IF NOT EXISTS funding_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  amount_per_agent DECIMAL(20, 2) NOT NULL,
+  total_amount DECIMAL(20, 2) NOT NULL,
+  dry_run_results JSONB NOT NULL, -- What will move, shown to the approver
+  proposed_by VARCHAR NOT NULL,
+  status VARCHAR NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
+  reviewed_by VARCHAR,
+  review_note TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (reviewed_by IS NULL OR reviewed_by <> proposed_by)
+);
+
+CREATE INDEX IF NOT EXISTS idx_funding_proposals_status ON funding_proposals(status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_funding_proposals_created_at ON funding_proposals(created_at DESC);
+
+ALTER TABLE funding_proposals ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON funding_proposals TO service_role;
+
+-- Approved and rejected proposals are written to funding_history with both wallets
+ALTER TABLE funding_history ADD COLUMN IF NOT EXISTS proposal_id UUID REFERENCES funding_proposals(id);
+ALTER TABLE funding_history ADD COLUMN IF NOT EXISTS proposed_by VARCHAR;
+ALTER TABLE funding_history ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR;
+ALTER TABLE funding_history DROP CONSTRAINT IF EXISTS funding_history_status_check;
+ALTER TABLE funding_history ADD CONSTRAINT funding_history_status_check
+  CHECK (status IN ('pending', 'success', 'failed', 'rejected'));
+CREATE INDEX IF NOT EXISTS idx_funding_history_proposal_id ON funding_history(proposal_id);
+
+-- Treasury rebalancing policies, one row per agent (see lib/treasury-rebalancer.ts)
+-- Agents below min_equity are topped up to target_equity and agents above max_equity are swept
+-- back to it, at most once per top_up_every_hours / sweep_back_every_hours (0 disables that direction)
+CREATE TABLE IF NOT EXISTS treasury_rebalance_policies (
+  agent_id VARCHAR PRIMARY KEY,
+  target_equity DECIMAL(20, 2) NOT NULL,
+  min_equity DECIMAL(20, 2) NOT NULL,
+  max_equity DECIMAL(20, 2) NOT NULL,
+  top_up_every_hours INTEGER NOT NULL DEFAULT 24 CHECK (top_up_every_hours >= 0),
+  sweep_back_every_hours INTEGER NOT NULL DEFAULT 168 CHECK (sweep_back_every_hours >= 0),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by VARCHAR,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (min_equity >= 0 AND min_equity <= target_equity AND target_equity <= max_equity)
+);
+
+ALTER TABLE treasury_rebalance_policies ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON treasury_rebalance_policies TO service_role;
+
+-- Rebalance transfers are logged to funding_history with their direction
+ALTER TABLE funding_history ADD COLUMN IF NOT EXISTS direction VARCHAR CHECK (direction IN ('top_up', 'sweep_back'));
+CREATE INDEX IF NOT EXISTS idx_funding_history_direction ON funding_history(agent_id, direction, created_at DESC);
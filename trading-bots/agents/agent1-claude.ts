@@ -7,6 +7,8 @@
 import dotenv from "dotenv"
 import { ClaudeArbitrageStrategy } from "../strategies/claude-arbitrage.ts"
 import { getTradingSymbols } from "../lib/trading-symbol-config.ts"
+import { getTradingMode, getDecisionMode } from "../lib/trading-mode.ts"
+import { handleShutdownSignals } from "../lib/graceful-shutdown.ts"
 
 dotenv.config({ path: ".env.local" })
 
@@ -16,6 +18,9 @@ async function startAgent() {
     // Fetch symbols from Pickaboo dashboard (Supabase), don't override with env var
     const symbols = await getTradingSymbols(agentModelId)
 
+    // Paper mode simulates fills locally, so Aster credentials are optional
+    const tradingMode = getTradingMode(1)
+
     // Validate config
     const signerAddress = process.env.AGENT_1_SIGNER || ""
     const agentPrivateKey = process.env.AGENT_1_PRIVATE_KEY || ""
@@ -23,7 +28,7 @@ async function startAgent() {
     const userApiKey = process.env.AGENT_1_API_KEY || ""
     const userApiSecret = process.env.AGENT_1_API_SECRET || ""
 
-    if (!signerAddress || !agentPrivateKey || !userAddress || !userApiKey || !userApiSecret) {
+    if (tradingMode === "live" && (!signerAddress || !agentPrivateKey || !userAddress || !userApiKey || !userApiSecret)) {
       console.error("Missing required environment variables:")
       console.error("  - AGENT_1_SIGNER")
       console.error("  - AGENT_1_PRIVATE_KEY")
@@ -36,14 +41,17 @@ async function startAgent() {
     // Start trading bot for each symbol
     console.log(`\n🚀 Starting Claude Arbitrage Agent...`)
     console.log(`   Signer: ${signerAddress}`)
+    console.log(`   Mode: ${tradingMode === "paper" ? "📝 PAPER (simulated fills, no real orders)" : "LIVE"}`)
     console.log(`   Symbols: ${symbols.join(", ")}`)
     console.log(`   User: ${userAddress}`)
     console.log(`   Trading ${symbols.length} symbol(s) simultaneously\n`)
 
     // Create and start a strategy for each symbol
+    const strategies: ClaudeArbitrageStrategy[] = []
     const strategyPromises = symbols.map(symbol => {
       const config = {
         agentId: "Claude",
+        modelId: agentModelId,
         name: `Claude Arbitrage Agent (${symbol})`,
         signerAddress,
         agentPrivateKey,
@@ -53,16 +61,22 @@ async function startAgent() {
         symbol,
         model: "claude-3-5-sonnet",
         strategy: "arbitrage",
+        tradingMode,
+        decisionMode: getDecisionMode(1),
       }
 
       console.log(`   ✅ Starting strategy for ${symbol}`)
       const strategy = new ClaudeArbitrageStrategy(config)
+      strategies.push(strategy)
       return strategy.run().catch((error) => {
         console.error(`Fatal error for ${symbol}:`, error)
         process.exit(1)
       })
     })
 
+    // Cancel orders (and optionally flatten) on SIGTERM/SIGINT instead of dying mid-cycle
+    handleShutdownSignals(strategies)
+
     // Run all strategies in parallel
     await Promise.all(strategyPromises)
   } catch (error) {
@@ -7,6 +7,8 @@
 import dotenv from "dotenv"
 import { BuyAndHoldStrategy } from "../strategies/bh-buy-and-hold.ts"
 import { getTradingSymbols } from "../lib/trading-symbol-config.ts"
+import { getTradingMode } from "../lib/trading-mode.ts"
+import { handleShutdownSignals } from "../lib/graceful-shutdown.ts"
 
 dotenv.config({ path: ".env.local" })
 
@@ -15,6 +17,9 @@ async function startAgent() {
   // Fetch symbols from Pickaboo dashboard (Supabase), don't override with env var
   const symbols = await getTradingSymbols(agentModelId)
 
+  // Paper mode simulates fills locally, so Aster credentials are optional
+  const tradingMode = getTradingMode(5)
+
   // Validate config
   const signerAddress = process.env.AGENT_5_SIGNER || ""
   const agentPrivateKey = process.env.AGENT_5_PRIVATE_KEY || ""
@@ -22,7 +27,7 @@ async function startAgent() {
   const userApiKey = process.env.AGENT_5_API_KEY || ""
   const userApiSecret = process.env.AGENT_5_API_SECRET || ""
 
-  if (!signerAddress || !agentPrivateKey || !userAddress || !userApiKey || !userApiSecret) {
+  if (tradingMode === "live" && (!signerAddress || !agentPrivateKey || !userAddress || !userApiKey || !userApiSecret)) {
     console.error("Missing required environment variables:")
     console.error("  - AGENT_5_SIGNER")
     console.error("  - AGENT_5_PRIVATE_KEY")
@@ -35,14 +40,17 @@ async function startAgent() {
   // Start trading bot for each symbol
   console.log(`\n🚀 Starting Buy & Hold Agent...`)
   console.log(`   Signer: ${signerAddress}`)
+  console.log(`   Mode: ${tradingMode === "paper" ? "📝 PAPER (simulated fills, no real orders)" : "LIVE"}`)
   console.log(`   Symbols: ${symbols.join(", ")}`)
   console.log(`   User: ${userAddress}`)
   console.log(`   Trading ${symbols.length} symbol(s) simultaneously\n`)
 
   // Create and start a strategy for each symbol
+  const strategies: BuyAndHoldStrategy[] = []
   const strategyPromises = symbols.map(symbol => {
     const config = {
       agentId: "BuyHold",
+      modelId: agentModelId,
       name: `Buy & Hold Agent (${symbol})`,
       signerAddress,
       agentPrivateKey,
@@ -52,16 +60,21 @@ async function startAgent() {
       symbol,
       model: "gemini-1.5-pro",
       strategy: "buy_and_hold",
+      tradingMode,
     }
 
     console.log(`   ✅ Starting strategy for ${symbol}`)
     const strategy = new BuyAndHoldStrategy(config)
+    strategies.push(strategy)
     return strategy.run().catch((error) => {
       console.error(`Fatal error for ${symbol}:`, error)
       process.exit(1)
     })
   })
 
+  // Cancel orders (and optionally flatten) on SIGTERM/SIGINT instead of dying mid-cycle
+  handleShutdownSignals(strategies)
+
   // Run all strategies in parallel
   await Promise.all(strategyPromises)
 }
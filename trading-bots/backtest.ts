@@ -0,0 +1,133 @@
+/**
+ * Backtest Runner
+ * Replays a stored candle file through a strategy with a simulated account
+ * Usage: npm run backtest -- --strategy gpt4-momentum --symbol ETHUSDT --candles ./data/ETHUSDT-1h.json
+ *
+ * Options:
+ *   --strategy   claude-arbitrage | gpt4-momentum | gemini-grid | deepseek-ml | bh-buy-and-hold
+ *   --symbol     Trading symbol (e.g., ETHUSDT)
+ *   --candles    JSON file containing an array of CandleData ({ time, open, high, low, close, volume })
+ *   --interval   Instead of --candles: load the candle store range for this interval (needs Supabase)
+ *   --from       Start of the stored range (ISO date or epoch ms)
+ *   --to         End of the stored range (default: now)
+ *   --capital    Starting balance in USDT (default: 1000)
+ *   --leverage   Max leverage for margin checks (default: 5)
+ *   --fee        Taker fee rate (default: 0.00035)
+ *   --slippage   Market order slippage in percent (default: 0.05)
+ *   --out        Write the full result (equity curve + trades) to this JSON file
+ *   --verbose    Show strategy logs
+ */
+
+import { writeFileSync } from "fs"
+import { runBacktest, loadCandles, loadStoredCandles, type StrategyFactory, type BacktestOptions } from "./lib/backtester.ts"
+import { ClaudeArbitrageStrategy } from "./strategies/claude-arbitrage.ts"
+import { ChatGPTOpenAIStrategy } from "./strategies/gpt4-momentum.ts"
+import { GeminiGridStrategy } from "./strategies/gemini-grid.ts"
+import { DeepseekMLStrategy } from "./strategies/deepseek-ml.ts"
+import { BuyAndHoldStrategy } from "./strategies/bh-buy-and-hold.ts"
+
+const STRATEGIES: Record<string, { agentId: string; create: StrategyFactory }> = {
+  "claude-arbitrage": { agentId: "Claude", create: (config, client) => new ClaudeArbitrageStrategy(config, client) },
+  "gpt4-momentum": { agentId: "GPT", create: (config, client) => new ChatGPTOpenAIStrategy(config, client) },
+  "gemini-grid": { agentId: "Gemini", create: (config, client) => new GeminiGridStrategy(config, client) },
+  "deepseek-ml": { agentId: "DeepSeek", create: (config, client) => new DeepseekMLStrategy(config, client) },
+  "bh-buy-and-hold": { agentId: "BuyHold", create: (config, client) => new BuyAndHoldStrategy(config, client) },
+}
+
+interface CommandLineArgs {
+  strategy?: string
+  symbol?: string
+  candles?: string
+  interval?: string
+  from?: string
+  to?: string
+  capital?: number
+  leverage?: number
+  fee?: number
+  slippage?: number
+  out?: string
+  verbose: boolean
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): CommandLineArgs {
+  const args: CommandLineArgs = {
+    verbose: false,
+  }
+
+  process.argv.slice(2).forEach((arg, i, arr) => {
+    const value = arr[i + 1]
+    if (arg === '--strategy' && value) args.strategy = value
+    if (arg === '--symbol' && value) args.symbol = value.toUpperCase()
+    if (arg === '--candles' && value) args.candles = value
+    if (arg === '--interval' && value) args.interval = value
+    if (arg === '--from' && value) args.from = value
+    if (arg === '--to' && value) args.to = value
+    if (arg === '--capital' && value) args.capital = parseFloat(value)
+    if (arg === '--leverage' && value) args.leverage = parseFloat(value)
+    if (arg === '--fee' && value) args.fee = parseFloat(value)
+    if (arg === '--slippage' && value) args.slippage = parseFloat(value)
+    if (arg === '--out' && value) args.out = value
+    if (arg === '--verbose') args.verbose = true
+  })
+
+  return args
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    const args = parseArgs()
+    const entry = args.strategy ? STRATEGIES[args.strategy] : undefined
+
+    if (!entry || !args.symbol || (!args.candles && !(args.interval && args.from))) {
+      console.error('Usage: npm run backtest -- --strategy <name> --symbol <SYMBOL> (--candles <file.json> | --interval 1h --from <date> [--to <date>]) [--capital 1000] [--out result.json]')
+      console.error(`Strategies: ${Object.keys(STRATEGIES).join(', ')}`)
+      process.exit(1)
+    }
+
+    const candles = args.candles
+      ? loadCandles(args.candles)
+      : await loadStoredCandles(args.symbol, args.interval!, args.from!, args.to)
+    const options: BacktestOptions = {
+      agentId: entry.agentId,
+      strategyName: args.strategy,
+      symbol: args.symbol,
+      initialCapital: args.capital,
+      leverage: args.leverage,
+      feeRate: args.fee,
+      slippagePercent: args.slippage,
+      verbose: args.verbose,
+    }
+
+    console.log(`\n🧪 Backtesting ${args.strategy} on ${args.symbol} (${candles.length} candles)\n`)
+    const result = await runBacktest(entry.create, candles, options)
+    const { metrics } = result
+
+    console.log('='.repeat(70))
+    console.log(`📅 Period:        ${new Date(result.startTime).toISOString()} → ${new Date(result.endTime).toISOString()}`)
+    console.log(`💰 Equity:        $${result.initialCapital.toFixed(2)} → $${result.finalEquity.toFixed(2)} (${metrics.totalReturnPercent.toFixed(2)}%)`)
+    console.log(`📉 Max Drawdown:  ${metrics.maxDrawdown.toFixed(2)}%`)
+    console.log(`📊 Volatility:    ${metrics.volatility.toFixed(2)}%`)
+    console.log(`⚖️  Sharpe:        ${metrics.sharpeRatio.toFixed(3)}`)
+    console.log(`⚖️  Sortino:       ${metrics.sortinoRatio.toFixed(3)}`)
+    console.log(`⚖️  Calmar:        ${metrics.calmarRatio.toFixed(3)}`)
+    console.log(`🔁 Trades:        ${metrics.totalTrades} (win rate ${(metrics.winRate * 100).toFixed(1)}%, fees $${metrics.totalFees.toFixed(2)})`)
+    console.log(`🚦 Signals:       BUY ${result.signals.buy} / SELL ${result.signals.sell} / HOLD ${result.signals.hold}`)
+    console.log('='.repeat(70) + '\n')
+
+    if (args.out) {
+      writeFileSync(args.out, JSON.stringify(result, null, 2))
+      console.log(`✅ Equity curve and trade list written to ${args.out}`)
+    }
+  } catch (error) {
+    console.error('Fatal error:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -10,25 +10,62 @@
  * - Decision history
  */
 
-import { AsterClient } from "./lib/aster-client.ts"
+import { AsterClient, type ExchangeClient, type AsterPosition } from "./lib/aster-client.ts"
 import { BinancePriceClient } from "./lib/binance-price-client"
+import { CandleFeed, getCandleFeed } from "./lib/candle-feed.ts"
+import { getMarketDataStream, type MarketDataStream } from "./lib/market-data-stream.ts"
+import { getPriceValidator, type PriceValidator, type PriceCheck } from "./lib/price-validator.ts"
+import type { CandleData, OrderBookData } from "./lib/market-analyzer.ts"
+import { getPaperExchangeClient } from "./lib/paper-exchange-client.ts"
+import type { TradingMode, DecisionMode } from "./lib/trading-mode.ts"
+import { BracketManager, type BracketSide, type BracketOutcome } from "./lib/bracket-manager.ts"
+import { PortfolioRiskManager, getPortfolioRiskManager } from "./lib/portfolio-risk.ts"
+import { RiskManager, type RiskConfig, type PerpetualRisk } from "./lib/risk-manager.ts"
+import { cleanupSymbol } from "./lib/position-cleanup.ts"
+import type { ShutdownOptions } from "./lib/graceful-shutdown.ts"
+import { AgentCommandChannel, getAgentCommandChannel, type AgentCommandSubscription } from "./lib/agent-commands.ts"
+import { getAgentProviderId, completeDecision } from "./lib/llm-client.ts"
+import { buildDecisionPrompt, parseDecision } from "./lib/llm-decision.ts"
+import {
+  clampAgentParameters,
+  fetchAgentParameters,
+  type AgentParameters,
+  type ParameterChange,
+} from "./lib/agent-parameters.ts"
+import { getAgentPrompt } from "./lib/agent-prompt-config.ts"
+import {
+  getUserDataStream,
+  type UserDataStream,
+  type OrderUpdateEvent,
+  type AccountUpdateEvent,
+} from "./lib/user-data-stream.ts"
 import { 
   saveAgentTrade, 
+  updateAgentTradeByOrderId,
   saveAgentSignal, 
   saveAgentThinking,
   updateAgentStatus,
   saveAgentDecision,
   saveExitPlan,
+  closeExitPlan,
   saveAgentChatMessage,
+  saveAgentRiskState,
+  getAgentRiskState,
+  getLastPauseCommand,
   type AgentTrade,
   type AgentSignal,
   type AgentThinking,
   type AgentStatusRecord,
   type AgentDecisionLog,
   type ExitPlan,
-  type AgentChatMessage
+  type AgentChatMessage,
+  type AgentCommand
 } from "./lib/supabase-client.ts"
 
+const PRICE_REJECTION_LOG_INTERVAL_MS = 60 * 1000
+const PARAMETER_REFRESH_INTERVAL_MS = Number(process.env.PARAMETER_REFRESH_INTERVAL_MS) || 15 * 60 * 1000
+const LLM_DECISION_TIMEOUT_MS = Number(process.env.LLM_DECISION_TIMEOUT_MS) || 20000
+
 /**
  * NOTE: Multi-symbol support
  * Each agent can trade multiple symbols (configured in Pickaboo dashboard)
@@ -40,6 +77,7 @@ import {
 
 export interface AgentConfig {
   agentId: string // Agent ID (e.g., "Claude", "GPT", "Gemini")
+  modelId?: string // Dashboard model ID (e.g., "claude_arbitrage"), enables remote commands and parameter reloads
   name: string
   signerAddress: string
   agentPrivateKey: string // Agent's private key
@@ -50,8 +88,15 @@ export interface AgentConfig {
   model: string // AI model name (e.g., "claude-3-5-sonnet")
   strategy: string // Strategy name (e.g., "arbitrage")
   initialCapital?: number // Initial capital for agent (default: 1000)
+  tradingMode?: TradingMode // "live" places real Aster orders, "paper" simulates fills (default: live)
+  decisionMode?: DecisionMode // "llm" asks the agent's model for each signal, "indicator" uses generateSignal only (default: indicator)
+  persist?: boolean // Write trades/signals/status to Supabase (default: true in live mode, false in paper mode and backtests)
+  clock?: () => number // Time source in ms (default: Date.now, backtests replay candle time)
+  logger?: StrategyLogger // Where strategy output goes (default: console, backtests pass a quiet one)
 }
 
+export type StrategyLogger = Pick<Console, "log" | "warn" | "error">
+
 export interface TradeSignal {
   action: "BUY" | "SELL" | "HOLD"
   quantity: number
@@ -74,35 +119,111 @@ export interface StrategyState {
 }
 
 export abstract class BaseStrategy {
-  protected client: AsterClient
+  protected client: ExchangeClient
   protected priceClient: BinancePriceClient
+  protected candleFeed: CandleFeed // Real 1m/5m/1h candles for this symbol
+  protected marketData: MarketDataStream | null = null // Streamed Binance trades/book/klines; null in backtests
+  protected binanceSymbol: string
+  protected priceValidator: PriceValidator | null = null // Binance vs Aster mark price check; null in backtests
+  protected lastPriceCheck: PriceCheck | null = null // Result for the current cycle
+  private lastPriceRejectionLog = new Map<string, number>() // status -> time
   protected config: AgentConfig
+  protected logger: StrategyLogger
   protected state: StrategyState
+  protected brackets: BracketManager
+  protected portfolioRisk: PortfolioRiskManager
+  protected lastPrice = 0
+  protected currentPosition: AsterPosition | null = null // This symbol's position (or leverage setting) this cycle
+  protected recentPrices: number[] = [] // Last closes, given to the LLM in decision mode
+  private persistedRiskManager: RiskManager | null = null // Strategy's RiskManager, persisted per agent/symbol
+  private lastSavedRiskState = ""
+  protected commands: AgentCommandChannel | null = null // Remote pause/resume/flatten/reload from Pickaboo
+  private commandSubscription: AgentCommandSubscription | null = null
+  protected paused = false
+  protected pauseReason = ''
+  protected customPrompt?: string // Latest prompt from the Pickaboo dashboard (reload_parameters)
+  private lastParameterRefresh = 0
+  private stopRequested = false
+  private loopFinished: Promise<void> | null = null
+  private wakeLoop: (() => void) | null = null
+  protected userDataStream: UserDataStream | null = null // Live Aster only; paper/backtests poll
+  protected pendingTrades = new Set<string>() // Logged orders still waiting on fills
+  protected recentOrderUpdates = new Map<string, OrderUpdateEvent>() // Latest event per orderId (bounded)
   protected scanIntervalMs: number = 15000 // Check every 15 seconds (reduced from 5s to stay below API rate limits)
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, client?: ExchangeClient) {
     this.config = config
-    this.client = new AsterClient({
-      agentId: config.agentId,
-      signer: config.signerAddress,
-      agentPrivateKey: config.agentPrivateKey,
-      userAddress: config.userAddress,
-      userApiKey: config.userApiKey,
-      userApiSecret: config.userApiSecret,
-    })
+    this.logger = config.logger ?? console
+    if (client) {
+      this.client = client
+    } else if (config.tradingMode === "paper") {
+      // Shared per agent so all symbol strategies trade one paper account
+      this.client = getPaperExchangeClient(config.agentId, config.initialCapital)
+    } else {
+      this.client = new AsterClient({
+        agentId: config.agentId,
+        signer: config.signerAddress,
+        agentPrivateKey: config.agentPrivateKey,
+        userAddress: config.userAddress,
+        userApiKey: config.userApiKey,
+        userApiSecret: config.userApiSecret,
+      })
+    }
     this.priceClient = new BinancePriceClient()
+    // Backtests roll an isolated feed from the replayed prices; agents share one seeded from Binance
+    this.binanceSymbol = config.symbol.endsWith("USDT") ? config.symbol : `${config.symbol}USDT`
+    this.candleFeed = client ? new CandleFeed(this.binanceSymbol) : getCandleFeed(this.binanceSymbol)
+
+    // Prices, depth and klines come over one shared Binance WebSocket (MARKET_DATA_STREAM=false to poll REST)
+    if (!client && process.env.MARKET_DATA_STREAM !== "false") {
+      this.marketData = getMarketDataStream()
+      this.marketData.addSymbol(this.binanceSymbol)
+    }
+
+    // Orders fill on Aster, so decisions priced from Binance are checked against the Aster mark price (PRICE_VALIDATION=false to skip)
+    if (!client && process.env.PRICE_VALIDATION !== "false") {
+      this.priceValidator = getPriceValidator()
+    }
+    this.brackets = new BracketManager(this.client, {
+      symbol: config.symbol,
+      logPrefix: `[${config.name}]`,
+      logger: this.logger,
+      onClose: (bracket, outcome) => this.recordExitOutcome(bracket.side, outcome),
+    })
+    // Injected clients (backtests) get an isolated portfolio; agents share one through Supabase
+    this.portfolioRisk = client
+      ? new PortfolioRiskManager({ shared: false }, config.tradingMode)
+      : getPortfolioRiskManager(config.tradingMode)
     this.state = {
       lastSignalTime: 0,
       orders: new Map(),
     }
+
+    // Fills, position and balance changes are pushed over the user data stream (USER_DATA_STREAM=false to poll instead)
+    if (this.client instanceof AsterClient && process.env.USER_DATA_STREAM !== "false") {
+      this.userDataStream = getUserDataStream(config.agentId, this.client)
+    }
+
+    // Each LLM decision is a paid API call that can take seconds, so scan less often
+    if (config.decisionMode === 'llm') {
+      this.scanIntervalMs = Number(process.env.LLM_SCAN_INTERVAL_MS) || 60000
+    }
+
+    // Backtests (injected client) never take remote commands
+    if (config.modelId && !client) {
+      this.commands = getAgentCommandChannel(config.modelId)
+    }
   }
 
   /**
    * Main loop - called periodically
    */
   async run(): Promise<void> {
+    let finishLoop = () => {}
+    this.loopFinished = new Promise((resolve) => (finishLoop = resolve))
+
     try {
-      console.log(`[${this.config.name}] Starting trading loop...`)
+      this.logger.log(`[${this.config.name}] Starting trading loop...`)
       
       // Update status to running
       await this.updateStatus('running', 'Trading loop started')
@@ -110,70 +231,187 @@ export abstract class BaseStrategy {
       // Sync with server time before making authenticated requests
       await this.client.syncServerTime()
 
-      while (true) {
+      // Restore circuit breaker / daily limit state from before a restart
+      await this.restoreRiskState()
+
+      // Start with real candle history instead of an empty price history
+      await this.candleFeed.seed()
+      this.seedHistory(this.candleFeed.getCandles("1m"))
+      this.marketData?.start()
+
+      // Subscribe to order/account events before the first trade
+      await this.startUserDataStream()
+
+      this.commandSubscription = this.commands?.subscribe((command) => this.handleCommand(command)) || null
+
+      // A pause or flatten from before the restart stays in effect until resumed
+      await this.restorePauseState()
+
+      // Start from the learned parameters instead of the hard-coded defaults
+      if (this.config.modelId) {
+        await this.reloadParameters('startup')
+      }
+
+      while (!this.stopRequested) {
         try {
-          // Get current market and account data
-          const stats = await this.client.getAccountInfo()
-          
-          // Fetch real-time price from Binance
-          // Normalize symbol format: add USDT suffix if missing (FLOKI → FLOKIUSDT, ETHUSDT → ETHUSDT)
-          const binanceSymbol = this.config.symbol.endsWith('USDT') ? this.config.symbol : `${this.config.symbol}USDT`
-          const marketPrice = await this.priceClient.getMarketPrice(binanceSymbol)
-          const positionsData = await this.client.getPositions()
-
-          // DEBUG: Verify correct symbol and price
-          console.log(`[${this.config.name}] 📊 Fetching real-time price for ${this.config.symbol} (Binance: ${binanceSymbol}) at $${marketPrice.price}`)
-          if (marketPrice.symbol !== binanceSymbol) {
-            console.warn(`[${this.config.name}] ⚠️ SYMBOL MISMATCH! Requested: ${binanceSymbol}, Got: ${marketPrice.symbol}`)
-          }
+          // Apply pause/resume/flatten/reload commands from the dashboard
+          await this.commandSubscription?.poll()
 
-          // Log thinking/analysis process
-          await this.logThinking('analysis', `Analyzing ${this.config.symbol} at $${marketPrice.price} (from Binance)`, {
-            price: parseFloat(marketPrice.price),
-            equity: stats.equity,
-            openPositions: positionsData.positions.length,
-            priceSource: 'binance',
-          })
-
-          // Generate trading signal
-          const signal = await this.generateSignal(
-            parseFloat(marketPrice.price),
-            stats,
-            positionsData.positions
-          )
+          // Pick up new learned parameters (PARAMETER_REFRESH_INTERVAL_MS, default 15 minutes)
+          if (this.config.modelId && Date.now() - this.lastParameterRefresh >= PARAMETER_REFRESH_INTERVAL_MS) {
+            await this.reloadParameters('scheduled refresh')
+          }
 
-          // Log signal generation
-          await this.logSignal(signal, marketPrice.price)
+          if (this.paused) {
+            await this.updateStatus('paused', this.pauseReason)
+            await this.waitForNextScan(this.scanIntervalMs)
+            continue
+          }
 
-          // Debug: Show why trades are/aren't being triggered
-          if (signal.action === "HOLD") {
-            console.log(`[${this.config.name}] 📊 Signal: HOLD - Reason: ${signal.reason}`)
-          } else {
-            console.log(`[${this.config.name}] 🚀 Signal: ${signal.action} - Qty: ${signal.quantity}, Confidence: ${signal.confidence}%`)
+          // Re-sync rolled candles with Binance klines (every CANDLE_RESYNC_INTERVAL_MS) unless klines are streaming
+          if (!this.marketData?.isConnected()) {
+            await this.candleFeed.refresh()
           }
 
-          // Execute trade if signal is generated
-          if (signal.action !== "HOLD") {
-            await this.executeTrade(signal)
+          // Streamed price when fresh, otherwise fetch real-time price from Binance REST
+          const binanceSymbol = this.binanceSymbol
+          const streamed = this.marketData?.getPrice(binanceSymbol) ?? null
+          let currentPrice = streamed?.price ?? null
+          let priceTime = streamed?.time ?? Date.now()
+          let priceSource = 'binance-ws'
+
+          if (currentPrice === null) {
+            const marketPrice = await this.priceClient.getMarketPrice(binanceSymbol)
+            priceSource = 'binance'
+            priceTime = Date.now()
+
+            // DEBUG: Verify correct symbol and price
+            this.logger.log(`[${this.config.name}] 📊 Fetching real-time price for ${this.config.symbol} (Binance: ${binanceSymbol}) at $${marketPrice.price}`)
+            if (marketPrice.symbol !== binanceSymbol) {
+              this.logger.warn(`[${this.config.name}] ⚠️ SYMBOL MISMATCH! Requested: ${binanceSymbol}, Got: ${marketPrice.symbol}`)
+            }
+            currentPrice = parseFloat(marketPrice.price)
           }
 
+          // A stale price or one the Aster market disagrees with holds entries (see executeTrade);
+          // the cycle still runs so exits and stops keep working
+          this.lastPriceCheck = this.priceValidator
+            ? await this.priceValidator.validate(binanceSymbol, currentPrice, priceTime, this.shouldPersist())
+            : null
+
+          const signal = await this.step(currentPrice, priceSource)
+
           // Update heartbeat
           await this.updateStatus('running', `Last analysis: ${signal.action}`)
 
           // Wait before next scan
-          await this.sleep(this.scanIntervalMs)
+          await this.waitForNextScan(this.scanIntervalMs)
         } catch (error) {
-          console.error(`[${this.config.name}] Error in trading loop:`, error)
+          this.logger.error(`[${this.config.name}] Error in trading loop:`, error)
           await this.logThinking('error', `Error in trading loop: ${error instanceof Error ? error.message : 'Unknown error'}`)
           await this.updateStatus('error', `Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-          await this.sleep(this.scanIntervalMs)
+          await this.waitForNextScan(this.scanIntervalMs)
         }
       }
+
+      this.logger.log(`[${this.config.name}] Trading loop stopped`)
     } catch (error) {
-      console.error(`[${this.config.name}] Fatal error:`, error)
+      this.logger.error(`[${this.config.name}] Fatal error:`, error)
       await this.updateStatus('error', `Fatal error: ${error instanceof Error ? error.message : 'Unknown error'}`)
       process.exit(1)
+    } finally {
+      this.commandSubscription?.unsubscribe()
+      this.commandSubscription = null
+      finishLoop()
+    }
+  }
+
+  /**
+   * Stop the trading loop, cancel this symbol's resting orders and optionally flatten
+   * The current cycle is allowed to finish first; no new positions are opened afterwards
+   */
+  async shutdown(options: ShutdownOptions = {}): Promise<void> {
+    if (this.stopRequested) return
+    this.stopRequested = true
+    this.wakeLoop?.()
+    await this.loopFinished
+
+    const reason = options.reason || 'Shutdown requested'
+    this.logger.log(`[${this.config.name}] 🛑 Shutting down (${reason})${options.flatten ? ', flattening position' : ''}...`)
+
+    const summary = `${reason}: ${await this.cleanupOrders(!!options.flatten)}`
+
+    await this.userDataStream?.stop()
+    await this.saveRiskState()
+    await this.updateStatus(options.flatten ? 'idle' : 'paused', summary)
+    this.logger.log(`[${this.config.name}] ✓ Stopped: ${summary}`)
+  }
+
+  /**
+   * Run one decision cycle at the given price: read account state,
+   * generate a signal and execute it against the exchange client.
+   * Used by the live loop and by the backtester.
+   */
+  async step(currentPrice: number, priceSource: string): Promise<TradeSignal> {
+    // Without a live stream, poll brackets and pending trades for fills since the last cycle
+    if (!this.userDataStream?.isConnected()) {
+      await this.brackets.sync()
+      await this.reconcilePendingTrades()
+    }
+
+    // Get current account data
+    const stats = await this.client.getAccountInfo()
+    const positionsData = await this.client.getPositions()
+    this.lastPrice = currentPrice
+    this.candleFeed.update(currentPrice, this.now())
+    this.recentPrices.push(currentPrice)
+    if (this.recentPrices.length > 20) this.recentPrices.shift()
+
+    // Report this symbol's exposure for the cross-agent portfolio limits
+    const position = positionsData.positions.find((p) => p.symbol === this.config.symbol)
+    this.currentPosition = position || null
+    await this.portfolioRisk.updateExposure(
+      this.config.agentId,
+      this.config.symbol,
+      Number(position?.positionAmt) || 0,
+      currentPrice,
+      Number(stats.equity) || 0,
+      this.now()
+    )
+
+    // Log thinking/analysis process
+    await this.logThinking('analysis', `Analyzing ${this.config.symbol} at $${currentPrice} (from ${priceSource})`, {
+      price: currentPrice,
+      equity: stats.equity,
+      openPositions: positionsData.positions.length,
+      priceSource,
+    })
+
+    // Generate trading signal (indicators, or the agent's LLM in decision mode)
+    const signal = await this.decideSignal(
+      currentPrice,
+      stats,
+      positionsData.positions
+    )
+
+    // Log signal generation
+    await this.logSignal(signal, currentPrice.toString())
+
+    // Debug: Show why trades are/aren't being triggered
+    if (signal.action === "HOLD") {
+      this.logger.log(`[${this.config.name}] 📊 Signal: HOLD - Reason: ${signal.reason}`)
+    } else {
+      this.logger.log(`[${this.config.name}] 🚀 Signal: ${signal.action} - Qty: ${signal.quantity}, Confidence: ${signal.confidence}%`)
     }
+
+    // Execute trade if signal is generated
+    if (signal.action !== "HOLD") {
+      await this.executeTrade(signal)
+    }
+
+    await this.saveRiskState()
+
+    return signal
   }
 
   /**
@@ -186,18 +424,183 @@ export abstract class BaseStrategy {
     positions: any[]
   ): Promise<TradeSignal>
 
+  /**
+   * Streamed top-of-book depth for this symbol, or null when not streaming or stale
+   */
+  protected getOrderBook(): OrderBookData | null {
+    return this.marketData?.getOrderBook(this.binanceSymbol) ?? null
+  }
+
+  /**
+   * Prefill price history from the seeded 1m candles so indicators work right after a restart
+   * Strategies with their own history extend this
+   */
+  protected seedHistory(candles: CandleData[]): void {
+    this.recentPrices = candles.slice(-20).map((c) => c.close)
+  }
+
+  /**
+   * Indicator signal, or in LLM decision mode the model's validated and risk-clamped signal
+   * Falls back to the indicator signal on timeout, API errors or invalid output
+   */
+  protected async decideSignal(currentPrice: number, stats: any, positions: any[]): Promise<TradeSignal> {
+    // Always run the indicators: they keep their price history and are the fallback
+    const indicatorSignal = await this.generateSignal(currentPrice, stats, positions)
+
+    if (this.config.decisionMode !== 'llm' || !this.config.modelId) {
+      return indicatorSignal
+    }
+
+    const position = positions.find((p) => p.symbol === this.config.symbol)
+    const positionAmt = Number(position?.positionAmt) || 0
+    const prompt = buildDecisionPrompt({
+      agentName: this.config.name,
+      symbol: this.config.symbol,
+      price: currentPrice,
+      recentPrices: this.recentPrices,
+      equity: Number(stats.equity) || 0,
+      position: positionAmt !== 0 ? {
+        quantity: positionAmt,
+        entryPrice: Number(position.entryPrice) || 0,
+        unrealizedProfit: Number(position.unrealizedProfit) || 0,
+        leverage: Number(position.leverage) || 1,
+      } : undefined,
+      exitPlans: this.brackets.getBrackets().map((b) => ({
+        side: b.side,
+        stopLoss: b.stopLoss,
+        takeProfit: b.takeProfit,
+        openedAt: b.openedAt,
+      })),
+      indicatorSignal,
+      customPrompt: this.customPrompt,
+    })
+
+    let provider: string | undefined
+    let response: Awaited<ReturnType<typeof completeDecision>> | undefined
+    let errors: string[] = []
+    let decided: TradeSignal | undefined
+    let adjustments: string[] = []
+
+    try {
+      provider = getAgentProviderId(this.config.modelId)
+      response = await completeDecision(provider, prompt, LLM_DECISION_TIMEOUT_MS)
+      const parsed = parseDecision(response.text, currentPrice)
+      errors = parsed.errors
+
+      if (parsed.signal) {
+        const clamped = (this.persistedRiskManager || new RiskManager()).clampSignal(parsed.signal, {
+          equity: Number(stats.equity) || 0,
+          price: currentPrice,
+          leverage: Number(position?.leverage) || 1,
+          positionAmt,
+        })
+        adjustments = clamped.adjustments
+        decided = { ...clamped.signal, reason: `[LLM] ${clamped.signal.reason}` }
+      }
+    } catch (error) {
+      errors = [error instanceof Error ? error.message : String(error)]
+    }
+
+    const fallback = !decided
+    const summary = fallback
+      ? `LLM decision failed (${errors.join('; ')}), using indicator signal ${indicatorSignal.action}`
+      : `LLM decided ${decided!.action}${decided!.quantity ? ` ${decided!.quantity}` : ''} (confidence ${decided!.confidence})` +
+        `${adjustments.length > 0 ? `, risk adjusted: ${adjustments.join(', ')}` : ''}`
+
+    if (fallback) {
+      this.logger.warn(`[${this.config.name}] ⚠️ ${summary}`)
+    } else {
+      this.logger.log(`[${this.config.name}] 🤖 ${summary}`)
+    }
+
+    await this.logThinking('llm_decision', summary, {
+      provider,
+      model: response?.model,
+      latencyMs: response?.latencyMs,
+      attempts: response?.attempts,
+      prompt,
+      response: response?.text,
+      errors,
+      adjustments,
+      fallback,
+      signal: decided || indicatorSignal,
+      indicatorSignal,
+    })
+
+    return decided || indicatorSignal
+  }
+
   /**
    * Execute the trade
    */
   protected async executeTrade(signal: TradeSignal): Promise<void> {
+    if (this.stopRequested) {
+      this.logger.log(`[${this.config.name}] Shutdown in progress, skipping ${signal.action} signal`)
+      return
+    }
+
     try {
-      console.log(
+      this.logger.log(
         `[${this.config.name}] Executing ${signal.action} signal: ${signal.reason} (Confidence: ${signal.confidence})`
       )
 
+      // Price check holds entries only; orders that reduce the position still go out
+      const priceCheck = this.lastPriceCheck
+      if (priceCheck && !priceCheck.ok && !this.isReducing(signal)) {
+        this.logger.warn(`[${this.config.name}] ⛔ ${signal.action} held by price check ${priceCheck.status}: ${priceCheck.reason}`)
+        await this.logPriceCheckRejection(signal, priceCheck)
+        return
+      }
+
+      // Portfolio-level limits (gross exposure, concentration, correlation, kill switch)
+      const decision = await this.portfolioRisk.checkTrade({
+        agentId: this.config.agentId,
+        symbol: this.config.symbol,
+        side: signal.action as "BUY" | "SELL",
+        quantity: signal.quantity,
+        price: signal.price || this.lastPrice,
+      })
+      if (!decision.approved) {
+        this.logger.warn(`[${this.config.name}] 🛑 ${signal.action} rejected by portfolio risk: ${decision.reason}`)
+        await this.logThinking(
+          'risk_rejection',
+          `${signal.action} ${signal.quantity} ${this.config.symbol} rejected by portfolio risk (${decision.check}): ${decision.reason}`,
+          { signal, check: decision.check, ...decision.details }
+        )
+        return
+      }
+
+      // Perpetual risk on new exposure: refuse or shrink entries near liquidation or paying expensive funding
+      const perpetual = this.assessPerpetualRisk(signal)
+      if (perpetual && perpetual.recommendedAction !== "OK") {
+        const sized = (this.persistedRiskManager || new RiskManager()).applyPerpetualRisk(signal, perpetual)
+        const context = { signal, ...perpetual, fundingRate: this.lastPriceCheck?.fundingRate ?? null }
+
+        if (!sized) {
+          this.logger.warn(`[${this.config.name}] 🛑 ${signal.action} rejected by perpetual risk: ${perpetual.riskAssessment}`)
+          await this.logThinking(
+            'risk_rejection',
+            `${signal.action} ${signal.quantity} ${this.config.symbol} rejected by perpetual risk: ${perpetual.riskAssessment}`,
+            context
+          )
+          return
+        }
+
+        this.logger.warn(`[${this.config.name}] ⚠️ ${signal.action} reduced ${signal.quantity} → ${sized.quantity} by perpetual risk: ${perpetual.riskAssessment}`)
+        await this.logThinking(
+          'risk_rejection',
+          `${signal.action} ${this.config.symbol} reduced from ${signal.quantity} to ${sized.quantity} by perpetual risk: ${perpetual.riskAssessment}`,
+          context
+        )
+        signal = sized
+      }
+
       // Update status to trading
       await this.updateStatus('running', `Executing ${signal.action} trade`)
 
+      // Only orders that open or add to a position get a bracket and an exit plan;
+      // a SELL that closes a LONG is an exit, not a new SHORT
+      const opensPosition = !this.isReducing(signal)
       let orderId: string | undefined
 
       if (signal.action === "BUY") {
@@ -219,38 +622,11 @@ export abstract class BaseStrategy {
         const order = await this.client.placeOrder(orderParams)
 
         orderId = order.orderId
-        console.log(`[${this.config.name}] BUY Order placed:`, orderId)
-
-        // Place stop loss if specified
-        if (signal.stopLoss) {
-          try {
-            const slOrder = await this.client.placeOrder({
-              symbol: this.config.symbol,
-              side: "SELL",
-              type: "STOP_MARKET",
-              quantity: signal.quantity,
-              stopPrice: signal.stopLoss,
-            })
-            console.log(`[${this.config.name}] Stop Loss order placed:`, slOrder.orderId)
-          } catch (error) {
-            console.warn(`[${this.config.name}] Failed to place stop loss:`, error)
-          }
-        }
+        this.logger.log(`[${this.config.name}] BUY Order placed:`, orderId)
 
-        // Place take profit if specified
-        if (signal.takeProfit) {
-          try {
-            const tpOrder = await this.client.placeOrder({
-              symbol: this.config.symbol,
-              side: "SELL",
-              type: "TAKE_PROFIT_MARKET",
-              quantity: signal.quantity,
-              stopPrice: signal.takeProfit,
-            })
-            console.log(`[${this.config.name}] Take Profit order placed:`, tpOrder.orderId)
-          } catch (error) {
-            console.warn(`[${this.config.name}] Failed to place take profit:`, error)
-          }
+        // Link stop loss / take profit to this entry (OCO)
+        if (opensPosition) {
+          await this.brackets.open(String(order.orderId), "LONG", signal.stopLoss, signal.takeProfit)
         }
       } else if (signal.action === "SELL") {
         // Place SELL order - use MARKET if no price specified, otherwise LIMIT
@@ -271,19 +647,39 @@ export abstract class BaseStrategy {
         const order = await this.client.placeOrder(orderParams)
 
         orderId = order.orderId
-        console.log(`[${this.config.name}] SELL Order placed:`, orderId)
+        this.logger.log(`[${this.config.name}] SELL Order placed:`, orderId)
+
+        // Link stop loss / take profit to this entry (OCO)
+        if (opensPosition) {
+          await this.brackets.open(String(order.orderId), "SHORT", signal.stopLoss, signal.takeProfit)
+        }
       }
 
       // Log trade execution to database
-      await this.logTrade(signal, orderId)
+      await this.logTrade(signal, orderId, opensPosition)
 
-      this.state.lastSignalTime = Date.now()
+      this.state.lastSignalTime = this.now()
     } catch (error) {
-      console.error(`[${this.config.name}] Trade execution failed:`, error)
+      this.logger.error(`[${this.config.name}] Trade execution failed:`, error)
       await this.logThinking('error', `Trade execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
+  /**
+   * Current time in ms (candle time when replayed by the backtester)
+   */
+  protected now(): number {
+    return this.config.clock ? this.config.clock() : Date.now()
+  }
+
+  /**
+   * Whether logs/trades should be written to Supabase
+   * Paper runs stay out of the live dashboard tables unless persist is set explicitly
+   */
+  protected shouldPersist(): boolean {
+    return this.config.persist ?? this.config.tradingMode !== "paper"
+  }
+
   /**
    * Sleep utility
    */
@@ -291,6 +687,183 @@ export abstract class BaseStrategy {
     return new Promise((resolve) => setTimeout(resolve, ms))
   }
 
+  /**
+   * Cancel this symbol's resting orders (and optionally flatten); returns a short summary
+   */
+  protected async cleanupOrders(flatten: boolean): Promise<string> {
+    try {
+      const result = await cleanupSymbol(
+        this.client,
+        this.config.symbol,
+        { flatten },
+        (message) => this.logger.log(`[${this.config.name}] ${message.trim()}`)
+      )
+
+      // SL/TP children were cancelled, so their exit plans are no longer enforced
+      for (const bracket of this.brackets.getBrackets()) {
+        await this.recordExitOutcome(bracket.side, 'closed')
+      }
+
+      return `cancelled ${result.cancelledOrders} order(s)${flatten ? ', position flattened' : ''}`
+    } catch (error) {
+      this.logger.error(`[${this.config.name}] Order cleanup failed:`, error)
+      return `cleanup failed (${error instanceof Error ? error.message : 'Unknown error'})`
+    }
+  }
+
+  /**
+   * Apply a remote command from the agent_commands table; returns a result line for the dashboard
+   */
+  protected async handleCommand(command: AgentCommand): Promise<string> {
+    const by = command.requested_by ? ` by ${command.requested_by}` : ''
+
+    switch (command.command) {
+      case 'pause':
+        this.paused = true
+        this.pauseReason = `Paused${by}`
+        await this.updateStatus('paused', this.pauseReason)
+        this.logger.log(`[${this.config.name}] ⏸️ ${this.pauseReason}`)
+        return `${this.config.symbol}: paused`
+
+      case 'resume':
+        this.paused = false
+        this.pauseReason = ''
+        await this.updateStatus('running', `Resumed${by}`)
+        this.logger.log(`[${this.config.name}] ▶️ Resumed${by}`)
+        return `${this.config.symbol}: resumed`
+
+      case 'flatten': {
+        // Flattening pauses the agent so the next signal doesn't reopen the position
+        this.paused = true
+        const summary = await this.cleanupOrders(true)
+        this.pauseReason = `Flattened${by}: ${summary}`
+        await this.updateStatus('paused', this.pauseReason)
+        this.logger.log(`[${this.config.name}] 🧹 ${this.pauseReason}`)
+        return `${this.config.symbol}: ${summary}`
+      }
+
+      case 'reload_parameters':
+        return `${this.config.symbol}: ${await this.reloadParameters(command.payload?.reason || `reload requested${by}`)}`
+
+      default:
+        throw new Error(`Unknown command: ${command.command}`)
+    }
+  }
+
+  /**
+   * Start paused when the agent's last pause/resume/flatten command was not a resume
+   */
+  private async restorePauseState(): Promise<void> {
+    if (!this.commands || !this.config.modelId) return
+
+    const last = await getLastPauseCommand(this.config.modelId)
+    if (!last || last.command === 'resume') return
+
+    const by = last.requested_by ? ` by ${last.requested_by}` : ''
+    this.paused = true
+    this.pauseReason = `${last.command === 'flatten' ? 'Flattened' : 'Paused'}${by} before restart (command #${last.id})`
+    this.logger.log(`[${this.config.name}] ⏸️ ${this.pauseReason}`)
+  }
+
+  /**
+   * Pull the latest parameters (/api/aster/agents/parameters) and prompt (getAgentPrompt)
+   * Parameters are clamped to PARAMETER_BOUNDS; each applied change is logged to agent_decisions
+   */
+  protected async reloadParameters(source: string = 'reload'): Promise<string> {
+    this.lastParameterRefresh = Date.now()
+
+    const fetched = this.config.modelId ? await fetchAgentParameters(this.config.modelId) : undefined
+    const prompt = await getAgentPrompt(this.config.agentId)
+
+    const { parameters, clamped } = fetched ? clampAgentParameters(fetched) : { parameters: undefined, clamped: [] }
+    if (clamped.length > 0) {
+      this.logger.warn(`[${this.config.name}] ⚠️ Clamped parameters to safe bounds: ${clamped.join(', ')}`)
+    }
+
+    const changes = parameters ? this.applyParameters(parameters) : []
+    const promptChanged = prompt !== undefined && prompt !== this.customPrompt
+    if (prompt !== undefined) this.customPrompt = prompt
+
+    for (const change of changes) {
+      await this.logDecision(
+        'PARAMETER_UPDATE',
+        `${change.key}: ${change.from} → ${change.to} (${source})`,
+        {
+          ...change,
+          source,
+          clamped,
+          last_updated: parameters?.last_updated,
+          optimization_score: parameters?.optimization_score,
+        }
+      )
+    }
+
+    const summary = [
+      parameters
+        ? (changes.length > 0 ? changes.map((c) => `${c.key}: ${c.from} → ${c.to}`).join(', ') : 'parameters unchanged')
+        : 'no stored parameters, keeping current',
+      promptChanged ? 'prompt updated' : 'prompt unchanged',
+    ].join('; ')
+
+    // Scheduled refreshes only log when something actually changed
+    if (source === 'scheduled refresh' && changes.length === 0 && !promptChanged) {
+      return summary
+    }
+
+    this.logger.log(`[${this.config.name}] 🔄 Reloaded (${source}): ${summary}`)
+    await this.logThinking('decision', `Parameters reloaded (${source}): ${summary}`, { parameters, clamped })
+    return summary
+  }
+
+  /**
+   * Apply a parameter set directly (clamped), e.g. candidates in the walk-forward optimizer
+   */
+  useParameters(parameters: AgentParameters): ParameterChange[] {
+    return this.applyParameters(clampAgentParameters(parameters).parameters)
+  }
+
+  /**
+   * Apply dashboard parameters to the strategy; returns the changes made
+   * Strategies override this to map the fields they use
+   */
+  protected applyParameters(parameters: AgentParameters): ParameterChange[] {
+    return []
+  }
+
+  /**
+   * Copy numeric values onto keys that already exist in `target`
+   */
+  protected mergeParameters(target: Record<string, any>, updates: Record<string, number | undefined>): ParameterChange[] {
+    const changes: ParameterChange[] = []
+    for (const [key, value] of Object.entries(updates)) {
+      if (!(key in target) || typeof value !== 'number' || !Number.isFinite(value)) continue
+      if (target[key] === value) continue
+
+      changes.push({ key, from: target[key], to: value })
+      target[key] = value
+    }
+    return changes
+  }
+
+  /**
+   * Sleep between scans; returns early when shutdown is requested
+   */
+  private waitForNextScan(ms: number): Promise<void> {
+    if (this.stopRequested) return Promise.resolve()
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.wakeLoop = null
+        resolve()
+      }, ms)
+      this.wakeLoop = () => {
+        clearTimeout(timer)
+        this.wakeLoop = null
+        resolve()
+      }
+    })
+  }
+
   /**
    * Get account balance
    */
@@ -310,8 +883,11 @@ export abstract class BaseStrategy {
   /**
    * Log trade execution to Supabase with actual execution details
    * Reconciles order data from Aster to ensure data uniformity
+   * Exit plans are only saved for orders that open or add to a position
    */
-  protected async logTrade(signal: TradeSignal, orderId?: string): Promise<void> {
+  protected async logTrade(signal: TradeSignal, orderId?: string, opensPosition: boolean = true): Promise<void> {
+    if (!this.shouldPersist()) return
+
     try {
       let executedPrice = Number(signal.price) || 0
       let executedQuantity = Number(signal.quantity)
@@ -332,25 +908,16 @@ export abstract class BaseStrategy {
             : price
           executedQuantity = executedQty
           
-          // Map Aster status to our status (open | closed | cancelled | error)
-          if (orderDetails.status === 'FILLED') {
-            orderStatus = 'closed'
-          } else if (orderDetails.status === 'PARTIALLY_FILLED') {
-            orderStatus = 'open'  // Still open, awaiting more fills
-          } else if (orderDetails.status === 'CANCELED') {
-            orderStatus = 'cancelled'
-          } else if (orderDetails.status === 'REJECTED') {
-            orderStatus = 'error'
-          }
+          orderStatus = this.toTradeStatus(orderDetails.status)
           
-          console.log(
+          this.logger.log(
             `[${this.config.name}] Order reconciliation: ` +
             `Intended: ${signal.quantity} @ ${signal.price}, ` +
             `Actual: ${executedQuantity} @ ${executedPrice.toFixed(2)}, ` +
             `Aster Status: ${orderDetails.status} → DB Status: ${orderStatus}`
           )
         } catch (reconciliationError) {
-          console.warn(
+          this.logger.warn(
             `[${this.config.name}] Could not reconcile order details, using intended values:`,
             reconciliationError
           )
@@ -375,13 +942,22 @@ export abstract class BaseStrategy {
       }
 
       await saveAgentTrade(trade)
-      console.log(
+      this.logger.log(
         `[${this.config.name}] Trade logged to Supabase: ` +
         `${executedQuantity} ${this.config.symbol} @ ${executedPrice.toFixed(2)}`
       )
 
+      // Resting/partial orders are finalized by later fill events (or polling)
+      if (orderId && orderStatus === 'open') {
+        this.pendingTrades.add(String(orderId))
+
+        // A fill may have streamed in while the row was being inserted
+        const latest = this.recentOrderUpdates.get(String(orderId))
+        if (latest) await this.updateTradeFromOrder(latest.orderId, latest.status, latest.filledQuantity, latest.averagePrice || latest.price)
+      }
+
       // Save exit plan (TP/SL) if specified
-      if (signal.takeProfit || signal.stopLoss) {
+      if (opensPosition && (signal.takeProfit || signal.stopLoss)) {
         const side = signal.action === 'BUY' ? 'LONG' : 'SHORT'
         const exitPlan: ExitPlan = {
           agent_id: this.config.agentId,
@@ -396,7 +972,7 @@ export abstract class BaseStrategy {
         }
 
         await saveExitPlan(exitPlan)
-        console.log(
+        this.logger.log(
           `[${this.config.name}] Exit plan saved: TP=${signal.takeProfit?.toFixed(2)}, SL=${signal.stopLoss?.toFixed(2)}`
         )
 
@@ -414,18 +990,260 @@ export abstract class BaseStrategy {
         }
 
         await saveAgentChatMessage(chatMessage)
-        console.log(`[${this.config.name}] Exit plan announced in chat`)
+        this.logger.log(`[${this.config.name}] Exit plan announced in chat`)
       }
     } catch (error) {
-      console.error(`[${this.config.name}] Failed to log trade:`, error)
+      this.logger.error(`[${this.config.name}] Failed to log trade:`, error)
       // Log the failed attempt but don't throw - trade already executed
     }
   }
 
+  /**
+   * Log a price check rejection to agent thinking, at most once a minute per status
+   */
+  private async logPriceCheckRejection(signal: TradeSignal, check: PriceCheck): Promise<void> {
+    if (Date.now() - (this.lastPriceRejectionLog.get(check.status) || 0) < PRICE_REJECTION_LOG_INTERVAL_MS) return
+    this.lastPriceRejectionLog.set(check.status, Date.now())
+
+    await this.logThinking('risk_rejection', `${signal.action} ${signal.quantity} ${this.config.symbol} held by price check ${check.status}: ${check.reason}`, {
+      signal,
+      binancePrice: check.binancePrice,
+      asterPrice: check.asterPrice,
+      deviationPercent: check.deviationPercent,
+      bandPercent: check.bandPercent,
+    })
+  }
+
+  /**
+   * Whether a signal trades against this cycle's position (closing or reducing it)
+   * rather than opening or adding to one
+   */
+  protected isReducing(signal: TradeSignal): boolean {
+    const positionAmt = Number(this.currentPosition?.positionAmt) || 0
+    if (signal.action === "BUY") return positionAmt < 0
+    if (signal.action === "SELL") return positionAmt > 0
+    return false
+  }
+
+  /**
+   * Liquidation distance and funding cost of an order that opens or adds to a position
+   * Null for orders that reduce the current position (closing is never refused)
+   */
+  protected assessPerpetualRisk(signal: TradeSignal): PerpetualRisk | null {
+    if (signal.action === "HOLD" || this.isReducing(signal)) return null
+
+    const positionAmt = Number(this.currentPosition?.positionAmt) || 0
+
+    const entryPrice = signal.price || this.lastPrice
+    if (!(entryPrice > 0)) return null
+
+    // Adding to a position keeps its liquidation price; a new one is estimated from leverage
+    return (this.persistedRiskManager || new RiskManager()).assessPerpetualRisk({
+      side: signal.action,
+      entryPrice,
+      stopLossPrice: signal.stopLoss,
+      leverage: Number(this.currentPosition?.leverage) || 1,
+      fundingRate: this.lastPriceCheck?.fundingRate,
+      liquidationPrice: positionAmt !== 0 ? Number(this.currentPosition?.liquidationPrice) || undefined : undefined,
+    })
+  }
+
+  /**
+   * Create the strategy's RiskManager so its state survives restarts
+   */
+  protected createRiskManager(config: Partial<RiskConfig> = {}): RiskManager {
+    this.persistedRiskManager = new RiskManager(config)
+    return this.persistedRiskManager
+  }
+
+  /**
+   * Load the persisted RiskManager state for this agent/symbol
+   */
+  protected async restoreRiskState(): Promise<void> {
+    if (!this.persistedRiskManager || !this.shouldPersist()) return
+
+    try {
+      const saved = await getAgentRiskState(this.config.agentId, this.config.symbol)
+      if (!saved) return
+
+      this.persistedRiskManager.restoreState(saved.state)
+      this.lastSavedRiskState = JSON.stringify(this.persistedRiskManager.exportState())
+      const stats = this.persistedRiskManager.getStats()
+      this.logger.log(
+        `[${this.config.name}] Restored risk state from ${saved.updated_at}: ` +
+        `${stats.dailyTradesUsed} trades today, max drawdown ${stats.maxDrawdown}%`
+      )
+    } catch (error) {
+      this.logger.warn(`[${this.config.name}] ⚠️ Could not restore risk state, starting fresh:`, error)
+    }
+  }
+
+  /**
+   * Persist the RiskManager state when it changed during this cycle
+   */
+  protected async saveRiskState(): Promise<void> {
+    if (!this.persistedRiskManager || !this.shouldPersist()) return
+
+    const state = this.persistedRiskManager.exportState()
+    const serialized = JSON.stringify(state)
+    if (serialized === this.lastSavedRiskState) return
+
+    const saved = await saveAgentRiskState({
+      agent_id: this.config.agentId,
+      symbol: this.config.symbol,
+      state,
+      updated_at: new Date().toISOString(),
+    })
+    if (saved) this.lastSavedRiskState = serialized
+  }
+
+  /**
+   * Map an Aster order status to the agent_trades status (open | closed | cancelled | error)
+   */
+  protected toTradeStatus(status: string): AgentTrade['status'] {
+    switch (status) {
+      case 'FILLED':
+        return 'closed'
+      case 'CANCELED':
+      case 'EXPIRED':
+        return 'cancelled'
+      case 'REJECTED':
+        return 'error'
+      default:
+        return 'open' // NEW / PARTIALLY_FILLED: awaiting more fills
+    }
+  }
+
+  /**
+   * Subscribe this strategy to the agent's user data stream
+   */
+  protected async startUserDataStream(): Promise<void> {
+    if (!this.userDataStream) return
+
+    this.userDataStream.subscribe({
+      onOrderUpdate: (event) => this.handleOrderUpdate(event),
+      onAccountUpdate: (event) => this.handleAccountUpdate(event),
+      onReconnect: async () => {
+        // Events may have been missed while disconnected
+        await this.brackets.sync()
+        await this.reconcilePendingTrades()
+      },
+    })
+
+    try {
+      await this.userDataStream.start()
+    } catch (error) {
+      this.logger.warn(`[${this.config.name}] ⚠️ User data stream unavailable, falling back to polling:`, error)
+    }
+  }
+
+  /**
+   * Order fill/cancel pushed by the user data stream
+   */
+  protected async handleOrderUpdate(event: OrderUpdateEvent): Promise<void> {
+    if (event.symbol !== this.config.symbol) return
+
+    this.recentOrderUpdates.delete(event.orderId)
+    this.recentOrderUpdates.set(event.orderId, event)
+    if (this.recentOrderUpdates.size > 200) {
+      const oldest = this.recentOrderUpdates.keys().next().value
+      if (oldest !== undefined) this.recentOrderUpdates.delete(oldest)
+    }
+
+    if (event.executionType === 'TRADE') {
+      this.logger.log(
+        `[${this.config.name}] 📥 Fill: ${event.side} ${event.lastFilledQuantity} @ ${event.lastFilledPrice} ` +
+        `(order ${event.orderId}, ${event.filledQuantity}/${event.quantity}, ${event.status})`
+      )
+    }
+
+    await this.brackets.handleOrderUpdate(event.orderId)
+    await this.updateTradeFromOrder(event.orderId, event.status, event.filledQuantity, event.averagePrice || event.price)
+  }
+
+  /**
+   * Position/balance change pushed by the user data stream
+   */
+  protected async handleAccountUpdate(event: AccountUpdateEvent): Promise<void> {
+    const position = event.positions.find((p) => p.symbol === this.config.symbol)
+    if (!position) return
+
+    if (Math.abs(position.positionAmt) > 0) {
+      this.state.position = {
+        symbol: this.config.symbol,
+        quantity: position.positionAmt,
+        entryPrice: position.entryPrice,
+        entryTime: this.state.position?.entryTime ?? event.time,
+      }
+    } else {
+      this.state.position = undefined
+    }
+
+    this.logger.log(
+      `[${this.config.name}] 📥 Position update (${event.reason}): ${position.positionAmt} @ ${position.entryPrice}`
+    )
+  }
+
+  /**
+   * Move a logged trade to its executed quantity/price and final status
+   */
+  protected async updateTradeFromOrder(
+    orderId: string,
+    asterStatus: string,
+    filledQuantity: number,
+    executedPrice: number
+  ): Promise<void> {
+    if (!this.pendingTrades.has(orderId) || !this.shouldPersist()) return
+
+    const status = this.toTradeStatus(asterStatus)
+    const updated = await updateAgentTradeByOrderId(this.config.agentId, orderId, {
+      quantity: filledQuantity,
+      executed_price: executedPrice,
+      status,
+    })
+
+    if (updated && status !== 'open') {
+      this.pendingTrades.delete(orderId)
+      this.logger.log(`[${this.config.name}] Trade ${orderId} → ${status} (${filledQuantity} @ ${executedPrice.toFixed(2)})`)
+    }
+  }
+
+  /**
+   * Poll pending trades (stream unavailable or just reconnected)
+   */
+  protected async reconcilePendingTrades(): Promise<void> {
+    for (const orderId of [...this.pendingTrades]) {
+      try {
+        const order = await this.client.getOrder(this.config.symbol, orderId)
+        const executedQty = Number(order.executedQty) || 0
+        const executedPrice = executedQty > 0 ? Number(order.cumQuote) / executedQty : Number(order.price) || 0
+        await this.updateTradeFromOrder(orderId, order.status, executedQty, executedPrice)
+      } catch (error) {
+        this.logger.warn(`[${this.config.name}] ⚠️ Could not reconcile pending trade ${orderId}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Close the exit plan once its bracket resolves
+   */
+  protected async recordExitOutcome(side: BracketSide, outcome: BracketOutcome): Promise<void> {
+    if (!this.shouldPersist()) return
+
+    try {
+      await closeExitPlan(this.config.agentId, this.config.symbol, side, outcome)
+      this.logger.log(`[${this.config.name}] Exit plan closed (${side}): ${outcome}`)
+    } catch (error) {
+      this.logger.error(`[${this.config.name}] Failed to close exit plan:`, error)
+    }
+  }
+
   /**
    * Log signal generation to Supabase
    */
   protected async logSignal(signal: TradeSignal, currentPrice: string): Promise<void> {
+    if (!this.shouldPersist()) return
+
     try {
       const dbSignal: AgentSignal = {
         agent_id: this.config.agentId,
@@ -438,7 +1256,7 @@ export abstract class BaseStrategy {
 
       await saveAgentSignal(dbSignal)
     } catch (error) {
-      console.error(`[${this.config.name}] Failed to log signal:`, error)
+      this.logger.error(`[${this.config.name}] Failed to log signal:`, error)
     }
   }
 
@@ -446,10 +1264,12 @@ export abstract class BaseStrategy {
    * Log agent thinking/analysis to Supabase
    */
   protected async logThinking(
-    type: 'analysis' | 'decision' | 'error' | 'market_analysis',
+    type: AgentThinking['thinking_type'],
     content: string,
     context?: Record<string, any>
   ): Promise<void> {
+    if (!this.shouldPersist()) return
+
     try {
       const thinking: AgentThinking = {
         agent_id: this.config.agentId,
@@ -461,7 +1281,7 @@ export abstract class BaseStrategy {
 
       await saveAgentThinking(thinking)
     } catch (error) {
-      console.error(`[${this.config.name}] Failed to log thinking:`, error)
+      this.logger.error(`[${this.config.name}] Failed to log thinking:`, error)
     }
   }
 
@@ -472,6 +1292,8 @@ export abstract class BaseStrategy {
     status: 'running' | 'idle' | 'error' | 'paused',
     message?: string
   ): Promise<void> {
+    if (!this.shouldPersist()) return
+
     try {
       const stats = await this.getBalance()
 
@@ -486,7 +1308,7 @@ export abstract class BaseStrategy {
 
       await updateAgentStatus(statusRecord)
     } catch (error) {
-      console.error(`[${this.config.name}] Failed to update status:`, error)
+      this.logger.error(`[${this.config.name}] Failed to update status:`, error)
     }
   }
 
@@ -494,11 +1316,13 @@ export abstract class BaseStrategy {
    * Log a decision for analysis/learning
    */
   protected async logDecision(
-    decisionType: 'BUY' | 'SELL' | 'HOLD',
+    decisionType: AgentDecisionLog['decision'],
     reasoning: string,
     inputData?: Record<string, any>,
     outcome?: 'success' | 'failure' | 'pending'
   ): Promise<void> {
+    if (!this.shouldPersist()) return
+
     try {
       const decisionLog: AgentDecisionLog = {
         agent_id: this.config.agentId,
@@ -512,7 +1336,7 @@ export abstract class BaseStrategy {
 
       await saveAgentDecision(decisionLog)
     } catch (error) {
-      console.error(`[${this.config.name}] Failed to log decision:`, error)
+      this.logger.error(`[${this.config.name}] Failed to log decision:`, error)
     }
   }
 }
\ No newline at end of file
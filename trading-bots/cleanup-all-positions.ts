@@ -7,6 +7,7 @@
 
 import { AsterClient } from "./lib/aster-client.ts"
 import { getTradingSymbols } from "./lib/trading-symbol-config.ts"
+import { cleanupSymbol } from "./lib/position-cleanup.ts"
 import dotenv from "dotenv"
 
 dotenv.config({ path: ".env.production" })
@@ -96,35 +97,8 @@ async function cleanupAgent(agent: AgentConfig) {
       console.log(`\n  📋 Checking ${symbol}...`)
 
       try {
-        // Get open orders
-        const openOrders = await client.getOpenOrders(symbol)
-        console.log(`    Found ${openOrders.length} open orders`)
-
-        // Cancel each order
-        for (const order of openOrders) {
-          console.log(`    ❌ Cancelling order ${order.orderId}...`)
-          await client.cancelOrder(symbol, order.orderId)
-          console.log(`    ✓ Cancelled`)
-        }
-
-        // Close any open positions
-        try {
-          await client.closePosition(symbol, "LONG")
-          console.log(`    ✓ Closed LONG position`)
-        } catch (e: any) {
-          if (!e.message?.includes("No position")) {
-            console.log(`    Note: No LONG position or already closed`)
-          }
-        }
-
-        try {
-          await client.closePosition(symbol, "SHORT")
-          console.log(`    ✓ Closed SHORT position`)
-        } catch (e: any) {
-          if (!e.message?.includes("No position")) {
-            console.log(`    Note: No SHORT position or already closed`)
-          }
-        }
+        // Cancel open orders and close any open positions
+        await cleanupSymbol(client, symbol, { flatten: true })
       } catch (error: any) {
         console.log(`    ⚠️  Error with ${symbol}: ${error.message}`)
       }
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { AgentCommandChannel } from "./agent-commands.ts"
+import { getPendingAgentCommands, updateAgentCommand, type AgentCommand } from "./supabase-client.ts"
+
+vi.mock("./supabase-client.ts", () => ({
+  getPendingAgentCommands: vi.fn(),
+  updateAgentCommand: vi.fn(async () => true),
+}))
+
+function command(id: number, name: AgentCommand["command"]): AgentCommand {
+  return { id, agent_id: "claude_arbitrage", command: name, status: "pending", created_at: new Date(id).toISOString() }
+}
+
+describe("AgentCommandChannel", () => {
+  beforeEach(() => {
+    vi.mocked(getPendingAgentCommands).mockReset()
+    vi.mocked(updateAgentCommand).mockClear()
+    vi.spyOn(console, "log").mockImplementation(() => {})
+  })
+
+  it("applies each command in the polling strategy's own loop only", async () => {
+    vi.mocked(getPendingAgentCommands).mockResolvedValueOnce([command(1, "flatten")]).mockResolvedValue([])
+    const channel = new AgentCommandChannel("claude_arbitrage")
+    const eth = vi.fn(async () => "ETHUSDT: flattened")
+    const btc = vi.fn(async () => "BTCUSDT: flattened")
+    const ethSubscription = channel.subscribe(eth)
+    const btcSubscription = channel.subscribe(btc)
+
+    await ethSubscription.poll()
+    expect(eth).toHaveBeenCalledTimes(1)
+    expect(btc).not.toHaveBeenCalled()
+    expect(updateAgentCommand).not.toHaveBeenCalledWith(1, "done", expect.anything())
+
+    await btcSubscription.poll()
+    expect(btc).toHaveBeenCalledTimes(1)
+    expect(updateAgentCommand).toHaveBeenLastCalledWith(1, "done", "ETHUSDT: flattened\nBTCUSDT: flattened")
+  })
+
+  it("settles a command when a strategy stops before applying it", async () => {
+    vi.mocked(getPendingAgentCommands).mockResolvedValueOnce([command(2, "pause")]).mockResolvedValue([])
+    const channel = new AgentCommandChannel("claude_arbitrage")
+    const eth = channel.subscribe(async () => "ETHUSDT: paused")
+    const btc = channel.subscribe(async () => {
+      throw new Error("should not run")
+    })
+
+    await eth.poll()
+    btc.unsubscribe()
+    await vi.waitFor(() => expect(updateAgentCommand).toHaveBeenLastCalledWith(2, "done", expect.stringContaining("stopped")))
+  })
+
+  it("marks the command failed when any strategy's handler throws", async () => {
+    vi.mocked(getPendingAgentCommands).mockResolvedValueOnce([command(3, "reload_parameters")]).mockResolvedValue([])
+    const channel = new AgentCommandChannel("claude_arbitrage")
+    const subscription = channel.subscribe(async () => {
+      throw new Error("API down")
+    })
+
+    await subscription.poll()
+    expect(updateAgentCommand).toHaveBeenLastCalledWith(3, "failed", "Error: API down")
+  })
+})
@@ -0,0 +1,151 @@
+/**
+ * Agent Command Channel
+ * Remote control for running agents through the Supabase agent_commands table
+ * (written by the Pickaboo admin route /api/pickaboo/agent-commands)
+ *
+ * - pause / resume: stop or restart signal generation
+ * - flatten: cancel orders, close positions and pause
+ * - reload_parameters: pick up new parameters and prompt without a restart
+ *
+ * One channel per agent process; every symbol strategy of the agent receives each command.
+ * Commands are queued per strategy and applied from that strategy's own trading loop,
+ * between its cycles, so a command never runs while another symbol's cycle is mid-trade.
+ * The command row is settled once every subscribed strategy has applied it.
+ */
+
+import {
+  getPendingAgentCommands,
+  updateAgentCommand,
+  type AgentCommand,
+} from "./supabase-client.ts"
+
+export type AgentCommandHandler = (command: AgentCommand) => Promise<string>
+
+export interface AgentCommandSubscription {
+  poll(): Promise<void> // Fetch new commands (throttled) and apply this strategy's queued ones
+  unsubscribe(): void
+}
+
+interface DispatchedCommand {
+  command: AgentCommand
+  remaining: number // Strategies that still have to apply it
+  results: string[]
+  failed: boolean
+}
+
+const POLL_INTERVAL_MS = 10 * 1000
+
+export class AgentCommandChannel {
+  private agentId: string
+  private queues = new Map<AgentCommandHandler, DispatchedCommand[]>()
+  private dispatched = new Set<number>()
+  private lastPollTime = 0
+  private fetching: Promise<void> | null = null
+
+  constructor(agentId: string) {
+    this.agentId = agentId
+  }
+
+  /**
+   * Register a strategy's command handler
+   * The strategy applies its commands by calling poll() from its trading loop
+   */
+  subscribe(handler: AgentCommandHandler): AgentCommandSubscription {
+    this.queues.set(handler, [])
+
+    return {
+      poll: async () => {
+        await this.fetchPending()
+        await this.drain(handler)
+      },
+      unsubscribe: () => {
+        const queue = this.queues.get(handler) || []
+        this.queues.delete(handler)
+        for (const dispatched of queue) {
+          void this.settle(dispatched, "Strategy stopped before applying the command", false)
+        }
+      },
+    }
+  }
+
+  /**
+   * Fetch pending commands and queue each one for every subscribed strategy
+   * Throttled and shared, so it is safe to call from every trading loop
+   */
+  private async fetchPending(): Promise<void> {
+    if (this.fetching) return this.fetching
+    if (this.queues.size === 0 || Date.now() - this.lastPollTime < POLL_INTERVAL_MS) return
+
+    this.lastPollTime = Date.now()
+    this.fetching = this.dispatchPending().finally(() => {
+      this.fetching = null
+    })
+    return this.fetching
+  }
+
+  private async dispatchPending(): Promise<void> {
+    const commands = await getPendingAgentCommands(this.agentId)
+
+    for (const command of commands) {
+      if (this.dispatched.has(command.id)) continue
+      this.dispatched.add(command.id)
+
+      console.log(`[AgentCommands:${this.agentId}] 📨 Received ${command.command} (#${command.id}) from ${command.requested_by || "unknown"}`)
+      await updateAgentCommand(command.id, "processing")
+
+      const dispatched: DispatchedCommand = { command, remaining: this.queues.size, results: [], failed: false }
+      for (const queue of this.queues.values()) {
+        queue.push(dispatched)
+      }
+    }
+  }
+
+  /**
+   * Apply a strategy's queued commands in the order they were requested
+   */
+  private async drain(handler: AgentCommandHandler): Promise<void> {
+    const queue = this.queues.get(handler)
+
+    while (queue && queue.length > 0) {
+      const dispatched = queue.shift()!
+      let result: string
+      let failed = false
+      try {
+        result = await handler(dispatched.command)
+      } catch (error) {
+        result = `Error: ${error instanceof Error ? error.message : String(error)}`
+        failed = true
+      }
+      await this.settle(dispatched, result, failed)
+    }
+  }
+
+  /**
+   * Record one strategy's result; the last one marks the command done or failed
+   */
+  private async settle(dispatched: DispatchedCommand, result: string, failed: boolean): Promise<void> {
+    dispatched.results.push(result)
+    dispatched.failed ||= failed
+    if (--dispatched.remaining > 0) return
+
+    const { command } = dispatched
+    await updateAgentCommand(command.id, dispatched.failed ? "failed" : "done", dispatched.results.join("\n"))
+    this.dispatched.delete(command.id)
+    console.log(`[AgentCommands:${this.agentId}] ${dispatched.failed ? "❌" : "✅"} ${command.command} (#${command.id}) ${dispatched.failed ? "failed" : "done"}`)
+  }
+}
+
+// One channel per agent
+const channels = new Map<string, AgentCommandChannel>()
+
+/**
+ * Get the shared command channel for an agent (by model ID, e.g. "claude_arbitrage")
+ */
+export function getAgentCommandChannel(agentId: string): AgentCommandChannel {
+  let channel = channels.get(agentId)
+  if (!channel) {
+    channel = new AgentCommandChannel(agentId)
+    channels.set(agentId, channel)
+  }
+  return channel
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { PARAMETER_BOUNDS, clampAgentParameters, type AgentParameters } from "./agent-parameters.ts"
+
+describe("clampAgentParameters", () => {
+  it("leaves parameters inside the bounds untouched", () => {
+    const parameters: AgentParameters = { leverage: 3, stop_loss_percent: 2, take_profit_percent: 4, position_size: 0.2 }
+
+    expect(clampAgentParameters(parameters)).toEqual({ parameters, clamped: [] })
+  })
+
+  it("clamps values to PARAMETER_BOUNDS and reports each change", () => {
+    const { parameters, clamped } = clampAgentParameters({
+      leverage: 20,
+      stop_loss_percent: 0.1,
+      take_profit_percent: 4,
+      position_size: 0.9,
+    })
+
+    expect(parameters.leverage).toBe(PARAMETER_BOUNDS.leverage.max)
+    expect(parameters.stop_loss_percent).toBe(PARAMETER_BOUNDS.stop_loss_percent.min)
+    expect(parameters.position_size).toBe(PARAMETER_BOUNDS.position_size.max)
+    expect(clamped).toEqual(["leverage: 20 → 5", "stop_loss_percent: 0.1 → 0.3", "position_size: 0.9 → 0.3"])
+  })
+
+  it("drops non-finite values so strategies keep their own setting", () => {
+    const { parameters, clamped } = clampAgentParameters({
+      leverage: Number.NaN,
+      stop_loss_percent: 2,
+      take_profit_percent: Number.POSITIVE_INFINITY,
+      position_size: 0.2,
+      grid_levels: "10" as unknown as number,
+    })
+
+    expect(parameters).not.toHaveProperty("leverage")
+    expect(parameters).not.toHaveProperty("take_profit_percent")
+    expect(parameters).not.toHaveProperty("grid_levels")
+    expect(clamped).toHaveLength(3)
+  })
+
+  it("keeps fields without bounds such as last_updated", () => {
+    const { parameters } = clampAgentParameters({
+      leverage: 2,
+      stop_loss_percent: 2,
+      take_profit_percent: 4,
+      position_size: 0.2,
+      last_updated: "2025-01-01T00:00:00.000Z",
+    })
+
+    expect(parameters.last_updated).toBe("2025-01-01T00:00:00.000Z")
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Agent Parameter Configuration
+ * Fetches learned/manual strategy parameters from the dashboard API
+ * (/api/aster/agents/parameters, keyed by model ID e.g. "claude_arbitrage")
+ * and clamps them to the bounds the bots are allowed to trade with
+ */
+
+const PICKABOO_API_URL = process.env.PICKABOO_API_URL || "http://localhost:3000"
+const AGENT_PARAMETERS_SECRET = process.env.AGENT_PARAMETERS_SECRET // Authorizes saveAgentParameters
+
+/**
+ * Mirrors AgentParameters in lib/types/learning.ts of the dashboard
+ */
+export interface AgentParameters {
+  leverage: number
+  stop_loss_percent: number
+  take_profit_percent: number
+  position_size: number
+  momentum_threshold?: number
+  breakout_sensitivity?: number
+  grid_interval?: number
+  grid_levels?: number
+  ml_confidence_threshold?: number
+  prediction_timeframe?: number
+  arbitrage_min_spread?: number
+  last_updated?: string
+  optimization_score?: number
+}
+
+type NumericParameter = Exclude<keyof AgentParameters, "last_updated">
+
+/**
+ * Safe bounds applied before any learned value reaches a strategy
+ * (tighter than the dashboard's validation for position size)
+ */
+export const PARAMETER_BOUNDS: Record<NumericParameter, { min: number; max: number }> = {
+  leverage: { min: 1, max: 5 },
+  stop_loss_percent: { min: 0.3, max: 10 },
+  take_profit_percent: { min: 0.5, max: 20 },
+  position_size: { min: 0.1, max: 0.3 }, // Fraction of equity per trade
+  momentum_threshold: { min: 0, max: 100 },
+  breakout_sensitivity: { min: 0, max: 100 },
+  grid_interval: { min: 0.5, max: 5 },
+  grid_levels: { min: 5, max: 50 },
+  ml_confidence_threshold: { min: 0.5, max: 0.95 },
+  prediction_timeframe: { min: 1, max: 15 },
+  arbitrage_min_spread: { min: 0.01, max: 0.5 },
+  optimization_score: { min: 0, max: 100 },
+}
+
+export interface ParameterChange {
+  key: string // Strategy param name (e.g. "min_spread_percent")
+  from: number
+  to: number
+}
+
+interface ParametersResponse {
+  success: boolean
+  parameters?: AgentParameters
+  source?: "stored" | "default" // "default": nothing learned or set by hand yet
+  error?: string
+}
+
+/**
+ * Fetch the current learned or manually set parameters for an agent
+ * Returns undefined if the dashboard is unreachable or only has the learning engine's
+ * defaults, which don't match each strategy's own parameters and must not replace them
+ */
+export async function fetchAgentParameters(modelId: string): Promise<AgentParameters | undefined> {
+  try {
+    const response = await fetch(
+      `${PICKABOO_API_URL}/api/aster/agents/parameters?agentId=${encodeURIComponent(modelId)}`
+    )
+
+    if (!response.ok) {
+      console.warn(`[Agent Parameters] Failed to fetch parameters: ${response.status}`)
+      return undefined
+    }
+
+    const data = await response.json() as ParametersResponse
+
+    if (!data.success || !data.parameters) {
+      console.warn(`[Agent Parameters] Invalid response for ${modelId}: ${data.error || "no parameters"}`)
+      return undefined
+    }
+
+    if (data.source !== "stored") {
+      return undefined
+    }
+
+    return data.parameters
+  } catch (error) {
+    console.warn(`[Agent Parameters] Error fetching parameters for ${modelId}:`, error)
+    return undefined
+  }
+}
+
+/**
+ * Store a new parameter set for an agent (the previous set is kept for rollback)
+ * Running agents pick it up on their next parameter refresh
+ */
+export async function saveAgentParameters(modelId: string, parameters: AgentParameters): Promise<boolean> {
+  if (!AGENT_PARAMETERS_SECRET) {
+    console.warn(`[Agent Parameters] AGENT_PARAMETERS_SECRET not set, cannot save parameters for ${modelId}`)
+    return false
+  }
+
+  try {
+    const response = await fetch(`${PICKABOO_API_URL}/api/aster/agents/parameters`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${AGENT_PARAMETERS_SECRET}`,
+      },
+      body: JSON.stringify({ agentId: modelId, parameters }),
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({})) as ParametersResponse
+      console.warn(`[Agent Parameters] Failed to save parameters for ${modelId}: ${data.error || response.status}`)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.warn(`[Agent Parameters] Error saving parameters for ${modelId}:`, error)
+    return false
+  }
+}
+
+/**
+ * Clamp every numeric parameter to PARAMETER_BOUNDS
+ * Non-finite values are dropped so strategies keep their current setting
+ */
+export function clampAgentParameters(
+  parameters: AgentParameters
+): { parameters: AgentParameters; clamped: string[] } {
+  const result: Record<string, unknown> = { ...parameters }
+  const clamped: string[] = []
+
+  for (const [key, bounds] of Object.entries(PARAMETER_BOUNDS)) {
+    const value = result[key]
+    if (value === undefined) continue
+
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      delete result[key]
+      clamped.push(`${key}: dropped invalid value ${value}`)
+      continue
+    }
+
+    const bounded = Math.min(Math.max(value, bounds.min), bounds.max)
+    if (bounded !== value) {
+      clamped.push(`${key}: ${value} → ${bounded}`)
+      result[key] = bounded
+    }
+  }
+
+  return { parameters: result as unknown as AgentParameters, clamped }
+}
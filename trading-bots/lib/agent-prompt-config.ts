@@ -48,7 +48,7 @@ export async function getAgentPrompt(agentId: string): Promise<string | undefine
     }
 
     const response = await fetch(
-      `${PICKABOO_API_URL}/api/pickaboo/agent-prompts?wallet=system`
+      `${PICKABOO_API_URL}/api/pickaboo/agent-prompts`
     )
 
     if (!response.ok) {
@@ -82,7 +82,7 @@ export async function getAgentPrompt(agentId: string): Promise<string | undefine
 export async function getAllAgentPrompts(): Promise<Record<string, string>> {
   try {
     const response = await fetch(
-      `${PICKABOO_API_URL}/api/pickaboo/agent-prompts?wallet=system`
+      `${PICKABOO_API_URL}/api/pickaboo/agent-prompts`
     )
 
     if (!response.ok) {
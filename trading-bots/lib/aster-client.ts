@@ -17,7 +17,7 @@ interface AsterConfig {
   baseUrl?: string
 }
 
-interface AsterPositionsResponse {
+export interface AsterPositionsResponse {
   positions: AsterPosition[]
   total_pnl: number
   total_roi: number
@@ -33,7 +33,7 @@ interface AsterTradesResponse {
   }
 }
 
-interface AsterStats {
+export interface AsterStats {
   // From positions endpoint
   equity: number
   total_pnl: number
@@ -47,7 +47,7 @@ interface AsterStats {
   trades?: AsterTrade[]
 }
 
-interface AsterPosition {
+export interface AsterPosition {
   symbol: string
   positionAmt: number
   initialMargin: number
@@ -65,6 +65,21 @@ interface AsterPosition {
   updateTime: number
 }
 
+export interface AsterPremiumIndex {
+  symbol: string
+  markPrice: number
+  indexPrice: number
+  lastFundingRate: number // Fraction per funding interval (0.0001 = 0.01%)
+  nextFundingTime: number
+  time: number
+}
+
+export interface AsterFundingPayment {
+  symbol: string
+  income: number // Positive when received, negative when paid
+  time: number
+}
+
 interface AsterTrade {
   symbol: string
   id: string
@@ -83,7 +98,7 @@ interface AsterTrade {
   maker: boolean
 }
 
-interface AsterOrder {
+export interface AsterOrder {
   symbol: string
   orderId: string
   clientOrderId: string
@@ -100,6 +115,7 @@ interface AsterOrder {
   updateTime: number
   isWorking: boolean
   origQuoteOrderQty: number
+  reduceOnly?: boolean
 }
 
 export class AsterClient {
@@ -483,6 +499,48 @@ export class AsterClient {
     }
   }
 
+  /**
+   * Get mark price, index price and funding for a symbol
+   */
+  async getPremiumIndex(symbol: string): Promise<AsterPremiumIndex> {
+    const result = await this.request<any>("GET", this.buildEndpoint("/premiumIndex"), { symbol })
+    return {
+      symbol: result.symbol,
+      markPrice: parseFloat(result.markPrice) || 0,
+      indexPrice: parseFloat(result.indexPrice) || 0,
+      lastFundingRate: parseFloat(result.lastFundingRate) || 0,
+      nextFundingTime: Number(result.nextFundingTime) || 0,
+      time: Number(result.time) || Date.now(),
+    }
+  }
+
+  /**
+   * Get funding rate history for a symbol (most recent last)
+   */
+  async getFundingRates(symbol: string, limit: number = 100): Promise<Array<{ fundingRate: number; fundingTime: number }>> {
+    const rates = await this.request<any[]>("GET", this.buildEndpoint("/fundingRate"), { symbol, limit })
+    return (rates || []).map((rate) => ({
+      fundingRate: parseFloat(rate.fundingRate) || 0,
+      fundingTime: Number(rate.fundingTime) || 0,
+    }))
+  }
+
+  /**
+   * Get funding fees paid and received by this account
+   */
+  async getFundingPayments(symbol?: string, startTime?: number, limit: number = 1000): Promise<AsterFundingPayment[]> {
+    const params: Record<string, any> = { incomeType: "FUNDING_FEE", limit }
+    if (symbol) params.symbol = symbol
+    if (startTime) params.startTime = startTime
+
+    const income = await this.request<any[]>("GET", this.buildEndpoint("/income"), params)
+    return (income || []).map((item) => ({
+      symbol: item.symbol,
+      income: parseFloat(item.income) || 0,
+      time: Number(item.time) || 0,
+    }))
+  }
+
   /**
    * Get agent stats/summary
    */
@@ -494,21 +552,21 @@ export class AsterClient {
    * Get WebSocket listen key for user data streams
    */
   async getListenKey(): Promise<{ listenKey: string }> {
-    return this.request<{ listenKey: string }>("POST", this.buildEndpoint("/stream"))
+    return this.request<{ listenKey: string }>("POST", this.buildEndpoint("/listenKey"))
   }
 
   /**
    * Keep WebSocket listen key alive
    */
   async keepListenKeyAlive(listenKey: string): Promise<void> {
-    await this.request<void>("PUT", this.buildEndpoint("/stream"), { listenKey })
+    await this.request<void>("PUT", this.buildEndpoint("/listenKey"), { listenKey })
   }
 
   /**
    * Close WebSocket listen key
    */
   async closeListenKey(listenKey: string): Promise<void> {
-    await this.request<void>("DELETE", this.buildEndpoint("/stream"), { listenKey })
+    await this.request<void>("DELETE", this.buildEndpoint("/listenKey"), { listenKey })
   }
 
   /**
@@ -522,6 +580,7 @@ export class AsterClient {
     quantity: number
     price?: number
     stopPrice?: number
+    reduceOnly?: boolean // Only reduce an existing position, never open or flip one
     clientOrderId?: string
   }): Promise<any> {
     return this.request<any>("POST", this.buildEndpoint("/order"), params)
@@ -623,4 +682,20 @@ export class AsterClient {
   }
 
 
-}
\ No newline at end of file
+}
+
+/**
+ * Exchange operations a strategy depends on.
+ * Implemented by AsterClient for live trading and by SimulatedExchange for backtests.
+ */
+export type ExchangeClient = Pick<
+  AsterClient,
+  | "syncServerTime"
+  | "getAccountInfo"
+  | "getPositions"
+  | "getOpenOrders"
+  | "placeOrder"
+  | "cancelOrder"
+  | "getOrder"
+  | "closePosition"
+>
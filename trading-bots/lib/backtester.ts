@@ -0,0 +1,320 @@
+/**
+ * Backtester
+ * Replays historical candles through a BaseStrategy subclass using a SimulatedExchange
+ *
+ * Each candle:
+ * 1. Resting orders (LIMIT / STOP_MARKET / TAKE_PROFIT_MARKET) are matched against its range
+ * 2. The strategy runs one decision cycle at the close price
+ * 3. Equity is marked to the close and recorded on the equity curve
+ *
+ * Risk metrics are computed with lib/risk-metrics.ts from equity snapshots sampled
+ * at the live snapshot cadence (every 5 minutes), so results compare directly with
+ * the numbers shown for live agents.
+ */
+
+import { readFileSync } from "fs"
+import type { AgentConfig, BaseStrategy, StrategyLogger, TradeSignal } from "../base-strategy.ts"
+import type { ExchangeClient } from "./aster-client.ts"
+import type { CandleData } from "./market-analyzer.ts"
+import { SimulatedExchange, type SimulatedExchangeConfig } from "./simulated-exchange.ts"
+import { calculateAllRiskMetrics } from "../../lib/risk-metrics.ts"
+
+export type StrategyFactory = (config: AgentConfig, client: ExchangeClient) => BaseStrategy
+
+export interface BacktestOptions {
+  agentId?: string // Used for logs only (default: "Backtest")
+  strategyName?: string // Label for the report (default: "backtest")
+  symbol: string // e.g., "ETHUSDT"
+  initialCapital?: number // Starting balance in USDT (default: 1000)
+  leverage?: SimulatedExchangeConfig["leverage"]
+  feeRate?: SimulatedExchangeConfig["feeRate"]
+  slippagePercent?: SimulatedExchangeConfig["slippagePercent"]
+  snapshotIntervalMs?: number // Equity snapshot cadence for risk metrics (default: 5 minutes, as collect-snapshots)
+  verbose?: boolean // Keep strategy log output (default: false, warnings and errors always show)
+}
+
+export interface EquityPoint {
+  time: number
+  price: number
+  equity: number // Wallet balance + unrealized PnL
+  walletBalance: number
+  positionQuantity: number // Signed position size at the close
+}
+
+export interface BacktestTrade {
+  time: number
+  orderId: string
+  side: "BUY" | "SELL"
+  type: string
+  quantity: number
+  price: number
+  fee: number
+  realizedPnl: number
+  reason: string
+}
+
+export interface BacktestMetrics {
+  totalReturnPercent: number
+  maxDrawdown: number // Negative percentage
+  volatility: number
+  sharpeRatio: number
+  sortinoRatio: number
+  calmarRatio: number
+  totalTrades: number
+  winningTrades: number
+  losingTrades: number
+  winRate: number
+  totalFees: number
+}
+
+export interface BacktestResult {
+  strategy: string
+  symbol: string
+  startTime: number
+  endTime: number
+  candles: number
+  initialCapital: number
+  finalEquity: number
+  signals: { buy: number; sell: number; hold: number }
+  equityCurve: EquityPoint[]
+  trades: BacktestTrade[]
+  metrics: BacktestMetrics
+}
+
+const DEFAULT_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000
+
+// Strategies log every cycle; keep backtest output readable unless asked otherwise
+const QUIET_LOGGER: StrategyLogger = {
+  log: () => {},
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args),
+}
+
+/**
+ * Load and validate a candle file
+ */
+export function loadCandles(path: string): CandleData[] {
+  const raw = JSON.parse(readFileSync(path, "utf-8"))
+  if (!Array.isArray(raw)) {
+    throw new Error(`Candle file ${path} must contain a JSON array`)
+  }
+
+  return raw.map((c: any, i: number) => {
+    const candle: CandleData = {
+      time: Number(c.time),
+      open: Number(c.open),
+      high: Number(c.high),
+      low: Number(c.low),
+      close: Number(c.close),
+      volume: Number(c.volume),
+    }
+    if (![candle.time, candle.open, candle.high, candle.low, candle.close].every(Number.isFinite)) {
+      throw new Error(`Invalid candle at index ${i} in ${path}`)
+    }
+    return candle
+  })
+}
+
+/**
+ * Load a range from the dashboard's candle store (market_candles, synced by /api/cron/sync-candles)
+ * Dates are ISO strings or epoch ms; `to` defaults to now
+ */
+export async function loadStoredCandles(symbol: string, interval: string, from: string, to?: string): Promise<CandleData[]> {
+  const parse = (value: string) => (/^\d+$/.test(value) ? Number(value) : new Date(value).getTime())
+  const start = parse(from)
+  const end = to ? parse(to) : Date.now()
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+    throw new Error(`Invalid candle range: ${from} → ${to || "now"}`)
+  }
+
+  // Loaded lazily so file-based backtests don't need Supabase credentials
+  const { supabase, getStoredCandles } = await import("./supabase-client.ts")
+  if (!supabase) {
+    throw new Error("Loading stored candles needs SUPABASE_URL and SUPABASE_SERVICE_KEY")
+  }
+
+  const rows = await getStoredCandles(symbol, interval, start, end)
+  if (rows.length === 0) {
+    throw new Error(`No stored ${symbol} ${interval} candles between ${new Date(start).toISOString()} and ${new Date(end).toISOString()}`)
+  }
+
+  return rows.map((row) => ({
+    time: row.open_time,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.volume,
+  }))
+}
+
+/**
+ * Run a strategy over a candle series and report performance
+ */
+export async function runBacktest(
+  createStrategy: StrategyFactory,
+  candles: CandleData[],
+  options: BacktestOptions
+): Promise<BacktestResult> {
+  if (candles.length === 0) {
+    throw new Error("No candles to backtest")
+  }
+
+  const sorted = [...candles].sort((a, b) => a.time - b.time)
+  const initialCapital = options.initialCapital ?? 1000
+  const snapshotIntervalMs = options.snapshotIntervalMs ?? DEFAULT_SNAPSHOT_INTERVAL_MS
+
+  let currentTime = sorted[0].time
+  const clock = () => currentTime
+
+  const exchange = new SimulatedExchange({
+    initialBalance: initialCapital,
+    leverage: options.leverage,
+    feeRate: options.feeRate,
+    slippagePercent: options.slippagePercent,
+    clock,
+  })
+
+  const config: AgentConfig = {
+    agentId: options.agentId || "Backtest",
+    name: `${options.agentId || "Backtest"}-${options.symbol}`,
+    signerAddress: "",
+    agentPrivateKey: "",
+    userAddress: "",
+    userApiKey: "",
+    userApiSecret: "",
+    symbol: options.symbol,
+    model: "backtest",
+    strategy: options.strategyName || "backtest",
+    initialCapital,
+    persist: false,
+    clock,
+    logger: options.verbose ? console : QUIET_LOGGER,
+  }
+
+  const strategy = createStrategy(config, exchange)
+  const equityCurve: EquityPoint[] = []
+  const trades: BacktestTrade[] = []
+  const signals = { buy: 0, sell: 0, hold: 0 }
+  let recordedFills = 0
+
+  exchange.setMarkPrice(options.symbol, sorted[0].open)
+
+  for (const candle of sorted) {
+    currentTime = candle.time
+    exchange.processCandle(options.symbol, candle)
+    recordedFills = collectTrades(exchange, trades, recordedFills, null)
+
+    const signal = await strategy.step(candle.close, "backtest")
+    recordedFills = collectTrades(exchange, trades, recordedFills, signal)
+    if (signal.action === "BUY") signals.buy++
+    else if (signal.action === "SELL") signals.sell++
+    else signals.hold++
+
+    const positions = (await exchange.getPositions()).positions
+    const position = positions.find((p) => p.symbol === options.symbol)
+    equityCurve.push({
+      time: candle.time,
+      price: candle.close,
+      equity: exchange.getEquity(),
+      walletBalance: (await exchange.getAccountInfo()).equity,
+      positionQuantity: position?.positionAmt || 0,
+    })
+  }
+
+  const finalEquity = equityCurve[equityCurve.length - 1].equity
+
+  return {
+    strategy: options.strategyName || "backtest",
+    symbol: options.symbol,
+    startTime: sorted[0].time,
+    endTime: sorted[sorted.length - 1].time,
+    candles: sorted.length,
+    initialCapital,
+    finalEquity,
+    signals,
+    equityCurve,
+    trades,
+    metrics: calculateBacktestMetrics(equityCurve, trades, initialCapital, snapshotIntervalMs),
+  }
+}
+
+/**
+ * Append fills executed since the last check, labelled with the signal that caused them
+ */
+function collectTrades(
+  exchange: SimulatedExchange,
+  trades: BacktestTrade[],
+  recordedFills: number,
+  signal: TradeSignal | null
+): number {
+  const fills = exchange.getFills()
+
+  for (const fill of fills.slice(recordedFills)) {
+    let reason = signal?.reason || "Resting order filled"
+    if (fill.type === "STOP_MARKET") reason = "Stop loss triggered"
+    if (fill.type === "TAKE_PROFIT_MARKET") reason = "Take profit triggered"
+
+    trades.push({
+      time: fill.time,
+      orderId: fill.orderId,
+      side: fill.side,
+      type: fill.type,
+      quantity: fill.quantity,
+      price: fill.price,
+      fee: fill.fee,
+      realizedPnl: fill.realizedPnl,
+      reason,
+    })
+  }
+
+  return fills.length
+}
+
+/**
+ * Compute the same risk metrics used for live agents from the equity curve
+ */
+function calculateBacktestMetrics(
+  equityCurve: EquityPoint[],
+  trades: BacktestTrade[],
+  initialCapital: number,
+  snapshotIntervalMs: number
+): BacktestMetrics {
+  const snapshots: Array<{ timestamp: string; account_value: number; total_pnl: number; return_percent: number }> = []
+  let lastSnapshotTime = -Infinity
+
+  equityCurve.forEach((point, index) => {
+    const isLast = index === equityCurve.length - 1
+    if (point.time - lastSnapshotTime < snapshotIntervalMs && !isLast) return
+
+    lastSnapshotTime = point.time
+    snapshots.push({
+      timestamp: new Date(point.time).toISOString(),
+      account_value: point.equity,
+      total_pnl: point.equity - initialCapital,
+      return_percent: ((point.equity - initialCapital) / initialCapital) * 100,
+    })
+  })
+
+  const finalEquity = equityCurve[equityCurve.length - 1].equity
+  const totalReturnPercent = ((finalEquity - initialCapital) / initialCapital) * 100
+  const risk = calculateAllRiskMetrics(snapshots, totalReturnPercent)
+
+  // Only fills that closed exposure count towards win rate
+  const closingTrades = trades.filter((t) => t.realizedPnl !== 0)
+  const winningTrades = closingTrades.filter((t) => t.realizedPnl > 0).length
+
+  return {
+    totalReturnPercent,
+    maxDrawdown: risk.maxDrawdown,
+    volatility: risk.volatility,
+    sharpeRatio: risk.sharpeRatio,
+    sortinoRatio: risk.sortinoRatio,
+    calmarRatio: risk.calmarRatio,
+    totalTrades: trades.length,
+    winningTrades,
+    losingTrades: closingTrades.length - winningTrades,
+    winRate: closingTrades.length > 0 ? winningTrades / closingTrades.length : 0,
+    totalFees: trades.reduce((sum, t) => sum + t.fee, 0),
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest"
+import { BracketManager } from "./bracket-manager.ts"
+import { SimulatedExchange } from "./simulated-exchange.ts"
+import type { CandleData } from "./market-analyzer.ts"
+
+const SYMBOL = "ETHUSDT"
+const quiet = { log: () => {}, warn: () => {}, error: () => {} }
+
+function candle(open: number, high: number, low: number, close: number): CandleData {
+  return { time: 0, open, high, low, close, volume: 0 }
+}
+
+async function setup() {
+  const exchange = new SimulatedExchange({ initialBalance: 10_000, slippagePercent: 0, clock: () => 0 })
+  exchange.setMarkPrice(SYMBOL, 100)
+  const onClose = vi.fn(async () => {})
+  const brackets = new BracketManager(exchange, { symbol: SYMBOL, logPrefix: "[test]", logger: quiet, onClose })
+
+  const entry = await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "MARKET", quantity: 2 })
+  await brackets.open(entry.orderId, "LONG", 95, 110)
+
+  return { exchange, brackets, onClose, entry }
+}
+
+describe("BracketManager", () => {
+  it("places reduce-only stop-loss and take-profit children for the filled entry", async () => {
+    const { exchange, brackets } = await setup()
+
+    const children = await exchange.getOpenOrders(SYMBOL)
+    expect(children.map((o) => [o.type, o.side, o.origQty, o.stopPrice, o.reduceOnly])).toEqual([
+      ["STOP_MARKET", "SELL", 2, 95, true],
+      ["TAKE_PROFIT_MARKET", "SELL", 2, 110, true],
+    ])
+    expect(brackets.getBrackets()).toHaveLength(1)
+  })
+
+  it("cancels the stop when the take-profit fills (OCO)", async () => {
+    const { exchange, brackets, onClose } = await setup()
+
+    exchange.processCandle(SYMBOL, candle(100, 111, 99, 110))
+    await brackets.sync()
+
+    expect(await exchange.getOpenOrders(SYMBOL)).toEqual([])
+    expect(onClose).toHaveBeenCalledWith(expect.objectContaining({ side: "LONG" }), "hit_tp")
+    expect(brackets.getBrackets()).toEqual([])
+  })
+
+  it("cancels the take-profit when the stop fills", async () => {
+    const { exchange, brackets, onClose } = await setup()
+
+    exchange.processCandle(SYMBOL, candle(100, 101, 94, 95))
+    await brackets.sync()
+
+    expect(await exchange.getOpenOrders(SYMBOL)).toEqual([])
+    expect(onClose).toHaveBeenCalledWith(expect.anything(), "hit_sl")
+  })
+
+  it("resizes both children when the strategy scales out with a plain order", async () => {
+    const { exchange, brackets } = await setup()
+
+    await exchange.placeOrder({ symbol: SYMBOL, side: "SELL", type: "MARKET", quantity: 0.5 })
+    await brackets.sync()
+
+    const children = await exchange.getOpenOrders(SYMBOL)
+    expect(children.map((o) => o.origQty)).toEqual([1.5, 1.5])
+  })
+
+  it("closes the bracket once the position is gone", async () => {
+    const { exchange, brackets, onClose } = await setup()
+
+    await exchange.closePosition(SYMBOL, "LONG")
+    await brackets.sync()
+
+    expect(await exchange.getOpenOrders(SYMBOL)).toEqual([])
+    expect(onClose).toHaveBeenCalledWith(expect.anything(), "closed")
+  })
+
+  it("does not duplicate children when a stream event races open()", async () => {
+    const exchange = new SimulatedExchange({ initialBalance: 10_000, slippagePercent: 0, clock: () => 0 })
+    exchange.setMarkPrice(SYMBOL, 100)
+    const brackets = new BracketManager(exchange, { symbol: SYMBOL, logPrefix: "[test]", logger: quiet, onClose: async () => {} })
+    const entry = await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "MARKET", quantity: 2 })
+
+    const opening = brackets.open(entry.orderId, "LONG", 95, 110)
+    await Promise.all([opening, brackets.handleOrderUpdate(entry.orderId), brackets.sync()])
+
+    expect(await exchange.getOpenOrders(SYMBOL)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,257 @@
+/**
+ * Bracket Order Manager
+ * Links each entry order to its stop-loss and take-profit children (OCO)
+ *
+ * - Children are reduce-only and sized to the entry's executed quantity
+ * - Partial fills (entry, child, or a shrinking position) resize the children
+ * - When one child fills, the sibling is cancelled and the bracket is closed
+ * - The final outcome (hit_sl / hit_tp / closed) is reported through onClose
+ * - Syncs of one bracket never overlap (loop, stream events and open() queue up),
+ *   so concurrent triggers can't place duplicate children
+ */
+
+import type { AsterOrder, ExchangeClient } from "./aster-client.ts"
+import type { StrategyLogger } from "../base-strategy.ts"
+
+export type BracketSide = "LONG" | "SHORT"
+export type BracketOutcome = "hit_tp" | "hit_sl" | "closed"
+
+export interface Bracket {
+  entryOrderId: string
+  side: BracketSide
+  stopLoss?: number
+  takeProfit?: number
+  exitedQty: number // Quantity closed by children that have since been replaced
+  stopOrderId?: string
+  takeProfitOrderId?: string
+  openedAt: number
+}
+
+interface BracketManagerConfig {
+  symbol: string
+  logPrefix: string // e.g., "[Claude Arbitrage Agent (ETHUSDT)]"
+  logger?: StrategyLogger // Default: console
+  onClose: (bracket: Bracket, outcome: BracketOutcome) => Promise<void>
+}
+
+const QTY_EPSILON = 1e-9
+const ACTIVE_STATUSES: AsterOrder["status"][] = ["NEW", "PARTIALLY_FILLED"]
+
+export class BracketManager {
+  private client: ExchangeClient
+  private config: BracketManagerConfig
+  private logger: StrategyLogger
+  private brackets = new Map<string, Bracket>()
+  private syncing = new Map<string, Promise<void>>() // Latest queued sync per entry order
+
+  constructor(client: ExchangeClient, config: BracketManagerConfig) {
+    this.client = client
+    this.config = config
+    this.logger = config.logger ?? console
+  }
+
+  /**
+   * Start managing a bracket for an entry order
+   * Children are placed immediately for whatever has already filled
+   */
+  async open(
+    entryOrderId: string,
+    side: BracketSide,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<void> {
+    if (!stopLoss && !takeProfit) return
+
+    const bracket: Bracket = {
+      entryOrderId,
+      side,
+      stopLoss,
+      takeProfit,
+      exitedQty: 0,
+      openedAt: Date.now(),
+    }
+    this.brackets.set(entryOrderId, bracket)
+    this.logger.log(
+      `${this.config.logPrefix} 🛡️ Bracket opened for entry ${entryOrderId} (${side}): SL=${stopLoss ?? "none"}, TP=${takeProfit ?? "none"}`
+    )
+
+    await this.syncBracket(bracket)
+  }
+
+  /**
+   * Reconcile every active bracket with the exchange
+   * Call once per trading loop iteration
+   */
+  async sync(): Promise<void> {
+    if (this.brackets.size === 0) return
+
+    for (const bracket of [...this.brackets.values()]) {
+      await this.syncBracket(bracket)
+    }
+  }
+
+  /**
+   * React to a user-data stream event for one of this manager's orders
+   * Only the bracket that owns the order is re-synced
+   */
+  async handleOrderUpdate(orderId: string): Promise<void> {
+    for (const bracket of [...this.brackets.values()]) {
+      if (
+        bracket.entryOrderId === orderId ||
+        bracket.stopOrderId === orderId ||
+        bracket.takeProfitOrderId === orderId
+      ) {
+        await this.syncBracket(bracket)
+        return
+      }
+    }
+  }
+
+  /**
+   * Active brackets (for status/debugging)
+   */
+  getBrackets(): Bracket[] {
+    return [...this.brackets.values()]
+  }
+
+  /**
+   * Queue a sync behind any sync of the same bracket that is still in flight
+   */
+  private syncBracket(bracket: Bracket): Promise<void> {
+    const id = bracket.entryOrderId
+    const queued = (this.syncing.get(id) || Promise.resolve()).then(() => this.reconcile(bracket))
+    this.syncing.set(id, queued)
+    queued.finally(() => {
+      if (this.syncing.get(id) === queued) this.syncing.delete(id)
+    })
+    return queued
+  }
+
+  private async reconcile(bracket: Bracket): Promise<void> {
+    // Closed by a sync that was queued ahead of this one
+    if (this.brackets.get(bracket.entryOrderId) !== bracket) return
+
+    try {
+      const { symbol } = this.config
+      const entry = await this.client.getOrder(symbol, bracket.entryOrderId)
+      const entryFilled = Number(entry.executedQty) || 0
+      const entryDone = !ACTIVE_STATUSES.includes(entry.status)
+
+      const stop = bracket.stopOrderId ? await this.client.getOrder(symbol, bracket.stopOrderId) : null
+      const takeProfit = bracket.takeProfitOrderId ? await this.client.getOrder(symbol, bracket.takeProfitOrderId) : null
+
+      // One leg fully filled: cancel the sibling and close out
+      if (stop?.status === "FILLED") {
+        await this.cancelChild(takeProfit)
+        await this.close(bracket, "hit_sl")
+        return
+      }
+      if (takeProfit?.status === "FILLED") {
+        await this.cancelChild(stop)
+        await this.close(bracket, "hit_tp")
+        return
+      }
+
+      // Entry never filled
+      if (entryDone && entryFilled <= QTY_EPSILON) {
+        await this.cancelChild(stop)
+        await this.cancelChild(takeProfit)
+        await this.close(bracket, "closed")
+        return
+      }
+
+      // A child was cancelled/expired outside this manager (e.g. manual cleanup)
+      const lostStop = stop && !ACTIVE_STATUSES.includes(stop.status)
+      const lostTakeProfit = takeProfit && !ACTIVE_STATUSES.includes(takeProfit.status)
+      if (lostStop || lostTakeProfit) {
+        await this.cancelChild(stop)
+        await this.cancelChild(takeProfit)
+        await this.close(bracket, "closed")
+        return
+      }
+
+      // Remaining quantity to protect: entry fills minus what children already closed,
+      // capped by the live position (strategies may scale out with plain orders)
+      const childExited = (Number(stop?.executedQty) || 0) + (Number(takeProfit?.executedQty) || 0)
+      const positionQty = await this.getPositionQuantity(bracket.side)
+      const remaining = Math.min(entryFilled - bracket.exitedQty - childExited, positionQty)
+
+      if (remaining <= QTY_EPSILON) {
+        if (entryDone) {
+          await this.cancelChild(stop)
+          await this.cancelChild(takeProfit)
+          await this.close(bracket, "closed")
+        }
+        return
+      }
+
+      if (bracket.stopLoss) {
+        bracket.stopOrderId = await this.resizeChild(bracket, stop, "STOP_MARKET", bracket.stopLoss, remaining)
+      }
+      if (bracket.takeProfit) {
+        bracket.takeProfitOrderId = await this.resizeChild(bracket, takeProfit, "TAKE_PROFIT_MARKET", bracket.takeProfit, remaining)
+      }
+    } catch (error) {
+      this.logger.warn(`${this.config.logPrefix} ⚠️ Failed to sync bracket ${bracket.entryOrderId}:`, error)
+    }
+  }
+
+  /**
+   * Make sure a child order covers exactly `quantity`, replacing it if needed
+   * Returns the orderId of the live child
+   */
+  private async resizeChild(
+    bracket: Bracket,
+    current: AsterOrder | null,
+    type: "STOP_MARKET" | "TAKE_PROFIT_MARKET",
+    stopPrice: number,
+    quantity: number
+  ): Promise<string | undefined> {
+    if (current) {
+      const open = (Number(current.origQty) || 0) - (Number(current.executedQty) || 0)
+      if (Math.abs(open - quantity) <= QTY_EPSILON) return current.orderId
+
+      // Aster has no amend: cancel and replace, carrying over anything the old child closed
+      await this.client.cancelOrder(this.config.symbol, current.orderId)
+      bracket.exitedQty += Number(current.executedQty) || 0
+    }
+
+    const order = await this.client.placeOrder({
+      symbol: this.config.symbol,
+      side: bracket.side === "LONG" ? "SELL" : "BUY",
+      type,
+      quantity,
+      stopPrice,
+      reduceOnly: true,
+    })
+
+    const label = type === "STOP_MARKET" ? "Stop Loss" : "Take Profit"
+    this.logger.log(
+      `${this.config.logPrefix} ${current ? "Resized" : "Placed"} ${label} order ${order.orderId}: ${quantity} @ ${stopPrice}`
+    )
+    return String(order.orderId)
+  }
+
+  private async cancelChild(order: AsterOrder | null): Promise<void> {
+    if (!order || !ACTIVE_STATUSES.includes(order.status)) return
+
+    try {
+      await this.client.cancelOrder(this.config.symbol, order.orderId)
+    } catch (error) {
+      this.logger.warn(`${this.config.logPrefix} ⚠️ Failed to cancel order ${order.orderId}:`, error)
+    }
+  }
+
+  private async getPositionQuantity(side: BracketSide): Promise<number> {
+    const { positions } = await this.client.getPositions()
+    const position = positions.find((p) => p.symbol === this.config.symbol)
+    const amount = Number(position?.positionAmt) || 0
+    return side === "LONG" ? Math.max(0, amount) : Math.max(0, -amount)
+  }
+
+  private async close(bracket: Bracket, outcome: BracketOutcome): Promise<void> {
+    this.brackets.delete(bracket.entryOrderId)
+    this.logger.log(`${this.config.logPrefix} 🏁 Bracket for entry ${bracket.entryOrderId} closed: ${outcome}`)
+    await this.config.onClose(bracket, outcome)
+  }
+}
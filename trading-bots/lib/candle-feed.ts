@@ -0,0 +1,190 @@
+/**
+ * Candle Feed
+ * Real multi-timeframe OHLCV series for strategies
+ *
+ * - Seeds 1m/5m/1h history from Binance klines at startup (no empty history after a restart)
+ * - Rolls every timeframe forward from live price ticks between seeds
+ * - Periodically re-syncs from klines so rolled candles pick up real highs, lows and volume
+ * - One feed per symbol, shared by every strategy trading it
+ */
+
+import { BinancePriceClient } from "./binance-price-client"
+import { MarketAnalyzer, type CandleData } from "./market-analyzer.ts"
+
+export type Timeframe = "1m" | "5m" | "1h"
+
+export const TIMEFRAMES: Timeframe[] = ["1m", "5m", "1h"]
+
+const TIMEFRAME_MS: Record<Timeframe, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+}
+
+const MAX_CANDLES = 200 // Per timeframe; enough for MACD(26) and slow trends
+const RESYNC_INTERVAL_MS = Number(process.env.CANDLE_RESYNC_INTERVAL_MS) || 5 * 60 * 1000
+
+export interface TimeframeAnalysis {
+  candles: CandleData[]
+  closes: number[]
+  rsi: number
+  macd: ReturnType<typeof MarketAnalyzer.calculateMACD>
+  bollinger: ReturnType<typeof MarketAnalyzer.calculateBollingerBands>
+  atr: number
+}
+
+export class CandleFeed {
+  private series: Record<Timeframe, CandleData[]> = { "1m": [], "5m": [], "1h": [] }
+  private priceClient = new BinancePriceClient()
+  private seeding: Promise<void> | null = null
+  private lastSeed = 0
+
+  constructor(private symbol: string) {}
+
+  /**
+   * Load recent klines for every timeframe (concurrent callers share one request)
+   * Timeframes that fail keep their rolled candles
+   */
+  async seed(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = this.loadKlines().finally(() => (this.seeding = null))
+    }
+    return this.seeding
+  }
+
+  /**
+   * Re-seed when the last seed is older than CANDLE_RESYNC_INTERVAL_MS (default 5 minutes)
+   */
+  async refresh(): Promise<void> {
+    if (Date.now() - this.lastSeed >= RESYNC_INTERVAL_MS) {
+      await this.seed()
+    }
+  }
+
+  /**
+   * Roll every timeframe forward with a price tick
+   * Extends the candle containing `time` or opens the next one; ticks carry no volume
+   */
+  update(price: number, time: number): void {
+    if (!Number.isFinite(price) || price <= 0) return
+
+    for (const timeframe of TIMEFRAMES) {
+      const candles = this.series[timeframe]
+      const openTime = Math.floor(time / TIMEFRAME_MS[timeframe]) * TIMEFRAME_MS[timeframe]
+      const last = candles[candles.length - 1]
+
+      if (last && last.time === openTime) {
+        last.high = Math.max(last.high, price)
+        last.low = Math.min(last.low, price)
+        last.close = price
+      } else if (!last || openTime > last.time) {
+        candles.push({ time: openTime, open: price, high: price, low: price, close: price, volume: 0 })
+        if (candles.length > MAX_CANDLES) candles.shift()
+      }
+    }
+  }
+
+  /**
+   * Replace or append a kline pushed by the market data stream (real high, low and volume)
+   */
+  applyKline(timeframe: Timeframe, kline: CandleData): void {
+    const candles = this.series[timeframe]
+    if (!candles || !Number.isFinite(kline.time) || !(kline.close > 0)) return
+
+    const index = candles.findIndex((c) => c.time === kline.time)
+    if (index >= 0) {
+      candles[index] = kline
+    } else if (candles.length === 0 || kline.time > candles[candles.length - 1].time) {
+      candles.push(kline)
+      if (candles.length > MAX_CANDLES) candles.shift()
+    }
+  }
+
+  /**
+   * Candles for a timeframe, oldest first (the last one may still be forming)
+   */
+  getCandles(timeframe: Timeframe): CandleData[] {
+    return this.series[timeframe]
+  }
+
+  /**
+   * Closing prices for a timeframe, oldest first
+   */
+  getCloses(timeframe: Timeframe): number[] {
+    return this.series[timeframe].map((c) => c.close)
+  }
+
+  /**
+   * Every timeframe ending at the same candle: series are cut at the open time of the
+   * most recent 1m candle so a higher timeframe never includes a candle from "later"
+   */
+  getAligned(): Record<Timeframe, CandleData[]> {
+    const base = this.series["1m"]
+    const cutoff = base.length > 0 ? base[base.length - 1].time : Infinity
+    const aligned = {} as Record<Timeframe, CandleData[]>
+    for (const timeframe of TIMEFRAMES) {
+      aligned[timeframe] = this.series[timeframe].filter((c) => c.time <= cutoff)
+    }
+    return aligned
+  }
+
+  /**
+   * RSI, MACD, Bollinger Bands and ATR for a timeframe, or null until it has 2 candles
+   */
+  analyze(timeframe: Timeframe): TimeframeAnalysis | null {
+    const candles = this.getAligned()[timeframe]
+    if (candles.length < 2) return null
+
+    const closes = candles.map((c) => c.close)
+    return {
+      candles,
+      closes,
+      rsi: MarketAnalyzer.calculateRSI(closes, 14),
+      macd: MarketAnalyzer.calculateMACD(closes),
+      bollinger: MarketAnalyzer.calculateBollingerBands(closes, 20, 2),
+      atr: MarketAnalyzer.calculateATR(candles, 14),
+    }
+  }
+
+  private async loadKlines(): Promise<void> {
+    for (const timeframe of TIMEFRAMES) {
+      try {
+        const klines = await this.priceClient.getCandles(this.symbol, timeframe, MAX_CANDLES)
+        const rolled = this.series[timeframe]
+        const candles: CandleData[] = klines.map((k) => ({
+          time: k.timestamp,
+          open: k.open,
+          high: k.high,
+          low: k.low,
+          close: k.close,
+          volume: k.volume,
+        }))
+
+        // Keep ticks rolled after the last kline (the request may have raced a new candle)
+        const lastKline = candles.length > 0 ? candles[candles.length - 1].time : 0
+        this.series[timeframe] = [...candles, ...rolled.filter((c) => c.time > lastKline)].slice(-MAX_CANDLES)
+      } catch (error) {
+        console.warn(`[CandleFeed] ⚠️ Could not load ${this.symbol} ${timeframe} klines:`, error instanceof Error ? error.message : error)
+      }
+    }
+    this.lastSeed = Date.now()
+    console.log(
+      `[CandleFeed] ✅ ${this.symbol}: ${TIMEFRAMES.map((tf) => `${this.series[tf].length}×${tf}`).join(", ")}`
+    )
+  }
+}
+
+// One feed per Binance symbol
+const feeds = new Map<string, CandleFeed>()
+
+/**
+ * Get the shared candle feed for a Binance symbol (e.g. "ETHUSDT")
+ */
+export function getCandleFeed(symbol: string): CandleFeed {
+  let feed = feeds.get(symbol)
+  if (!feed) {
+    feed = new CandleFeed(symbol)
+    feeds.set(symbol, feed)
+  }
+  return feed
+}
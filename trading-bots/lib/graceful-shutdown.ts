@@ -0,0 +1,58 @@
+/**
+ * Graceful Shutdown
+ * Stops an agent's strategies on SIGTERM/SIGINT (supervisor stop, Railway redeploy)
+ *
+ * - Each strategy stops opening positions and cancels its resting orders
+ * - SHUTDOWN_FLATTEN=true also closes open positions
+ * - The process exits 0 once every strategy is done (or 1 after SHUTDOWN_TIMEOUT_MS)
+ */
+
+export interface ShutdownOptions {
+  flatten?: boolean // Close open positions after cancelling orders
+  reason?: string // Written to agent_status
+}
+
+export interface ShutdownTarget {
+  shutdown(options: ShutdownOptions): Promise<void>
+}
+
+/**
+ * Register SIGTERM/SIGINT handlers for an agent process
+ */
+export function handleShutdownSignals(
+  targets: ShutdownTarget[],
+  timeoutMs: number = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 25000
+): void {
+  let shuttingDown = false
+
+  const onSignal = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) return
+    shuttingDown = true
+
+    const flatten = process.env.SHUTDOWN_FLATTEN === "true"
+    console.log(
+      `\n⚠️  Received ${signal}. Stopping ${targets.length} strategy loop(s)` +
+      `${flatten ? " and flattening positions" : ""}...`
+    )
+
+    const forceExit = setTimeout(() => {
+      console.error(`Shutdown did not finish within ${timeoutMs / 1000}s, exiting`)
+      process.exit(1)
+    }, timeoutMs)
+
+    const results = await Promise.allSettled(
+      targets.map((target) => target.shutdown({ flatten, reason: `Stopped by ${signal}` }))
+    )
+    const failed = results.filter((r) => r.status === "rejected")
+    for (const failure of failed) {
+      console.error("Shutdown error:", (failure as PromiseRejectedResult).reason)
+    }
+
+    clearTimeout(forceExit)
+    console.log(`✓ Shutdown complete${failed.length > 0 ? ` (${failed.length} error(s))` : ""}`)
+    process.exit(failed.length > 0 ? 1 : 0)
+  }
+
+  process.on("SIGTERM", onSignal)
+  process.on("SIGINT", onSignal)
+}
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { completeDecision, getAgentProviderId } from "./llm-client.ts"
+
+describe("completeDecision", () => {
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER
+    delete process.env.LLM_PROVIDER_GEMINI_GRID
+  })
+
+  it("binds agents by model ID through the shared registry", () => {
+    expect(getAgentProviderId("gemini_grid")).toBe("google")
+
+    process.env.LLM_PROVIDER = "openai"
+    process.env.LLM_PROVIDER_GEMINI_GRID = "mock"
+    expect(getAgentProviderId("gemini_grid")).toBe("mock")
+    expect(getAgentProviderId("deepseek_ml")).toBe("openai")
+  })
+
+  it("has the mock provider echo the indicator signal as a JSON decision", async () => {
+    const response = await completeDecision("mock", "Indicator strategy suggests: BUY 0.5 (confidence 0.8)", 1000)
+
+    expect(response.provider).toBe("mock")
+    expect(JSON.parse(response.text)).toMatchObject({ action: "BUY", quantity: 0.5, confidence: 0.8 })
+  })
+
+  it("has the mock provider hold without an indicator signal", async () => {
+    const response = await completeDecision("mock", "No suggestion here", 1000)
+
+    expect(JSON.parse(response.text)).toMatchObject({ action: "HOLD", quantity: 0 })
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * LLM Client for Trading Bots
+ * Decision-mode calls go through the dashboard's provider registry (lib/llm-providers.ts),
+ * so bots and dashboard share one set of providers, models and env vars: agents bind by
+ * model ID through LLM_PROVIDER / LLM_PROVIDER_<MODEL_ID> (e.g. LLM_PROVIDER_GEMINI_GRID=mock).
+ *
+ * Only the request settings are decision-specific: a JSON decision needs more tokens than a
+ * chat line, a trading cycle can't wait through long retries, and the "mock" provider echoes
+ * the indicator signal so LLM decision mode runs offline
+ */
+
+import {
+  completeWithProvider,
+  getAgentProviderId,
+  type LLMCompletionResponse,
+} from "../../lib/llm-providers.ts"
+
+export { getAgentProviderId }
+
+const DECISION_MAX_TOKENS = 400
+const DECISION_TEMPERATURE = 0.2
+const DECISION_MAX_ATTEMPTS = 2 // A decision cycle can't wait long, so retries are short
+
+/**
+ * Ask a provider for a trading decision (prompt from lib/llm-decision.ts)
+ * Throws on missing API key, HTTP errors, malformed responses and exhausted retries
+ */
+export function completeDecision(providerId: string, prompt: string, timeoutMs: number): Promise<LLMCompletionResponse> {
+  return completeWithProvider(providerId, {
+    prompt,
+    maxTokens: DECISION_MAX_TOKENS,
+    temperature: DECISION_TEMPERATURE,
+    timeoutMs,
+    maxAttempts: DECISION_MAX_ATTEMPTS,
+    mockReply: () => mockDecision(prompt),
+  })
+}
+
+/**
+ * Deterministic offline reply: echoes the indicator suggestion from the decision prompt
+ * as a JSON decision, or HOLD when there is none
+ */
+function mockDecision(prompt: string): string {
+  const match = prompt.match(/Indicator strategy suggests: (BUY|SELL|HOLD)(?: ([\d.]+))? \(confidence ([\d.]+)\)/)
+  const action = match?.[1] || "HOLD"
+  const quantity = action === "HOLD" ? 0 : Number(match?.[2]) || 0
+
+  return JSON.stringify({
+    action: quantity > 0 ? action : "HOLD",
+    quantity,
+    stopLoss: null,
+    takeProfit: null,
+    confidence: Math.min(1, Number(match?.[3]) || 0),
+    reason: match ? `Mock provider following the indicator signal (${action})` : "Mock provider: no indicator signal in prompt",
+  })
+}
@@ -0,0 +1,164 @@
+/**
+ * LLM Decision Mode
+ * Builds the decision prompt for an agent's model and validates its JSON reply
+ * into a TradeSignal
+ *
+ * The model sees the market, its position, active exit plans (brackets) and the
+ * indicator strategy's own signal, and must answer with a single JSON object:
+ * { action, quantity, stopLoss, takeProfit, confidence, reason }
+ * Anything that doesn't validate is rejected so the caller can fall back to the indicators.
+ */
+
+import type { TradeSignal } from "../base-strategy.ts"
+
+export interface LLMDecisionContext {
+  agentName: string
+  symbol: string
+  price: number
+  recentPrices: number[] // Oldest first
+  equity: number
+  position?: {
+    quantity: number // Signed: positive = long, negative = short
+    entryPrice: number
+    unrealizedProfit: number
+    leverage: number
+  }
+  exitPlans: Array<{ side: "LONG" | "SHORT"; stopLoss?: number; takeProfit?: number; openedAt: number }>
+  indicatorSignal: TradeSignal
+  customPrompt?: string // Agent prompt from the Pickaboo dashboard
+}
+
+export interface LLMDecisionResult {
+  signal?: TradeSignal // Set only when the reply passed validation
+  errors: string[]
+}
+
+const ACTIONS = ["BUY", "SELL", "HOLD"] as const
+
+/**
+ * Prompt sent to the agent's model each decision cycle
+ */
+export function buildDecisionPrompt(context: LLMDecisionContext): string {
+  const { position, indicatorSignal } = context
+  const first = context.recentPrices[0]
+  const change = first ? ((context.price - first) / first) * 100 : 0
+
+  const positionText = position && position.quantity !== 0
+    ? `${position.quantity > 0 ? "LONG" : "SHORT"} ${Math.abs(position.quantity)} @ $${position.entryPrice} ` +
+      `(unrealized PnL $${position.unrealizedProfit.toFixed(2)}, ${position.leverage}x)`
+    : "Flat (no position)"
+
+  const exitPlanText = context.exitPlans.length > 0
+    ? context.exitPlans
+        .map((plan) => `- ${plan.side}: stop loss ${plan.stopLoss ?? "none"}, take profit ${plan.takeProfit ?? "none"}`)
+        .join("\n")
+    : "- None"
+
+  return `${context.customPrompt || `You are ${context.agentName}, an autonomous crypto futures trading agent.`}
+
+Decide the next action for ${context.symbol}.
+
+Market:
+- Price: $${context.price}
+- Last ${context.recentPrices.length} prices (oldest first): ${context.recentPrices.join(", ")}
+- Change over that window: ${change.toFixed(2)}%
+
+Account:
+- Equity: $${context.equity.toFixed(2)}
+- Position: ${positionText}
+
+Active exit plans (stop loss / take profit orders):
+${exitPlanText}
+
+Indicator strategy suggests: ${indicatorSignal.action}${indicatorSignal.quantity ? ` ${indicatorSignal.quantity}` : ""} (confidence ${indicatorSignal.confidence}) - ${indicatorSignal.reason}
+
+Rules:
+- BUY opens/increases a long or reduces a short; SELL opens/increases a short or reduces a long.
+- quantity is in ${context.symbol.replace(/USDT$/, "")} units; use 0 for HOLD. Size limits are enforced after your answer.
+- For BUY, stopLoss must be below and takeProfit above the price; for SELL the opposite. Use null to omit.
+- confidence is between 0 and 1.
+
+Respond with ONLY a JSON object, no other text:
+{"action": "BUY" | "SELL" | "HOLD", "quantity": number, "stopLoss": number | null, "takeProfit": number | null, "confidence": number, "reason": string}`
+}
+
+/**
+ * Parse and validate a model reply into a TradeSignal
+ */
+export function parseDecision(text: string, price: number): LLMDecisionResult {
+  const errors: string[] = []
+
+  // Models often wrap JSON in prose or code fences; take the outermost object
+  const start = text.indexOf("{")
+  const end = text.lastIndexOf("}")
+  if (start === -1 || end <= start) {
+    return { errors: ["Reply does not contain a JSON object"] }
+  }
+
+  let raw: any
+  try {
+    raw = JSON.parse(text.slice(start, end + 1))
+  } catch (error) {
+    return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { errors: ["Reply is not a JSON object"] }
+  }
+
+  const action = typeof raw.action === "string" ? raw.action.toUpperCase() : raw.action
+  if (!ACTIONS.includes(action)) {
+    errors.push(`action must be one of ${ACTIONS.join(", ")} (got ${JSON.stringify(raw.action)})`)
+  }
+
+  const quantity = action === "HOLD" && (raw.quantity === undefined || raw.quantity === null) ? 0 : raw.quantity
+  if (typeof quantity !== "number" || !Number.isFinite(quantity) || quantity < 0) {
+    errors.push(`quantity must be a non-negative number (got ${JSON.stringify(raw.quantity)})`)
+  } else if (action !== "HOLD" && quantity === 0) {
+    errors.push(`quantity must be greater than 0 for ${action}`)
+  }
+
+  if (typeof raw.confidence !== "number" || !Number.isFinite(raw.confidence) || raw.confidence < 0 || raw.confidence > 1) {
+    errors.push(`confidence must be a number between 0 and 1 (got ${JSON.stringify(raw.confidence)})`)
+  }
+
+  if (typeof raw.reason !== "string" || raw.reason.trim().length === 0) {
+    errors.push("reason must be a non-empty string")
+  }
+
+  const stopLoss = optionalPrice(raw.stopLoss, "stopLoss", errors)
+  const takeProfit = optionalPrice(raw.takeProfit, "takeProfit", errors)
+
+  if (action === "BUY") {
+    if (stopLoss !== undefined && stopLoss >= price) errors.push(`stopLoss ${stopLoss} must be below price ${price} for BUY`)
+    if (takeProfit !== undefined && takeProfit <= price) errors.push(`takeProfit ${takeProfit} must be above price ${price} for BUY`)
+  } else if (action === "SELL") {
+    if (stopLoss !== undefined && stopLoss <= price) errors.push(`stopLoss ${stopLoss} must be above price ${price} for SELL`)
+    if (takeProfit !== undefined && takeProfit >= price) errors.push(`takeProfit ${takeProfit} must be below price ${price} for SELL`)
+  }
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+
+  return {
+    signal: {
+      action,
+      quantity: action === "HOLD" ? 0 : quantity,
+      stopLoss: action === "HOLD" ? undefined : stopLoss,
+      takeProfit: action === "HOLD" ? undefined : takeProfit,
+      confidence: raw.confidence,
+      reason: raw.reason.trim().substring(0, 500),
+    },
+    errors,
+  }
+}
+
+function optionalPrice(value: unknown, field: string, errors: string[]): number | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    errors.push(`${field} must be a positive number or null (got ${JSON.stringify(value)})`)
+    return undefined
+  }
+  return value
+}
@@ -0,0 +1,290 @@
+/**
+ * Binance Market Data Stream
+ * One WebSocket per process carrying trades, best bid/ask, depth and klines for every traded symbol
+ *
+ * - Symbols are added as strategies start; new ones are subscribed on the open connection
+ * - Reconnects with exponential backoff, and drops the connection when it goes quiet
+ * - Readers get null once a symbol's data is stale, so callers fall back to REST
+ * - Kline updates roll the shared candle feeds with real OHLCV between kline re-syncs
+ */
+
+import WebSocket from "ws"
+import { getCandleFeed, TIMEFRAMES, type Timeframe } from "./candle-feed.ts"
+import type { OrderBookData } from "./market-analyzer.ts"
+
+export interface BookTicker {
+  bidPrice: number
+  bidQty: number
+  askPrice: number
+  askQty: number
+  time: number // Receive time
+}
+
+interface SymbolState {
+  lastTrade: { price: number; time: number } | null
+  book: BookTicker | null
+  depth: OrderBookData | null
+}
+
+const DEPTH_LEVELS = 10
+const STALE_AFTER_MS = Number(process.env.MARKET_DATA_STALE_MS) || 30 * 1000
+const STALE_CHECK_INTERVAL_MS = 10 * 1000
+const MAX_RECONNECT_DELAY_MS = 60 * 1000
+
+export class MarketDataStream {
+  private wsBaseUrl: string
+  private socket: WebSocket | null = null
+  private symbols = new Set<string>() // Binance symbols, e.g. "ETHUSDT"
+  private subscribed = new Set<string>() // Symbols included in the current connection
+  private state = new Map<string, SymbolState>()
+  private staleTimer: NodeJS.Timeout | null = null
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private reconnectAttempts = 0
+  private lastMessageAt = 0
+  private requestId = 0
+  private stopped = false
+  private connected = false
+  private hasConnectedBefore = false
+
+  constructor() {
+    this.wsBaseUrl = process.env.BINANCE_WS_URL || "wss://stream.binance.com:9443"
+  }
+
+  /**
+   * Stream a symbol (safe to call from every strategy trading it)
+   */
+  addSymbol(symbol: string): void {
+    const upper = symbol.toUpperCase()
+    if (this.symbols.has(upper)) return
+    this.symbols.add(upper)
+    this.state.set(upper, { lastTrade: null, book: null, depth: null })
+
+    if (this.connected && this.socket) {
+      this.subscribe(this.streamsFor(upper))
+      this.subscribed.add(upper)
+    }
+  }
+
+  /**
+   * Whether messages are currently flowing
+   */
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  /**
+   * Open the connection (safe to call more than once)
+   */
+  start(): void {
+    if (this.socket || this.stopped || this.symbols.size === 0) return
+    this.connect()
+  }
+
+  /**
+   * Close the connection for good
+   */
+  stop(): void {
+    this.stopped = true
+    this.connected = false
+    this.clearTimers()
+
+    if (this.socket) {
+      this.socket.removeAllListeners()
+      this.socket.close()
+      this.socket = null
+    }
+  }
+
+  /**
+   * Latest price and its time: the last trade, or the best bid/ask mid when no trade is recent
+   * Null when neither is fresher than maxAgeMs (the caller should use REST)
+   */
+  getPrice(symbol: string, maxAgeMs: number = STALE_AFTER_MS): { price: number; time: number } | null {
+    const state = this.state.get(symbol.toUpperCase())
+    if (!state || !this.connected) return null
+
+    const now = Date.now()
+    if (state.lastTrade && now - state.lastTrade.time <= maxAgeMs) {
+      return state.lastTrade
+    }
+    if (state.book && now - state.book.time <= maxAgeMs) {
+      return { price: (state.book.bidPrice + state.book.askPrice) / 2, time: state.book.time }
+    }
+    return null
+  }
+
+  /**
+   * Best bid/ask, or null when stale
+   */
+  getBookTicker(symbol: string, maxAgeMs: number = STALE_AFTER_MS): BookTicker | null {
+    const book = this.state.get(symbol.toUpperCase())?.book
+    if (!book || !this.connected || Date.now() - book.time > maxAgeMs) return null
+    return book
+  }
+
+  /**
+   * Top DEPTH_LEVELS bids and asks for MarketAnalyzer.analyzeOrderBook, or null when stale
+   */
+  getOrderBook(symbol: string, maxAgeMs: number = STALE_AFTER_MS): OrderBookData | null {
+    const depth = this.state.get(symbol.toUpperCase())?.depth
+    if (!depth || !this.connected || Date.now() - depth.timestamp > maxAgeMs) return null
+    return depth
+  }
+
+  private streamsFor(symbol: string): string[] {
+    const lower = symbol.toLowerCase()
+    return [
+      `${lower}@trade`,
+      `${lower}@bookTicker`,
+      `${lower}@depth${DEPTH_LEVELS}`,
+      ...TIMEFRAMES.map((timeframe) => `${lower}@kline_${timeframe}`),
+    ]
+  }
+
+  private connect(): void {
+    const symbols = Array.from(this.symbols)
+    const streams = symbols.flatMap((symbol) => this.streamsFor(symbol))
+
+    try {
+      const socket = new WebSocket(`${this.wsBaseUrl}/stream?streams=${streams.join("/")}`)
+      this.socket = socket
+      this.subscribed = new Set(symbols)
+
+      socket.on("open", () => {
+        const isReconnect = this.hasConnectedBefore
+        this.connected = true
+        this.hasConnectedBefore = true
+        this.reconnectAttempts = 0
+        this.lastMessageAt = Date.now()
+        this.startStaleCheck()
+        console.log(`[MarketData] ✅ Connected${isReconnect ? " (reconnected)" : ""}: ${symbols.join(", ")}`)
+
+        // Symbols added while the connection was opening
+        for (const symbol of this.symbols) {
+          if (!this.subscribed.has(symbol)) {
+            this.subscribe(this.streamsFor(symbol))
+            this.subscribed.add(symbol)
+          }
+        }
+      })
+
+      socket.on("message", (data) => this.handleMessage(data.toString()))
+
+      socket.on("error", (error) => {
+        console.warn(`[MarketData] ⚠️ Socket error:`, error.message)
+      })
+
+      socket.on("close", () => {
+        this.connected = false
+        this.socket = null
+        this.clearTimers()
+        if (!this.stopped) {
+          console.warn(`[MarketData] Connection closed, reconnecting (REST prices until then)...`)
+          this.scheduleReconnect()
+        }
+      })
+    } catch (error) {
+      console.error(`[MarketData] Failed to open stream:`, error)
+      this.socket = null
+      this.scheduleReconnect()
+    }
+  }
+
+  private subscribe(streams: string[]): void {
+    this.socket?.send(JSON.stringify({ method: "SUBSCRIBE", params: streams, id: ++this.requestId }))
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return
+
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY_MS)
+    this.reconnectAttempts++
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.start()
+    }, delay)
+  }
+
+  private startStaleCheck(): void {
+    if (this.staleTimer) clearInterval(this.staleTimer)
+
+    // An open socket can stop delivering without closing; force a reconnect
+    this.staleTimer = setInterval(() => {
+      if (this.socket && Date.now() - this.lastMessageAt > STALE_AFTER_MS) {
+        console.warn(`[MarketData] ⚠️ No messages for ${Math.round((Date.now() - this.lastMessageAt) / 1000)}s, reconnecting`)
+        this.socket.terminate()
+      }
+    }, STALE_CHECK_INTERVAL_MS)
+  }
+
+  private clearTimers(): void {
+    if (this.staleTimer) clearInterval(this.staleTimer)
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.staleTimer = null
+    this.reconnectTimer = null
+  }
+
+  private handleMessage(raw: string): void {
+    let message: any
+    try {
+      message = JSON.parse(raw)
+    } catch {
+      return
+    }
+
+    this.lastMessageAt = Date.now()
+
+    // Combined stream payloads: { stream: "ethusdt@trade", data: {...} }; anything else is a SUBSCRIBE reply
+    if (typeof message.stream !== "string" || !message.data) return
+
+    const [lowerSymbol, streamName] = message.stream.split("@")
+    const symbol = lowerSymbol.toUpperCase()
+    const state = this.state.get(symbol)
+    if (!state) return
+
+    const data = message.data
+    if (streamName === "trade") {
+      const price = Number(data.p)
+      if (price > 0) {
+        state.lastTrade = { price, time: Number(data.T) || Date.now() }
+      }
+    } else if (streamName === "bookTicker") {
+      state.book = {
+        bidPrice: Number(data.b) || 0,
+        bidQty: Number(data.B) || 0,
+        askPrice: Number(data.a) || 0,
+        askQty: Number(data.A) || 0,
+        time: Date.now(),
+      }
+    } else if (streamName.startsWith("depth")) {
+      state.depth = {
+        bids: (data.bids || []).map(([price, qty]: [string, string]) => [Number(price), Number(qty)]),
+        asks: (data.asks || []).map(([price, qty]: [string, string]) => [Number(price), Number(qty)]),
+        timestamp: Date.now(),
+      }
+    } else if (streamName.startsWith("kline_")) {
+      const k = data.k || {}
+      getCandleFeed(symbol).applyKline(k.i as Timeframe, {
+        time: Number(k.t),
+        open: Number(k.o),
+        high: Number(k.h),
+        low: Number(k.l),
+        close: Number(k.c),
+        volume: Number(k.q), // Quote volume, like the REST klines
+      })
+    }
+  }
+}
+
+let stream: MarketDataStream | null = null
+
+/**
+ * Get the process-wide market data stream
+ */
+export function getMarketDataStream(): MarketDataStream {
+  if (!stream) {
+    stream = new MarketDataStream()
+  }
+  return stream
+}
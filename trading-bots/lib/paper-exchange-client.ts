@@ -0,0 +1,195 @@
+/**
+ * Paper Trading Exchange Client
+ * AsterClient-compatible client that simulates fills against real Binance prices
+ * Lets strategies run for days without placing orders on funded wallets
+ *
+ * - Prices come from BinancePriceClient on every call, so resting orders
+ *   (LIMIT / STOP_MARKET / TAKE_PROFIT_MARKET) trigger as the market moves
+ * - Positions, balances and fills are kept in a SimulatedExchange
+ * - State is optionally saved to PAPER_STATE_DIR so restarts keep the paper account
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs"
+import { join } from "path"
+import type {
+  AsterOrder,
+  AsterPositionsResponse,
+  AsterStats,
+  ExchangeClient,
+} from "./aster-client.ts"
+import { BinancePriceClient } from "./binance-price-client.ts"
+import { SimulatedExchange, type SimulatedExchangeState } from "./simulated-exchange.ts"
+
+export interface PaperExchangeConfig {
+  agentId: string
+  initialBalance: number // Starting paper USDT balance
+  stateFile?: string // JSON file to persist the paper account (optional)
+  leverage?: number
+  feeRate?: number
+  slippagePercent?: number
+}
+
+type OrderParams = Parameters<ExchangeClient["placeOrder"]>[0]
+
+export class PaperExchangeClient implements ExchangeClient {
+  private config: PaperExchangeConfig
+  private exchange: SimulatedExchange
+  private priceClient: BinancePriceClient
+  private lastPrices = new Map<string, number>()
+  private trackedSymbols = new Set<string>()
+
+  constructor(config: PaperExchangeConfig, priceClient: BinancePriceClient = new BinancePriceClient()) {
+    this.config = config
+    this.priceClient = priceClient
+    this.exchange = new SimulatedExchange({
+      initialBalance: config.initialBalance,
+      leverage: config.leverage,
+      feeRate: config.feeRate,
+      slippagePercent: config.slippagePercent,
+    })
+
+    this.loadState()
+
+    console.log(`\n[PaperExchange] 📝 Paper trading enabled for agent: ${config.agentId}`)
+    console.log(`[PaperExchange] Starting equity: $${this.exchange.getEquity().toFixed(2)} (no real orders will be placed)\n`)
+  }
+
+  async syncServerTime(): Promise<void> {
+    // Paper fills use the local clock, nothing to sync
+  }
+
+  async getAccountInfo(): Promise<AsterStats> {
+    await this.refreshPrices()
+    return this.exchange.getAccountInfo()
+  }
+
+  async getPositions(): Promise<AsterPositionsResponse> {
+    await this.refreshPrices()
+    return this.exchange.getPositions()
+  }
+
+  async getOpenOrders(symbol?: string): Promise<AsterOrder[]> {
+    await this.refreshPrices(symbol ? [symbol] : undefined)
+    return this.exchange.getOpenOrders(symbol)
+  }
+
+  async placeOrder(params: OrderParams): Promise<any> {
+    this.trackedSymbols.add(params.symbol)
+    await this.refreshPrices([params.symbol])
+
+    const order = await this.exchange.placeOrder(params)
+    console.log(
+      `[PaperExchange] ${order.status === "REJECTED" ? "❌" : "✅"} ${params.type} ${params.side} ${params.quantity} ${params.symbol} → ${order.status}` +
+      (order.executedQty > 0 ? ` @ $${(order.cumQuote / order.executedQty).toFixed(4)}` : "")
+    )
+    this.saveState()
+    return order
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<any> {
+    const order = await this.exchange.cancelOrder(symbol, orderId)
+    this.saveState()
+    return order
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<AsterOrder> {
+    await this.refreshPrices([symbol])
+    return this.exchange.getOrder(symbol, orderId)
+  }
+
+  async closePosition(symbol: string, side: "LONG" | "SHORT"): Promise<any> {
+    await this.refreshPrices([symbol])
+    const result = await this.exchange.closePosition(symbol, side)
+    this.saveState()
+    return result
+  }
+
+  /**
+   * Pull the latest Binance price for each tracked symbol and let resting orders react
+   * The move since the previous price is treated as one candle, so a stop that was
+   * crossed between polls still triggers
+   */
+  private async refreshPrices(symbols: string[] = [...this.trackedSymbols]): Promise<void> {
+    const before = this.exchange.getFills().length
+
+    for (const symbol of symbols) {
+      this.trackedSymbols.add(symbol)
+      const binanceSymbol = symbol.endsWith("USDT") ? symbol : `${symbol}USDT`
+      const price = parseFloat((await this.priceClient.getMarketPrice(binanceSymbol)).price)
+      if (!Number.isFinite(price) || price <= 0) {
+        throw new Error(`Invalid Binance price for ${binanceSymbol}`)
+      }
+
+      const previous = this.lastPrices.get(symbol) ?? price
+      this.exchange.processCandle(symbol, {
+        time: Date.now(),
+        open: previous,
+        high: Math.max(previous, price),
+        low: Math.min(previous, price),
+        close: price,
+        volume: 0,
+      })
+      this.lastPrices.set(symbol, price)
+    }
+
+    const triggered = this.exchange.getFills().slice(before)
+    for (const fill of triggered) {
+      console.log(
+        `[PaperExchange] 🎯 ${fill.type} ${fill.side} ${fill.quantity} ${fill.symbol} filled @ $${fill.price.toFixed(4)} (PnL: $${fill.realizedPnl.toFixed(2)})`
+      )
+    }
+    if (triggered.length > 0) this.saveState()
+  }
+
+  private loadState(): void {
+    if (!this.config.stateFile || !existsSync(this.config.stateFile)) return
+
+    try {
+      const state = JSON.parse(readFileSync(this.config.stateFile, "utf-8")) as SimulatedExchangeState
+      this.exchange.restoreState(state)
+      for (const symbol of Object.keys(state.markPrices)) {
+        this.trackedSymbols.add(symbol)
+        this.lastPrices.set(symbol, state.markPrices[symbol])
+      }
+      console.log(`[PaperExchange] Restored paper account from ${this.config.stateFile}`)
+    } catch (error) {
+      console.warn(`[PaperExchange] ⚠️ Could not restore ${this.config.stateFile}, starting fresh:`, error)
+    }
+  }
+
+  private saveState(): void {
+    if (!this.config.stateFile) return
+
+    try {
+      writeFileSync(this.config.stateFile, JSON.stringify(this.exchange.exportState(), null, 2))
+    } catch (error) {
+      console.warn(`[PaperExchange] ⚠️ Failed to save paper account:`, error)
+    }
+  }
+}
+
+// One paper account per agent, shared by all of its symbol strategies (like a real Aster account)
+const paperClients = new Map<string, PaperExchangeClient>()
+
+/**
+ * Get the shared paper client for an agent
+ * State is persisted under PAPER_STATE_DIR when set, starting balance from PAPER_INITIAL_CAPITAL
+ */
+export function getPaperExchangeClient(
+  agentId: string,
+  initialBalance: number = Number(process.env.PAPER_INITIAL_CAPITAL) || 1000
+): PaperExchangeClient {
+  let client = paperClients.get(agentId)
+  if (!client) {
+    const stateDir = process.env.PAPER_STATE_DIR
+    if (stateDir) mkdirSync(stateDir, { recursive: true })
+
+    client = new PaperExchangeClient({
+      agentId,
+      initialBalance,
+      stateFile: stateDir ? join(stateDir, `paper-${agentId}.json`) : undefined,
+    })
+    paperClients.set(agentId, client)
+  }
+  return client
+}
@@ -0,0 +1,318 @@
+/**
+ * Portfolio Risk Manager
+ * Limits shared across every agent and symbol (each strategy's RiskManager only sees itself)
+ *
+ * - Gross exposure: total |notional| across agents vs. total agent equity
+ * - Concentration: |notional| in one symbol across agents vs. total agent equity
+ * - Correlation: same-direction exposure in symbols whose returns correlate above the threshold
+ * - Kill switch: PORTFOLIO_KILL_SWITCH=true or portfolio_risk_controls.kill_switch blocks new exposure
+ *
+ * Agents run as separate processes, so exposure is exchanged through Supabase (portfolio_exposure).
+ * Trades that only reduce an existing position are always allowed.
+ */
+
+import { BinancePriceClient } from "./binance-price-client.ts"
+import type { TradingMode } from "./trading-mode.ts"
+import {
+  upsertPortfolioExposure,
+  getPortfolioExposures,
+  getPortfolioKillSwitch,
+  type PortfolioExposure,
+} from "./supabase-client.ts"
+
+export interface PortfolioRiskConfig {
+  maxGrossExposureMultiple: number // Max total |notional| as a multiple of total equity (e.g., 3x)
+  maxSymbolExposurePercent: number // Max |notional| in one symbol as % of total equity (e.g., 100%)
+  correlationThreshold: number // Symbols with return correlation above this count as one bet (e.g., 0.7)
+  maxCorrelatedExposurePercent: number // Max same-direction correlated |notional| as % of total equity (e.g., 150%)
+  correlationLookback: number // Hourly candles used for return correlation (e.g., 72)
+  exposureMaxAgeMs: number // Ignore exposure rows from agents that stopped reporting
+  shared: boolean // Exchange exposure with other agents through Supabase
+}
+
+export type PortfolioRiskCheck = "kill_switch" | "gross_exposure" | "concentration" | "correlation"
+
+export interface PortfolioRiskDecision {
+  approved: boolean
+  reason: string
+  check?: PortfolioRiskCheck
+  details?: Record<string, any>
+}
+
+export interface PortfolioTradeRequest {
+  agentId: string
+  symbol: string
+  side: "BUY" | "SELL"
+  quantity: number
+  price: number
+}
+
+const KILL_SWITCH_CACHE_MS = 10 * 1000
+const EXPOSURE_CACHE_MS = 5 * 1000
+const CORRELATION_CACHE_MS = 15 * 60 * 1000
+
+export class PortfolioRiskManager {
+  private config: PortfolioRiskConfig
+  private tradingMode: TradingMode
+  private priceClient: BinancePriceClient
+  private localExposure = new Map<string, PortfolioExposure>() // This process's agents, always current
+  private remoteExposure: { rows: PortfolioExposure[]; fetchedAt: number } = { rows: [], fetchedAt: 0 }
+  private killSwitch: { active: boolean; reason?: string; fetchedAt: number } = { active: false, fetchedAt: 0 }
+  private returnsCache = new Map<string, { returns: number[]; fetchedAt: number }>()
+
+  constructor(
+    config: Partial<PortfolioRiskConfig> = {},
+    tradingMode: TradingMode = "live",
+    priceClient: BinancePriceClient = new BinancePriceClient()
+  ) {
+    this.config = {
+      maxGrossExposureMultiple: Number(process.env.PORTFOLIO_MAX_GROSS_EXPOSURE) || 3,
+      maxSymbolExposurePercent: Number(process.env.PORTFOLIO_MAX_SYMBOL_EXPOSURE_PERCENT) || 100,
+      correlationThreshold: Number(process.env.PORTFOLIO_CORRELATION_THRESHOLD) || 0.7,
+      maxCorrelatedExposurePercent: Number(process.env.PORTFOLIO_MAX_CORRELATED_EXPOSURE_PERCENT) || 150,
+      correlationLookback: 72,
+      exposureMaxAgeMs: 10 * 60 * 1000,
+      shared: true,
+      ...config,
+    }
+    this.tradingMode = tradingMode
+    this.priceClient = priceClient
+  }
+
+  /**
+   * Report an agent's current position and equity for one symbol
+   * Called by every strategy once per cycle
+   */
+  async updateExposure(
+    agentId: string,
+    symbol: string,
+    positionAmt: number,
+    markPrice: number,
+    equity: number,
+    timestamp: number = Date.now()
+  ): Promise<void> {
+    const exposure: PortfolioExposure = {
+      agent_id: agentId,
+      symbol,
+      trading_mode: this.tradingMode,
+      position_amt: positionAmt,
+      mark_price: markPrice,
+      notional: positionAmt * markPrice,
+      equity,
+      updated_at: new Date(timestamp).toISOString(),
+    }
+    this.localExposure.set(`${agentId}:${symbol}`, exposure)
+
+    if (this.config.shared) {
+      await upsertPortfolioExposure(exposure)
+    }
+  }
+
+  /**
+   * Decide whether a trade may be placed under the portfolio limits
+   */
+  async checkTrade(request: PortfolioTradeRequest): Promise<PortfolioRiskDecision> {
+    const { agentId, symbol, side, quantity, price } = request
+    const exposures = await this.getExposures()
+
+    // Exposure change caused by this trade on the agent's own position
+    const current = exposures.find((e) => e.agent_id === agentId && e.symbol === symbol)
+    const currentAmt = current?.position_amt ?? 0
+    const nextAmt = currentAmt + (side === "BUY" ? quantity : -quantity)
+    const addedNotional = (Math.abs(nextAmt) - Math.abs(currentAmt)) * price
+
+    if (addedNotional <= 0) {
+      return { approved: true, reason: "Reduces existing exposure" }
+    }
+
+    const killSwitch = await this.getKillSwitch()
+    if (killSwitch.active) {
+      return {
+        approved: false,
+        check: "kill_switch",
+        reason: `Portfolio kill switch active${killSwitch.reason ? `: ${killSwitch.reason}` : ""}`,
+      }
+    }
+
+    const totalEquity = this.getTotalEquity(exposures)
+    if (totalEquity <= 0) {
+      return { approved: true, reason: "No portfolio equity reported yet" }
+    }
+
+    // Gross exposure across all agents
+    const grossExposure = exposures.reduce((sum, e) => sum + Math.abs(e.notional), 0)
+    const grossAfter = grossExposure + addedNotional
+    const maxGross = totalEquity * this.config.maxGrossExposureMultiple
+    if (grossAfter > maxGross) {
+      return {
+        approved: false,
+        check: "gross_exposure",
+        reason: `Gross exposure $${grossAfter.toFixed(2)} would exceed ${this.config.maxGrossExposureMultiple}x portfolio equity ($${maxGross.toFixed(2)})`,
+        details: { grossExposure, addedNotional, totalEquity },
+      }
+    }
+
+    // Concentration in this symbol across agents
+    const symbolExposure = exposures
+      .filter((e) => e.symbol === symbol)
+      .reduce((sum, e) => sum + Math.abs(e.notional), 0)
+    const symbolPercent = ((symbolExposure + addedNotional) / totalEquity) * 100
+    if (symbolPercent > this.config.maxSymbolExposurePercent) {
+      return {
+        approved: false,
+        check: "concentration",
+        reason: `${symbol} exposure ${symbolPercent.toFixed(1)}% of portfolio equity would exceed ${this.config.maxSymbolExposurePercent}%`,
+        details: { symbolExposure, addedNotional, totalEquity },
+      }
+    }
+
+    // Same-direction exposure in correlated symbols (any agent)
+    const direction = Math.sign(nextAmt)
+    const correlated: Array<{ symbol: string; correlation: number; notional: number }> = []
+    const otherSymbols = [...new Set(exposures.filter((e) => e.symbol !== symbol && Math.sign(e.notional) === direction).map((e) => e.symbol))]
+
+    for (const other of otherSymbols) {
+      const correlation = await this.getCorrelation(symbol, other)
+      if (correlation === null || correlation < this.config.correlationThreshold) continue
+
+      const notional = exposures
+        .filter((e) => e.symbol === other && Math.sign(e.notional) === direction)
+        .reduce((sum, e) => sum + Math.abs(e.notional), 0)
+      correlated.push({ symbol: other, correlation, notional })
+    }
+
+    if (correlated.length > 0) {
+      const sameSymbol = exposures
+        .filter((e) => e.symbol === symbol && Math.sign(e.notional) === direction)
+        .reduce((sum, e) => sum + Math.abs(e.notional), 0)
+      const correlatedExposure = correlated.reduce((sum, c) => sum + c.notional, 0) + sameSymbol + addedNotional
+      const correlatedPercent = (correlatedExposure / totalEquity) * 100
+
+      if (correlatedPercent > this.config.maxCorrelatedExposurePercent) {
+        return {
+          approved: false,
+          check: "correlation",
+          reason:
+            `Correlated ${direction > 0 ? "long" : "short"} exposure ${correlatedPercent.toFixed(1)}% of portfolio equity would exceed ${this.config.maxCorrelatedExposurePercent}% ` +
+            `(${correlated.map((c) => `${c.symbol} ρ=${c.correlation.toFixed(2)}`).join(", ")})`,
+          details: { correlated, correlatedExposure, totalEquity },
+        }
+      }
+    }
+
+    return { approved: true, reason: "Within portfolio limits" }
+  }
+
+  /**
+   * Local exposure merged with the latest rows reported by other agents
+   */
+  private async getExposures(): Promise<PortfolioExposure[]> {
+    const cutoff = Date.now() - this.config.exposureMaxAgeMs
+
+    if (this.config.shared && Date.now() - this.remoteExposure.fetchedAt > EXPOSURE_CACHE_MS) {
+      const rows = await getPortfolioExposures(this.tradingMode, new Date(cutoff).toISOString())
+      this.remoteExposure = { rows, fetchedAt: Date.now() }
+    }
+
+    const merged = new Map<string, PortfolioExposure>()
+    for (const row of this.remoteExposure.rows) {
+      merged.set(`${row.agent_id}:${row.symbol}`, row)
+    }
+    for (const [key, row] of this.localExposure) {
+      merged.set(key, row)
+    }
+    return [...merged.values()]
+  }
+
+  /**
+   * Sum of each agent's latest reported equity (one account per agent)
+   */
+  private getTotalEquity(exposures: PortfolioExposure[]): number {
+    const latestByAgent = new Map<string, PortfolioExposure>()
+    for (const exposure of exposures) {
+      const latest = latestByAgent.get(exposure.agent_id)
+      if (!latest || exposure.updated_at > latest.updated_at) {
+        latestByAgent.set(exposure.agent_id, exposure)
+      }
+    }
+    return [...latestByAgent.values()].reduce((sum, e) => sum + (Number(e.equity) || 0), 0)
+  }
+
+  private async getKillSwitch(): Promise<{ active: boolean; reason?: string }> {
+    if (process.env.PORTFOLIO_KILL_SWITCH === "true") {
+      return { active: true, reason: "PORTFOLIO_KILL_SWITCH=true" }
+    }
+    if (!this.config.shared) return { active: false }
+
+    if (Date.now() - this.killSwitch.fetchedAt > KILL_SWITCH_CACHE_MS) {
+      const state = await getPortfolioKillSwitch()
+      this.killSwitch = { active: state?.active ?? false, reason: state?.reason, fetchedAt: Date.now() }
+    }
+    return this.killSwitch
+  }
+
+  /**
+   * Pearson correlation of hourly log returns (null when prices are unavailable)
+   */
+  private async getCorrelation(symbolA: string, symbolB: string): Promise<number | null> {
+    const [a, b] = await Promise.all([this.getReturns(symbolA), this.getReturns(symbolB)])
+    const n = Math.min(a.length, b.length)
+    if (n < 10) return null
+
+    const x = a.slice(-n)
+    const y = b.slice(-n)
+    const meanX = x.reduce((sum, v) => sum + v, 0) / n
+    const meanY = y.reduce((sum, v) => sum + v, 0) / n
+
+    let cov = 0
+    let varX = 0
+    let varY = 0
+    for (let i = 0; i < n; i++) {
+      cov += (x[i] - meanX) * (y[i] - meanY)
+      varX += (x[i] - meanX) ** 2
+      varY += (y[i] - meanY) ** 2
+    }
+
+    if (varX === 0 || varY === 0) return null
+    return cov / Math.sqrt(varX * varY)
+  }
+
+  private async getReturns(symbol: string): Promise<number[]> {
+    const cached = this.returnsCache.get(symbol)
+    if (cached && Date.now() - cached.fetchedAt < CORRELATION_CACHE_MS) {
+      return cached.returns
+    }
+
+    try {
+      const binanceSymbol = symbol.endsWith("USDT") ? symbol : `${symbol}USDT`
+      const candles = await this.priceClient.getCandles(binanceSymbol, "1h", this.config.correlationLookback + 1)
+      const returns: number[] = []
+      for (let i = 1; i < candles.length; i++) {
+        if (candles[i - 1].close > 0 && candles[i].close > 0) {
+          returns.push(Math.log(candles[i].close / candles[i - 1].close))
+        }
+      }
+      this.returnsCache.set(symbol, { returns, fetchedAt: Date.now() })
+      return returns
+    } catch (error) {
+      console.warn(`[PortfolioRisk] ⚠️ Could not load returns for ${symbol}, skipping correlation check`)
+      this.returnsCache.set(symbol, { returns: [], fetchedAt: Date.now() })
+      return []
+    }
+  }
+}
+
+// One manager per trading mode in each agent process (live and paper exposure never mix)
+const managers = new Map<TradingMode, PortfolioRiskManager>()
+
+/**
+ * Get the shared portfolio risk manager for a trading mode
+ */
+export function getPortfolioRiskManager(tradingMode: TradingMode = "live"): PortfolioRiskManager {
+  let manager = managers.get(tradingMode)
+  if (!manager) {
+    manager = new PortfolioRiskManager({}, tradingMode)
+    managers.set(tradingMode, manager)
+  }
+  return manager
+}
@@ -0,0 +1,86 @@
+/**
+ * Position Cleanup
+ * Cancel resting orders and flatten positions for one symbol
+ * Shared by cleanup-all-positions.ts and the agents' graceful shutdown
+ */
+
+import type { ExchangeClient } from "./aster-client.ts"
+
+export interface CleanupResult {
+  cancelledOrders: number
+  closedSides: Array<"LONG" | "SHORT">
+  errors: string[]
+}
+
+/**
+ * Cancel every open order for a symbol (entries and SL/TP children)
+ */
+export async function cancelOpenOrders(
+  client: ExchangeClient,
+  symbol: string,
+  log: (message: string) => void = console.log
+): Promise<CleanupResult> {
+  const result: CleanupResult = { cancelledOrders: 0, closedSides: [], errors: [] }
+
+  const openOrders = await client.getOpenOrders(symbol)
+  log(`    Found ${openOrders.length} open orders`)
+
+  for (const order of openOrders) {
+    try {
+      log(`    ❌ Cancelling order ${order.orderId}...`)
+      await client.cancelOrder(symbol, order.orderId)
+      result.cancelledOrders++
+      log(`    ✓ Cancelled`)
+    } catch (error: any) {
+      result.errors.push(`Cancel ${order.orderId}: ${error.message}`)
+      log(`    ⚠️  Could not cancel ${order.orderId}: ${error.message}`)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Close the LONG and SHORT side of a symbol's position
+ */
+export async function flattenPosition(
+  client: ExchangeClient,
+  symbol: string,
+  log: (message: string) => void = console.log
+): Promise<CleanupResult> {
+  const result: CleanupResult = { cancelledOrders: 0, closedSides: [], errors: [] }
+
+  for (const side of ["LONG", "SHORT"] as const) {
+    try {
+      await client.closePosition(symbol, side)
+      result.closedSides.push(side)
+      log(`    ✓ Closed ${side} position`)
+    } catch (e: any) {
+      if (!e.message?.includes("No position")) {
+        log(`    Note: No ${side} position or already closed`)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Cancel all orders for a symbol and optionally flatten its position
+ */
+export async function cleanupSymbol(
+  client: ExchangeClient,
+  symbol: string,
+  options: { flatten: boolean },
+  log: (message: string) => void = console.log
+): Promise<CleanupResult> {
+  const cancelled = await cancelOpenOrders(client, symbol, log)
+  if (!options.flatten) return cancelled
+
+  const flattened = await flattenPosition(client, symbol, log)
+  return {
+    cancelledOrders: cancelled.cancelledOrders,
+    closedSides: flattened.closedSides,
+    errors: [...cancelled.errors, ...flattened.errors],
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Price Validator
+ * Sanity check between the Binance price strategies decide on and the Aster mark price orders fill against
+ *
+ * - Refuses a cycle when either price is older than PRICE_MAX_AGE_MS (default 30s)
+ * - Refuses when the venues differ by more than PRICE_DEVIATION_BAND_PERCENT (default 1%)
+ * - Records rejections (and an ok sample every few minutes) to Supabase price_checks
+ * - One validator per process; Aster mark prices are cached briefly so agents on a symbol share a request
+ * - Checks carry the latest funding rate from the same premium index response
+ */
+
+import { savePriceCheck, type PriceCheckRecord } from "./supabase-client.ts"
+
+export interface PriceCheck {
+  ok: boolean
+  status: PriceCheckRecord["status"]
+  symbol: string
+  binancePrice: number
+  asterPrice: number | null
+  deviationPercent: number | null // (Aster - Binance) / Binance * 100, positive when Aster trades rich
+  bandPercent: number
+  fundingRate: number | null // Latest funding rate as a fraction (0.0001 = 0.01% per interval)
+  nextFundingTime: number | null
+  reason?: string
+  time: number
+}
+
+interface MarkPrice {
+  price: number
+  time: number // Exchange time of the mark price
+  fundingRate: number | null
+  nextFundingTime: number | null
+  fetchedAt: number
+}
+
+const MARK_PRICE_CACHE_MS = 5 * 1000
+const REQUEST_TIMEOUT_MS = 5000
+const OK_RECORD_INTERVAL_MS = 5 * 60 * 1000
+const REJECT_RECORD_INTERVAL_MS = 60 * 1000
+
+export class PriceValidator {
+  private baseUrl: string
+  private bandPercent: number
+  private maxAgeMs: number
+  private markPrices = new Map<string, MarkPrice>()
+  private pending = new Map<string, Promise<MarkPrice>>()
+  private lastRecorded = new Map<string, number>() // `${symbol}:${status}` -> time
+
+  constructor() {
+    this.baseUrl = process.env.ASTER_API_URL || "https://fapi.asterdex.com"
+    this.bandPercent = Number(process.env.PRICE_DEVIATION_BAND_PERCENT) || 1.0
+    this.maxAgeMs = Number(process.env.PRICE_MAX_AGE_MS) || 30 * 1000
+  }
+
+  /**
+   * Compare a Binance price (observed at binanceTime) with the Aster mark price
+   * Pass record=false to skip writing to Supabase (paper mode)
+   */
+  async validate(symbol: string, binancePrice: number, binanceTime: number, record: boolean = true): Promise<PriceCheck> {
+    const now = Date.now()
+    const base = { symbol, binancePrice, bandPercent: this.bandPercent, fundingRate: null, nextFundingTime: null, time: now }
+    let check: PriceCheck
+
+    if (now - binanceTime > this.maxAgeMs) {
+      check = {
+        ...base,
+        ok: false,
+        status: "stale",
+        asterPrice: null,
+        deviationPercent: null,
+        reason: `Binance price is ${Math.round((now - binanceTime) / 1000)}s old`,
+      }
+    } else {
+      let mark: MarkPrice | null = null
+      let error: string | null = null
+      try {
+        mark = await this.getMarkPrice(symbol)
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err)
+      }
+
+      if (!mark) {
+        check = { ...base, ok: false, status: "stale", asterPrice: null, deviationPercent: null, reason: `No Aster mark price: ${error}` }
+      } else if (now - mark.time > this.maxAgeMs) {
+        check = {
+          ...base,
+          ok: false,
+          status: "stale",
+          asterPrice: mark.price,
+          deviationPercent: null,
+          fundingRate: mark.fundingRate,
+          nextFundingTime: mark.nextFundingTime,
+          reason: `Aster mark price is ${Math.round((now - mark.time) / 1000)}s old`,
+        }
+      } else {
+        const deviationPercent = ((mark.price - binancePrice) / binancePrice) * 100
+        const diverged = Math.abs(deviationPercent) > this.bandPercent
+        check = {
+          ...base,
+          ok: !diverged,
+          status: diverged ? "diverged" : "ok",
+          asterPrice: mark.price,
+          deviationPercent,
+          fundingRate: mark.fundingRate,
+          nextFundingTime: mark.nextFundingTime,
+          reason: diverged
+            ? `Binance $${binancePrice} vs Aster mark $${mark.price}: ${deviationPercent.toFixed(2)}% exceeds ±${this.bandPercent}% band`
+            : undefined,
+        }
+      }
+    }
+
+    if (record) {
+      await this.record(check)
+    }
+    return check
+  }
+
+  private async getMarkPrice(symbol: string): Promise<MarkPrice> {
+    const cached = this.markPrices.get(symbol)
+    if (cached && Date.now() - cached.fetchedAt < MARK_PRICE_CACHE_MS) {
+      return cached
+    }
+
+    let request = this.pending.get(symbol)
+    if (!request) {
+      request = this.fetchMarkPrice(symbol).finally(() => this.pending.delete(symbol))
+      this.pending.set(symbol, request)
+    }
+
+    const mark = await request
+    this.markPrices.set(symbol, mark)
+    return mark
+  }
+
+  private async fetchMarkPrice(symbol: string): Promise<MarkPrice> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+
+    try {
+      // Public endpoint, no signature needed
+      const response = await fetch(`${this.baseUrl}/fapi/v1/premiumIndex?symbol=${symbol}`, {
+        signal: controller.signal,
+      })
+      if (!response.ok) {
+        throw new Error(`Aster API error: ${response.status}`)
+      }
+
+      const data = (await response.json()) as any
+      const price = Number(data.markPrice)
+      if (!(price > 0)) {
+        throw new Error(`No mark price for ${symbol}`)
+      }
+      const fundingRate = parseFloat(data.lastFundingRate)
+      return {
+        price,
+        time: Number(data.time) || Date.now(),
+        fundingRate: Number.isFinite(fundingRate) ? fundingRate : null,
+        nextFundingTime: Number(data.nextFundingTime) || null,
+        fetchedAt: Date.now(),
+      }
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  /**
+   * Rejections at most once a minute per symbol and status, ok checks every five minutes
+   */
+  private async record(check: PriceCheck): Promise<void> {
+    const key = `${check.symbol}:${check.status}`
+    const interval = check.ok ? OK_RECORD_INTERVAL_MS : REJECT_RECORD_INTERVAL_MS
+    if (Date.now() - (this.lastRecorded.get(key) || 0) < interval) return
+    this.lastRecorded.set(key, Date.now())
+
+    await savePriceCheck({
+      symbol: check.symbol,
+      status: check.status,
+      binance_price: check.binancePrice,
+      aster_price: check.asterPrice,
+      deviation_percent: check.deviationPercent,
+      band_percent: check.bandPercent,
+      reason: check.reason || null,
+      checked_at: new Date(check.time).toISOString(),
+    })
+  }
+}
+
+let validator: PriceValidator | null = null
+
+/**
+ * Get the process-wide price validator
+ */
+export function getPriceValidator(): PriceValidator {
+  if (!validator) {
+    validator = new PriceValidator()
+  }
+  return validator
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { RiskManager } from "./risk-manager.ts"
+
+// 10% of $1000 equity at 1x and $100 is a 1 unit position limit
+const account = { equity: 1000, price: 100, leverage: 1 }
+
+describe("RiskManager.clampSignal", () => {
+  it("caps new exposure at the position limit", () => {
+    const { signal, adjustments } = new RiskManager().clampSignal({ action: "BUY", quantity: 3 }, { ...account, positionAmt: 0 })
+
+    expect(signal).toEqual({ action: "BUY", quantity: 1 })
+    expect(adjustments[0]).toMatch(/capped at 1\.0000/)
+  })
+
+  it("counts the position already held on the same side", () => {
+    const risk = new RiskManager()
+
+    expect(risk.clampSignal({ action: "BUY", quantity: 1 }, { ...account, positionAmt: 0.4 }).signal.quantity).toBe(0.6)
+    expect(risk.clampSignal({ action: "SELL", quantity: 1 }, { ...account, positionAmt: -0.4 }).signal.quantity).toBe(0.6)
+  })
+
+  it("holds when the position is already at the limit", () => {
+    const { signal, adjustments } = new RiskManager().clampSignal({ action: "BUY", quantity: 0.5 }, { ...account, positionAmt: 1 })
+
+    expect(signal).toEqual({ action: "HOLD", quantity: 0 })
+    expect(adjustments).toContain("quantity rounded to 0, holding")
+  })
+
+  it("always lets an order close the opposite position", () => {
+    const risk = new RiskManager()
+
+    expect(risk.clampSignal({ action: "SELL", quantity: 1.5 }, { ...account, positionAmt: 1.5 }).signal.quantity).toBe(1.5)
+    // Closing 1.5 and opening 1 short on top
+    expect(risk.clampSignal({ action: "SELL", quantity: 4 }, { ...account, positionAmt: 1.5 }).signal.quantity).toBe(2.5)
+  })
+})
+
+describe("RiskManager.applyPerpetualRisk", () => {
+  const risk = new RiskManager()
+  const entry = { side: "BUY" as const, entryPrice: 100, leverage: 2 }
+
+  it("halves an entry paying funding over the limit", () => {
+    const perpetual = risk.assessPerpetualRisk({ ...entry, fundingRate: 0.001 }) // 0.1% against a 0.05% limit
+
+    expect(perpetual.recommendedAction).toBe("REDUCE")
+    expect(risk.applyPerpetualRisk({ action: "BUY", quantity: 3 }, perpetual)).toEqual({ action: "BUY", quantity: 1.5 })
+    // Too small to halve
+    expect(risk.applyPerpetualRisk({ action: "BUY", quantity: 0.01 }, perpetual)).toBeNull()
+  })
+
+  it("refuses an entry paying over 3x the funding limit and passes a safe one unchanged", () => {
+    const refused = risk.assessPerpetualRisk({ ...entry, fundingRate: 0.002 })
+    const safe = risk.assessPerpetualRisk({ ...entry, fundingRate: 0.0001 })
+    const signal = { action: "BUY" as const, quantity: 3 }
+
+    expect(refused.recommendedAction).toBe("HOLD")
+    expect(risk.applyPerpetualRisk(signal, refused)).toBeNull()
+    expect(safe.recommendedAction).toBe("OK")
+    expect(risk.applyPerpetualRisk(signal, safe)).toBe(signal)
+  })
+})
@@ -1,6 +1,7 @@
 /**
  * Risk Manager for Trading Agents
- * Handles position sizing, drawdown limits, and circuit breakers
+ * Handles position sizing, drawdown limits, circuit breakers, and perpetual
+ * futures risk (distance to liquidation, funding cost)
  */
 
 export interface RiskConfig {
@@ -12,6 +13,17 @@ export interface RiskConfig {
   volatilityMultiplier: number // Position size multiplier based on volatility (0-1)
   riskRewardRatio: number // Minimum risk:reward ratio (e.g., 1:2)
   correlationThreshold: number // Max correlation between positions (e.g., 0.7)
+  minLiquidationDistancePercent: number // Reduce below this distance from entry to liquidation (e.g., 10%)
+  maxFundingRatePercent: number // Reduce when the position pays more than this per funding interval (e.g., 0.05%)
+  maintenanceMarginPercent: number // Used to estimate the liquidation price of a new position (e.g., 0.5%)
+}
+
+export interface PerpetualRisk {
+  liquidationPrice: number
+  liquidationDistancePercent: number // From entry to liquidation
+  fundingCostPercent: number // Paid per funding interval by this side (negative = received)
+  recommendedAction: "HOLD" | "REDUCE" | "OK" // HOLD refuses the position
+  riskAssessment: string
 }
 
 export interface PositionRisk {
@@ -22,6 +34,17 @@ export interface PositionRisk {
   slippageAdjustedSL: number
   recommendedAction: "HOLD" | "REDUCE" | "BUY" | "SELL"
   riskAssessment: string
+  perpetual?: PerpetualRisk // When the side is known
+}
+
+const PERPETUAL_REDUCE_FACTOR = 0.5 // Share of the order kept when perpetual risk says REDUCE
+
+export interface RiskManagerState {
+  dailyTradeCount: number
+  dailyTradeCountTime: number
+  tradeHistory: Array<{ time: number; pnl: number; result: "WIN" | "LOSS" }>
+  peakEquity: number
+  maxDrawdownSeen: number
 }
 
 export class RiskManager {
@@ -42,10 +65,37 @@ export class RiskManager {
       volatilityMultiplier: 1,
       riskRewardRatio: 1.5,
       correlationThreshold: 0.7,
+      minLiquidationDistancePercent: 10,
+      maxFundingRatePercent: 0.05,
+      maintenanceMarginPercent: 0.5,
       ...config,
     }
   }
 
+  /**
+   * Snapshot of the circuit breaker / daily limit state (for persistence across restarts)
+   */
+  exportState(): RiskManagerState {
+    return {
+      dailyTradeCount: this.dailyTradeCount,
+      dailyTradeCountTime: this.dailyTradeCountTime,
+      tradeHistory: [...this.tradeHistory],
+      peakEquity: this.peakEquity,
+      maxDrawdownSeen: this.maxDrawdownSeen,
+    }
+  }
+
+  /**
+   * Restore a previously exported snapshot
+   */
+  restoreState(state: Partial<RiskManagerState>): void {
+    this.dailyTradeCount = Number(state.dailyTradeCount) || 0
+    this.dailyTradeCountTime = Number(state.dailyTradeCountTime) || Date.now()
+    this.tradeHistory = Array.isArray(state.tradeHistory) ? state.tradeHistory.slice(-100) : []
+    this.peakEquity = Number(state.peakEquity) || 0
+    this.maxDrawdownSeen = Number(state.maxDrawdownSeen) || 0
+  }
+
   /**
    * Calculate safe position size based on account equity and risk parameters
    */
@@ -90,6 +140,9 @@ export class RiskManager {
     equity: number
     leverage: number
     volatility: number
+    side?: "BUY" | "SELL" // Enables the liquidation and funding checks
+    fundingRate?: number | null // Latest funding rate as a fraction (0.0001 = 0.01%)
+    liquidationPrice?: number // Existing position's liquidation price (estimated from leverage otherwise)
   }): PositionRisk {
     const {
       entryPrice,
@@ -140,6 +193,23 @@ export class RiskManager {
       riskAssessment = `Leverage ${leverage}x too high`
     }
 
+    // Perpetual checks last: refusing near liquidation overrides everything above
+    let perpetual: PerpetualRisk | undefined
+    if (params.side) {
+      perpetual = this.assessPerpetualRisk({
+        side: params.side,
+        entryPrice,
+        stopLossPrice,
+        leverage,
+        fundingRate: params.fundingRate,
+        liquidationPrice: params.liquidationPrice,
+      })
+      if (perpetual.recommendedAction !== "OK") {
+        recommendedAction = perpetual.recommendedAction
+        riskAssessment = perpetual.riskAssessment
+      }
+    }
+
     return {
       maxLossAmount,
       positionSize: quantity,
@@ -148,7 +218,135 @@ export class RiskManager {
       slippageAdjustedSL,
       recommendedAction,
       riskAssessment,
+      perpetual,
+    }
+  }
+
+  /**
+   * Liquidation distance and funding cost of a perpetual position
+   * Refuses (HOLD) when the stop sits beyond liquidation, liquidation is closer than half the
+   * minimum distance, or funding costs over 3x the limit; reduces when either is merely over its limit
+   */
+  assessPerpetualRisk(params: {
+    side: "BUY" | "SELL"
+    entryPrice: number
+    stopLossPrice?: number
+    leverage: number
+    fundingRate?: number | null
+    liquidationPrice?: number
+  }): PerpetualRisk {
+    const { side, entryPrice, stopLossPrice } = params
+    const leverage = Math.max(1, params.leverage || 1)
+    const maintenance = this.config.maintenanceMarginPercent / 100
+
+    // Isolated-margin approximation: liquidated once the loss eats the initial margin down to maintenance
+    const liquidationPrice = params.liquidationPrice && params.liquidationPrice > 0
+      ? params.liquidationPrice
+      : side === "BUY"
+        ? entryPrice * (1 - 1 / leverage + maintenance)
+        : entryPrice * (1 + 1 / leverage - maintenance)
+    const liquidationDistancePercent = entryPrice > 0 ? (Math.abs(entryPrice - liquidationPrice) / entryPrice) * 100 : 0
+
+    // Longs pay positive funding, shorts pay negative funding
+    const fundingRate = params.fundingRate ?? 0
+    const fundingCostPercent = (side === "BUY" ? fundingRate : -fundingRate) * 100
+
+    const minDistance = this.config.minLiquidationDistancePercent
+    const maxFunding = this.config.maxFundingRatePercent
+    const stopBeyondLiquidation = stopLossPrice !== undefined && stopLossPrice > 0 &&
+      (side === "BUY" ? stopLossPrice <= liquidationPrice : stopLossPrice >= liquidationPrice)
+
+    let recommendedAction: PerpetualRisk["recommendedAction"] = "OK"
+    let riskAssessment = "OK"
+
+    if (stopBeyondLiquidation) {
+      recommendedAction = "HOLD"
+      riskAssessment = `Stop loss ${stopLossPrice} is beyond liquidation ${liquidationPrice.toFixed(4)}`
+    } else if (liquidationDistancePercent < minDistance / 2) {
+      recommendedAction = "HOLD"
+      riskAssessment = `Liquidation ${liquidationDistancePercent.toFixed(1)}% away (minimum ${minDistance}%)`
+    } else if (fundingCostPercent > maxFunding * 3) {
+      recommendedAction = "HOLD"
+      riskAssessment = `Funding ${fundingCostPercent.toFixed(4)}% per interval is over 3x the ${maxFunding}% limit`
+    } else if (liquidationDistancePercent < minDistance) {
+      recommendedAction = "REDUCE"
+      riskAssessment = `Liquidation ${liquidationDistancePercent.toFixed(1)}% away (minimum ${minDistance}%) - reduce leverage or size`
+    } else if (fundingCostPercent > maxFunding) {
+      recommendedAction = "REDUCE"
+      riskAssessment = `Funding ${fundingCostPercent.toFixed(4)}% per interval exceeds ${maxFunding}% - reduce position`
+    }
+
+    return { liquidationPrice, liquidationDistancePercent, fundingCostPercent, recommendedAction, riskAssessment }
+  }
+
+  /**
+   * Size an order that opens or adds to a position by its perpetual risk
+   * HOLD refuses it (null), REDUCE halves it (null when that rounds to 0), OK leaves it unchanged
+   */
+  applyPerpetualRisk<T extends { quantity: number }>(signal: T, risk: PerpetualRisk): T | null {
+    if (risk.recommendedAction === "HOLD") return null
+    if (risk.recommendedAction === "OK") return signal
+
+    // Round down to 2 decimals - respects Aster DEX precision limits for most assets
+    const quantity = Math.floor(signal.quantity * PERPETUAL_REDUCE_FACTOR * 100) / 100
+    return quantity > 0 ? { ...signal, quantity } : null
+  }
+
+  /**
+   * Clamp an externally generated signal (e.g. LLM decision mode) to the risk limits
+   * Reducing an existing position is always allowed; the resulting position is capped at
+   * maxPositionSizePercent of equity (times leverage) and new exposure is blocked by the daily trade limit
+   */
+  clampSignal<T extends { action: "BUY" | "SELL" | "HOLD"; quantity: number }>(
+    signal: T,
+    account: { equity: number; price: number; leverage: number; positionAmt: number }
+  ): { signal: T; adjustments: string[] } {
+    if (signal.action === "HOLD") {
+      return { signal, adjustments: [] }
     }
+
+    const adjustments: string[] = []
+    const { equity, price, leverage, positionAmt } = account
+
+    // Part of the order that closes the opposite position, and the position it would add to
+    const reducible = signal.action === "SELL" ? Math.max(positionAmt, 0) : Math.max(-positionAmt, 0)
+    const sameSide = signal.action === "BUY" ? Math.max(positionAmt, 0) : Math.max(-positionAmt, 0)
+    const reducing = Math.min(signal.quantity, reducible)
+    let opening = signal.quantity - reducing
+
+    if (opening > 0) {
+      const dailyCheck = this.checkDailyTradeLimit()
+      if (!dailyCheck.canTrade) {
+        adjustments.push(`new exposure blocked: ${dailyCheck.reason}`)
+        opening = 0
+      }
+    }
+
+    if (opening > 0) {
+      const maxNotional = (equity * this.config.maxPositionSizePercent / 100) * Math.max(1, leverage)
+      const maxQuantity = price > 0 ? maxNotional / price : 0
+      const room = Math.max(0, maxQuantity - sameSide)
+      if (opening > room) {
+        adjustments.push(
+          `new exposure ${opening} capped at ${room.toFixed(4)} (position limit ${maxQuantity.toFixed(4)}, ` +
+          `${this.config.maxPositionSizePercent}% of equity, ${sameSide} already held)`
+        )
+        opening = room
+      }
+    }
+
+    // Round down to 2 decimals - respects Aster DEX precision limits for most assets
+    const quantity = Math.floor((reducing + opening) * 100) / 100
+    if (quantity <= 0) {
+      adjustments.push("quantity rounded to 0, holding")
+      return { signal: { ...signal, action: "HOLD", quantity: 0 }, adjustments }
+    }
+
+    if (quantity !== signal.quantity) {
+      adjustments.push(`quantity ${signal.quantity} → ${quantity}`)
+    }
+
+    return { signal: { ...signal, quantity }, adjustments }
   }
 
   /**
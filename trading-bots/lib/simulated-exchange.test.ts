@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest"
+import { SimulatedExchange } from "./simulated-exchange.ts"
+import type { CandleData } from "./market-analyzer.ts"
+
+const SYMBOL = "ETHUSDT"
+
+function candle(open: number, high: number, low: number, close: number): CandleData {
+  return { time: 0, open, high, low, close, volume: 0 }
+}
+
+function createExchange(initialBalance = 1000) {
+  const exchange = new SimulatedExchange({ initialBalance, leverage: 5, feeRate: 0.001, slippagePercent: 0, clock: () => 0 })
+  exchange.setMarkPrice(SYMBOL, 100)
+  return exchange
+}
+
+async function positionAmount(exchange: SimulatedExchange): Promise<number> {
+  const { positions } = await exchange.getPositions()
+  return positions.find((p) => p.symbol === SYMBOL)?.positionAmt || 0
+}
+
+describe("SimulatedExchange fills", () => {
+  it("fills market orders at the mark price plus slippage and charges the fee", async () => {
+    const exchange = new SimulatedExchange({ initialBalance: 1000, feeRate: 0.001, slippagePercent: 1, clock: () => 0 })
+    exchange.setMarkPrice(SYMBOL, 100)
+
+    const order = await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "MARKET", quantity: 1 })
+
+    expect(order.status).toBe("FILLED")
+    expect(order.price).toBeCloseTo(101)
+    expect(exchange.getFills()[0].fee).toBeCloseTo(0.101)
+    expect(await positionAmount(exchange)).toBe(1)
+  })
+
+  it("rests limit orders until a candle trades through them", async () => {
+    const exchange = createExchange()
+
+    const order = await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "LIMIT", quantity: 1, price: 95 })
+    expect(order.status).toBe("NEW")
+
+    exchange.processCandle(SYMBOL, candle(100, 101, 96, 97))
+    expect((await exchange.getOrder(SYMBOL, order.orderId)).status).toBe("NEW")
+
+    exchange.processCandle(SYMBOL, candle(97, 98, 94, 96))
+    expect((await exchange.getOrder(SYMBOL, order.orderId)).status).toBe("FILLED")
+    expect(exchange.getFills()[0].price).toBe(95)
+  })
+
+  it("fills stops that gap through at the open, not the stop price", async () => {
+    const exchange = createExchange()
+    await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "MARKET", quantity: 1 })
+    await exchange.placeOrder({ symbol: SYMBOL, side: "SELL", type: "STOP_MARKET", quantity: 1, stopPrice: 95, reduceOnly: true })
+
+    exchange.processCandle(SYMBOL, candle(90, 92, 88, 91))
+
+    const stopFill = exchange.getFills()[1]
+    expect(stopFill.price).toBe(90)
+    expect(stopFill.realizedPnl).toBeCloseTo(-10)
+    expect(await positionAmount(exchange)).toBe(0)
+  })
+
+  it("caps reduce-only orders at the open position and rejects them when flat", async () => {
+    const exchange = createExchange()
+
+    const flat = await exchange.placeOrder({ symbol: SYMBOL, side: "SELL", type: "MARKET", quantity: 1, reduceOnly: true })
+    expect(flat.status).toBe("REJECTED")
+
+    await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "MARKET", quantity: 1 })
+    const reduce = await exchange.placeOrder({ symbol: SYMBOL, side: "SELL", type: "MARKET", quantity: 3, reduceOnly: true })
+    expect(reduce.executedQty).toBe(1)
+    expect(await positionAmount(exchange)).toBe(0)
+  })
+
+  it("realizes PnL on the closed part of a flip and reopens the rest at the fill price", async () => {
+    const exchange = createExchange()
+    await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "MARKET", quantity: 1 })
+    exchange.setMarkPrice(SYMBOL, 110)
+
+    await exchange.placeOrder({ symbol: SYMBOL, side: "SELL", type: "MARKET", quantity: 3 })
+
+    const { positions } = await exchange.getPositions()
+    expect(positions[0].positionAmt).toBe(-2)
+    expect(positions[0].entryPrice).toBe(110)
+    expect(exchange.getFills()[1].realizedPnl).toBeCloseTo(10)
+  })
+})
+
+describe("SimulatedExchange margin", () => {
+  it("rejects orders whose margin exceeds equity but always allows reducing exposure", async () => {
+    const exchange = createExchange(100)
+
+    // 6 * 100 / 5x leverage = 120 margin > 100 equity
+    const tooBig = await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "MARKET", quantity: 6 })
+    expect(tooBig.status).toBe("REJECTED")
+
+    const fits = await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "MARKET", quantity: 4 })
+    expect(fits.status).toBe("FILLED")
+
+    exchange.setMarkPrice(SYMBOL, 80)
+    const close = await exchange.placeOrder({ symbol: SYMBOL, side: "SELL", type: "MARKET", quantity: 4 })
+    expect(close.status).toBe("FILLED")
+  })
+
+  it("liquidates every position when equity falls below maintenance margin", async () => {
+    const exchange = createExchange(100)
+    await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "MARKET", quantity: 4 })
+
+    exchange.processCandle(SYMBOL, candle(100, 100, 74, 75))
+
+    expect(await positionAmount(exchange)).toBe(0)
+    expect(exchange.getFills().at(-1)?.side).toBe("SELL")
+  })
+
+  it("reports equity as wallet balance plus unrealized PnL", async () => {
+    const exchange = createExchange()
+    await exchange.placeOrder({ symbol: SYMBOL, side: "BUY", type: "MARKET", quantity: 2 })
+    exchange.setMarkPrice(SYMBOL, 105)
+
+    // 1000 - 0.2 fee + 2 * 5 unrealized
+    expect(exchange.getEquity()).toBeCloseTo(1009.8)
+  })
+})
@@ -0,0 +1,493 @@
+/**
+ * Simulated Exchange
+ * In-memory account, position and order book that stands in for AsterClient
+ * Used by the backtester to replay strategies without touching Aster
+ *
+ * - MARKET orders fill at the mark price plus slippage
+ * - LIMIT orders fill immediately when marketable, otherwise when a candle trades through them
+ * - STOP_MARKET / TAKE_PROFIT_MARKET orders trigger on candle high/low and are reduce-only
+ * - reduceOnly orders are capped at the open position and rejected when there is nothing to reduce
+ * - Positions are one-way (net) per symbol, like Aster's default position mode
+ * - Positions are liquidated at the close when equity falls below maintenance margin
+ */
+
+import type {
+  AsterOrder,
+  AsterPosition,
+  AsterPositionsResponse,
+  AsterStats,
+  ExchangeClient,
+} from "./aster-client.ts"
+import type { CandleData } from "./market-analyzer.ts"
+
+export interface SimulatedExchangeConfig {
+  initialBalance: number // Starting USDT wallet balance
+  leverage?: number // Max notional / margin (default: 5)
+  feeRate?: number // Taker fee as a fraction of notional (default: 0.00035)
+  slippagePercent?: number // Adverse slippage applied to market fills (default: 0.05%)
+  clock?: () => number // Time source in ms (default: Date.now)
+}
+
+export interface SimulatedFill {
+  orderId: string
+  symbol: string
+  side: "BUY" | "SELL"
+  type: AsterOrder["type"]
+  price: number
+  quantity: number
+  fee: number
+  realizedPnl: number
+  time: number
+}
+
+/**
+ * Serializable snapshot of the simulated account (used by paper trading to survive restarts)
+ */
+export interface SimulatedExchangeState {
+  walletBalance: number
+  positions: Array<{ symbol: string; amount: number; entryPrice: number; updateTime: number }>
+  orders: AsterOrder[]
+  markPrices: Record<string, number>
+  fills: SimulatedFill[]
+  nextOrderId: number
+}
+
+type OrderParams = Parameters<ExchangeClient["placeOrder"]>[0]
+
+const MAINTENANCE_MARGIN_RATE = 0.005
+
+interface SimulatedPosition {
+  amount: number // Signed: > 0 long, < 0 short
+  entryPrice: number
+  updateTime: number
+}
+
+export class SimulatedExchange implements ExchangeClient {
+  private config: Required<Omit<SimulatedExchangeConfig, "clock">>
+  private clock: () => number
+  private walletBalance: number
+  private positions = new Map<string, SimulatedPosition>()
+  private orders = new Map<string, AsterOrder>()
+  private markPrices = new Map<string, number>()
+  private fills: SimulatedFill[] = []
+  private nextOrderId = 1
+
+  constructor(config: SimulatedExchangeConfig) {
+    this.config = {
+      initialBalance: config.initialBalance,
+      leverage: config.leverage ?? 5,
+      feeRate: config.feeRate ?? 0.00035,
+      slippagePercent: config.slippagePercent ?? 0.05,
+    }
+    this.clock = config.clock || Date.now
+    this.walletBalance = config.initialBalance
+  }
+
+  /**
+   * Set the mark price for a symbol without triggering resting orders
+   */
+  setMarkPrice(symbol: string, price: number): void {
+    this.markPrices.set(symbol, price)
+  }
+
+  /**
+   * Advance the market by one candle
+   * Resting orders are matched against the candle range, then the mark moves to the close
+   */
+  processCandle(symbol: string, candle: CandleData): void {
+    const resting = [...this.orders.values()].filter(
+      (order) => order.symbol === symbol && order.status === "NEW"
+    )
+
+    // Stops are checked before take-profits: when both sit inside one candle
+    // we cannot tell which traded first, so assume the worse outcome
+    const priority = (order: AsterOrder) => (order.type === "STOP_MARKET" ? 0 : order.type === "LIMIT" ? 1 : 2)
+    resting.sort((a, b) => priority(a) - priority(b))
+
+    for (const order of resting) {
+      if (order.status !== "NEW") continue // cancelled by an earlier fill in this candle
+
+      const fillPrice = this.matchAgainstCandle(order, candle)
+      if (fillPrice === null) continue
+
+      if (order.reduceOnly || order.type === "STOP_MARKET" || order.type === "TAKE_PROFIT_MARKET") {
+        const reducible = this.reducibleQuantity(order.symbol, order.side)
+        if (reducible <= 0) {
+          this.finishOrder(order, "CANCELED")
+          continue
+        }
+        order.origQty = Math.min(order.origQty, reducible)
+      }
+
+      this.fillOrder(order, fillPrice)
+    }
+
+    this.markPrices.set(symbol, candle.close)
+    this.liquidateIfUnderMargin()
+  }
+
+  /**
+   * Wallet balance plus unrealized PnL at current marks
+   */
+  getEquity(): number {
+    let unrealized = 0
+    for (const [symbol, position] of this.positions) {
+      unrealized += this.unrealizedPnl(symbol, position)
+    }
+    return this.walletBalance + unrealized
+  }
+
+  /**
+   * All fills in execution order
+   */
+  getFills(): SimulatedFill[] {
+    return [...this.fills]
+  }
+
+  /**
+   * Snapshot the account so it can be persisted
+   */
+  exportState(): SimulatedExchangeState {
+    return {
+      walletBalance: this.walletBalance,
+      positions: [...this.positions.entries()].map(([symbol, p]) => ({ symbol, ...p })),
+      orders: [...this.orders.values()].map((order) => ({ ...order })),
+      markPrices: Object.fromEntries(this.markPrices),
+      fills: [...this.fills],
+      nextOrderId: this.nextOrderId,
+    }
+  }
+
+  /**
+   * Replace the account with a previously exported snapshot
+   */
+  restoreState(state: SimulatedExchangeState): void {
+    this.walletBalance = state.walletBalance
+    this.positions = new Map(
+      state.positions.map(({ symbol, amount, entryPrice, updateTime }) => [symbol, { amount, entryPrice, updateTime }])
+    )
+    this.orders = new Map(state.orders.map((order) => [order.orderId, { ...order }]))
+    this.markPrices = new Map(Object.entries(state.markPrices))
+    this.fills = [...state.fills]
+    this.nextOrderId = state.nextOrderId
+  }
+
+  // ========================================
+  // ExchangeClient implementation
+  // ========================================
+
+  async syncServerTime(): Promise<void> {
+    // Simulated clock is authoritative, nothing to sync
+  }
+
+  async getAccountInfo(): Promise<AsterStats> {
+    const positions = this.buildPositions()
+    const unrealized = positions.reduce((sum, p) => sum + p.unrealizedProfit, 0)
+
+    // Mirrors AsterClient: equity is the wallet balance, unrealized PnL is reported separately
+    return {
+      equity: this.walletBalance,
+      total_pnl: unrealized,
+      total_roi: this.walletBalance > 0 ? (unrealized / this.walletBalance) * 100 : 0,
+      positions,
+    }
+  }
+
+  async getPositions(): Promise<AsterPositionsResponse> {
+    const stats = await this.getAccountInfo()
+    return {
+      positions: stats.positions,
+      total_pnl: stats.total_pnl,
+      total_roi: stats.total_roi,
+      equity: stats.equity,
+    }
+  }
+
+  async getOpenOrders(symbol?: string): Promise<AsterOrder[]> {
+    return [...this.orders.values()]
+      .filter((order) => order.status === "NEW" || order.status === "PARTIALLY_FILLED")
+      .filter((order) => !symbol || order.symbol === symbol)
+      .map((order) => ({ ...order }))
+  }
+
+  async placeOrder(params: OrderParams): Promise<any> {
+    const now = this.clock()
+    const order: AsterOrder = {
+      symbol: params.symbol,
+      orderId: String(this.nextOrderId++),
+      clientOrderId: params.clientOrderId || `sim_${now}_${this.nextOrderId}`,
+      price: params.price || 0,
+      origQty: params.quantity,
+      executedQty: 0,
+      cumQuote: 0,
+      status: "NEW",
+      timeInForce: params.timeInForce || "GTC",
+      type: params.type,
+      side: params.side,
+      stopPrice: params.stopPrice || 0,
+      time: now,
+      updateTime: now,
+      isWorking: true,
+      origQuoteOrderQty: 0,
+      reduceOnly: params.reduceOnly || false,
+    }
+    this.orders.set(order.orderId, order)
+
+    if (!Number.isFinite(params.quantity) || params.quantity <= 0) {
+      this.finishOrder(order, "REJECTED")
+      return { ...order }
+    }
+
+    const mark = this.markPrices.get(params.symbol)
+    if (params.type === "MARKET" || (params.type === "LIMIT" && mark !== undefined && this.isMarketable(order, mark))) {
+      if (mark === undefined) {
+        this.finishOrder(order, "REJECTED")
+        return { ...order }
+      }
+
+      if (order.reduceOnly) {
+        const reducible = this.reducibleQuantity(order.symbol, order.side)
+        if (reducible <= 0) {
+          this.finishOrder(order, "REJECTED")
+          return { ...order }
+        }
+        order.origQty = Math.min(order.origQty, reducible)
+      }
+
+      const fillPrice = params.type === "MARKET" ? this.applySlippage(mark, params.side) : order.price
+      if (!this.hasMarginFor(order, fillPrice)) {
+        this.finishOrder(order, "REJECTED")
+        return { ...order }
+      }
+
+      this.fillOrder(order, fillPrice)
+    }
+
+    return { ...order }
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<any> {
+    const order = this.orders.get(orderId)
+    if (!order || order.symbol !== symbol) {
+      throw new Error(`Unknown order ${orderId} for ${symbol}`)
+    }
+    if (order.status === "NEW" || order.status === "PARTIALLY_FILLED") {
+      this.finishOrder(order, "CANCELED")
+    }
+    return { ...order }
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<AsterOrder> {
+    const order = this.orders.get(orderId)
+    if (!order || order.symbol !== symbol) {
+      throw new Error(`Unknown order ${orderId} for ${symbol}`)
+    }
+    return { ...order }
+  }
+
+  async closePosition(symbol: string, side: "LONG" | "SHORT"): Promise<any> {
+    const position = this.positions.get(symbol)
+    if (!position || position.amount === 0) {
+      return { symbol, side, closed: false }
+    }
+    if ((side === "LONG" && position.amount < 0) || (side === "SHORT" && position.amount > 0)) {
+      return { symbol, side, closed: false }
+    }
+
+    return this.placeOrder({
+      symbol,
+      side: position.amount > 0 ? "SELL" : "BUY",
+      type: "MARKET",
+      quantity: Math.abs(position.amount),
+    })
+  }
+
+  // ========================================
+  // Matching engine
+  // ========================================
+
+  private matchAgainstCandle(order: AsterOrder, candle: CandleData): number | null {
+    const isBuy = order.side === "BUY"
+
+    switch (order.type) {
+      case "LIMIT":
+        if (isBuy && candle.low <= order.price) return Math.min(order.price, candle.open)
+        if (!isBuy && candle.high >= order.price) return Math.max(order.price, candle.open)
+        return null
+      case "STOP_MARKET":
+        // Gaps through the stop fill at the open, not the stop price
+        if (isBuy && candle.high >= order.stopPrice) return this.applySlippage(Math.max(order.stopPrice, candle.open), "BUY")
+        if (!isBuy && candle.low <= order.stopPrice) return this.applySlippage(Math.min(order.stopPrice, candle.open), "SELL")
+        return null
+      case "TAKE_PROFIT_MARKET":
+        if (isBuy && candle.low <= order.stopPrice) return this.applySlippage(Math.min(order.stopPrice, candle.open), "BUY")
+        if (!isBuy && candle.high >= order.stopPrice) return this.applySlippage(Math.max(order.stopPrice, candle.open), "SELL")
+        return null
+      default:
+        return null
+    }
+  }
+
+  private isMarketable(order: AsterOrder, mark: number): boolean {
+    return order.side === "BUY" ? order.price >= mark : order.price <= mark
+  }
+
+  private applySlippage(price: number, side: "BUY" | "SELL"): number {
+    const slippage = this.config.slippagePercent / 100
+    return side === "BUY" ? price * (1 + slippage) : price * (1 - slippage)
+  }
+
+  private hasMarginFor(order: AsterOrder, price: number): boolean {
+    const position = this.positions.get(order.symbol)
+    const signedQty = order.side === "BUY" ? order.origQty : -order.origQty
+    const currentAmount = position?.amount || 0
+
+    // Orders that only reduce exposure never need extra margin
+    if (Math.abs(currentAmount + signedQty) <= Math.abs(currentAmount)) return true
+
+    let usedMargin = 0
+    for (const [symbol, p] of this.positions) {
+      if (symbol === order.symbol) continue
+      usedMargin += (Math.abs(p.amount) * (this.markPrices.get(symbol) || p.entryPrice)) / this.config.leverage
+    }
+    const requiredMargin = (Math.abs(currentAmount + signedQty) * price) / this.config.leverage
+    return usedMargin + requiredMargin <= this.getEquity()
+  }
+
+  private reducibleQuantity(symbol: string, side: "BUY" | "SELL"): number {
+    const amount = this.positions.get(symbol)?.amount || 0
+    if (side === "SELL") return Math.max(0, amount)
+    return Math.max(0, -amount)
+  }
+
+  private fillOrder(order: AsterOrder, price: number): void {
+    const now = this.clock()
+    const quantity = order.origQty
+    const signedQty = order.side === "BUY" ? quantity : -quantity
+    const position = this.positions.get(order.symbol) || { amount: 0, entryPrice: 0, updateTime: now }
+
+    let realizedPnl = 0
+    const sameDirection = position.amount === 0 || Math.sign(position.amount) === Math.sign(signedQty)
+
+    if (sameDirection) {
+      const newAmount = position.amount + signedQty
+      position.entryPrice =
+        (Math.abs(position.amount) * position.entryPrice + quantity * price) / Math.abs(newAmount)
+      position.amount = newAmount
+    } else {
+      const closingQty = Math.min(Math.abs(position.amount), quantity)
+      const direction = position.amount > 0 ? 1 : -1
+      realizedPnl = (price - position.entryPrice) * closingQty * direction
+
+      const newAmount = position.amount + signedQty
+      if (newAmount !== 0 && Math.sign(newAmount) !== Math.sign(position.amount)) {
+        // Flipped through zero: remainder opens at the fill price
+        position.entryPrice = price
+      }
+      position.amount = newAmount
+    }
+    position.updateTime = now
+
+    const fee = quantity * price * this.config.feeRate
+    this.walletBalance += realizedPnl - fee
+
+    if (Math.abs(position.amount) < 1e-12) {
+      this.positions.delete(order.symbol)
+    } else {
+      this.positions.set(order.symbol, position)
+    }
+
+    order.executedQty = quantity
+    order.cumQuote = quantity * price
+    if (order.type === "MARKET") order.price = price
+    this.finishOrder(order, "FILLED")
+
+    this.fills.push({
+      orderId: order.orderId,
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      price,
+      quantity,
+      fee,
+      realizedPnl,
+      time: now,
+    })
+  }
+
+  private finishOrder(order: AsterOrder, status: AsterOrder["status"]): void {
+    order.status = status
+    order.isWorking = false
+    order.updateTime = this.clock()
+  }
+
+  private liquidateIfUnderMargin(): void {
+    let maintenanceMargin = 0
+    for (const [symbol, position] of this.positions) {
+      const mark = this.markPrices.get(symbol) ?? position.entryPrice
+      maintenanceMargin += Math.abs(position.amount) * mark * MAINTENANCE_MARGIN_RATE
+    }
+    if (maintenanceMargin === 0 || this.getEquity() > maintenanceMargin) return
+
+    console.warn(`[SimulatedExchange] ⚠️ Equity below maintenance margin, liquidating all positions`)
+    for (const [symbol, position] of [...this.positions]) {
+      const order: AsterOrder = {
+        symbol,
+        orderId: String(this.nextOrderId++),
+        clientOrderId: `liquidation_${this.clock()}`,
+        price: 0,
+        origQty: Math.abs(position.amount),
+        executedQty: 0,
+        cumQuote: 0,
+        status: "NEW",
+        timeInForce: "GTC",
+        type: "MARKET",
+        side: position.amount > 0 ? "SELL" : "BUY",
+        stopPrice: 0,
+        time: this.clock(),
+        updateTime: this.clock(),
+        isWorking: true,
+        origQuoteOrderQty: 0,
+      }
+      this.orders.set(order.orderId, order)
+      this.fillOrder(order, this.markPrices.get(symbol) ?? position.entryPrice)
+    }
+  }
+
+  private unrealizedPnl(symbol: string, position: SimulatedPosition): number {
+    const mark = this.markPrices.get(symbol) ?? position.entryPrice
+    return (mark - position.entryPrice) * position.amount
+  }
+
+  /**
+   * Build Aster-shaped position records
+   * `quantity` is included because strategies read it alongside positionAmt
+   */
+  private buildPositions(): Array<AsterPosition & { quantity: number }> {
+    return [...this.positions.entries()].map(([symbol, position]) => {
+      const markPrice = this.markPrices.get(symbol) ?? position.entryPrice
+      const notional = Math.abs(position.amount) * markPrice
+      const initialMargin = notional / this.config.leverage
+      const unrealizedProfit = this.unrealizedPnl(symbol, position)
+
+      return {
+        symbol,
+        positionAmt: position.amount,
+        quantity: Math.abs(position.amount),
+        initialMargin,
+        maintMargin: notional * MAINTENANCE_MARGIN_RATE,
+        unrealizedProfit,
+        entryPrice: position.entryPrice,
+        maxNotional: 0,
+        liquidationPrice: 0,
+        leverage: this.config.leverage,
+        isolated: false,
+        side: position.amount > 0 ? "LONG" : "SHORT",
+        percentage: initialMargin > 0 ? (unrealizedProfit / initialMargin) * 100 : 0,
+        notional,
+        markPrice,
+        updateTime: position.updateTime,
+      }
+    })
+  }
+}
@@ -46,7 +46,7 @@ export interface AgentSignal {
 
 export interface AgentThinking {
   agent_id: string
-  thinking_type: 'analysis' | 'error' | 'decision' | 'market_analysis'
+  thinking_type: 'analysis' | 'error' | 'decision' | 'market_analysis' | 'risk_rejection' | 'llm_decision'
   content: string
   metadata?: Record<string, any>
   thinking_timestamp: string
@@ -64,7 +64,7 @@ export interface AgentStatusRecord {
 export interface AgentDecisionLog {
   agent_id: string
   symbol: string
-  decision: 'BUY' | 'SELL' | 'HOLD'
+  decision: 'BUY' | 'SELL' | 'HOLD' | 'PARAMETER_UPDATE'
   reasoning: string
   confidence: number
   market_context?: Record<string, any>
@@ -95,7 +95,56 @@ export interface AgentChatMessage {
   timestamp: string
 }
 
+export interface PortfolioExposure {
+  agent_id: string
+  symbol: string
+  trading_mode: 'live' | 'paper'
+  position_amt: number // Signed: positive = long, negative = short
+  mark_price: number
+  notional: number // Signed position value in USDT
+  equity: number // Agent account equity at the time of the update
+  updated_at: string
+}
+
+export interface AgentRiskState {
+  agent_id: string
+  symbol: string
+  state: Record<string, any> // RiskManager.exportState()
+  updated_at: string
+}
+
+export type AgentCommandType = 'pause' | 'resume' | 'flatten' | 'reload_parameters'
+
+export interface AgentCommand {
+  id: number
+  agent_id: string // Model ID, e.g. "claude_arbitrage"
+  command: AgentCommandType
+  payload?: Record<string, any>
+  status: 'pending' | 'processing' | 'done' | 'failed'
+  result?: string
+  requested_by?: string
+  created_at: string
+  processed_at?: string
+}
+
+export interface PortfolioKillSwitch {
+  active: boolean
+  reason?: string
+  updated_at?: string
+}
+
 // Stub implementations - agents can operate without Supabase
+export interface PriceCheckRecord {
+  symbol: string
+  status: 'ok' | 'diverged' | 'stale'
+  binance_price?: number | null
+  aster_price?: number | null
+  deviation_percent?: number | null // (Aster - Binance) / Binance * 100
+  band_percent: number
+  reason?: string | null
+  checked_at: string
+}
+
 export async function saveAgentTrade(trade: AgentTrade): Promise<boolean> {
   if (!supabase) return false
   try {
@@ -107,6 +156,25 @@ export async function saveAgentTrade(trade: AgentTrade): Promise<boolean> {
   }
 }
 
+export async function updateAgentTradeByOrderId(
+  agentId: string,
+  orderId: string,
+  updates: Partial<Pick<AgentTrade, 'quantity' | 'executed_price' | 'status'>>
+): Promise<boolean> {
+  if (!supabase) return false
+  try {
+    const { error } = await supabase
+      .from('agent_trades')
+      .update(updates)
+      .eq('agent_id', agentId)
+      .eq('order_id', orderId)
+    return !error
+  } catch (error) {
+    console.warn('[Supabase] Error updating trade:', error)
+    return false
+  }
+}
+
 export async function saveAgentSignal(signal: AgentSignal): Promise<boolean> {
   if (!supabase) return false
   try {
@@ -162,6 +230,32 @@ export async function saveExitPlan(plan: ExitPlan): Promise<boolean> {
   }
 }
 
+export async function closeExitPlan(
+  agentId: string,
+  symbol: string,
+  side: 'LONG' | 'SHORT',
+  closeReason: 'hit_tp' | 'hit_sl' | 'closed'
+): Promise<boolean> {
+  if (!supabase) return false
+  try {
+    const { error } = await supabase
+      .from('active_exit_plans')
+      .update({
+        status: closeReason,
+        closed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('agent_id', agentId)
+      .eq('symbol', symbol)
+      .eq('side', side)
+      .eq('status', 'active')
+    return !error
+  } catch (error) {
+    console.warn('[Supabase] Error closing exit plan:', error)
+    return false
+  }
+}
+
 export async function saveAgentChatMessage(message: AgentChatMessage): Promise<boolean> {
   if (!supabase) return false
   try {
@@ -171,4 +265,217 @@ export async function saveAgentChatMessage(message: AgentChatMessage): Promise<b
     console.warn('[Supabase] Error saving chat message:', error)
     return false
   }
+}
+
+export async function upsertPortfolioExposure(exposure: PortfolioExposure): Promise<boolean> {
+  if (!supabase) return false
+  try {
+    const { error } = await supabase
+      .from('portfolio_exposure')
+      .upsert([exposure], { onConflict: 'agent_id,symbol,trading_mode' })
+    return !error
+  } catch (error) {
+    console.warn('[Supabase] Error saving portfolio exposure:', error)
+    return false
+  }
+}
+
+export async function getPortfolioExposures(
+  tradingMode: 'live' | 'paper',
+  updatedSince: string
+): Promise<PortfolioExposure[]> {
+  if (!supabase) return []
+  try {
+    const { data, error } = await supabase
+      .from('portfolio_exposure')
+      .select('*')
+      .eq('trading_mode', tradingMode)
+      .gte('updated_at', updatedSince)
+    if (error) return []
+    return (data || []).map((row: any) => ({
+      ...row,
+      position_amt: Number(row.position_amt),
+      mark_price: Number(row.mark_price),
+      notional: Number(row.notional),
+      equity: Number(row.equity),
+    }))
+  } catch (error) {
+    console.warn('[Supabase] Error fetching portfolio exposure:', error)
+    return []
+  }
+}
+
+export async function savePriceCheck(check: PriceCheckRecord): Promise<boolean> {
+  if (!supabase) return false
+  try {
+    const { error } = await supabase.from('price_checks').insert([check])
+    return !error
+  } catch (error) {
+    console.warn('[Supabase] Error saving price check:', error)
+    return false
+  }
+}
+
+export interface StoredCandle {
+  open_time: number
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+/**
+ * Candles from the dashboard's candle store (market_candles) between start and end, oldest first
+ */
+export async function getStoredCandles(
+  symbol: string,
+  interval: string,
+  start: number,
+  end: number
+): Promise<StoredCandle[]> {
+  if (!supabase) return []
+  const candles: StoredCandle[] = []
+  let after = start - 1
+  try {
+    // PostgREST returns at most 1000 rows per request
+    while (true) {
+      const { data, error } = await supabase
+        .from('market_candles')
+        .select('open_time, open, high, low, close, volume')
+        .eq('symbol', symbol)
+        .eq('interval', interval)
+        .gt('open_time', after)
+        .lte('open_time', end)
+        .order('open_time', { ascending: true })
+        .limit(1000)
+      if (error) {
+        console.warn('[Supabase] Error fetching stored candles:', error)
+        return candles
+      }
+      const page = (data || []).map((row: any) => ({
+        open_time: Number(row.open_time),
+        open: Number(row.open),
+        high: Number(row.high),
+        low: Number(row.low),
+        close: Number(row.close),
+        volume: Number(row.volume),
+      }))
+      candles.push(...page)
+      if (page.length < 1000) return candles
+      after = page[page.length - 1].open_time
+    }
+  } catch (error) {
+    console.warn('[Supabase] Error fetching stored candles:', error)
+    return candles
+  }
+}
+
+export async function getPortfolioKillSwitch(): Promise<PortfolioKillSwitch | null> {
+  if (!supabase) return null
+  try {
+    const { data, error } = await supabase
+      .from('portfolio_risk_controls')
+      .select('kill_switch, reason, updated_at')
+      .eq('id', 1)
+      .maybeSingle()
+    if (error || !data) return null
+    return { active: Boolean(data.kill_switch), reason: data.reason || undefined, updated_at: data.updated_at }
+  } catch (error) {
+    console.warn('[Supabase] Error fetching kill switch:', error)
+    return null
+  }
+}
+
+export async function saveAgentRiskState(riskState: AgentRiskState): Promise<boolean> {
+  if (!supabase) return false
+  try {
+    const { error } = await supabase
+      .from('agent_risk_state')
+      .upsert([riskState], { onConflict: 'agent_id,symbol' })
+    return !error
+  } catch (error) {
+    console.warn('[Supabase] Error saving risk state:', error)
+    return false
+  }
+}
+
+export async function getAgentRiskState(agentId: string, symbol: string): Promise<AgentRiskState | null> {
+  if (!supabase) return null
+  try {
+    const { data, error } = await supabase
+      .from('agent_risk_state')
+      .select('*')
+      .eq('agent_id', agentId)
+      .eq('symbol', symbol)
+      .maybeSingle()
+    if (error || !data) return null
+    return data as AgentRiskState
+  } catch (error) {
+    console.warn('[Supabase] Error fetching risk state:', error)
+    return null
+  }
+}
+
+export async function getPendingAgentCommands(agentId: string): Promise<AgentCommand[]> {
+  if (!supabase) return []
+  try {
+    const { data, error } = await supabase
+      .from('agent_commands')
+      .select('*')
+      .eq('agent_id', agentId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+    if (error) return []
+    return (data || []) as AgentCommand[]
+  } catch (error) {
+    console.warn('[Supabase] Error fetching agent commands:', error)
+    return []
+  }
+}
+
+/**
+ * Most recent pause, resume or flatten command an agent has already processed
+ * Decides whether the agent starts paused after a restart
+ */
+export async function getLastPauseCommand(agentId: string): Promise<AgentCommand | null> {
+  if (!supabase) return null
+  try {
+    const { data, error } = await supabase
+      .from('agent_commands')
+      .select('*')
+      .eq('agent_id', agentId)
+      .in('command', ['pause', 'resume', 'flatten'])
+      .in('status', ['processing', 'done', 'failed'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (error || !data) return null
+    return data as AgentCommand
+  } catch (error) {
+    console.warn('[Supabase] Error fetching last pause command:', error)
+    return null
+  }
+}
+
+export async function updateAgentCommand(
+  id: number,
+  status: AgentCommand['status'],
+  result?: string
+): Promise<boolean> {
+  if (!supabase) return false
+  try {
+    const { error } = await supabase
+      .from('agent_commands')
+      .update({
+        status,
+        result,
+        processed_at: status === 'processing' ? null : new Date().toISOString(),
+      })
+      .eq('id', id)
+    return !error
+  } catch (error) {
+    console.warn('[Supabase] Error updating agent command:', error)
+    return false
+  }
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { getTradingMode } from "./trading-mode.ts"
+
+describe("getTradingMode", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("defaults to live and lets the agent override the global mode", () => {
+    vi.stubEnv("TRADING_MODE", "")
+    vi.stubEnv("AGENT_2_TRADING_MODE", "")
+    expect(getTradingMode(2)).toBe("live")
+
+    vi.stubEnv("TRADING_MODE", "live")
+    vi.stubEnv("AGENT_2_TRADING_MODE", "Paper")
+    expect(getTradingMode(2)).toBe("paper")
+  })
+
+  it("refuses a mode it doesn't know instead of trading live", () => {
+    vi.stubEnv("AGENT_2_TRADING_MODE", "")
+    vi.stubEnv("TRADING_MODE", "papper")
+    expect(() => getTradingMode(2)).toThrow('Invalid TRADING_MODE "papper"')
+
+    vi.stubEnv("AGENT_2_TRADING_MODE", "sim")
+    expect(() => getTradingMode(2)).toThrow("Invalid AGENT_2_TRADING_MODE")
+  })
+})
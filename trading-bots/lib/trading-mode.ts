@@ -0,0 +1,33 @@
+/**
+ * Trading Mode Configuration
+ * Selects whether an agent trades on Aster (live) or against the paper exchange,
+ * and whether its signals come from the indicator strategy or from its LLM
+ *
+ * Env: AGENT_N_TRADING_MODE overrides TRADING_MODE (values: "live" | "paper", default: live)
+ * Env: AGENT_N_DECISION_MODE overrides DECISION_MODE (values: "indicator" | "llm", default: indicator)
+ */
+
+export type TradingMode = "live" | "paper"
+
+export type DecisionMode = "indicator" | "llm"
+
+/**
+ * Resolve trading mode for an agent number (1-5)
+ * Throws on anything but "live" or "paper", so a typo never turns paper trading into real orders
+ */
+export function getTradingMode(agentNumber: number): TradingMode {
+  const variable = process.env[`AGENT_${agentNumber}_TRADING_MODE`] ? `AGENT_${agentNumber}_TRADING_MODE` : "TRADING_MODE"
+  const mode = (process.env[variable] || "live").trim().toLowerCase()
+  if (mode !== "live" && mode !== "paper") {
+    throw new Error(`Invalid ${variable} "${process.env[variable]}": must be "live" or "paper"`)
+  }
+  return mode
+}
+
+/**
+ * Resolve decision mode for an agent number (1-5)
+ */
+export function getDecisionMode(agentNumber: number): DecisionMode {
+  const mode = (process.env[`AGENT_${agentNumber}_DECISION_MODE`] || process.env.DECISION_MODE || "indicator").toLowerCase()
+  return mode === "llm" ? "llm" : "indicator"
+}
@@ -0,0 +1,289 @@
+/**
+ * Aster User Data Stream
+ * WebSocket subscriber for order fills, position and balance changes
+ *
+ * - Creates a listen key and keeps it alive (Aster expires keys after 60 minutes)
+ * - Reconnects with exponential backoff and a fresh listen key when needed
+ * - Normalizes ORDER_TRADE_UPDATE / ACCOUNT_UPDATE payloads into typed events
+ * - One stream per agent account, shared by all of its symbol strategies
+ */
+
+import WebSocket from "ws"
+import type { AsterClient, AsterOrder } from "./aster-client.ts"
+
+export interface OrderUpdateEvent {
+  symbol: string
+  orderId: string
+  clientOrderId: string
+  side: "BUY" | "SELL"
+  type: AsterOrder["type"]
+  status: AsterOrder["status"]
+  executionType: string // NEW, TRADE, CANCELED, EXPIRED, ...
+  quantity: number
+  price: number
+  stopPrice: number
+  filledQuantity: number // Cumulative
+  lastFilledQuantity: number
+  lastFilledPrice: number
+  averagePrice: number
+  commission: number
+  realizedPnl: number
+  reduceOnly: boolean
+  time: number
+}
+
+export interface AccountUpdateEvent {
+  reason: string // ORDER, FUNDING_FEE, DEPOSIT, ...
+  balances: Array<{ asset: string; walletBalance: number; crossWalletBalance: number }>
+  positions: Array<{ symbol: string; positionAmt: number; entryPrice: number; unrealizedProfit: number; positionSide: string }>
+  time: number
+}
+
+export interface UserDataStreamHandlers {
+  onOrderUpdate?: (event: OrderUpdateEvent) => void | Promise<void>
+  onAccountUpdate?: (event: AccountUpdateEvent) => void | Promise<void>
+  onReconnect?: () => void | Promise<void> // Events may have been missed while disconnected
+}
+
+const KEEPALIVE_INTERVAL_MS = 30 * 60 * 1000
+const MAX_RECONNECT_DELAY_MS = 60 * 1000
+
+export class UserDataStream {
+  private client: AsterClient
+  private label: string
+  private wsBaseUrl: string
+  private socket: WebSocket | null = null
+  private listenKey: string | null = null
+  private keepAliveTimer: NodeJS.Timeout | null = null
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private reconnectAttempts = 0
+  private handlers = new Set<UserDataStreamHandlers>()
+  private starting: Promise<void> | null = null
+  private stopped = false
+  private connected = false
+  private hasConnectedBefore = false
+
+  constructor(client: AsterClient, label: string) {
+    this.client = client
+    this.label = label
+    this.wsBaseUrl = process.env.ASTER_WS_URL || "wss://fstream.asterdex.com"
+  }
+
+  /**
+   * Register event handlers; returns an unsubscribe function
+   */
+  subscribe(handlers: UserDataStreamHandlers): () => void {
+    this.handlers.add(handlers)
+    return () => this.handlers.delete(handlers)
+  }
+
+  /**
+   * Whether events are currently flowing (callers fall back to polling otherwise)
+   */
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  /**
+   * Open the stream (safe to call from every strategy sharing it)
+   */
+  async start(): Promise<void> {
+    if (this.socket || this.stopped) return
+    if (!this.starting) {
+      this.starting = this.connect().finally(() => {
+        this.starting = null
+      })
+    }
+    return this.starting
+  }
+
+  /**
+   * Close the socket and release the listen key
+   */
+  async stop(): Promise<void> {
+    this.stopped = true
+    this.clearTimers()
+    this.connected = false
+
+    if (this.socket) {
+      this.socket.removeAllListeners()
+      this.socket.close()
+      this.socket = null
+    }
+
+    if (this.listenKey) {
+      try {
+        await this.client.closeListenKey(this.listenKey)
+      } catch (error) {
+        console.warn(`[UserDataStream:${this.label}] ⚠️ Failed to close listen key:`, error)
+      }
+      this.listenKey = null
+    }
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      if (!this.listenKey) {
+        const { listenKey } = await this.client.getListenKey()
+        this.listenKey = listenKey
+      }
+
+      const socket = new WebSocket(`${this.wsBaseUrl}/ws/${this.listenKey}`)
+      this.socket = socket
+
+      socket.on("open", () => {
+        const isReconnect = this.hasConnectedBefore
+        this.connected = true
+        this.hasConnectedBefore = true
+        this.reconnectAttempts = 0
+        this.startKeepAlive()
+        console.log(`[UserDataStream:${this.label}] ✅ Connected${isReconnect ? " (reconnected)" : ""}`)
+
+        if (isReconnect) {
+          this.dispatch((h) => h.onReconnect?.())
+        }
+      })
+
+      socket.on("message", (data) => this.handleMessage(data.toString()))
+
+      socket.on("error", (error) => {
+        console.warn(`[UserDataStream:${this.label}] ⚠️ Socket error:`, error.message)
+      })
+
+      socket.on("close", () => {
+        this.connected = false
+        this.socket = null
+        this.clearTimers()
+        if (!this.stopped) {
+          console.warn(`[UserDataStream:${this.label}] Connection closed, reconnecting...`)
+          this.scheduleReconnect()
+        }
+      })
+    } catch (error) {
+      console.error(`[UserDataStream:${this.label}] Failed to open stream:`, error)
+      this.socket = null
+      this.scheduleReconnect()
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return
+
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY_MS)
+    this.reconnectAttempts++
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.start()
+    }, delay)
+  }
+
+  private startKeepAlive(): void {
+    if (this.keepAliveTimer) clearInterval(this.keepAliveTimer)
+
+    this.keepAliveTimer = setInterval(async () => {
+      if (!this.listenKey) return
+      try {
+        await this.client.keepListenKeyAlive(this.listenKey)
+      } catch (error) {
+        // Key is gone: drop it so the reconnect creates a new one
+        console.warn(`[UserDataStream:${this.label}] ⚠️ Listen key keepalive failed, renewing:`, error)
+        this.listenKey = null
+        this.socket?.close()
+      }
+    }, KEEPALIVE_INTERVAL_MS)
+  }
+
+  private clearTimers(): void {
+    if (this.keepAliveTimer) clearInterval(this.keepAliveTimer)
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.keepAliveTimer = null
+    this.reconnectTimer = null
+  }
+
+  private handleMessage(raw: string): void {
+    let message: any
+    try {
+      message = JSON.parse(raw)
+    } catch {
+      return
+    }
+
+    switch (message.e) {
+      case "ORDER_TRADE_UPDATE": {
+        const o = message.o || {}
+        const event: OrderUpdateEvent = {
+          symbol: o.s,
+          orderId: String(o.i),
+          clientOrderId: o.c,
+          side: o.S,
+          type: o.o,
+          status: o.X,
+          executionType: o.x,
+          quantity: Number(o.q) || 0,
+          price: Number(o.p) || 0,
+          stopPrice: Number(o.sp) || 0,
+          filledQuantity: Number(o.z) || 0,
+          lastFilledQuantity: Number(o.l) || 0,
+          lastFilledPrice: Number(o.L) || 0,
+          averagePrice: Number(o.ap) || 0,
+          commission: Number(o.n) || 0,
+          realizedPnl: Number(o.rp) || 0,
+          reduceOnly: Boolean(o.R),
+          time: Number(o.T) || Number(message.E) || Date.now(),
+        }
+        this.dispatch((h) => h.onOrderUpdate?.(event))
+        break
+      }
+      case "ACCOUNT_UPDATE": {
+        const a = message.a || {}
+        const event: AccountUpdateEvent = {
+          reason: a.m,
+          balances: (a.B || []).map((b: any) => ({
+            asset: b.a,
+            walletBalance: Number(b.wb) || 0,
+            crossWalletBalance: Number(b.cw) || 0,
+          })),
+          positions: (a.P || []).map((p: any) => ({
+            symbol: p.s,
+            positionAmt: Number(p.pa) || 0,
+            entryPrice: Number(p.ep) || 0,
+            unrealizedProfit: Number(p.up) || 0,
+            positionSide: p.ps,
+          })),
+          time: Number(message.T) || Number(message.E) || Date.now(),
+        }
+        this.dispatch((h) => h.onAccountUpdate?.(event))
+        break
+      }
+      case "listenKeyExpired":
+        console.warn(`[UserDataStream:${this.label}] Listen key expired, renewing`)
+        this.listenKey = null
+        this.socket?.close()
+        break
+    }
+  }
+
+  private dispatch(call: (handlers: UserDataStreamHandlers) => void | Promise<void> | undefined): void {
+    for (const handlers of this.handlers) {
+      Promise.resolve()
+        .then(() => call(handlers))
+        .catch((error) => console.error(`[UserDataStream:${this.label}] Handler error:`, error))
+    }
+  }
+}
+
+// One stream per agent account
+const streams = new Map<string, UserDataStream>()
+
+/**
+ * Get the shared user data stream for an agent
+ */
+export function getUserDataStream(agentId: string, client: AsterClient): UserDataStream {
+  let stream = streams.get(agentId)
+  if (!stream) {
+    stream = new UserDataStream(client, agentId)
+    streams.set(agentId, stream)
+  }
+  return stream
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { splitWalkForward } from "./walk-forward.ts"
+import type { CandleData } from "./market-analyzer.ts"
+
+function candles(count: number): CandleData[] {
+  return Array.from({ length: count }, (_, i) => ({ time: i * 60_000, open: 100, high: 100, low: 100, close: 100, volume: 0 }))
+}
+
+describe("splitWalkForward", () => {
+  it("rolls equal in-sample windows forward, each followed by its out-of-sample window", () => {
+    const windows = splitWalkForward(candles(500), 2, 0.6)!
+
+    expect(windows).toHaveLength(2)
+    expect(windows.map((w) => [w.inSample.length, w.outOfSample.length])).toEqual([[300, 100], [300, 100]])
+    expect(windows[0].outOfSample[0].time).toBe(windows[0].inSample[299].time + 60_000)
+    expect(windows[1].inSample[0].time).toBe(windows[0].outOfSample.length * 60_000)
+    expect(windows[1].outOfSample.at(-1)?.time).toBe(499 * 60_000)
+  })
+
+  it("never lets an out-of-sample window overlap its in-sample window", () => {
+    for (const { inSample, outOfSample } of splitWalkForward(candles(1000), 4, 0.5)!) {
+      expect(outOfSample[0].time).toBeGreaterThan(inSample.at(-1)!.time)
+    }
+  })
+
+  it("sorts candles by time first", () => {
+    const windows = splitWalkForward(candles(400).reverse(), 1, 0.5)!
+
+    expect(windows[0].inSample[0].time).toBe(0)
+    expect(windows[0].outOfSample[0].time).toBe(200 * 60_000)
+  })
+
+  it("returns null when a window would hold fewer than 50 candles", () => {
+    expect(splitWalkForward(candles(200), 3, 0.6)).toBeNull()
+    expect(splitWalkForward(candles(80), 1, 0.5)).toBeNull()
+  })
+})
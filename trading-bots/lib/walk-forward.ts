@@ -0,0 +1,367 @@
+/**
+ * Walk-Forward Parameter Optimizer
+ * Searches the AgentParameters space for a strategy by replaying historical candles
+ *
+ * For each fold:
+ * 1. Every candidate is backtested on the in-sample window and scored
+ * 2. The best in-sample candidate and the current parameters are backtested
+ *    on the following out-of-sample window
+ *
+ * Candidates are scored with the learning engine (analyzePerformance on the closed
+ * backtest trades + calculateOptimizationScore), so scores compare with live updates.
+ * An update is only returned when the walk-forward selections beat the current
+ * parameters out-of-sample, overall and on the most recent fold.
+ */
+
+import type { CandleData } from "./market-analyzer.ts"
+import { runBacktest, type BacktestOptions, type BacktestResult, type StrategyFactory } from "./backtester.ts"
+import { PARAMETER_BOUNDS, clampAgentParameters, type AgentParameters } from "./agent-parameters.ts"
+import {
+  analyzePerformance,
+  calculateOptimizationScore,
+  convertAsterTradesToTrades,
+} from "../../lib/learning-engine.ts"
+import type { LearningUpdate, PerformanceMetrics } from "../../lib/types/learning.ts"
+
+export type OptimizableParameter = Exclude<keyof AgentParameters, "last_updated" | "optimization_score">
+
+export interface WalkForwardOptions {
+  agentId: string // Dashboard model ID, e.g. "gemini_grid"
+  fields: OptimizableParameter[] // Parameters the strategy maps in applyParameters
+  backtest: BacktestOptions
+  folds?: number // Number of in-sample/out-of-sample windows (default: 3)
+  inSampleRatio?: number // Share of the candles in each in-sample window (default: 0.6)
+  maxCandidates?: number // Candidate parameter sets per fold, including the current set (default: 40)
+  minTrades?: number // Closed trades an in-sample result needs to be eligible (default: 5)
+  seed?: number // Candidate sampling seed (default: 42)
+  multipliers?: number[] // Search values as multiples of the current value (default: 0.5 - 1.5)
+}
+
+export interface WindowRange {
+  start_time: number
+  end_time: number
+  candles: number
+}
+
+export interface CandidateScore {
+  score: number // calculateOptimizationScore (0-100)
+  return_percent: number
+  metrics: PerformanceMetrics
+}
+
+export interface WalkForwardFold {
+  fold: number
+  in_sample: WindowRange
+  out_of_sample: WindowRange
+  selected_parameters: AgentParameters
+  selected_in_sample: CandidateScore
+  selected_out_of_sample: CandidateScore
+  current_in_sample: CandidateScore
+  current_out_of_sample: CandidateScore
+}
+
+export interface WalkForwardEvidence {
+  candidates_tested: number
+  folds: WalkForwardFold[]
+  current_out_of_sample: { mean_score: number; mean_return_percent: number }
+  selected_out_of_sample: { mean_score: number; mean_return_percent: number }
+  folds_won: number // Folds where the selection beat the current parameters out-of-sample
+}
+
+export interface WalkForwardResult {
+  agent_id: string
+  status: "improved" | "no_improvement" | "insufficient_data"
+  reason: string
+  update?: LearningUpdate // Only set when status is "improved"
+  evidence?: WalkForwardEvidence
+}
+
+const DEFAULT_MULTIPLIERS = [0.5, 0.75, 1, 1.25, 1.5]
+const MIN_WINDOW_CANDLES = 50
+
+/**
+ * Run a walk-forward search and return an update only if it beats `current` out-of-sample
+ */
+export async function runWalkForward(
+  createStrategy: StrategyFactory,
+  candles: CandleData[],
+  current: AgentParameters,
+  options: WalkForwardOptions
+): Promise<WalkForwardResult> {
+  const folds = options.folds ?? 3
+  const inSampleRatio = options.inSampleRatio ?? 0.6
+  const minTrades = options.minTrades ?? 5
+
+  const windows = splitWalkForward(candles, folds, inSampleRatio)
+
+  if (!windows) {
+    return {
+      agent_id: options.agentId,
+      status: "insufficient_data",
+      reason: `Need at least ${MIN_WINDOW_CANDLES} candles per window (${candles.length} candles, ${folds} folds)`,
+    }
+  }
+
+  const baseline = clampAgentParameters(current).parameters
+  const candidates = generateCandidates(baseline, options)
+  const foldResults: WalkForwardFold[] = []
+
+  for (const [fold, { inSample, outOfSample }] of windows.entries()) {
+    // Current parameters are always candidate 0, so they win ties and insufficient results
+    const currentInSample = await evaluate(createStrategy, inSample, baseline, options)
+    let selected = baseline
+    let selectedInSample = currentInSample
+
+    for (const candidate of candidates.slice(1)) {
+      const result = await evaluate(createStrategy, inSample, candidate, options)
+      if (result.metrics.total_trades < minTrades) continue
+      if (compareScores(result, selectedInSample) > 0 || selectedInSample.metrics.total_trades < minTrades) {
+        selected = candidate
+        selectedInSample = result
+      }
+    }
+
+    const currentOutOfSample = await evaluate(createStrategy, outOfSample, baseline, options)
+    const selectedOutOfSample = selected === baseline
+      ? currentOutOfSample
+      : await evaluate(createStrategy, outOfSample, selected, options)
+
+    foldResults.push({
+      fold: fold + 1,
+      in_sample: windowRange(inSample),
+      out_of_sample: windowRange(outOfSample),
+      selected_parameters: selected,
+      selected_in_sample: selectedInSample,
+      selected_out_of_sample: selectedOutOfSample,
+      current_in_sample: currentInSample,
+      current_out_of_sample: currentOutOfSample,
+    })
+  }
+
+  const currentSummary = summarize(foldResults.map((f) => f.current_out_of_sample))
+  const selectedSummary = summarize(foldResults.map((f) => f.selected_out_of_sample))
+  const foldsWon = foldResults.filter((f) => compareScores(f.selected_out_of_sample, f.current_out_of_sample) > 0).length
+
+  const evidence: WalkForwardEvidence = {
+    candidates_tested: candidates.length,
+    folds: foldResults,
+    current_out_of_sample: currentSummary,
+    selected_out_of_sample: selectedSummary,
+    folds_won: foldsWon,
+  }
+
+  // The most recent fold's selection was trained on the latest data, so it is the one recommended
+  const latest = foldResults[foldResults.length - 1]
+  const beatsOverall = compareSummaries(selectedSummary, currentSummary) > 0
+  const beatsLatest = compareScores(latest.selected_out_of_sample, latest.current_out_of_sample) > 0
+  const comparison =
+    `out-of-sample score ${selectedSummary.mean_score.toFixed(1)} vs ${currentSummary.mean_score.toFixed(1)}, ` +
+    `return ${selectedSummary.mean_return_percent.toFixed(2)}% vs ${currentSummary.mean_return_percent.toFixed(2)}% ` +
+    `(won ${foldsWon}/${folds} folds)`
+
+  if (latest.selected_parameters === baseline || !beatsOverall || !beatsLatest) {
+    return {
+      agent_id: options.agentId,
+      status: "no_improvement",
+      reason: `Current parameters not beaten: ${comparison}`,
+      evidence,
+    }
+  }
+
+  const timestamp = new Date().toISOString()
+  return {
+    agent_id: options.agentId,
+    status: "improved",
+    reason: `Walk-forward ${comparison}`,
+    update: {
+      agent_id: options.agentId,
+      old_parameters: {
+        ...current,
+        last_updated: current.last_updated || timestamp,
+        optimization_score: current.optimization_score ?? Math.round(latest.current_out_of_sample.score),
+      },
+      new_parameters: {
+        ...latest.selected_parameters,
+        last_updated: timestamp,
+        optimization_score: Math.round(latest.selected_out_of_sample.score),
+      },
+      performance_before: latest.current_out_of_sample.metrics,
+      performance_reason: `Walk-forward ${comparison}`,
+      confidence: Math.round((foldsWon / folds) * 100) / 100,
+      timestamp,
+    },
+    evidence,
+  }
+}
+
+/**
+ * Rolling in-sample/out-of-sample windows over the candles in time order
+ * In-sample windows all have the same length and each out-of-sample window directly follows
+ * its in-sample window; null when any window would be shorter than MIN_WINDOW_CANDLES
+ */
+export function splitWalkForward(
+  candles: CandleData[],
+  folds: number,
+  inSampleRatio: number
+): Array<{ inSample: CandleData[]; outOfSample: CandleData[] }> | null {
+  const sorted = [...candles].sort((a, b) => a.time - b.time)
+  const inSampleSize = Math.floor(sorted.length * inSampleRatio)
+  const outOfSampleSize = Math.floor((sorted.length - inSampleSize) / folds)
+
+  if (inSampleSize < MIN_WINDOW_CANDLES || outOfSampleSize < MIN_WINDOW_CANDLES) return null
+
+  return Array.from({ length: folds }, (_, fold) => {
+    const start = fold * outOfSampleSize
+    return {
+      inSample: sorted.slice(start, start + inSampleSize),
+      outOfSample: sorted.slice(start + inSampleSize, start + inSampleSize + outOfSampleSize),
+    }
+  })
+}
+
+/**
+ * Backtest one parameter set on a window and score it with the learning engine
+ */
+async function evaluate(
+  createStrategy: StrategyFactory,
+  candles: CandleData[],
+  parameters: AgentParameters,
+  options: WalkForwardOptions
+): Promise<CandidateScore> {
+  const result = await runBacktest(
+    (config, client) => {
+      const strategy = createStrategy(config, client)
+      strategy.useParameters(parameters)
+      return strategy
+    },
+    candles,
+    options.backtest
+  )
+
+  const metrics = performanceMetrics(options.agentId, result)
+  return {
+    score: calculateOptimizationScore(metrics),
+    return_percent: result.metrics.totalReturnPercent,
+    metrics,
+  }
+}
+
+/**
+ * Closed backtest fills → learning engine metrics (same path as Aster trade history)
+ * Drawdown comes from the equity curve rather than per-trade PnL
+ */
+function performanceMetrics(agentId: string, result: BacktestResult): PerformanceMetrics {
+  const closedTrades = result.trades
+    .filter((t) => t.realizedPnl !== 0)
+    .map((t) => ({
+      id: t.orderId,
+      symbol: result.symbol,
+      side: t.side,
+      price: t.price,
+      qty: t.quantity,
+      realizedPnl: t.realizedPnl,
+      time: t.time,
+    }))
+
+  return {
+    ...analyzePerformance(agentId, convertAsterTradesToTrades(closedTrades, agentId)),
+    max_drawdown: Math.abs(result.metrics.maxDrawdown),
+    timestamp: new Date(result.endTime).toISOString(),
+  }
+}
+
+/**
+ * Current parameters first, then one-at-a-time variations, then seeded random combinations
+ */
+function generateCandidates(current: AgentParameters, options: WalkForwardOptions): AgentParameters[] {
+  const maxCandidates = options.maxCandidates ?? 40
+  const multipliers = options.multipliers ?? DEFAULT_MULTIPLIERS
+  const random = seededRandom(options.seed ?? 42)
+
+  const values = new Map<OptimizableParameter, number[]>()
+  for (const field of options.fields) {
+    const value = current[field]
+    if (typeof value !== "number" || !Number.isFinite(value)) continue
+
+    const bounds = PARAMETER_BOUNDS[field]
+    const searchValues = multipliers.map((m) => {
+      const bounded = Math.min(Math.max(value * m, bounds.min), bounds.max)
+      return Math.round(bounded * 10000) / 10000
+    })
+    values.set(field, [...new Set(searchValues)])
+  }
+
+  const candidates: AgentParameters[] = [current]
+  const seen = new Set([candidateKey(current, values)])
+  const add = (candidate: AgentParameters) => {
+    const key = candidateKey(candidate, values)
+    if (seen.has(key) || candidates.length >= maxCandidates) return
+    seen.add(key)
+    candidates.push(candidate)
+  }
+
+  for (const [field, fieldValues] of values) {
+    for (const value of fieldValues) {
+      add({ ...current, [field]: value })
+    }
+  }
+
+  const combinations = [...values.values()].reduce((total, v) => total * v.length, 1)
+  const attempts = Math.min(combinations, maxCandidates * 10)
+  for (let i = 0; i < attempts && candidates.length < maxCandidates; i++) {
+    const candidate: AgentParameters = { ...current }
+    for (const [field, fieldValues] of values) {
+      candidate[field] = fieldValues[Math.floor(random() * fieldValues.length)]
+    }
+    add(candidate)
+  }
+
+  return candidates
+}
+
+function candidateKey(parameters: AgentParameters, values: Map<OptimizableParameter, number[]>): string {
+  return [...values.keys()].map((field) => `${field}=${parameters[field]}`).join("|")
+}
+
+/**
+ * Optimization score first, return as the tie-breaker (scores move in steps of 5)
+ */
+function compareScores(a: CandidateScore, b: CandidateScore): number {
+  return a.score - b.score || a.return_percent - b.return_percent
+}
+
+function compareSummaries(
+  a: WalkForwardEvidence["current_out_of_sample"],
+  b: WalkForwardEvidence["current_out_of_sample"]
+): number {
+  return a.mean_score - b.mean_score || a.mean_return_percent - b.mean_return_percent
+}
+
+function summarize(scores: CandidateScore[]): WalkForwardEvidence["current_out_of_sample"] {
+  return {
+    mean_score: scores.reduce((sum, s) => sum + s.score, 0) / scores.length,
+    mean_return_percent: scores.reduce((sum, s) => sum + s.return_percent, 0) / scores.length,
+  }
+}
+
+function windowRange(candles: CandleData[]): WindowRange {
+  return {
+    start_time: candles[0].time,
+    end_time: candles[candles.length - 1].time,
+    candles: candles.length,
+  }
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) so repeated runs test the same candidates
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Walk-Forward Optimizer Runner
+ * Searches strategy parameters on a stored candle file and reports whether they beat
+ * the agent's current parameters out-of-sample
+ * Usage: npm run optimize -- --strategy gemini-grid --symbol ETHUSDT --candles ./data/ETHUSDT-5m.json
+ *
+ * Options:
+ *   --strategy        claude-arbitrage | gpt4-momentum | gemini-grid | deepseek-ml
+ *   --symbol          Trading symbol (e.g., ETHUSDT)
+ *   --candles         JSON file containing an array of CandleData ({ time, open, high, low, close, volume })
+ *   --interval        Instead of --candles: load the candle store range for this interval (needs Supabase)
+ *   --from            Start of the stored range (ISO date or epoch ms)
+ *   --to              End of the stored range (default: now)
+ *   --params          JSON file with the current AgentParameters (default: dashboard, then learning engine defaults)
+ *   --folds           Number of walk-forward folds (default: 3)
+ *   --in-sample       Share of the candles in each in-sample window (default: 0.6)
+ *   --candidates      Candidate parameter sets per fold (default: 40)
+ *   --min-trades      Closed trades an in-sample result needs (default: 5)
+ *   --seed            Candidate sampling seed (default: 42)
+ *   --capital         Starting balance in USDT (default: 1000)
+ *   --out             Write the full result (update + evidence) to this JSON file
+ *   --apply           Store an improved parameter set in the dashboard (POST /api/aster/agents/parameters)
+ */
+
+import { readFileSync, writeFileSync } from "fs"
+import { loadCandles, loadStoredCandles, type StrategyFactory } from "./lib/backtester.ts"
+import { runWalkForward, type OptimizableParameter } from "./lib/walk-forward.ts"
+import { fetchAgentParameters, saveAgentParameters, type AgentParameters } from "./lib/agent-parameters.ts"
+import { DEFAULT_PARAMETERS } from "../lib/learning-engine.ts"
+import { ClaudeArbitrageStrategy } from "./strategies/claude-arbitrage.ts"
+import { ChatGPTOpenAIStrategy } from "./strategies/gpt4-momentum.ts"
+import { GeminiGridStrategy } from "./strategies/gemini-grid.ts"
+import { DeepseekMLStrategy } from "./strategies/deepseek-ml.ts"
+
+const COMMON_FIELDS: OptimizableParameter[] = ["leverage", "position_size", "stop_loss_percent", "take_profit_percent"]
+
+// Fields each strategy maps in applyParameters
+const STRATEGIES: Record<string, { agentId: string; modelId: string; fields: OptimizableParameter[]; create: StrategyFactory }> = {
+  "claude-arbitrage": {
+    agentId: "Claude",
+    modelId: "claude_arbitrage",
+    fields: [...COMMON_FIELDS, "arbitrage_min_spread"],
+    create: (config, client) => new ClaudeArbitrageStrategy(config, client),
+  },
+  "gpt4-momentum": {
+    agentId: "GPT",
+    modelId: "chatgpt_openai",
+    fields: COMMON_FIELDS,
+    create: (config, client) => new ChatGPTOpenAIStrategy(config, client),
+  },
+  "gemini-grid": {
+    agentId: "Gemini",
+    modelId: "gemini_grid",
+    fields: [...COMMON_FIELDS, "grid_interval"],
+    create: (config, client) => new GeminiGridStrategy(config, client),
+  },
+  "deepseek-ml": {
+    agentId: "DeepSeek",
+    modelId: "deepseek_ml",
+    fields: [...COMMON_FIELDS, "ml_confidence_threshold", "prediction_timeframe"],
+    create: (config, client) => new DeepseekMLStrategy(config, client),
+  },
+}
+
+interface CommandLineArgs {
+  strategy?: string
+  symbol?: string
+  candles?: string
+  interval?: string
+  from?: string
+  to?: string
+  params?: string
+  folds?: number
+  inSample?: number
+  candidates?: number
+  minTrades?: number
+  seed?: number
+  capital?: number
+  out?: string
+  apply: boolean
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): CommandLineArgs {
+  const args: CommandLineArgs = {
+    apply: false,
+  }
+
+  process.argv.slice(2).forEach((arg, i, arr) => {
+    const value = arr[i + 1]
+    if (arg === '--strategy' && value) args.strategy = value
+    if (arg === '--symbol' && value) args.symbol = value.toUpperCase()
+    if (arg === '--candles' && value) args.candles = value
+    if (arg === '--interval' && value) args.interval = value
+    if (arg === '--from' && value) args.from = value
+    if (arg === '--to' && value) args.to = value
+    if (arg === '--params' && value) args.params = value
+    if (arg === '--folds' && value) args.folds = parseInt(value)
+    if (arg === '--in-sample' && value) args.inSample = parseFloat(value)
+    if (arg === '--candidates' && value) args.candidates = parseInt(value)
+    if (arg === '--min-trades' && value) args.minTrades = parseInt(value)
+    if (arg === '--seed' && value) args.seed = parseInt(value)
+    if (arg === '--capital' && value) args.capital = parseFloat(value)
+    if (arg === '--out' && value) args.out = value
+    if (arg === '--apply') args.apply = true
+  })
+
+  return args
+}
+
+/**
+ * Current parameters: --params file, then the dashboard, then the learning engine defaults
+ */
+async function loadCurrentParameters(modelId: string, path?: string): Promise<{ parameters: AgentParameters; source: string }> {
+  if (path) {
+    return { parameters: JSON.parse(readFileSync(path, "utf-8")), source: path }
+  }
+
+  const fetched = await fetchAgentParameters(modelId)
+  if (fetched) {
+    return { parameters: fetched, source: "dashboard" }
+  }
+
+  return { parameters: DEFAULT_PARAMETERS[modelId], source: "learning engine defaults" }
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    const args = parseArgs()
+    const entry = args.strategy ? STRATEGIES[args.strategy] : undefined
+
+    if (!entry || !args.symbol || (!args.candles && !(args.interval && args.from))) {
+      console.error('Usage: npm run optimize -- --strategy <name> --symbol <SYMBOL> (--candles <file.json> | --interval 1h --from <date> [--to <date>]) [--folds 3] [--out result.json] [--apply]')
+      console.error(`Strategies: ${Object.keys(STRATEGIES).join(', ')}`)
+      process.exit(1)
+    }
+
+    const candles = args.candles
+      ? loadCandles(args.candles)
+      : await loadStoredCandles(args.symbol, args.interval!, args.from!, args.to)
+    const current = await loadCurrentParameters(entry.modelId, args.params)
+
+    console.log(`\n🔬 Walk-forward optimizing ${args.strategy} on ${args.symbol} (${candles.length} candles)`)
+    console.log(`   Current parameters from ${current.source}, searching ${entry.fields.join(', ')}\n`)
+
+    const result = await runWalkForward(entry.create, candles, current.parameters, {
+      agentId: entry.modelId,
+      fields: entry.fields,
+      folds: args.folds,
+      inSampleRatio: args.inSample,
+      maxCandidates: args.candidates,
+      minTrades: args.minTrades,
+      seed: args.seed,
+      backtest: {
+        agentId: entry.agentId,
+        strategyName: args.strategy,
+        symbol: args.symbol,
+        initialCapital: args.capital,
+      },
+    })
+
+    console.log('='.repeat(70))
+    for (const fold of result.evidence?.folds || []) {
+      console.log(
+        `Fold ${fold.fold}: in-sample ${fold.in_sample.candles} / out-of-sample ${fold.out_of_sample.candles} candles | ` +
+        `selected ${fold.selected_out_of_sample.score} (${fold.selected_out_of_sample.return_percent.toFixed(2)}%) vs ` +
+        `current ${fold.current_out_of_sample.score} (${fold.current_out_of_sample.return_percent.toFixed(2)}%)`
+      )
+    }
+    console.log(`${result.status === "improved" ? "✅" : "➖"} ${result.status}: ${result.reason}`)
+
+    if (result.update) {
+      for (const field of entry.fields) {
+        const before = result.update.old_parameters[field]
+        const after = result.update.new_parameters[field]
+        if (before !== after) console.log(`   ${field}: ${before} → ${after}`)
+      }
+    }
+    console.log('='.repeat(70) + '\n')
+
+    if (args.out) {
+      writeFileSync(args.out, JSON.stringify(result, null, 2))
+      console.log(`✅ Result and evidence written to ${args.out}`)
+    }
+
+    if (args.apply && result.update) {
+      const saved = await saveAgentParameters(entry.modelId, result.update.new_parameters)
+      console.log(saved
+        ? `✅ Stored new parameters for ${entry.modelId}; running agents pick them up on their next refresh`
+        : `❌ Failed to store parameters for ${entry.modelId}`)
+    }
+  } catch (error) {
+    console.error('Fatal error:', error)
+    process.exit(1)
+  }
+}
+
+main()
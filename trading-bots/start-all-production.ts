@@ -2,7 +2,7 @@
  * Production Start Script for Trading Bots
  * Runs all 5 agents in parallel with:
  * - Automatic restart on crash
- * - Graceful shutdown
+ * - Graceful shutdown (SIGTERM/SIGINT: agents cancel orders, --flatten also closes positions)
  * - Health checks
  * - Detailed logging
  */
@@ -56,6 +56,11 @@ const agents: Agent[] = [
 ]
 
 const colorReset = "\x1b[0m"
+
+// Agents cancel resting orders on SIGTERM; with --flatten (or SHUTDOWN_FLATTEN=true) they also close positions
+const flattenOnShutdown = process.argv.includes("--flatten") || process.env.SHUTDOWN_FLATTEN === "true"
+const agentShutdownTimeoutMs = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 25000
+let shuttingDown = false
 const processes: Map<
   string,
   {
@@ -86,6 +91,11 @@ function startAgent(agent: Agent) {
     cwd: __dirname,
     stdio: ["ignore", "pipe", "pipe"],
     timeout: 0,
+    env: {
+      ...globalThis.process.env,
+      SHUTDOWN_FLATTEN: String(flattenOnShutdown),
+      SHUTDOWN_TIMEOUT_MS: String(agentShutdownTimeoutMs),
+    },
   })
 
   process.stdout?.on("data", (data) => {
@@ -101,7 +111,9 @@ function startAgent(agent: Agent) {
   })
 
   process.on("exit", (code) => {
-    if (code !== 0) {
+    if (shuttingDown) {
+      logColor(agent, `Exited with code ${code} during shutdown`)
+    } else if (code !== 0) {
       agent.crashes++
       agent.lastCrashTime = Date.now()
       logColor(agent, `Exited with code ${code} (Crash #${agent.crashes})`)
@@ -111,6 +123,7 @@ function startAgent(agent: Agent) {
       logColor(agent, `Restarting in ${backoffMs / 1000}s...`)
 
       setTimeout(() => {
+        if (shuttingDown) return
         logColor(agent, "Restarting...")
         startAgent(agent)
       }, backoffMs)
@@ -142,44 +155,65 @@ console.log("All agents scheduled. Press Ctrl+C to stop gracefully.\n")
 console.log("Monitor logs: tail -f trading-bots/bots.log")
 console.log("=".repeat(60) + "\n")
 
-// Graceful shutdown
-process.on("SIGINT", () => {
-  log("\n\n⚠️  Received shutdown signal. Stopping agents gracefully...")
+// Graceful shutdown (Ctrl+C locally, SIGTERM from Railway on redeploy)
+function shutdown(signal: NodeJS.Signals) {
+  if (shuttingDown) return
+  shuttingDown = true
+
+  log(
+    `\n\n⚠️  Received ${signal}. Stopping agents gracefully ` +
+    `(cancel orders${flattenOnShutdown ? " + flatten positions" : ""})...`
+  )
 
   let stoppedCount = 0
   const totalProcesses = processes.size
 
+  const markStopped = (agent: Agent) => {
+    stoppedCount++
+    logColor(agent, "Stopped ✓")
+
+    if (stoppedCount === totalProcesses) {
+      log("\n✓ All agents stopped. Exiting.")
+      logStream.end()
+      process.exit(0)
+    }
+  }
+
   processes.forEach(({ process: childProcess, agent }) => {
+    // Crashed agent waiting for its restart
+    if (childProcess.exitCode !== null || childProcess.signalCode !== null) {
+      markStopped(agent)
+      return
+    }
+
     logColor(agent, "Stopping...")
-    childProcess.kill("SIGTERM")
 
-    // Force kill after 10 seconds
+    // Force kill if the agent's own cleanup hangs
     const forceKillTimeout = setTimeout(() => {
-      if (!childProcess.killed) {
+      if (childProcess.exitCode === null) {
         logColor(agent, "Force killing (timeout)")
         childProcess.kill("SIGKILL")
       }
-    }, 10000)
+    }, agentShutdownTimeoutMs + 5000)
 
     childProcess.on("exit", () => {
       clearTimeout(forceKillTimeout)
-      stoppedCount++
-      logColor(agent, "Stopped ✓")
-
-      if (stoppedCount === totalProcesses) {
-        log("\n✓ All agents stopped. Exiting.")
-        logStream.end()
-        process.exit(0)
-      }
+      markStopped(agent)
     })
+
+    // Agent stops opening positions, cancels resting orders and marks itself paused/idle
+    childProcess.kill("SIGTERM")
   })
 
-  // Force exit after 30 seconds
+  // Force exit if agents still haven't stopped
   setTimeout(() => {
-    log("\nForce exiting after 30s timeout")
+    log(`\nForce exiting after ${(agentShutdownTimeoutMs + 10000) / 1000}s timeout`)
     process.exit(1)
-  }, 30000)
-})
+  }, agentShutdownTimeoutMs + 10000)
+}
+
+process.on("SIGINT", () => shutdown("SIGINT"))
+process.on("SIGTERM", () => shutdown("SIGTERM"))
 
 // Handle uncaught errors
 process.on("uncaughtException", (error) => {
@@ -75,15 +75,34 @@ agents.forEach((agent) => {
 console.log("\n" + "=".repeat(60))
 console.log("All agents running. Press Ctrl+C to stop.\n")
 
-// Handle graceful shutdown
-process.on("SIGINT", () => {
+// Handle graceful shutdown (agents cancel their resting orders before exiting)
+let shuttingDown = false
+function shutdown() {
+  if (shuttingDown) return
+  shuttingDown = true
+
   console.log("\n\nShutting down agents...")
-  processes.forEach(({ name, process, color }) => {
-    process.kill()
-    console.log(`${color}✓${"\x1b[0m"} Stopped: ${name}`)
+  const running = processes.filter(({ process }) => process.exitCode === null && process.signalCode === null)
+  let remaining = running.length
+
+  running.forEach(({ name, process: childProcess, color }) => {
+    childProcess.on("exit", () => {
+      console.log(`${color}✓${"\x1b[0m"} Stopped: ${name}`)
+      if (--remaining === 0) {
+        console.log("\nAll agents stopped.")
+        process.exit(0)
+      }
+    })
+    childProcess.kill("SIGTERM")
   })
+
+  if (remaining === 0) process.exit(0)
+
   setTimeout(() => {
-    console.log("\nAll agents stopped.")
-    process.exit(0)
-  }, 2000)
-})
\ No newline at end of file
+    console.log("\nAgents did not stop in time, exiting.")
+    process.exit(1)
+  }, (Number(process.env.SHUTDOWN_TIMEOUT_MS) || 25000) + 5000)
+}
+
+process.on("SIGINT", shutdown)
+process.on("SIGTERM", shutdown)
\ No newline at end of file
@@ -119,7 +119,7 @@ export class BuyAndHoldStrategy extends BaseStrategy {
         reason: `Buy & Hold: Purchasing ${quantityRounded} token(s) (~$${buyAmountAdjusted.toFixed(2)}) at ${priceDisplay}${markupDisplay}. Holding indefinitely. 🎯`,
       }
     } catch (error) {
-      console.error("[Buy & Hold] Error generating signal:", error)
+      this.logger.error("[Buy & Hold] Error generating signal:", error)
       return {
         action: "HOLD",
         quantity: 0,
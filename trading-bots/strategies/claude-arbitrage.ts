@@ -1,11 +1,14 @@
 /**
  * Claude Arbitrage Strategy (Enhanced)
- * Identifies price discrepancies using trend reversion and spread analysis
+ * Trades the Binance–Aster spread when both venues are priced (live/paper), expecting Aster to converge to Binance
+ * Falls back to trend reversion on a single price series in backtests
  */
 
 import { BaseStrategy, TradeSignal } from "../base-strategy.ts"
-import { MarketAnalyzer } from "../lib/market-analyzer.ts"
-import { RiskManager } from "../lib/risk-manager.ts"
+import type { ExchangeClient } from "../lib/aster-client.ts"
+import { MarketAnalyzer, type CandleData } from "../lib/market-analyzer.ts"
+import type { RiskManager } from "../lib/risk-manager.ts"
+import type { AgentParameters, ParameterChange } from "../lib/agent-parameters.ts"
 
 export class ClaudeArbitrageStrategy extends BaseStrategy {
   private params = {
@@ -25,9 +28,9 @@ export class ClaudeArbitrageStrategy extends BaseStrategy {
   private hasInitialBuy = false // Track if initial buy has been executed
   private positionEntryPrice: number | null = null // Store entry price for scale-out logic
 
-  constructor(config: any) {
-    super(config)
-    this.riskManager = new RiskManager({
+  constructor(config: any, client?: ExchangeClient) {
+    super(config, client)
+    this.riskManager = this.createRiskManager({
       maxDrawdownPercent: 15,
       maxPositionSizePercent: 12,
       maxDailyTrades: 25,
@@ -36,6 +39,69 @@ export class ClaudeArbitrageStrategy extends BaseStrategy {
     })
   }
 
+  /**
+   * Apply reloaded dashboard parameters to this strategy's params
+   */
+  protected applyParameters(parameters: AgentParameters): ParameterChange[] {
+    return this.mergeParameters(this.params, {
+      leverage: parameters.leverage,
+      position_size: parameters.position_size,
+      stop_loss_percent: parameters.stop_loss_percent,
+      take_profit_percent: parameters.take_profit_percent,
+      min_spread_percent: parameters.arbitrage_min_spread,
+    })
+  }
+
+  /**
+   * Sell Aster when it trades rich against Binance, buy when it trades cheap
+   * Take profit at the Binance price (spread closed), stop at stop_loss_percent beyond the Aster entry
+   */
+  private venueSpreadSignal(
+    asterPrice: number,
+    binancePrice: number,
+    venueSpread: number,
+    positionSize: number,
+    rsi: number
+  ): TradeSignal {
+    const spreadSize = Math.abs(venueSpread)
+    const direction = venueSpread > 0 ? "rich" : "cheap"
+
+    // Don't fade the spread into an extreme move on the reference market
+    const against = (venueSpread > 0 && rsi < 30) || (venueSpread < 0 && rsi > 70)
+    if (spreadSize <= this.params.min_spread_percent || against) {
+      return {
+        action: "HOLD",
+        quantity: 0,
+        confidence: 0,
+        reason: `Venue spread: Aster $${asterPrice.toFixed(4)} ${venueSpread >= 0 ? "+" : ""}${venueSpread.toFixed(3)}% vs Binance $${binancePrice.toFixed(4)} (min ${this.params.min_spread_percent}%${against ? `, RSI ${rsi.toFixed(0)} against` : ""})`,
+      }
+    }
+
+    const action = venueSpread > 0 ? "SELL" : "BUY"
+    const stopDistance = asterPrice * (this.params.stop_loss_percent / 100)
+    const confidence = Math.min(0.9, 0.6 + (spreadSize / this.params.min_spread_percent - 1) * 0.1)
+
+    this.lastTradeTime = this.now()
+
+    return {
+      action,
+      quantity: Math.floor(positionSize / asterPrice),
+      price: asterPrice,
+      takeProfit: binancePrice,
+      stopLoss: action === "SELL" ? asterPrice + stopDistance : asterPrice - stopDistance,
+      confidence,
+      reason: `Venue arbitrage: Aster ${direction} by ${spreadSize.toFixed(3)}% ($${asterPrice.toFixed(4)} vs Binance $${binancePrice.toFixed(4)}), expecting convergence`,
+    }
+  }
+
+  /**
+   * Start from the seeded 1m closes instead of an empty history
+   */
+  protected seedHistory(candles: CandleData[]): void {
+    super.seedHistory(candles)
+    this.priceHistory = candles.slice(-this.maxHistoryLength).map((c) => c.close)
+  }
+
   async generateSignal(
     currentPrice: number,
     accountInfo: any,
@@ -75,7 +141,7 @@ export class ClaudeArbitrageStrategy extends BaseStrategy {
       if (!existingPosition && this.hasInitialBuy) {
         this.hasInitialBuy = false
         this.positionEntryPrice = null
-        console.log(`[${this.config.name}] 🔄 Position fully closed. Resetting state for re-entry.`)
+        this.logger.log(`[${this.config.name}] 🔄 Position fully closed. Resetting state for re-entry.`)
       }
 
       // INITIAL BUY: Execute immediate buy on startup if no position
@@ -97,7 +163,7 @@ export class ClaudeArbitrageStrategy extends BaseStrategy {
           if (quantity > 0) {
             this.hasInitialBuy = true
             this.positionEntryPrice = currentPrice
-            this.lastTradeTime = Date.now()
+            this.lastTradeTime = this.now()
 
             return {
               action: "BUY",
@@ -111,7 +177,7 @@ export class ClaudeArbitrageStrategy extends BaseStrategy {
       }
 
       // Rate limiting for subsequent trades
-      if (Date.now() - this.lastTradeTime < this.params.min_trade_interval_ms) {
+      if (this.now() - this.lastTradeTime < this.params.min_trade_interval_ms) {
         return {
           action: "HOLD",
           quantity: 0,
@@ -142,7 +208,7 @@ export class ClaudeArbitrageStrategy extends BaseStrategy {
           if (priceGainPercent >= this.params.scale_out_percent || rsi > 70) {
             const scaleOutQty = Math.max(1, Math.floor(quantity * 0.5))
             if (scaleOutQty > 0) {
-              this.lastTradeTime = Date.now()
+              this.lastTradeTime = this.now()
               return {
                 action: "SELL",
                 quantity: scaleOutQty,
@@ -196,6 +262,12 @@ export class ClaudeArbitrageStrategy extends BaseStrategy {
         }
       }
 
+      // Cross-venue spread: orders fill on Aster, Binance is the reference it converges to
+      const priceCheck = this.lastPriceCheck
+      if (priceCheck?.ok && priceCheck.asterPrice && priceCheck.deviationPercent !== null) {
+        return this.venueSpreadSignal(priceCheck.asterPrice, currentPrice, priceCheck.deviationPercent, positionSize, rsi)
+      }
+
       // Signal generation: Mean reversion with trend confirmation
       const isBelowMA = currentPrice < ema20 && currentPrice < sma50
       const isAboveMA = currentPrice > ema20 && currentPrice > sma50
@@ -221,7 +293,7 @@ export class ClaudeArbitrageStrategy extends BaseStrategy {
           0.6 + (spreadPercent * 0.1) + (rsiOversold ? 0.15 : 0)
         )
 
-        this.lastTradeTime = Date.now()
+        this.lastTradeTime = this.now()
 
         // Convert notional to quantity
         const quantity = Math.floor(positionSize / currentPrice)
@@ -256,7 +328,7 @@ export class ClaudeArbitrageStrategy extends BaseStrategy {
           0.6 + (spreadPercent * 0.1) + (rsiOverbought ? 0.15 : 0)
         )
 
-        this.lastTradeTime = Date.now()
+        this.lastTradeTime = this.now()
 
         // Convert notional to quantity
         const quantity = Math.floor(positionSize / currentPrice)
@@ -286,7 +358,7 @@ export class ClaudeArbitrageStrategy extends BaseStrategy {
         reason: `No setup: Spread ${spreadPercent.toFixed(2)}%, Distance from EMA ${distanceFromEMA.toFixed(2)}%, RSI ${rsi.toFixed(0)}. ${positionInfo}${gainsInfo}`,
       }
     } catch (error) {
-      console.error("Error in Claude Arbitrage strategy:", error)
+      this.logger.error("Error in Claude Arbitrage strategy:", error)
       return {
         action: "HOLD",
         quantity: 0,
@@ -5,8 +5,11 @@
  */
 
 import { BaseStrategy, TradeSignal } from "../base-strategy.ts"
+import type { ExchangeClient } from "../lib/aster-client.ts"
 import { MarketAnalyzer, CandleData } from "../lib/market-analyzer.ts"
-import { RiskManager } from "../lib/risk-manager.ts"
+import type { RiskManager } from "../lib/risk-manager.ts"
+import type { AgentParameters, ParameterChange } from "../lib/agent-parameters.ts"
+import type { TimeframeAnalysis } from "../lib/candle-feed.ts"
 
 export class DeepseekMLStrategy extends BaseStrategy {
   private params = {
@@ -29,14 +32,13 @@ export class DeepseekMLStrategy extends BaseStrategy {
   private lastTradeTime = 0
   private lastTradesThisHour: number[] = []
   private riskManager: RiskManager
-  private candles: CandleData[] = []
   private orderBookImbalances: number[] = [] // Track bid/ask imbalance
   private hasInitialBuy = false // Track if initial buy has been executed
   private positionEntryPrice: number | null = null // Store entry price for scale-out logic
 
-  constructor(config: any) {
-    super(config)
-    this.riskManager = new RiskManager({
+  constructor(config: any, client?: ExchangeClient) {
+    super(config, client)
+    this.riskManager = this.createRiskManager({
       maxDrawdownPercent: 12,
       maxPositionSizePercent: 15,
       maxDailyTrades: 30,
@@ -45,6 +47,30 @@ export class DeepseekMLStrategy extends BaseStrategy {
     })
   }
 
+  /**
+   * Apply reloaded dashboard parameters to this strategy's params
+   */
+  protected applyParameters(parameters: AgentParameters): ParameterChange[] {
+    return this.mergeParameters(this.params, {
+      leverage: parameters.leverage,
+      position_size: parameters.position_size,
+      stop_loss_percent: parameters.stop_loss_percent,
+      take_profit_percent: parameters.take_profit_percent,
+      base_confidence_threshold: parameters.ml_confidence_threshold,
+      prediction_timeframe: parameters.prediction_timeframe,
+    })
+  }
+
+  /**
+   * Start from the seeded 1m closes instead of an empty history
+   */
+  protected seedHistory(candles: CandleData[]): void {
+    super.seedHistory(candles)
+    this.priceHistory = candles
+      .slice(-this.maxHistoryLength)
+      .map((c) => ({ price: c.close, time: c.time }))
+  }
+
   async generateSignal(
     currentPrice: number,
     accountInfo: any,
@@ -54,7 +80,7 @@ export class DeepseekMLStrategy extends BaseStrategy {
       // Build price history
       this.priceHistory.push({
         price: currentPrice,
-        time: Date.now(),
+        time: this.now(),
       })
 
       // Maintain extended history
@@ -89,7 +115,7 @@ export class DeepseekMLStrategy extends BaseStrategy {
       if (!existingPosition && this.hasInitialBuy) {
         this.hasInitialBuy = false
         this.positionEntryPrice = null
-        console.log(`[${this.config.name}] 🔄 Position fully closed. Resetting state for re-entry.`)
+        this.logger.log(`[${this.config.name}] 🔄 Position fully closed. Resetting state for re-entry.`)
       }
 
       // INITIAL BUY: Execute immediate buy on startup if no position
@@ -111,8 +137,8 @@ export class DeepseekMLStrategy extends BaseStrategy {
           if (quantity > 0) {
             this.hasInitialBuy = true
             this.positionEntryPrice = currentPrice
-            this.lastTradeTime = Date.now()
-            this.lastTradesThisHour.push(Date.now())
+            this.lastTradeTime = this.now()
+            this.lastTradesThisHour.push(this.now())
 
             return {
               action: "BUY",
@@ -126,7 +152,7 @@ export class DeepseekMLStrategy extends BaseStrategy {
       }
 
       // Check rate limiting
-      if (Date.now() - this.lastTradeTime < this.params.min_trade_interval_ms) {
+      if (this.now() - this.lastTradeTime < this.params.min_trade_interval_ms) {
         return {
           action: "HOLD",
           quantity: 0,
@@ -136,7 +162,7 @@ export class DeepseekMLStrategy extends BaseStrategy {
       }
 
       // Check hourly trade limit
-      const now = Date.now()
+      const now = this.now()
       this.lastTradesThisHour = this.lastTradesThisHour.filter((t) => now - t < 3600000)
       if (this.lastTradesThisHour.length >= this.params.max_trades_per_hour) {
         return {
@@ -190,7 +216,7 @@ export class DeepseekMLStrategy extends BaseStrategy {
         if (priceGainPercent >= this.params.scale_out_percent) {
           const scaleOutQty = Math.max(1, Math.floor(quantity * 0.5))
           if (scaleOutQty > 0) {
-            this.lastTradeTime = Date.now()
+            this.lastTradeTime = this.now()
             this.lastTradesThisHour.push(now)
             return {
               action: "SELL",
@@ -203,17 +229,31 @@ export class DeepseekMLStrategy extends BaseStrategy {
         }
       }
 
-      // Build candle data for better analysis
-      this.updateCandles(currentPrice, accountInfo)
-
       // Calculate market conditions
       const prices = this.priceHistory.map((h) => h.price)
       const volatility = MarketAnalyzer.calculateVolatility(prices, 20)
       const rsi = MarketAnalyzer.calculateRSI(prices, 14)
       const macd = MarketAnalyzer.calculateMACD(prices)
 
+      // Real exchange candles: 5m confirms the tick signals and sizes targets by ATR, 1h sets the trend
+      const m5 = this.candleFeed.analyze("5m")
+      const h1 = this.candleFeed.analyze("1h")
+      const atr = m5 && m5.candles.length > 14 ? m5.atr : undefined
+
+      // Streamed depth: bid/ask imbalance averaged over the last 10 scans
+      const orderBook = this.getOrderBook()
+      if (orderBook) {
+        this.orderBookImbalances.push(MarketAnalyzer.analyzeOrderBook(orderBook).imbalance)
+        if (this.orderBookImbalances.length > 10) this.orderBookImbalances.shift()
+      } else {
+        this.orderBookImbalances = []
+      }
+      const bookImbalance = this.orderBookImbalances.length > 0
+        ? this.orderBookImbalances.reduce((a, b) => a + b, 0) / this.orderBookImbalances.length
+        : 0
+
       // Generate ML prediction with multiple indicators
-      const prediction = this.generateMLPrediction(this.priceHistory, volatility, rsi, macd)
+      const prediction = this.generateMLPrediction(this.priceHistory, volatility, rsi, macd, { m5, h1, bookImbalance })
 
       // Dynamically adjust confidence threshold based on volatility
       const adjustedThreshold = this.calculateDynamicThreshold(volatility, rsi)
@@ -256,7 +296,7 @@ export class DeepseekMLStrategy extends BaseStrategy {
         const targets = MarketAnalyzer.calculateAdaptiveTargets(
           currentPrice,
           volatility,
-          undefined,
+          atr,
           "BUY"
         )
 
@@ -273,9 +313,11 @@ export class DeepseekMLStrategy extends BaseStrategy {
           equity,
           leverage: this.params.leverage,
           volatility,
+          side: "BUY",
+          fundingRate: this.lastPriceCheck?.fundingRate,
         })
 
-        if (riskCheck.recommendedAction === "REDUCE") {
+        if (riskCheck.recommendedAction === "REDUCE" || riskCheck.recommendedAction === "HOLD") {
           return {
             action: "HOLD",
             quantity: 0,
@@ -284,7 +326,7 @@ export class DeepseekMLStrategy extends BaseStrategy {
           }
         }
 
-        this.lastTradeTime = Date.now()
+        this.lastTradeTime = this.now()
         this.lastTradesThisHour.push(now)
 
         // Convert notional to quantity
@@ -304,7 +346,7 @@ export class DeepseekMLStrategy extends BaseStrategy {
         const targets = MarketAnalyzer.calculateAdaptiveTargets(
           currentPrice,
           volatility,
-          undefined,
+          atr,
           "SELL"
         )
 
@@ -319,9 +361,11 @@ export class DeepseekMLStrategy extends BaseStrategy {
           equity,
           leverage: this.params.leverage,
           volatility,
+          side: "SELL",
+          fundingRate: this.lastPriceCheck?.fundingRate,
         })
 
-        if (riskCheck.recommendedAction === "REDUCE") {
+        if (riskCheck.recommendedAction === "REDUCE" || riskCheck.recommendedAction === "HOLD") {
           return {
             action: "HOLD",
             quantity: 0,
@@ -330,7 +374,7 @@ export class DeepseekMLStrategy extends BaseStrategy {
           }
         }
 
-        this.lastTradeTime = Date.now()
+        this.lastTradeTime = this.now()
         this.lastTradesThisHour.push(now)
 
         // Convert notional to quantity
@@ -361,7 +405,7 @@ export class DeepseekMLStrategy extends BaseStrategy {
         reason: `Minimal movement (${changePercent.toFixed(2)}%), threshold: ±${movementThreshold.toFixed(2)}%. ${positionInfo}${gainsInfo}`,
       }
     } catch (error) {
-      console.error("Error in DeepSeek ML strategy:", error)
+      this.logger.error("Error in DeepSeek ML strategy:", error)
       return {
         action: "HOLD",
         quantity: 0,
@@ -378,7 +422,8 @@ export class DeepseekMLStrategy extends BaseStrategy {
     history: Array<{ price: number; time: number }>,
     volatility: number,
     rsi: number,
-    macd: any
+    macd: any,
+    market: { m5: TimeframeAnalysis | null; h1: TimeframeAnalysis | null; bookImbalance: number }
   ): { predictedPrice: number; confidence: number; direction: "UP" | "DOWN" } {
     const prices = history.map((h) => h.price)
     const currentPrice = prices[prices.length - 1]
@@ -445,7 +490,46 @@ export class DeepseekMLStrategy extends BaseStrategy {
       prediction -= currentPrice * 0.008
     }
 
-    // 5. Volatility adjustment (weight: 10%)
+    // 5. Higher timeframe confirmation (5m momentum and bands, 1h trend)
+    const { m5, h1, bookImbalance } = market
+    if (m5) {
+      if (m5.macd.strength > 20 && m5.rsi < 70) {
+        bullishSignals++
+        confidence += 0.06
+      } else if (m5.macd.strength < -20 && m5.rsi > 30) {
+        bearishSignals++
+        confidence += 0.06
+      }
+
+      if (currentPrice < m5.bollinger.lower) {
+        bullishSignals++
+        confidence += 0.04
+      } else if (currentPrice > m5.bollinger.upper) {
+        bearishSignals++
+        confidence += 0.04
+      }
+    }
+    if (h1 && h1.closes.length >= 24) {
+      const hourlyTrend = this.calculateTrend(h1.closes.slice(-24))
+      if (hourlyTrend > 0 && shortTermTrend > 0) {
+        bullishSignals++
+        confidence += 0.05
+      } else if (hourlyTrend < 0 && shortTermTrend < 0) {
+        bearishSignals++
+        confidence += 0.05
+      }
+    }
+
+    // 6. Order book pressure (streamed depth, 0 when unavailable)
+    if (bookImbalance > 0.25) {
+      bullishSignals++
+      confidence += 0.05
+    } else if (bookImbalance < -0.25) {
+      bearishSignals++
+      confidence += 0.05
+    }
+
+    // 7. Volatility adjustment (weight: 10%)
     if (volatility > 0.08) {
       confidence *= 0.8 // High volatility reduces confidence
     } else if (volatility < 0.01) {
@@ -507,40 +591,6 @@ export class DeepseekMLStrategy extends BaseStrategy {
     }
   }
 
-  /**
-   * Update candle data for analysis
-   */
-  private updateCandles(currentPrice: number, accountInfo: any): void {
-    const now = Date.now()
-
-    // Add to current candle or create new one
-    if (
-      this.candles.length === 0 ||
-      now - this.candles[this.candles.length - 1].time > 60000
-    ) {
-      // New 1-minute candle
-      this.candles.push({
-        time: now,
-        open: currentPrice,
-        high: currentPrice,
-        low: currentPrice,
-        close: currentPrice,
-        volume: 1,
-      })
-    } else {
-      const lastCandle = this.candles[this.candles.length - 1]
-      lastCandle.high = Math.max(lastCandle.high, currentPrice)
-      lastCandle.low = Math.min(lastCandle.low, currentPrice)
-      lastCandle.close = currentPrice
-      lastCandle.volume++
-    }
-
-    // Keep last hour of candles
-    if (this.candles.length > 60) {
-      this.candles.shift()
-    }
-  }
-
   /**
    * Calculate price trend with better accuracy
    */
@@ -5,8 +5,10 @@
  */
 
 import { BaseStrategy, TradeSignal } from "../base-strategy.ts"
-import { MarketAnalyzer } from "../lib/market-analyzer.ts"
-import { RiskManager } from "../lib/risk-manager.ts"
+import type { ExchangeClient } from "../lib/aster-client.ts"
+import { MarketAnalyzer, type CandleData } from "../lib/market-analyzer.ts"
+import type { RiskManager } from "../lib/risk-manager.ts"
+import type { AgentParameters, ParameterChange } from "../lib/agent-parameters.ts"
 
 export class GeminiGridStrategy extends BaseStrategy {
   private params = {
@@ -29,9 +31,9 @@ export class GeminiGridStrategy extends BaseStrategy {
   private hasInitialBuy = false // Track if initial buy has been executed
   private positionEntryPrice: number | null = null // Store entry price for scale-out logic
 
-  constructor(config: any) {
-    super(config)
-    this.riskManager = new RiskManager({
+  constructor(config: any, client?: ExchangeClient) {
+    super(config, client)
+    this.riskManager = this.createRiskManager({
       maxDrawdownPercent: 16,
       maxPositionSizePercent: 15,
       maxDailyTrades: 50,
@@ -40,6 +42,20 @@ export class GeminiGridStrategy extends BaseStrategy {
     })
   }
 
+  /**
+   * Apply reloaded dashboard parameters to this strategy's params
+   */
+  protected applyParameters(parameters: AgentParameters): ParameterChange[] {
+    return this.mergeParameters(this.params, {
+      leverage: parameters.leverage,
+      position_size: parameters.position_size,
+      stop_loss_percent: parameters.stop_loss_percent,
+      take_profit_percent: parameters.take_profit_percent,
+      // grid_interval (%) is how far below the MA a dip has to go before buying
+      buy_threshold: parameters.grid_interval !== undefined ? -parameters.grid_interval / 100 : undefined,
+    })
+  }
+
   /**
    * Calculate simple moving average from price history
    */
@@ -59,6 +75,14 @@ export class GeminiGridStrategy extends BaseStrategy {
     return "NEUTRAL"
   }
 
+  /**
+   * Start from the seeded 1m closes instead of an empty history
+   */
+  protected seedHistory(candles: CandleData[]): void {
+    super.seedHistory(candles)
+    this.priceHistory = candles.slice(-100).map((c) => c.close)
+  }
+
   async generateSignal(
     currentPrice: number,
     accountInfo: any,
@@ -96,12 +120,12 @@ export class GeminiGridStrategy extends BaseStrategy {
       
       // DEBUG: Log all positions and symbol matching
       if (positions.length > 0) {
-        console.log(`[${this.config.name}] 🔍 Available positions:`, positions.map(p => ({ symbol: p.symbol, qty: p.quantity || p.amount, unrealizedProfit: p.unrealizedProfit })))
-        console.log(`[${this.config.name}] 🎯 Looking for symbol: ${this.config.symbol}`)
+        this.logger.log(`[${this.config.name}] 🔍 Available positions:`, positions.map(p => ({ symbol: p.symbol, qty: p.quantity || p.amount, unrealizedProfit: p.unrealizedProfit })))
+        this.logger.log(`[${this.config.name}] 🎯 Looking for symbol: ${this.config.symbol}`)
         if (!existingPosition) {
-          console.log(`[${this.config.name}] ⚠️ NO MATCHING POSITION FOUND for ${this.config.symbol}`)
+          this.logger.log(`[${this.config.name}] ⚠️ NO MATCHING POSITION FOUND for ${this.config.symbol}`)
         } else {
-          console.log(`[${this.config.name}] ✅ Found position: ${existingPosition.symbol}, qty=${existingPosition.quantity || existingPosition.amount}, unrealizedProfit=$${existingPosition.unrealizedProfit?.toFixed(2)}`)
+          this.logger.log(`[${this.config.name}] ✅ Found position: ${existingPosition.symbol}, qty=${existingPosition.quantity || existingPosition.amount}, unrealizedProfit=$${existingPosition.unrealizedProfit?.toFixed(2)}`)
         }
       }
 
@@ -109,7 +133,7 @@ export class GeminiGridStrategy extends BaseStrategy {
       if (!existingPosition && this.hasInitialBuy) {
         this.hasInitialBuy = false
         this.positionEntryPrice = null
-        console.log(`[${this.config.name}] 🔄 Position fully closed. Resetting state for re-entry.`)
+        this.logger.log(`[${this.config.name}] 🔄 Position fully closed. Resetting state for re-entry.`)
       }
 
       // INITIAL BUY: Execute immediate buy on startup if no active position
@@ -134,7 +158,7 @@ export class GeminiGridStrategy extends BaseStrategy {
           if (quantity > 0) {
             this.hasInitialBuy = true
             this.positionEntryPrice = currentPrice
-            this.lastCheckTime = Date.now()
+            this.lastCheckTime = this.now()
             this.lastPosition = { quantity, entryPrice: currentPrice }
 
             return {
@@ -149,7 +173,7 @@ export class GeminiGridStrategy extends BaseStrategy {
       }
 
       // Check timing - don't trade too frequently (only after initial buy)
-      const now = Date.now()
+      const now = this.now()
       if (this.hasInitialBuy && now - this.lastCheckTime < this.checkIntervalMs) {
         return {
           action: "HOLD",
@@ -254,7 +278,7 @@ export class GeminiGridStrategy extends BaseStrategy {
         reason: `Holding. Price ${deviation.toFixed(1)}% vs MA (buy <${(this.params.buy_threshold * 100).toFixed(0)}%, sell >${(this.params.sell_threshold * 100).toFixed(0)}%). ${positionInfo}${gainsInfo}`,
       }
     } catch (error) {
-      console.error("Error in Gemini Accumulation strategy:", error)
+      this.logger.error("Error in Gemini Accumulation strategy:", error)
       return {
         action: "HOLD",
         quantity: 0,
@@ -4,8 +4,10 @@
  */
 
 import { BaseStrategy, TradeSignal } from "../base-strategy.ts"
-import { MarketAnalyzer } from "../lib/market-analyzer.ts"
-import { RiskManager } from "../lib/risk-manager.ts"
+import type { ExchangeClient } from "../lib/aster-client.ts"
+import { MarketAnalyzer, type CandleData } from "../lib/market-analyzer.ts"
+import type { RiskManager } from "../lib/risk-manager.ts"
+import type { AgentParameters, ParameterChange } from "../lib/agent-parameters.ts"
 
 export class ChatGPTOpenAIStrategy extends BaseStrategy {
   private params = {
@@ -24,9 +26,9 @@ export class ChatGPTOpenAIStrategy extends BaseStrategy {
   private hasInitialBuy = false // Track if initial buy has been executed
   private positionEntryPrice: number | null = null // Store entry price for scale-out logic
 
-  constructor(config: any) {
-    super(config)
-    this.riskManager = new RiskManager({
+  constructor(config: any, client?: ExchangeClient) {
+    super(config, client)
+    this.riskManager = this.createRiskManager({
       maxDrawdownPercent: 14,
       maxPositionSizePercent: 12,
       maxDailyTrades: 28,
@@ -35,6 +37,26 @@ export class ChatGPTOpenAIStrategy extends BaseStrategy {
     })
   }
 
+  /**
+   * Apply reloaded dashboard parameters to this strategy's params
+   */
+  protected applyParameters(parameters: AgentParameters): ParameterChange[] {
+    return this.mergeParameters(this.params, {
+      leverage: parameters.leverage,
+      position_size: parameters.position_size,
+      stop_loss_percent: parameters.stop_loss_percent,
+      take_profit_percent: parameters.take_profit_percent,
+    })
+  }
+
+  /**
+   * Start from the seeded 1m closes instead of an empty history
+   */
+  protected seedHistory(candles: CandleData[]): void {
+    super.seedHistory(candles)
+    this.priceHistory = candles.slice(-this.maxHistoryLength).map((c) => c.close)
+  }
+
   async generateSignal(
     currentPrice: number,
     accountInfo: any,
@@ -74,7 +96,7 @@ export class ChatGPTOpenAIStrategy extends BaseStrategy {
       if (!existingPosition && this.hasInitialBuy) {
         this.hasInitialBuy = false
         this.positionEntryPrice = null
-        console.log(`[${this.config.name}] 🔄 Position fully closed. Resetting state for re-entry.`)
+        this.logger.log(`[${this.config.name}] 🔄 Position fully closed. Resetting state for re-entry.`)
       }
 
       // INITIAL BUY: Execute immediate buy on startup if no position
@@ -96,7 +118,7 @@ export class ChatGPTOpenAIStrategy extends BaseStrategy {
           if (quantity > 0) {
             this.hasInitialBuy = true
             this.positionEntryPrice = currentPrice
-            this.lastTradeTime = Date.now()
+            this.lastTradeTime = this.now()
 
             return {
               action: "BUY",
@@ -110,7 +132,7 @@ export class ChatGPTOpenAIStrategy extends BaseStrategy {
       }
 
       // Rate limiting for subsequent trades
-      if (Date.now() - this.lastTradeTime < this.params.min_trade_interval_ms) {
+      if (this.now() - this.lastTradeTime < this.params.min_trade_interval_ms) {
         return {
           action: "HOLD",
           quantity: 0,
@@ -141,7 +163,7 @@ export class ChatGPTOpenAIStrategy extends BaseStrategy {
           if (priceGainPercent >= this.params.scale_out_percent || rsi > 70) {
             const scaleOutQty = Math.max(1, Math.floor(quantity * 0.5))
             if (scaleOutQty > 0) {
-              this.lastTradeTime = Date.now()
+              this.lastTradeTime = this.now()
               return {
                 action: "SELL",
                 quantity: scaleOutQty,
@@ -210,7 +232,7 @@ export class ChatGPTOpenAIStrategy extends BaseStrategy {
 
         const confidence = Math.min(0.9, 0.6 + (macd.strength / 100) * 0.2)
 
-        this.lastTradeTime = Date.now()
+        this.lastTradeTime = this.now()
 
         // Convert notional to quantity
         const quantity = Math.floor(positionSize / currentPrice)
@@ -243,7 +265,7 @@ export class ChatGPTOpenAIStrategy extends BaseStrategy {
 
         const confidence = Math.min(0.9, 0.6 + (Math.abs(macd.strength) / 100) * 0.2)
 
-        this.lastTradeTime = Date.now()
+        this.lastTradeTime = this.now()
 
         // Convert notional to quantity
         const quantity = Math.floor(positionSize / currentPrice)
@@ -273,7 +295,7 @@ export class ChatGPTOpenAIStrategy extends BaseStrategy {
         reason: `Waiting for setup: RSI ${rsi.toFixed(0)}, MACD ${macd.strength.toFixed(0)}. ${positionInfo}${gainsInfo}`,
       }
     } catch (error) {
-      console.error("Error in GPT4 Momentum strategy:", error)
+      this.logger.error("Error in GPT4 Momentum strategy:", error)
       return {
         action: "HOLD",
         quantity: 0,